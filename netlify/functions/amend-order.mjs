@@ -0,0 +1,326 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import {
+  canAmendOrder,
+  canPayOrderAmendment,
+  formatAmendmentChanges,
+  formatAmendmentSummary,
+  makeAmendmentReceipt,
+  planOrderAmendment,
+  prepareOrderAmendment,
+  readOrderAmendments,
+  settleOrderAmendment,
+} from '../../src/orders/amendments.ts';
+import { issueReceipt, readReceiptSeller } from '../../src/orders/receipts.ts';
+import { fetchPricingRulesVersion } from '../../src/pricing/pricingRules.ts';
+import { quoteRequestFromFormData } from '../../src/pricing/quotes.ts';
+import { priceQuoteRequest } from '../../src/pricing/quoteRouting.ts';
+import { readTaxProfile, readTaxRegistrations } from '../../src/pricing/taxes.ts';
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+// Post-payment changes to an order (pickup, drop-off, service level), by its customer until pickup or by an admin
+// (`as_staff`) until delivery:
+// - preview: re-quotes the amended order and returns the balance or refund, without saving anything;
+// - submit: saves the amendment and the re-priced order; a refund goes back to the order's payment right away;
+// - pay: pays a balance through Checkout (customer only; stripe-webhook settles it) or the customer's saved card.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const origin = event.headers?.origin || event.headers?.Origin || process.env.URL || 'http://localhost:5173';
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const action = String(body?.action ?? '').trim();
+    const orderCode = String(body?.order_code ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+    const asStaff = body?.as_staff === true;
+
+    if (action !== 'preview' && action !== 'submit' && action !== 'pay') return { statusCode: 400, body: 'Unknown action' };
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    if (asStaff) {
+      const { data: actorProfile } = await admin.from('staff_profiles').select('role, active').eq('user_id', actorId).maybeSingle();
+      if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+        return { statusCode: 403, body: 'Forbidden' };
+      }
+    }
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .select(
+        'id, order_code, user_id, customer_email, status, order_stage, payment_status, stripe_payment_intent_id, price_before_tax, final_price_before_tax, pricing_version, route_area, form_data, amendments, deposit'
+      )
+      .eq('order_code', orderCode)
+      .maybeSingle();
+
+    if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
+    if (!asStaff && order.user_id !== actorId) return { statusCode: 403, body: 'Forbidden' };
+
+    const { data: billingRow } = order.user_id
+      ? await admin
+          .from('billing_profiles')
+          .select('stripe_customer_id, has_saved_payment_method, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
+          .eq('user_id', order.user_id)
+          .maybeSingle()
+      : { data: null };
+
+    const stripe = createStripeClient(stripeSecret);
+    const amendments = readOrderAmendments(order.amendments);
+    const orderLabel = String(order.order_code ?? '').trim();
+
+    if (action === 'pay') {
+      const amendmentId = String(body?.amendment_id ?? '').trim();
+      const method = String(body?.method ?? '').trim();
+      const amendment = amendments.find((a) => a.id === amendmentId);
+      if (!amendment) return { statusCode: 404, body: 'Change not found' };
+      if (amendment.status !== 'balance_due') return { statusCode: 409, body: 'This change has no balance to pay.' };
+      const payable = canPayOrderAmendment(order, asStaff ? 'staff' : 'customer');
+      if (!payable.ok) return { statusCode: 409, body: payable.error };
+
+      const metadata = {
+        purpose: 'amendment',
+        order_id: String(order.id ?? ''),
+        order_code: orderLabel,
+        amendment_id: amendment.id,
+        tax_total: amendment.tax.toFixed(2),
+      };
+      const description = `Change to order ${orderLabel}`;
+      const stripeCustomerId = billingRow?.stripe_customer_id || null;
+
+      if (method === 'checkout') {
+        if (order.user_id !== actorId) return { statusCode: 403, body: 'Only the customer can pay through Checkout.' };
+
+        const lineItems = [
+          {
+            quantity: 1,
+            price_data: {
+              currency: 'cad',
+              unit_amount: Math.round(amendment.difference * 100),
+              product_data: { name: description, description: formatAmendmentChanges(amendment).join(' • ') || undefined },
+            },
+          },
+          ...amendment.tax_lines.map((taxLine) => ({
+            quantity: 1,
+            price_data: {
+              currency: 'cad',
+              unit_amount: Math.round(taxLine.amount * 100),
+              product_data: {
+                name: taxLine.label,
+                description: taxLine.registration_number ? `Registration no. ${taxLine.registration_number}` : undefined,
+              },
+            },
+          })),
+        ];
+
+        const session = await stripe.checkout.sessions.create({
+          mode: 'payment',
+          submit_type: 'pay',
+          locale: 'auto',
+          client_reference_id: orderCode,
+          customer: stripeCustomerId || undefined,
+          customer_email: stripeCustomerId ? undefined : userData.user.email || order.customer_email || undefined,
+          payment_intent_data: { description, metadata },
+          line_items: lineItems,
+          success_url: `${origin}/?checkout=success&order=${encodeURIComponent(order.order_code)}`,
+          cancel_url: `${origin}/?checkout=cancel&order=${encodeURIComponent(order.order_code)}`,
+          metadata,
+        });
+
+        return json({ url: session.url, id: session.id });
+      }
+
+      if (method !== 'saved_card') return { statusCode: 400, body: 'Unknown payment method' };
+      if (!stripeCustomerId || billingRow?.has_saved_payment_method !== true) {
+        return { statusCode: 409, body: 'There is no saved card for this customer.' };
+      }
+
+      const cards = await stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 1 });
+      const paymentMethodId = cards?.data?.[0]?.id;
+      if (!paymentMethodId) return { statusCode: 409, body: 'There is no saved card for this customer.' };
+
+      let paymentIntent;
+      try {
+        paymentIntent = await stripe.paymentIntents.create(
+          {
+            amount: Math.round(amendment.total * 100),
+            currency: 'cad',
+            customer: stripeCustomerId,
+            payment_method: paymentMethodId,
+            off_session: true,
+            confirm: true,
+            description,
+            metadata,
+          },
+          { idempotencyKey: `amend-order-pay-${amendment.id}` }
+        );
+      } catch (err) {
+        // Declined, or the bank wants the customer to confirm the payment themselves.
+        return { statusCode: 402, body: err instanceof Error && err.message ? err.message : 'The saved card was declined.' };
+      }
+      if (paymentIntent?.status !== 'succeeded') {
+        return { statusCode: 402, body: 'The saved card needs to be confirmed by the customer. Please pay through Checkout.' };
+      }
+
+      const now = new Date().toISOString();
+      const settled = settleOrderAmendment(amendments, amendment.id, { at: now, payment_intent_id: paymentIntent.id });
+      const { error: updateErr } = await admin.from('orders').update({ amendments: settled, updated_at: now }).eq('id', order.id);
+      if (updateErr) throw updateErr;
+
+      const paid = settled.find((a) => a.id === amendment.id);
+      await admin.from('order_events').insert({
+        order_id: order.id,
+        status: order.status || 'Scheduled',
+        note: `Order change paid with the saved card: $${amendment.total.toFixed(2)}`,
+        at: now,
+      });
+      if (order.user_id && paid) {
+        await issueReceipt(admin, {
+          user_id: order.user_id,
+          order_code: orderLabel,
+          document: makeAmendmentReceipt({
+            order_code: orderLabel,
+            customer_email: order.customer_email,
+            amendment: paid,
+            seller: readReceiptSeller(process.env),
+          }),
+        });
+      }
+
+      return json({ amendment: paid });
+    }
+
+    const allowed = canAmendOrder(order, asStaff ? 'staff' : 'customer');
+    if (!allowed.ok) return { statusCode: 409, body: allowed.error };
+
+    const prepared = prepareOrderAmendment(order.form_data, body?.changes);
+    if (!Object.keys(prepared.changes).length) return { statusCode: 400, body: 'Nothing to change.' };
+
+    // Both sides are priced with the order's own rules, so the difference is only what the change costs.
+    const rules = await fetchPricingRulesVersion(admin, order.pricing_version);
+    const base = await priceQuoteRequest(quoteRequestFromFormData(order.form_data), rules);
+    if (!base.ok) return { statusCode: 422, body: base.error };
+    const priced = await priceQuoteRequest(quoteRequestFromFormData(prepared.form_data), rules);
+    if (!priced.ok) return { statusCode: 422, body: priced.error };
+
+    const plan = planOrderAmendment({
+      order,
+      by: asStaff ? 'staff' : 'customer',
+      byUser: actorId,
+      reason: body?.reason,
+      prepared,
+      baseQuote: base.quote,
+      quote: priced.quote,
+      registrations: readTaxRegistrations(process.env),
+      profile: billingRow ? readTaxProfile(billingRow) : null,
+    });
+
+    if (action === 'preview') return json({ amendment: plan.amendment, price_before_tax: plan.price_before_tax });
+
+    let amendment = plan.amendment;
+    if (amendment.status === 'refund_due') {
+      if (!order.stripe_payment_intent_id) {
+        return { statusCode: 409, body: 'This order has no Stripe payment to refund. Please refund it from the Stripe dashboard.' };
+      }
+      const refundCents = Math.round(Math.abs(amendment.total) * 100);
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.stripe_payment_intent_id, { expand: ['latest_charge'] });
+      const charge = paymentIntent?.latest_charge && typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+      const refundableCents = Number(charge?.amount_captured ?? paymentIntent?.amount_received ?? 0) - Number(charge?.amount_refunded ?? 0);
+      if (refundCents > refundableCents) {
+        return { statusCode: 409, body: 'The refund is more than what is left of the payment. Please refund it from the Stripe dashboard.' };
+      }
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: order.stripe_payment_intent_id,
+          amount: refundCents,
+          reason: 'requested_by_customer',
+          metadata: { purpose: 'amendment', order_id: String(order.id), order_code: orderLabel, amendment_id: amendment.id },
+        },
+        { idempotencyKey: `amend-order-refund-${amendment.id}` }
+      );
+      [amendment] = settleOrderAmendment([amendment], amendment.id, { at: amendment.at, refund_id: refund.id });
+    }
+
+    const quote = priced.quote;
+    const at = amendment.at;
+    const { error: updateErr } = await admin
+      .from('orders')
+      .update({
+        form_data: plan.form_data,
+        price_before_tax: plan.price_before_tax,
+        final_price_before_tax: plan.final_price_before_tax,
+        route_area: quote.route_area || null,
+        service_level: quote.service_level,
+        sla_days_min: quote.sla_days_min,
+        sla_days_max: quote.sla_days_max,
+        pricing_version: quote.pricing_version,
+        amendments: [...amendments, amendment],
+        updated_at: at,
+      })
+      .eq('id', order.id);
+    if (updateErr) throw updateErr;
+
+    await admin.from('order_events').insert({
+      order_id: order.id,
+      status: order.status || 'Scheduled',
+      note: [
+        `Order changed by ${asStaff ? 'EasyDrive' : 'the customer'}: ${formatAmendmentChanges(amendment).join('; ')}`,
+        amendment.reason,
+        formatAmendmentSummary(amendment),
+      ]
+        .filter(Boolean)
+        .join(' — '),
+      at,
+    });
+
+    if (order.user_id && amendment.status === 'refunded') {
+      await issueReceipt(admin, {
+        user_id: order.user_id,
+        order_code: orderLabel,
+        document: makeAmendmentReceipt({ order_code: orderLabel, customer_email: order.customer_email, amendment, seller: readReceiptSeller(process.env) }),
+      });
+    }
+
+    return json({ amendment });
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
@@ -0,0 +1,185 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import {
+  canCancelOrder,
+  formatCancellationSummary,
+  getPaymentStatusAfterRefund,
+  makeCancellationCreditNote,
+  makeOrderCancellation,
+} from '../../src/orders/cancellation.ts';
+import { issueReceipt, readReceiptSeller } from '../../src/orders/receipts.ts';
+import { fetchPublishedPricingRules } from '../../src/pricing/pricingRules.ts';
+import { computeTax, readTaxProfile, readTaxRegistrations, taxPlaceFromFormData } from '../../src/pricing/taxes.ts';
+
+// Cancels an order for its customer (until pickup) or for an admin (`as_staff`, until delivery). A paid order is
+// refunded against its payment intent, less the published cancellation fee for its stage, and gets a credit note.
+// The order keeps its row and timeline in the cancelled stage.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const orderCode = String(body?.order_code ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+    const reason = String(body?.reason ?? '').trim().slice(0, 500);
+    const asStaff = body?.as_staff === true;
+
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    if (asStaff) {
+      const { data: actorProfile } = await admin.from('staff_profiles').select('role, active').eq('user_id', actorId).maybeSingle();
+      if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+        return { statusCode: 403, body: 'Forbidden' };
+      }
+    }
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .select(
+        'id, order_code, user_id, customer_email, status, order_stage, payment_status, stripe_session_id, stripe_payment_intent_id, route_area, form_data'
+      )
+      .eq('order_code', orderCode)
+      .maybeSingle();
+
+    if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
+    if (!asStaff && order.user_id !== actorId) return { statusCode: 403, body: 'Forbidden' };
+
+    const allowed = canCancelOrder(order, asStaff ? 'staff' : 'customer');
+    if (!allowed.ok) return { statusCode: 409, body: allowed.error };
+
+    const stripe = createStripeClient(stripeSecret);
+
+    // What is left of the payment after any earlier refunds (an order change, a goodwill refund) is what the fee and
+    // refund are worked out from.
+    let amountPaid = 0;
+    if (order.payment_status === 'paid' || order.payment_status === 'partially_refunded') {
+      if (!order.stripe_payment_intent_id) {
+        return { statusCode: 409, body: 'This order has no Stripe payment to refund. Please refund it from the Stripe dashboard.' };
+      }
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.stripe_payment_intent_id, { expand: ['latest_charge'] });
+      const charge = paymentIntent?.latest_charge && typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+      const capturedCents = Number(charge?.amount_captured ?? paymentIntent?.amount_received ?? 0);
+      const refundedCents = Number(charge?.amount_refunded ?? 0);
+      amountPaid = Math.max(0, capturedCents - refundedCents) / 100;
+    } else if (order.payment_status === 'pending' && order.stripe_session_id) {
+      // An open checkout would otherwise still take payment for the cancelled order.
+      try {
+        await stripe.checkout.sessions.expire(order.stripe_session_id);
+      } catch {
+        // ignore (the session may already be complete or expired)
+      }
+    }
+
+    const rules = await fetchPublishedPricingRules(admin);
+    let cancellation = makeOrderCancellation({
+      order,
+      by: asStaff ? 'staff' : 'customer',
+      byUser: actorId,
+      reason,
+      amountPaid,
+      rules,
+    });
+
+    if (cancellation.refund > 0) {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: order.stripe_payment_intent_id,
+          amount: Math.round(cancellation.refund * 100),
+          reason: 'requested_by_customer',
+          metadata: { purpose: 'cancellation', order_id: String(order.id), order_code: String(order.order_code) },
+        },
+        { idempotencyKey: `cancel-order-${order.id}` }
+      );
+      cancellation = { ...cancellation, refund_id: refund.id };
+    }
+
+    const at = cancellation.at;
+    const { error: updateErr } = await admin
+      .from('orders')
+      .update({
+        order_stage: 'cancelled',
+        payment_status: getPaymentStatusAfterRefund(order.payment_status, cancellation.amount_paid, cancellation.refund),
+        cancelled_at: at,
+        cancellation,
+        updated_at: at,
+      })
+      .eq('id', order.id);
+    if (updateErr) throw updateErr;
+
+    await admin.from('order_events').insert({
+      order_id: order.id,
+      status: order.status || 'Scheduled',
+      note: [`Order cancelled by ${asStaff ? 'EasyDrive' : 'the customer'}`, reason, formatCancellationSummary(cancellation)]
+        .filter(Boolean)
+        .join(' — '),
+      at,
+    });
+
+    if (order.user_id && cancellation.amount_paid > 0) {
+      const { data: billingRow } = await admin
+        .from('billing_profiles')
+        .select('gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
+        .eq('user_id', order.user_id)
+        .maybeSingle();
+      const taxes = computeTax(
+        cancellation.amount_paid,
+        taxPlaceFromFormData(order.form_data, order.route_area),
+        readTaxRegistrations(process.env),
+        billingRow ? readTaxProfile(billingRow) : null
+      );
+      await issueReceipt(admin, {
+        user_id: order.user_id,
+        order_code: String(order.order_code),
+        document: makeCancellationCreditNote({
+          order_code: String(order.order_code),
+          customer_email: order.customer_email,
+          cancellation,
+          tax_lines: taxes.lines,
+          seller: readReceiptSeller(process.env),
+        }),
+      });
+    }
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cancellation }),
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
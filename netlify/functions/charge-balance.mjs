@@ -0,0 +1,201 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import { failDepositBalance, getDepositBalanceDue, readOrderDeposit } from '../../src/orders/deposits.ts';
+import { isPaidPaymentStatus } from '../../src/orders/orderStateMachine.ts';
+import { fulfilCheckoutSession } from './stripe-webhook.mjs';
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+// The balance of an order paid by deposit, once it is delivered. Staff (updateOrderStatusAsStaff when they mark the
+// order Delivered, or "Charge balance" in the admin order view) charge it off-session to the card saved at checkout;
+// a decline or a 3-D Secure request is recorded on the order and the customer pays through Checkout (`method:
+// 'checkout'`) from their order page. The paid balance is fulfilled like a checkout session (event and receipt).
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const origin = event.headers?.origin || event.headers?.Origin || process.env.URL || 'http://localhost:5173';
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const orderCode = String(body?.order_code ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+    const method = body?.method === 'checkout' ? 'checkout' : 'saved_card';
+
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .select('id, order_code, user_id, customer_email, status, order_stage, payment_status, route_area, deposit')
+      .eq('order_code', orderCode)
+      .maybeSingle();
+
+    if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
+
+    if (method === 'saved_card') {
+      const { data: actorProfile } = await admin.from('staff_profiles').select('active').eq('user_id', actorId).maybeSingle();
+      if (!actorProfile || actorProfile.active !== true) return { statusCode: 403, body: 'Forbidden' };
+    } else if (order.user_id !== actorId) {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const deposit = readOrderDeposit(order.deposit);
+    const balance = getDepositBalanceDue(deposit);
+    if (!balance) return { statusCode: 409, body: 'This order has no balance to pay.' };
+    if (!isPaidPaymentStatus(order.payment_status)) return { statusCode: 409, body: 'The deposit on this order was refunded.' };
+    if (order.status !== 'Delivered') return { statusCode: 409, body: 'The balance is charged once the order is delivered.' };
+
+    const { data: billingRow } = order.user_id
+      ? await admin.from('billing_profiles').select('stripe_customer_id, has_saved_payment_method').eq('user_id', order.user_id).maybeSingle()
+      : { data: null };
+
+    const stripe = createStripeClient(stripeSecret);
+    const orderLabel = String(order.order_code ?? '').trim();
+    const stripeCustomerId = billingRow?.stripe_customer_id || null;
+    const description = `Balance for order ${orderLabel}`;
+    const metadata = {
+      purpose: 'balance',
+      order_id: String(order.id ?? ''),
+      order_code: orderLabel,
+      balance: balance.toFixed(2),
+    };
+
+    if (method === 'checkout') {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        submit_type: 'pay',
+        locale: 'auto',
+        client_reference_id: orderCode,
+        customer: stripeCustomerId || undefined,
+        customer_email: stripeCustomerId ? undefined : userData.user.email || order.customer_email || undefined,
+        payment_intent_data: { description, metadata },
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: 'cad',
+              unit_amount: Math.round(balance * 100),
+              product_data: {
+                name: description,
+                description: `Order total $${deposit.total.toFixed(2)}, tax included, less the $${deposit.deposit.toFixed(2)} deposit`,
+              },
+            },
+          },
+        ],
+        success_url: `${origin}/?checkout=success&order=${encodeURIComponent(order.order_code)}`,
+        cancel_url: `${origin}/?checkout=cancel&order=${encodeURIComponent(order.order_code)}`,
+        metadata,
+      });
+
+      return json({ url: session.url, id: session.id });
+    }
+
+    const now = new Date().toISOString();
+
+    // The customer is asked to pay from their order page; the webhook also records Stripe's failure event.
+    const recordFailure = async (message) => {
+      const { error: failErr } = await admin
+        .from('orders')
+        .update({ deposit: failDepositBalance(deposit, message), updated_at: now })
+        .eq('id', order.id);
+      if (failErr) throw failErr;
+      await admin.from('order_events').insert({
+        order_id: order.id,
+        status: order.status,
+        note: `Balance of $${balance.toFixed(2)} not charged: ${message.replace(/\.$/, '')} — the customer pays it from their order page`,
+        at: now,
+      });
+      return { statusCode: 402, body: message };
+    };
+
+    const cards =
+      stripeCustomerId && billingRow?.has_saved_payment_method === true
+        ? await stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 1 })
+        : null;
+    const paymentMethodId = cards?.data?.[0]?.id;
+    if (!paymentMethodId) return recordFailure('There is no saved card for this customer.');
+
+    // A retry after a failure is a new attempt: the customer may have been asked to update their card.
+    const idempotencyKey = deposit.balance_status === 'failed' ? `charge-balance-${order.id}-${now}` : `charge-balance-${order.id}`;
+    let paymentIntent = null;
+    try {
+      paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(balance * 100),
+          currency: 'cad',
+          customer: stripeCustomerId,
+          payment_method: paymentMethodId,
+          off_session: true,
+          confirm: true,
+          description,
+          metadata,
+        },
+        { idempotencyKey }
+      );
+    } catch (err) {
+      if (err?.code !== 'authentication_required') {
+        return recordFailure(err instanceof Error && err.message ? err.message : 'The saved card was declined.');
+      }
+      paymentIntent = err?.raw?.payment_intent ?? null;
+    }
+
+    if (paymentIntent?.status !== 'succeeded') {
+      // The bank wants the customer to confirm the payment themselves.
+      if (paymentIntent?.id) {
+        try {
+          await stripe.paymentIntents.cancel(paymentIntent.id);
+        } catch {
+          // ignore
+        }
+      }
+      return recordFailure('The bank asked the customer to confirm the payment');
+    }
+
+    await fulfilCheckoutSession(
+      { stripe, supabaseAdmin: admin, now },
+      { payment_status: 'paid', payment_intent: paymentIntent.id, customer: stripeCustomerId, metadata }
+    );
+
+    const { data: saved } = await admin.from('orders').select('deposit').eq('id', order.id).maybeSingle();
+    return json({ deposit: readOrderDeposit(saved?.deposit) });
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
@@ -0,0 +1,172 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import { getClosedOrderError, isPaidPaymentStatus } from '../../src/orders/orderStateMachine.ts';
+import {
+  formatAccessorialIds,
+  formatAccessorialQuantity,
+  formatAccessorialUnit,
+  getAccessorialsTotal,
+  getUnpaidAccessorials,
+  readOrderAccessorials,
+} from '../../src/pricing/accessorials.ts';
+import { TAX_EXEMPTION_TYPES, computeTax, readTaxProfile, readTaxRegistrations, taxPlaceFromFormData } from '../../src/pricing/taxes.ts';
+
+// Checkout for accessorials staff attached after the order was paid (waiting time at delivery, storage days, ...).
+// The order's own payment is untouched; stripe-webhook marks the charged accessorials paid and writes a receipt.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const origin = event.headers?.origin || event.headers?.Origin || process.env.URL || 'http://localhost:5173';
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const orderCode = String(body?.order_code ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const userId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .select('id, order_code, user_id, customer_email, order_stage, payment_status, route_area, accessorials, form_data')
+      .eq('order_code', orderCode)
+      .maybeSingle();
+
+    if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
+    if (order.user_id !== userId) return { statusCode: 403, body: 'Forbidden' };
+    const closedError = getClosedOrderError(order);
+    if (closedError) return { statusCode: 409, body: closedError };
+    if (!isPaidPaymentStatus(order.payment_status)) {
+      return { statusCode: 409, body: 'This order is not paid yet; its extra charges are included when you pay for it.' };
+    }
+
+    const chargedAccessorials = getUnpaidAccessorials(readOrderAccessorials(order.accessorials));
+    if (!chargedAccessorials.length) return { statusCode: 409, body: 'This order has no extra charges to pay.' };
+    const accessorialsTotal = getAccessorialsTotal(chargedAccessorials);
+
+    const { data: billingRow } = await admin
+      .from('billing_profiles')
+      .select('stripe_customer_id, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Same place of supply and approved exemption as the order's own checkout.
+    const taxes = computeTax(
+      accessorialsTotal,
+      taxPlaceFromFormData(order.form_data, order.route_area),
+      readTaxRegistrations(process.env),
+      billingRow ? readTaxProfile(billingRow) : null
+    );
+    const exemptionLabel = taxes.exemption ? TAX_EXEMPTION_TYPES[taxes.exemption].label : '';
+
+    const checkoutCurrency = 'cad';
+    const orderLabel = String(order.order_code ?? '').trim();
+
+    const lineItems = chargedAccessorials.map((accessorial) => ({
+      quantity: 1,
+      price_data: {
+        currency: checkoutCurrency,
+        unit_amount: Math.round(accessorial.amount * 100),
+        product_data: {
+          name: [accessorial.label, formatAccessorialQuantity(accessorial)].filter(Boolean).join(' '),
+          description:
+            [
+              `$${accessorial.unit_price.toFixed(2)} ${formatAccessorialUnit(accessorial.unit)}`,
+              accessorial.note || '',
+              orderLabel ? `Order: ${orderLabel}` : '',
+              exemptionLabel ? `Tax exempt: ${exemptionLabel}` : '',
+            ]
+              .filter(Boolean)
+              .join(' • ') || undefined,
+        },
+      },
+    }));
+
+    for (const taxLine of taxes.lines) {
+      if (!(taxLine.amount > 0)) continue;
+      lineItems.push({
+        quantity: 1,
+        price_data: {
+          currency: checkoutCurrency,
+          unit_amount: Math.round(taxLine.amount * 100),
+          product_data: {
+            name: taxLine.label,
+            description: taxLine.registration_number ? `Registration no. ${taxLine.registration_number}` : undefined,
+          },
+        },
+      });
+    }
+
+    const metadata = {
+      purpose: 'accessorials',
+      order_id: String(order.id ?? ''),
+      order_code: orderLabel,
+      accessorial_ids: formatAccessorialIds(chargedAccessorials),
+      accessorials_total: accessorialsTotal.toFixed(2),
+      tax_province: taxes.province,
+      tax_total: taxes.tax.toFixed(2),
+      tax_exemption: taxes.exemption || '',
+    };
+
+    const stripe = createStripeClient(stripeSecret);
+
+    const stripeCustomerId = billingRow?.stripe_customer_id || null;
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      submit_type: 'pay',
+      locale: 'auto',
+      client_reference_id: orderCode,
+      customer: stripeCustomerId || undefined,
+      customer_email: stripeCustomerId ? undefined : userData.user.email || order.customer_email || undefined,
+      payment_intent_data: {
+        description: orderLabel ? `Extra charges for order ${orderLabel}` : undefined,
+        metadata,
+      },
+      line_items: lineItems,
+      success_url: `${origin}/?checkout=success&order=${encodeURIComponent(order.order_code)}`,
+      cancel_url: `${origin}/?checkout=cancel&order=${encodeURIComponent(order.order_code)}`,
+      metadata,
+    });
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: session.url, id: session.id }),
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
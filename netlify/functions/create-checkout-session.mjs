@@ -1,6 +1,46 @@
-import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import {
+  formatAccessorialIds,
+  formatAccessorialQuantity,
+  formatAccessorialUnit,
+  getAccessorialsTotal,
+  getUnpaidAccessorials,
+  readOrderAccessorials,
+} from '../../src/pricing/accessorials.ts';
+import { getDepositAmount } from '../../src/orders/deposits.ts';
+import { formatBillingTerms, readBillingTerms } from '../../src/orders/invoices.ts';
+import { getClosedOrderError, getStageAfterPayment } from '../../src/orders/orderStateMachine.ts';
+import { fetchDiscountRules } from '../../src/pricing/discounts.ts';
+import { fetchPublishedPricingRules } from '../../src/pricing/pricingRules.ts';
+import { formatOrderLegLabel, readOrderLegs } from '../../src/pricing/legs.ts';
+import {
+  formatDepositRule,
+  formatFulfillmentDays,
+  getDepositRule,
+  getServiceLevelLabel,
+  getServiceTypeLabel,
+  getVehicleClass,
+} from '../../src/pricing/pricingTable.ts';
+import {
+  findQuoteLegMismatch,
+  findQuoteVehicleMismatch,
+  getQuoteLegLines,
+  getQuoteVehicleLines,
+  isQuoteExpired,
+  taxPlaceFromQuote,
+} from '../../src/pricing/quotes.ts';
+import { verifyQuoteToken } from '../../src/pricing/quoteToken.ts';
+import { TAX_EXEMPTION_TYPES, computeTax, readTaxProfile, readTaxRegistrations } from '../../src/pricing/taxes.ts';
+import { formatOrderVehicleLabel, readOrderVehicles, splitAmountByWeights } from '../../src/pricing/vehicles.ts';
+import { fulfilCheckoutSession } from './stripe-webhook.mjs';
 
+// Starts Stripe Checkout for an order, or with `payment_method: 'saved_card'` charges the card saved at an earlier
+// checkout off-session for the same amount. A paid saved-card charge is fulfilled like a paid checkout session (order,
+// event and receipt); when the bank asks for 3-D Secure the customer is sent to Checkout instead. Accounts approved
+// for invoice terms can use `payment_method: 'invoice'`: the order is placed on account and billed on the monthly
+// statement (manage-invoices). On routes with a deposit rule either card payment only takes the deposit; the balance is
+// charged at delivery (charge-balance).
 export const handler = async (event) => {
   try {
     if (event.httpMethod !== 'POST') {
@@ -13,6 +53,7 @@ export const handler = async (event) => {
     const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
     const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
     const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+    const quoteSecret = process.env.QUOTE_SIGNING_SECRET;
 
     if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
     if (String(stripeSecret).trim().startsWith('pk_')) {
@@ -23,13 +64,17 @@ export const handler = async (event) => {
     }
     if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
     if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!quoteSecret) return { statusCode: 500, body: 'Missing QUOTE_SIGNING_SECRET' };
 
     const body = event.body ? JSON.parse(event.body) : {};
     const orderCode = String(body?.order_code ?? '').trim();
     const accessToken = String(body?.access_token ?? '').trim();
+    const useSavedCard = body?.payment_method === 'saved_card';
+    const useInvoice = body?.payment_method === 'invoice';
 
     if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
     if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+    if ((useSavedCard || useInvoice) && !supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
 
     const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
       global: {
@@ -52,57 +97,192 @@ export const handler = async (event) => {
       : supabaseAuth;
 
     const selectFields = supabaseServiceRoleKey
-      ? 'id, order_code, price_before_tax, final_price_before_tax, currency, user_id, payment_status, order_stage, route_area, form_data'
-      : 'id, order_code, price_before_tax, final_price_before_tax, currency, payment_status, order_stage, route_area, form_data';
+      ? 'id, order_code, price_before_tax, final_price_before_tax, pricing_version, quote_token, quote_expires_at, currency, user_id, status, payment_status, order_stage, stripe_session_id, route_area, accessorials, form_data'
+      : 'id, order_code, price_before_tax, final_price_before_tax, pricing_version, quote_token, quote_expires_at, currency, payment_status, order_stage, route_area, accessorials, form_data';
 
     const { data: order, error: orderErr } = await db.from('orders').select(selectFields).eq('order_code', orderCode).maybeSingle();
 
     if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
     if (supabaseServiceRoleKey && order.user_id !== userId) return { statusCode: 403, body: 'Forbidden' };
+    if (order.payment_status === 'paid') return { statusCode: 409, body: 'This order has already been paid.' };
+    if (order.payment_status === 'invoiced') return { statusCode: 409, body: 'This order is billed to your account.' };
+    const closedError = getClosedOrderError(order);
+    if (closedError) return { statusCode: 409, body: closedError };
 
+    const pricingRules = await fetchPublishedPricingRules(db);
+    const orderPricingVersion = Number.isInteger(order.pricing_version) ? order.pricing_version : pricingRules.version;
+
+    // Only a server-signed quote can set the price; the stored row must still agree with it.
+    const requestedQuoteToken = String(body?.quote_token ?? '').trim();
+    if (requestedQuoteToken && requestedQuoteToken !== String(order.quote_token ?? '').trim()) {
+      return { statusCode: 409, body: 'This quote does not belong to the order. Please refresh the quote.' };
+    }
+    const verified = await verifyQuoteToken(order.quote_token, quoteSecret, { allowExpired: true });
+    if (!verified.ok) {
+      return { statusCode: 409, body: `This order has no valid quote (${verified.error}). Please refresh the quote before paying.` };
+    }
+    const quote = verified.quote;
+    const storedAmount = Number(order.price_before_tax);
+    if (!Number.isFinite(storedAmount) || Math.abs(storedAmount - quote.price_before_tax) > 0.005) {
+      return {
+        statusCode: 409,
+        body: `Price mismatch: the order says $${Number.isFinite(storedAmount) ? storedAmount.toFixed(2) : '?'} but its quote is $${quote.price_before_tax.toFixed(2)} before tax. Please refresh the quote.`,
+      };
+    }
+
+    // final_price_before_tax is only set by staff when they approve an offer.
     const finalAmountRaw = Number(order.final_price_before_tax);
-    const fallbackAmountRaw = Number(order.price_before_tax);
-    const amount = Number.isFinite(finalAmountRaw) && finalAmountRaw > 0 ? finalAmountRaw : fallbackAmountRaw;
+    const hasApprovedOffer = Number.isFinite(finalAmountRaw) && finalAmountRaw > 0;
+
+    // Past the validity window the customer has to confirm a fresh price (refresh-quote) before paying.
+    // Approved offers keep their price: staff agreed to that amount.
+    const quoteExpiresAt = order.quote_expires_at || quote.expires_at;
+    if (!hasApprovedOffer && isQuoteExpired(quoteExpiresAt)) {
+      return {
+        statusCode: 409,
+        body: `This quote expired on ${new Date(quoteExpiresAt).toISOString().slice(0, 10)}. Please refresh the quote to confirm the current price before paying.`,
+      };
+    }
+
+    if (quote.customer_id && quote.customer_id !== userId) return { statusCode: 403, body: 'This quote was issued to another customer.' };
+
+    // Customers can still edit form_data on an unpaid order, so it must describe what the quote priced: the same
+    // legs and vehicles. This covers Checkout, the saved card and billing on account alike. refresh-quote only
+    // re-prices the quoted route, so a changed one needs a new quote.
+    const mismatch = findQuoteLegMismatch(quote, order.form_data) ?? findQuoteVehicleMismatch(quote, order.form_data);
+    if (mismatch) {
+      return { statusCode: 409, body: mismatch.replace('Please refresh the quote.', 'Please start a new quote for this order.') };
+    }
+
+    // An approved offer replaces the quoted price, discounts included. A promo code may have reached its limits
+    // since the quote was signed; contract rates are honoured until the quote expires, like the price.
+    const discounts = hasApprovedOffer ? [] : Array.isArray(quote.discounts) ? quote.discounts : [];
+    const discountTotal = discounts.length ? Number(quote.discount_total) || 0 : 0;
+    if (!hasApprovedOffer && quote.promo_code) {
+      const lookup = await fetchDiscountRules(db, { userId, promoCode: quote.promo_code });
+      if (lookup.promo_error) return { statusCode: 409, body: `${lookup.promo_error} Please refresh the quote.` };
+    }
+
+    const amount = hasApprovedOffer ? finalAmountRaw : quote.price_before_tax;
     if (!Number.isFinite(amount) || amount <= 0) return { statusCode: 400, body: 'Invalid order amount' };
+    // The vehicle or leg lines carry the price before discounts; the discounts are one negative (coupon) line.
+    const grossAmount = Math.round((amount + discountTotal) * 100) / 100;
+
+    const loadingFee = Number.isFinite(quote.loading_fee) && quote.loading_fee > 0 ? quote.loading_fee : 0;
+
+    // Accessorials staff attached before payment are charged with the order, one line each, and taxed with it.
+    const chargedAccessorials = getUnpaidAccessorials(readOrderAccessorials(order.accessorials));
+    const accessorialsTotal = getAccessorialsTotal(chargedAccessorials);
+    const taxableAmount = Math.round((amount + accessorialsTotal) * 100) / 100;
 
-    const orderFormData = order?.form_data && typeof order.form_data === 'object' ? order.form_data : null;
-    const rawLoadingFee = Number(orderFormData?.vehicle_loading_fee ?? 0);
-    const loadingFee = Number.isFinite(rawLoadingFee) && rawLoadingFee > 0 ? rawLoadingFee : 0;
-    const safeLoadingFee = loadingFee > 0 && loadingFee < amount ? loadingFee : 0;
-    const transportAmount = safeLoadingFee ? amount - safeLoadingFee : amount;
+    // One Stripe line per vehicle. The charged amount (quote or approved offer), before promo and contract discounts,
+    // is split by the quoted vehicle prices, so the lines always add up to it to the cent; loading fees and the multi-car discount are included per vehicle.
+    const quoteVehicles = getQuoteVehicleLines(quote);
+    const orderVehicles = readOrderVehicles(order.form_data);
+    const vehicleAmounts = splitAmountByWeights(grossAmount, quoteVehicles.map((line) => line.price_before_tax));
 
-    const routeArea = String(order.route_area ?? '').trim().toLowerCase();
-    const isQc = routeArea.includes('montreal') || routeArea.includes('quebec');
-    const taxRate = isQc ? 0.14975 : 0.13;
-    const taxLabel = isQc ? 'GST + QST (QC)' : 'HST (ON)';
-    const taxAmount = Math.round(amount * taxRate * 100) / 100;
+    // Round trips and multi-leg moves get one line per leg instead, split the same way by the quoted leg prices.
+    const quoteLegs = getQuoteLegLines(quote);
+    const orderLegs = readOrderLegs(order.form_data);
+    const legAmounts = splitAmountByWeights(grossAmount, quoteLegs.map((line) => line.price_before_tax));
 
     const checkoutCurrency = 'cad';
-    const taxRateLabel = isQc ? (taxRate * 100).toFixed(3) : (taxRate * 100).toFixed(0);
 
-    const stripe = new Stripe(stripeSecret, { apiVersion: '2024-06-20' });
+    const stripe = createStripeClient(stripeSecret);
 
     const now = new Date().toISOString();
 
+    // The checkout the customer may have left open would take a second payment, whichever way they pay now.
+    const expireOpenCheckout = async () => {
+      if (order.payment_status !== 'pending' || !order.stripe_session_id) return;
+      try {
+        await stripe.checkout.sessions.expire(order.stripe_session_id);
+      } catch {
+        // ignore (the session may already be complete or expired)
+      }
+    };
+
+    // Nothing is charged now: the statement bills the order at this price, with its accessorials and tax, once it
+    // is delivered.
+    if (useInvoice) {
+      const { data: termsRow } = await db.from('billing_profiles').select('payment_terms, net_terms_days').eq('user_id', userId).maybeSingle();
+      const terms = readBillingTerms(termsRow);
+      if (terms.payment_terms !== 'invoice') return { statusCode: 403, body: 'This account is not approved for invoice billing.' };
+
+      await expireOpenCheckout();
+
+      const { error: invoicedErr } = await db
+        .from('orders')
+        .update({
+          payment_status: 'invoiced',
+          order_stage: getStageAfterPayment(order.order_stage),
+          pricing_version: orderPricingVersion,
+          updated_at: now,
+        })
+        .eq('id', order.id);
+      if (invoicedErr) throw invoicedErr;
+
+      await db.from('order_events').insert({
+        order_id: order.id,
+        status: order.status || 'Scheduled',
+        note: `Billed to account (${formatBillingTerms(terms)})`,
+        at: now,
+      });
+
+      return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ invoiced: true }),
+      };
+    }
+
     const routeAreaDisplay = String(order.route_area ?? '').trim();
     const orderLabel = String(order.order_code ?? '').trim();
     const serviceLabel = 'EasyDrive Vehicle Transport';
-    const productDescription = [routeAreaDisplay ? `Route: ${routeAreaDisplay}` : '', orderLabel ? `Order: ${orderLabel}` : '']
+    // Quotes signed before service levels were all standard.
+    const serviceLevel = quote.service_level || 'standard';
+    const serviceLevelDescription =
+      serviceLevel === 'standard'
+        ? ''
+        : `Service level: ${getServiceLevelLabel(serviceLevel)}${quote.sla_days_max ? ` (delivery in ${formatFulfillmentDays({ days_min: quote.sla_days_min, days_max: quote.sla_days_max })})` : ''}`;
+    const productDescription = [
+      routeAreaDisplay ? `Route: ${routeAreaDisplay}` : '',
+      orderLabel ? `Order: ${orderLabel}` : '',
+      serviceLevelDescription,
+    ]
       .filter(Boolean)
       .join(' • ');
 
     let stripeCustomerId = null;
+    let hasSavedCard = false;
+    let taxProfile = null;
     try {
       const { data: billingRow } = await db
         .from('billing_profiles')
-        .select('stripe_customer_id')
+        .select('stripe_customer_id, has_saved_payment_method, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
         .eq('user_id', userId)
         .maybeSingle();
       stripeCustomerId = billingRow?.stripe_customer_id || null;
+      hasSavedCard = billingRow?.has_saved_payment_method === true;
+      taxProfile = billingRow ? readTaxProfile(billingRow) : null;
     } catch {
       stripeCustomerId = null;
     }
 
+    // Only an exemption staff approved on the billing profile changes the tax; pending ones are charged in full.
+    const taxes = computeTax(taxableAmount, taxPlaceFromQuote(quote), readTaxRegistrations(process.env), taxProfile);
+    const exemptionLabel = taxes.exemption ? TAX_EXEMPTION_TYPES[taxes.exemption].label : '';
+
+    // Exactly what Checkout charges for the whole order: the lines below add up to the gross amount, the accessorials
+    // and each tax, less the discount coupon.
+    const totalCents =
+      Math.round(grossAmount * 100) +
+      chargedAccessorials.reduce((sum, a) => sum + Math.round(a.amount * 100), 0) +
+      taxes.lines.reduce((sum, l) => sum + (l.amount > 0 ? Math.round(l.amount * 100) : 0), 0) -
+      Math.round(discountTotal * 100);
+    const depositRule = getDepositRule(order.route_area, pricingRules);
+    const depositAmount = getDepositAmount(totalCents / 100, depositRule);
+
     if (!stripeCustomerId) {
       const customer = await stripe.customers.create({
         email: userEmail || undefined,
@@ -127,44 +307,253 @@ export const handler = async (event) => {
       }
     }
 
-    const lineItems = [
-      {
+    const vehicleCount = quoteVehicles.length;
+    const legCount = quoteLegs.length;
+    const baseName = routeAreaDisplay ? `${serviceLabel} — ${routeAreaDisplay}` : serviceLabel;
+    const legLineItems = quoteLegs.map((line, i) => {
+      const leg = orderLegs[i];
+      return {
         quantity: 1,
         price_data: {
           currency: checkoutCurrency,
-          unit_amount: Math.round(transportAmount * 100),
+          unit_amount: Math.round(legAmounts[i] * 100),
           product_data: {
-            name: routeAreaDisplay ? `${serviceLabel} — ${routeAreaDisplay}` : serviceLabel,
-            description: productDescription || undefined,
+            name: `${serviceLabel} — ${getServiceTypeLabel(quote.service_type)}, leg ${i + 1} of ${legCount}`,
+            description:
+              [
+                leg ? formatOrderLegLabel(leg, i) : `${line.pickup_address} → ${line.dropoff_address}`,
+                orderLabel ? `Order: ${orderLabel}` : '',
+                vehicleCount > 1 ? `${vehicleCount} vehicles` : '',
+                line.loading_fee > 0 ? `Includes $${line.loading_fee.toFixed(2)} loading fees (non-running vehicles)` : '',
+                line.multi_vehicle_discount > 0 ? `Multi-car discount: -$${line.multi_vehicle_discount.toFixed(2)}` : '',
+                line.round_trip_discount > 0 ? `Round-trip discount: -$${line.round_trip_discount.toFixed(2)}` : '',
+                serviceLevelDescription,
+                line.service_level_fee > 0 ? `Includes $${line.service_level_fee.toFixed(2)} service-level surcharge` : '',
+                exemptionLabel ? `Tax exempt: ${exemptionLabel}` : '',
+              ]
+                .filter(Boolean)
+                .join(' • ') || undefined,
           },
         },
-      },
-    ];
+      };
+    });
+    const vehicleLineItems = quoteVehicles.map((line, i) => {
+      const vehicle = orderVehicles[i];
+      const vin = String(vehicle?.vin || line.vin || '').trim();
+      return {
+        quantity: 1,
+        price_data: {
+          currency: checkoutCurrency,
+          unit_amount: Math.round(vehicleAmounts[i] * 100),
+          product_data: {
+            name:
+              vehicleCount > 1
+                ? `${baseName} — Vehicle ${i + 1} of ${vehicleCount}: ${formatOrderVehicleLabel(vehicle ?? line, i)}`
+                : baseName,
+            description:
+              [
+                productDescription,
+                vin ? `VIN: ${vin}` : '',
+                `Class: ${getVehicleClass(line.vehicle_type).label}`,
+                line.loading_fee > 0 ? `Includes $${line.loading_fee.toFixed(2)} loading fee (non-running vehicle)` : '',
+                line.discount > 0 ? `Multi-car discount: -$${line.discount.toFixed(2)}` : '',
+                line.service_level_fee > 0 ? `Includes $${line.service_level_fee.toFixed(2)} service-level surcharge` : '',
+                exemptionLabel ? `Tax exempt: ${exemptionLabel}` : '',
+              ]
+                .filter(Boolean)
+                .join(' • ') || undefined,
+          },
+        },
+      };
+    });
 
-    if (safeLoadingFee) {
+    const lineItems = legCount > 1 ? legLineItems : vehicleLineItems;
+
+    for (const accessorial of chargedAccessorials) {
       lineItems.push({
         quantity: 1,
         price_data: {
           currency: checkoutCurrency,
-          unit_amount: Math.round(safeLoadingFee * 100),
+          unit_amount: Math.round(accessorial.amount * 100),
           product_data: {
-            name: 'Loading fee',
-            description: 'Non-running/non-driving vehicle handling (paid at checkout).',
+            name: [accessorial.label, formatAccessorialQuantity(accessorial)].filter(Boolean).join(' '),
+            description:
+              [
+                `$${accessorial.unit_price.toFixed(2)} ${formatAccessorialUnit(accessorial.unit)}`,
+                accessorial.note || '',
+                orderLabel ? `Order: ${orderLabel}` : '',
+                exemptionLabel ? `Tax exempt: ${exemptionLabel}` : '',
+              ]
+                .filter(Boolean)
+                .join(' • ') || undefined,
           },
         },
       });
     }
 
-    lineItems.push({
-      quantity: 1,
-      price_data: {
-        currency: checkoutCurrency,
-        unit_amount: Math.round(taxAmount * 100),
-        product_data: {
-          name: `${taxLabel} (${taxRateLabel}%)`,
+    // One line per tax so GST and QST (or HST) show separately on the Stripe receipt.
+    for (const taxLine of taxes.lines) {
+      if (!(taxLine.amount > 0)) continue;
+      lineItems.push({
+        quantity: 1,
+        price_data: {
+          currency: checkoutCurrency,
+          unit_amount: Math.round(taxLine.amount * 100),
+          product_data: {
+            name: taxLine.label,
+            description: taxLine.registration_number ? `Registration no. ${taxLine.registration_number}` : undefined,
+          },
         },
-      },
-    });
+      });
+    }
+
+    const paymentIntentMetadata = {
+      order_id: String(order.id ?? ''),
+      order_code: orderLabel,
+      route_area: routeAreaDisplay,
+      vehicle_loading_fee: String(loadingFee),
+      service_level: serviceLevel,
+      vehicle_count: String(vehicleCount),
+      leg_count: String(legCount),
+      pricing_version: String(orderPricingVersion),
+      tax_province: taxes.province,
+      // reconcile-payments checks the charged tax against the order with it.
+      tax_total: taxes.tax.toFixed(2),
+      tax_exemption: taxes.exemption || '',
+      promo_code: discountTotal > 0 ? quote.promo_code || '' : '',
+      discount_total: discountTotal.toFixed(2),
+      accessorial_ids: formatAccessorialIds(chargedAccessorials),
+      accessorials_total: accessorialsTotal.toFixed(2),
+      deposit_amount: depositAmount ? depositAmount.toFixed(2) : '',
+    };
+    const sessionMetadata = {
+      order_id: order.id,
+      order_code: order.order_code,
+      route_area: routeAreaDisplay,
+      pricing_version: String(orderPricingVersion),
+      service_level: serviceLevel,
+      vehicle_count: String(vehicleCount),
+      leg_count: String(legCount),
+      tax_province: taxes.province,
+      tax_total: taxes.tax.toFixed(2),
+      tax_exemption: taxes.exemption || '',
+      promo_code: discountTotal > 0 ? quote.promo_code || '' : '',
+      discount_total: discountTotal.toFixed(2),
+      accessorial_ids: formatAccessorialIds(chargedAccessorials),
+      accessorials_total: accessorialsTotal.toFixed(2),
+      // fulfilCheckoutSession records the deposit on the order with the rule it was taken with.
+      deposit_amount: depositAmount ? depositAmount.toFixed(2) : '',
+      deposit_percent: depositAmount ? String(depositRule.percent) : '',
+      deposit_flat: depositAmount ? String(depositRule.flat) : '',
+    };
+    const successUrl = `${origin}/?checkout=success&order=${encodeURIComponent(order.order_code)}`;
+
+    if (useSavedCard) {
+      if (!stripeCustomerId || !hasSavedCard) return { statusCode: 409, body: 'There is no saved card for this customer.' };
+      const cards = await stripe.paymentMethods.list({ customer: stripeCustomerId, type: 'card', limit: 1 });
+      const paymentMethodId = cards?.data?.[0]?.id;
+      if (!paymentMethodId) return { statusCode: 409, body: 'There is no saved card for this customer.' };
+
+      await expireOpenCheckout();
+
+      const amountCents = depositAmount ? Math.round(depositAmount * 100) : totalCents;
+
+      // Stripe replays a key's first result for a day, so a retry after a decline (or a card the bank wanted
+      // authenticated) needs a new key to charge the card again. The key counts this order's unsuccessful payments
+      // of that day, so a double submit, or a retry after a charge that went through, still gets the first result.
+      let attempt = 0;
+      const since = Math.floor(Date.parse(now) / 1000) - 24 * 60 * 60;
+      for await (const earlier of stripe.paymentIntents.list({ customer: stripeCustomerId, created: { gte: since }, limit: 100 })) {
+        if (earlier.metadata?.order_id !== String(order.id) || earlier.metadata?.purpose) continue;
+        if (earlier.status !== 'succeeded' && earlier.status !== 'processing') attempt += 1;
+      }
+
+      let paymentIntent = null;
+      try {
+        paymentIntent = await stripe.paymentIntents.create(
+          {
+            amount: amountCents,
+            currency: checkoutCurrency,
+            customer: stripeCustomerId,
+            payment_method: paymentMethodId,
+            off_session: true,
+            confirm: true,
+            description: productDescription || undefined,
+            metadata: paymentIntentMetadata,
+          },
+          { idempotencyKey: `saved-card-${order.id}-${amountCents}-${attempt}` }
+        );
+      } catch (err) {
+        if (err?.code !== 'authentication_required') {
+          return { statusCode: 402, body: err instanceof Error && err.message ? err.message : 'The saved card was declined.' };
+        }
+        paymentIntent = err?.raw?.payment_intent ?? null;
+      }
+
+      if (paymentIntent?.status === 'succeeded') {
+        await fulfilCheckoutSession(
+          { stripe, supabaseAdmin: db, now },
+          { payment_status: 'paid', payment_intent: paymentIntent.id, customer: stripeCustomerId, metadata: sessionMetadata }
+        );
+        return {
+          statusCode: 200,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url: successUrl, paid: true }),
+        };
+      }
+
+      // The bank wants the customer to authenticate: drop the attempt and let them pay through Checkout below.
+      if (paymentIntent?.id) {
+        try {
+          await stripe.paymentIntents.cancel(paymentIntent.id);
+        } catch {
+          // ignore
+        }
+      }
+    }
+
+    // A deposit is one line for its amount, tax included; the discounts are already taken off the total it is worked out from.
+    const depositLineItems = depositAmount
+      ? [
+          {
+            quantity: 1,
+            price_data: {
+              currency: checkoutCurrency,
+              unit_amount: Math.round(depositAmount * 100),
+              product_data: {
+                name: `Deposit — ${baseName}`,
+                description: [
+                  `${formatDepositRule(depositRule)} (order total $${(totalCents / 100).toFixed(2)}, tax included)`,
+                  `The balance of $${(totalCents / 100 - depositAmount).toFixed(2)} is charged to this card at delivery`,
+                  orderLabel ? `Order: ${orderLabel}` : '',
+                ]
+                  .filter(Boolean)
+                  .join(' • '),
+              },
+            },
+          },
+        ]
+      : null;
+
+    // Checkout lines cannot be negative, so the discounts are a one-off coupon for exactly their total. Tax was computed
+    // on the discounted amount above.
+    let discountCoupon = null;
+    if (discountTotal > 0 && !depositLineItems) {
+      discountCoupon = await stripe.coupons.create({
+        amount_off: Math.round(discountTotal * 100),
+        currency: checkoutCurrency,
+        duration: 'once',
+        max_redemptions: 1,
+        name: discounts
+          .map((d) => d.label)
+          .join(' + ')
+          .slice(0, 40),
+        metadata: { order_code: orderLabel, promo_code: quote.promo_code || '' },
+      });
+    }
+
+    // After a saved-card attempt the bank wanted authenticated, the open checkout is already expired.
+    if (!useSavedCard) await expireOpenCheckout();
 
     const session = await stripe.checkout.sessions.create({
       mode: 'payment',
@@ -175,32 +564,29 @@ export const handler = async (event) => {
       payment_intent_data: {
         setup_future_usage: 'off_session',
         description: productDescription || undefined,
-        metadata: {
-          order_id: String(order.id ?? ''),
-          order_code: orderLabel,
-          route_area: routeAreaDisplay,
-          vehicle_loading_fee: String(safeLoadingFee || 0),
-        },
+        metadata: paymentIntentMetadata,
       },
       custom_text: {
         submit: {
           message: 'Secure payment powered by Stripe. A receipt will be emailed after payment.',
         },
       },
-      line_items: lineItems,
-      success_url: `${origin}/?checkout=success&order=${encodeURIComponent(order.order_code)}`,
+      line_items: depositLineItems ?? lineItems,
+      discounts: discountCoupon ? [{ coupon: discountCoupon.id }] : undefined,
+      success_url: successUrl,
       cancel_url: `${origin}/?checkout=cancel&order=${encodeURIComponent(order.order_code)}`,
-      metadata: {
-        order_id: order.id,
-        order_code: order.order_code,
-        route_area: routeAreaDisplay,
-      },
+      metadata: sessionMetadata,
     });
 
     try {
       await db
         .from('orders')
-        .update({ payment_status: 'pending', stripe_session_id: session.id, order_stage: 'pending_payment' })
+        .update({
+          payment_status: 'pending',
+          stripe_session_id: session.id,
+          order_stage: 'pending_payment',
+          pricing_version: orderPricingVersion,
+        })
         .eq('id', order.id);
     } catch {
       // ignore
@@ -209,7 +595,7 @@ export const handler = async (event) => {
     return {
       statusCode: 200,
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url: session.url, id: session.id }),
+      body: JSON.stringify({ url: session.url, id: session.id, ...(useSavedCard ? { requires_action: true } : {}) }),
     };
   } catch (err) {
     return {
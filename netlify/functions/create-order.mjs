@@ -0,0 +1,151 @@
+import { createClient } from '@supabase/supabase-js';
+import { applyQuoteToFormData, findQuoteLegMismatch, findQuoteVehicleMismatch } from '../../src/pricing/quotes.ts';
+import { verifyQuoteToken } from '../../src/pricing/quoteToken.ts';
+
+const formatCad = (n) => `$${Number(n).toFixed(2)}`;
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+    const quoteSecret = process.env.QUOTE_SIGNING_SECRET;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+    if (!quoteSecret) return { statusCode: 500, body: 'Missing QUOTE_SIGNING_SECRET' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const accessToken = String(body?.access_token ?? '').trim();
+    const quoteToken = String(body?.quote_token ?? '').trim();
+    const orderCode = String(body?.order_code ?? '').trim();
+    const orderStage = String(body?.order_stage ?? '').trim() === 'draft' ? 'draft' : 'pending_payment';
+
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+    if (!quoteToken) return { statusCode: 400, body: 'Missing quote_token' };
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const userId = userData.user.id;
+
+    const verified = await verifyQuoteToken(quoteToken, quoteSecret);
+    if (!verified.ok) return { statusCode: 409, body: verified.error };
+    const quote = verified.quote;
+
+    // Contract rates and promo codes are signed for one customer.
+    if (quote.customer_id && quote.customer_id !== userId) return { statusCode: 403, body: 'This quote was issued to another customer.' };
+
+    // The browser sends the price it showed; if it differs, the customer never saw the price we would charge.
+    // Screens that do not show discounts send the price before them; the discount only lowers what is charged.
+    const submittedRaw = body?.price_before_tax;
+    if (submittedRaw !== undefined && submittedRaw !== null && submittedRaw !== '') {
+      const submitted = Number(submittedRaw);
+      const beforeDiscounts = quote.price_before_tax + (Number(quote.discount_total) || 0);
+      if (
+        !Number.isFinite(submitted) ||
+        (Math.abs(submitted - quote.price_before_tax) > 0.005 && Math.abs(submitted - beforeDiscounts) > 0.005)
+      ) {
+        return {
+          statusCode: 409,
+          body: `Price mismatch: this quote is ${formatCad(quote.price_before_tax)} before tax, but ${Number.isFinite(submitted) ? formatCad(submitted) : 'an invalid amount'} was submitted. Please review the updated quote.`,
+        };
+      }
+    }
+
+    // The quote's service type decides how many legs the order has; its service level is what was priced.
+    const submittedFormData = body?.form_data && typeof body.form_data === 'object' ? body.form_data : {};
+    const formData = {
+      ...submittedFormData,
+      service: { ...submittedFormData.service, service_type: quote.service_type, service_level: quote.service_level },
+    };
+
+    const legMismatch = findQuoteLegMismatch(quote, formData);
+    if (legMismatch) return { statusCode: 409, body: legMismatch };
+
+    const vehicleMismatch = findQuoteVehicleMismatch(quote, formData);
+    if (vehicleMismatch) return { statusCode: 409, body: vehicleMismatch };
+
+    // Anything that affects the price comes from the quote, not from the submitted form.
+    const orderFormData = { ...applyQuoteToFormData(formData, quote), quote_id: quote.quote_id };
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const now = new Date().toISOString();
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .insert({
+        order_code: orderCode,
+        user_id: userId,
+        customer_name: String(body?.customer_name ?? '').trim() || null,
+        customer_email: String(body?.customer_email ?? '').trim() || userData.user.email || null,
+        route_area: quote.route_area || null,
+        service_type: quote.service_type,
+        service_level: quote.service_level,
+        sla_days_min: quote.sla_days_min,
+        sla_days_max: quote.sla_days_max,
+        vehicle_type: quote.vehicle_type,
+        price_before_tax: quote.price_before_tax,
+        pricing_version: quote.pricing_version,
+        promo_code: quote.promo_code || null,
+        discount_total: Number(quote.discount_total) || 0,
+        quote_token: quoteToken,
+        quote_expires_at: quote.expires_at,
+        currency: 'CAD',
+        status: 'Scheduled',
+        payment_status: 'unpaid',
+        order_stage: orderStage,
+        form_data: orderFormData,
+        documents: body?.documents ?? null,
+        updated_at: now,
+      })
+      .select('*')
+      .single();
+
+    if (orderErr) {
+      if (orderErr.code === '23505') return { statusCode: 409, body: 'An order with this code already exists' };
+      return { statusCode: 500, body: orderErr.message };
+    }
+
+    const discountNote = quote.discount_total
+      ? ` with ${formatCad(quote.discount_total)} off${quote.promo_code ? ` (promo ${quote.promo_code})` : ''}`
+      : '';
+    const { error: evErr } = await admin.from('order_events').insert({
+      order_id: order.id,
+      status: 'Scheduled',
+      note: `${orderStage === 'draft' ? 'Quote saved' : 'Order created'}${discountNote}`,
+      at: now,
+    });
+
+    if (evErr) return { statusCode: 500, body: evErr.message };
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order }),
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import { applyQuoteDiscounts, fetchDiscountRules, normalizePromoCode } from '../../src/pricing/discounts.ts';
+import { fetchPublishedPricingRules } from '../../src/pricing/pricingRules.ts';
+import { normalizeQuoteRequest } from '../../src/pricing/quotes.ts';
+import { priceQuoteRequest } from '../../src/pricing/quoteRouting.ts';
+import { signQuoteToken } from '../../src/pricing/quoteToken.ts';
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+    const quoteSecret = process.env.QUOTE_SIGNING_SECRET;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!quoteSecret) return { statusCode: 500, body: 'Missing QUOTE_SIGNING_SECRET' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const request = normalizeQuoteRequest(body?.request ?? body);
+    const accessToken = String(body?.access_token ?? '').trim();
+    const promoCode = normalizePromoCode(body?.promo_code);
+
+    if (!request.pickup.address) return { statusCode: 400, body: 'Missing pickup address' };
+    if (!request.dropoff.address) return { statusCode: 400, body: 'Missing drop-off address' };
+
+    // Quotes are shown before login, so the anon client is enough to read published pricing.
+    const db = createClient(supabaseUrl, supabaseServiceRoleKey || supabaseAnonKey, {
+      auth: { persistSession: false },
+    });
+    const rules = await fetchPublishedPricingRules(db);
+
+    const priced = await priceQuoteRequest(request, rules);
+    if (!priced.ok) return { statusCode: 422, body: priced.error };
+
+    // Signed-in customers get their contract rate and, when asked for, a promo code. The quote is then tied to them.
+    let quote = priced.quote;
+    if (accessToken || promoCode) {
+      if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+      let userId = null;
+      if (accessToken) {
+        const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+          global: {
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+            },
+          },
+          auth: { persistSession: false },
+        });
+        const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+        if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+        userId = userData.user.id;
+      }
+      const lookup = await fetchDiscountRules(db, { userId, promoCode });
+      if (lookup.promo_error) return { statusCode: 422, body: lookup.promo_error };
+      quote = applyQuoteDiscounts(quote, lookup.rules, userId);
+    }
+
+    const { token, payload } = await signQuoteToken(quote, quoteSecret);
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ quote: payload, token }),
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
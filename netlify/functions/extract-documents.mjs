@@ -1,3 +1,5 @@
+import { inferVehicleTypeFromDecode } from '../../src/pricing/pricingTable.ts';
+
 const sanitizeFilename = (name) => {
   const base = String(name ?? '').trim() || 'document';
   return base.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 160);
@@ -416,8 +418,11 @@ const decodeVinViaNhtsa = async (vin) => {
   const year = String(first.ModelYear ?? '').trim();
   const make = String(first.Make ?? '').trim();
   const model = String(first.Model ?? '').trim();
-  if (!year && !make && !model) return null;
-  return { vin: v, year, make, model };
+  const body_class = String(first.BodyClass ?? '').trim();
+  const vehicle_type = String(first.VehicleType ?? '').trim();
+  const gvwr = String(first.GVWR ?? '').trim();
+  if (!year && !make && !model && !body_class) return null;
+  return { vin: v, year, make, model, body_class, vehicle_type, gvwr };
 };
 
 const extractTextForFile = async (file) => {
@@ -509,15 +514,17 @@ export const handler = async (event) => {
       make: String(ymmFromText?.make ?? '').trim(),
       model: String(ymmFromText?.model ?? '').trim(),
     };
-    const shouldDecodeVin =
-      !!baseVehicle.vin && (!baseVehicle.year.trim() || !baseVehicle.make.trim() || !baseVehicle.model.trim());
-    const decodedVehicle = shouldDecodeVin ? await decodeVinViaNhtsa(baseVehicle.vin).catch(() => null) : null;
+    // Always decode when there is a VIN: body class and GVWR drive the vehicle class even when YMM is in the text.
+    const decodedVehicle = baseVehicle.vin ? await decodeVinViaNhtsa(baseVehicle.vin).catch(() => null) : null;
     const vehicle = decodedVehicle
       ? {
           vin: baseVehicle.vin || decodedVehicle.vin,
           year: baseVehicle.year || decodedVehicle.year,
           make: baseVehicle.make || decodedVehicle.make,
           model: baseVehicle.model || decodedVehicle.model,
+          body_class: decodedVehicle.body_class,
+          gvwr: decodedVehicle.gvwr,
+          vehicle_class: inferVehicleTypeFromDecode({ ...decodedVehicle, model: baseVehicle.model || decodedVehicle.model }),
         }
       : baseVehicle;
 
@@ -0,0 +1,237 @@
+import { createClient } from '@supabase/supabase-js';
+import { CUSTOMER_CONTRACT_FIELDS, PROMO_CODE_FIELDS, fetchDiscountRules, normalizePromoCode } from '../../src/pricing/discounts.ts';
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+const roundCents = (n) => Math.round(n * 100) / 100;
+
+// Blank is null; anything else must be a positive number (integers for the usage limits).
+const readOptionalNumber = (v, { integer = false } = {}) => {
+  if (v === null || v === undefined || String(v).trim() === '') return { ok: true, value: null };
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0 || (integer && !Number.isInteger(n))) return { ok: false, value: null };
+  return { ok: true, value: n };
+};
+
+const readOptionalDate = (v) => {
+  const raw = String(v ?? '').trim();
+  if (!raw) return { ok: true, value: null };
+  const at = Date.parse(raw);
+  return Number.isFinite(at) ? { ok: true, value: new Date(at).toISOString() } : { ok: false, value: null };
+};
+
+// Customers check which discounts they would get (their contract rate and a promo code);
+// admins manage promo codes and contract rates and see how often each code was redeemed.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const action = String(body?.action ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+
+    if (!action) return { statusCode: 400, body: 'Missing action' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    if (action === 'check') {
+      const lookup = await fetchDiscountRules(admin, { userId: actorId, promoCode: body?.promo_code });
+      if (lookup.promo_error) return { statusCode: 422, body: lookup.promo_error };
+      return json({ rules: lookup.rules });
+    }
+
+    // Everything below is admin only.
+    const { data: actorProfile } = await supabaseAuth
+      .from('staff_profiles')
+      .select('role, active')
+      .eq('user_id', actorId)
+      .maybeSingle();
+
+    if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const now = new Date().toISOString();
+
+    if (action === 'list') {
+      const { data: codes, error: codesErr } = await admin.from('promo_codes').select(PROMO_CODE_FIELDS).order('created_at', { ascending: false });
+      if (codesErr) return { statusCode: 500, body: codesErr.message };
+
+      // Approved offers replace the quoted price, so their discount was never charged.
+      const { data: redeemed, error: redeemedErr } = await admin
+        .from('orders')
+        .select('promo_code, discount_total, final_price_before_tax')
+        .in('payment_status', ['paid', 'invoiced'])
+        .not('promo_code', 'is', null);
+      if (redeemedErr) return { statusCode: 500, body: redeemedErr.message };
+
+      const usage = new Map();
+      for (const row of Array.isArray(redeemed) ? redeemed : []) {
+        const code = normalizePromoCode(row.promo_code);
+        const entry = usage.get(code) ?? { redemptions: 0, discount_given: 0 };
+        entry.redemptions += 1;
+        const offer = Number(row.final_price_before_tax);
+        if (!(Number.isFinite(offer) && offer > 0)) entry.discount_given = roundCents(entry.discount_given + (Number(row.discount_total) || 0));
+        usage.set(code, entry);
+      }
+
+      const { data: contracts, error: contractsErr } = await admin
+        .from('customer_contracts')
+        .select(CUSTOMER_CONTRACT_FIELDS)
+        .order('updated_at', { ascending: false });
+      if (contractsErr) return { statusCode: 500, body: contractsErr.message };
+
+      const contractRows = Array.isArray(contracts) ? contracts : [];
+      const emails = new Map();
+      if (contractRows.length) {
+        const { data: orderRows } = await admin
+          .from('orders')
+          .select('user_id, customer_email, created_at')
+          .in('user_id', contractRows.map((c) => c.user_id))
+          .order('created_at', { ascending: false });
+        for (const row of Array.isArray(orderRows) ? orderRows : []) {
+          if (row.customer_email && !emails.has(row.user_id)) emails.set(row.user_id, row.customer_email);
+        }
+      }
+
+      return json({
+        promo_codes: (Array.isArray(codes) ? codes : []).map((code) => ({
+          ...code,
+          ...(usage.get(code.code) ?? { redemptions: 0, discount_given: 0 }),
+        })),
+        contracts: contractRows.map((c) => ({ ...c, email: emails.get(c.user_id) ?? null })),
+      });
+    }
+
+    if (action === 'save_promo_code') {
+      const code = normalizePromoCode(body?.code);
+      if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+        return { statusCode: 400, body: 'Promo codes are 3 to 32 letters, digits, dashes or underscores' };
+      }
+
+      const percent = readOptionalNumber(body?.percent_off);
+      const amount = readOptionalNumber(body?.amount_off);
+      if (!percent.ok || (percent.value !== null && percent.value > 100)) return { statusCode: 400, body: 'Invalid percent_off' };
+      if (!amount.ok) return { statusCode: 400, body: 'Invalid amount_off' };
+      if ((percent.value === null) === (amount.value === null)) {
+        return { statusCode: 400, body: 'Set either a percentage or a fixed amount off' };
+      }
+
+      const validFrom = readOptionalDate(body?.valid_from);
+      const validUntil = readOptionalDate(body?.valid_until);
+      if (!validFrom.ok) return { statusCode: 400, body: 'Invalid valid_from' };
+      if (!validUntil.ok) return { statusCode: 400, body: 'Invalid valid_until' };
+      if (validFrom.value && validUntil.value && Date.parse(validUntil.value) <= Date.parse(validFrom.value)) {
+        return { statusCode: 400, body: 'valid_until must be after valid_from' };
+      }
+
+      const maxRedemptions = readOptionalNumber(body?.max_redemptions, { integer: true });
+      const maxPerCustomer = readOptionalNumber(body?.max_per_customer, { integer: true });
+      if (!maxRedemptions.ok) return { statusCode: 400, body: 'Invalid max_redemptions' };
+      if (!maxPerCustomer.ok) return { statusCode: 400, body: 'Invalid max_per_customer' };
+
+      const row = {
+        code,
+        description: String(body?.description ?? '').trim() || null,
+        percent_off: percent.value,
+        amount_off: amount.value === null ? null : roundCents(amount.value),
+        valid_from: validFrom.value,
+        valid_until: validUntil.value,
+        max_redemptions: maxRedemptions.value,
+        max_per_customer: maxPerCustomer.value,
+        active: body?.active !== false,
+        updated_at: now,
+      };
+
+      const { data: existing, error: existingErr } = await admin.from('promo_codes').select('code').eq('code', code).maybeSingle();
+      if (existingErr) return { statusCode: 500, body: existingErr.message };
+
+      const { data: saved, error: saveErr } = existing
+        ? await admin.from('promo_codes').update(row).eq('code', code).select(PROMO_CODE_FIELDS).single()
+        : await admin
+            .from('promo_codes')
+            .insert({ ...row, created_by: actorId })
+            .select(PROMO_CODE_FIELDS)
+            .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      return json({ promo_code: saved });
+    }
+
+    if (action === 'set_contract') {
+      const userId = String(body?.user_id ?? '').trim();
+      if (!userId) return { statusCode: 400, body: 'Missing user_id' };
+
+      const percent = readOptionalNumber(body?.percent_off);
+      if (!percent.ok || (percent.value !== null && percent.value > 100)) return { statusCode: 400, body: 'Invalid percent_off' };
+
+      // Quotes already signed with the old rate keep it until they expire.
+      if (percent.value === null) {
+        const { error: delErr } = await admin.from('customer_contracts').delete().eq('user_id', userId);
+        if (delErr) return { statusCode: 500, body: delErr.message };
+        return json({ contract: null });
+      }
+
+      const validUntil = readOptionalDate(body?.valid_until);
+      if (!validUntil.ok) return { statusCode: 400, body: 'Invalid valid_until' };
+
+      const { data: saved, error: saveErr } = await admin
+        .from('customer_contracts')
+        .upsert(
+          {
+            user_id: userId,
+            percent_off: percent.value,
+            valid_until: validUntil.value,
+            note: String(body?.note ?? '').trim() || null,
+            updated_by: actorId,
+            updated_at: now,
+          },
+          { onConflict: 'user_id' }
+        )
+        .select(CUSTOMER_CONTRACT_FIELDS)
+        .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      return json({ contract: saved });
+    }
+
+    return { statusCode: 400, body: 'Unknown action' };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
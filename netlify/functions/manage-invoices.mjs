@@ -0,0 +1,277 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  INVOICE_FIELDS,
+  formatStatementPeriod,
+  getInvoiceDueDate,
+  getPreviousStatementPeriod,
+  getStatementPeriodEnd,
+  isStatementPeriod,
+  isValidNetTermsDays,
+  makeInvoiceLine,
+  makeStatementReceipt,
+  readBillingTerms,
+  readInvoice,
+  summarizeInvoiceLines,
+} from '../../src/orders/invoices.ts';
+import { issueReceipt, readReceiptSeller } from '../../src/orders/receipts.ts';
+import { markAccessorialsPaid, readOrderAccessorials } from '../../src/pricing/accessorials.ts';
+import { readTaxProfile, readTaxRegistrations } from '../../src/pricing/taxes.ts';
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+// When the order was delivered: its first Delivered event, or its last update for orders without one.
+const readDeliveredAt = (events, order) => {
+  const times = events
+    .filter((e) => e.order_id === order.id)
+    .map((e) => String(e.at ?? ''))
+    .filter(Boolean)
+    .sort();
+  return times[0] || String(order.updated_at ?? order.created_at ?? '');
+};
+
+// Admin only: puts accounts on invoice terms, issues the monthly statements and records their payment. Customers read
+// their own invoices directly (invoices_select_own).
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const action = String(body?.action ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+
+    if (!action) return { statusCode: 400, body: 'Missing action' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+
+    const actorId = userData.user.id;
+
+    const { data: actorProfile } = await supabaseAuth
+      .from('staff_profiles')
+      .select('role, active')
+      .eq('user_id', actorId)
+      .maybeSingle();
+
+    if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const now = new Date().toISOString();
+
+    if (action === 'set_terms') {
+      const userId = String(body?.user_id ?? '').trim();
+      if (!userId) return { statusCode: 400, body: 'Missing user_id' };
+      const paymentTerms = body?.payment_terms === 'invoice' ? 'invoice' : body?.payment_terms === 'card' ? 'card' : null;
+      if (!paymentTerms) return { statusCode: 400, body: 'Invalid payment_terms' };
+      const netTermsDays = Number(body?.net_terms_days ?? 30);
+      if (!isValidNetTermsDays(netTermsDays)) return { statusCode: 400, body: 'Invalid net_terms_days' };
+
+      // Orders already placed on account stay invoiced and are still billed on the next statement.
+      const { data: saved, error: saveErr } = await admin
+        .from('billing_profiles')
+        .upsert(
+          {
+            user_id: userId,
+            payment_terms: paymentTerms,
+            net_terms_days: netTermsDays,
+            terms_approved_at: paymentTerms === 'invoice' ? now : null,
+            terms_approved_by: paymentTerms === 'invoice' ? actorId : null,
+            updated_at: now,
+          },
+          { onConflict: 'user_id' }
+        )
+        .select('payment_terms, net_terms_days')
+        .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      return json({ terms: readBillingTerms(saved) });
+    }
+
+    if (action === 'issue') {
+      const period = body?.period ? String(body.period).trim() : getPreviousStatementPeriod(new Date(now));
+      if (!isStatementPeriod(period)) return { statusCode: 400, body: 'Invalid period (YYYY-MM)' };
+      const periodEnd = getStatementPeriodEnd(period);
+      if (periodEnd > now) return { statusCode: 409, body: `${formatStatementPeriod(period)} is not over yet.` };
+      const onlyUserId = String(body?.user_id ?? '').trim();
+
+      // Delivered orders placed on account and not billed yet, including ones delivered in earlier months.
+      let ordersQuery = admin
+        .from('orders')
+        .select(
+          'id, order_code, user_id, customer_email, status, route_area, price_before_tax, final_price_before_tax, accessorials, form_data, created_at, updated_at'
+        )
+        .eq('payment_status', 'invoiced')
+        .eq('order_stage', 'order_completed')
+        .is('invoice_id', null);
+      if (onlyUserId) ordersQuery = ordersQuery.eq('user_id', onlyUserId);
+      const { data: orders, error: ordersErr } = await ordersQuery;
+      if (ordersErr) return { statusCode: 500, body: ordersErr.message };
+
+      const orderRows = (Array.isArray(orders) ? orders : []).filter((o) => o.user_id);
+      if (!orderRows.length) return json({ period, invoices: [] });
+
+      const { data: deliveredEvents, error: eventsErr } = await admin
+        .from('order_events')
+        .select('order_id, at')
+        .eq('status', 'Delivered')
+        .in('order_id', orderRows.map((o) => o.id));
+      if (eventsErr) return { statusCode: 500, body: eventsErr.message };
+      const events = Array.isArray(deliveredEvents) ? deliveredEvents : [];
+
+      const byUser = new Map();
+      for (const order of orderRows) {
+        const deliveredAt = readDeliveredAt(events, order);
+        const deliveredMs = new Date(deliveredAt).getTime();
+        if (!Number.isFinite(deliveredMs) || deliveredMs >= new Date(periodEnd).getTime()) continue;
+        byUser.set(order.user_id, [...(byUser.get(order.user_id) ?? []), { order, deliveredAt }]);
+      }
+
+      const registrations = readTaxRegistrations(process.env);
+      const issued = [];
+      for (const [userId, delivered] of byUser) {
+        // One statement per account and month: an order delivered after it was issued goes on the next one.
+        const { data: existing } = await admin.from('invoices').select('id').eq('user_id', userId).eq('period', period).maybeSingle();
+        if (existing) continue;
+
+        const { data: billingRow } = await admin
+          .from('billing_profiles')
+          .select('net_terms_days, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
+          .eq('user_id', userId)
+          .maybeSingle();
+        const terms = readBillingTerms(billingRow);
+        const profile = billingRow ? readTaxProfile(billingRow) : null;
+
+        const lines = delivered
+          .sort((a, b) => a.deliveredAt.localeCompare(b.deliveredAt))
+          .map(({ order, deliveredAt }) => makeInvoiceLine({ order, deliveredAt, registrations, profile }));
+        const dueAt = getInvoiceDueDate(now, terms.net_terms_days);
+
+        const { data: saved, error: saveErr } = await admin
+          .from('invoices')
+          .insert({
+            user_id: userId,
+            customer_email: delivered.find((d) => d.order.customer_email)?.order.customer_email ?? null,
+            period,
+            issued_at: now,
+            due_at: dueAt,
+            status: 'open',
+            ...summarizeInvoiceLines(lines),
+            lines,
+          })
+          .select(INVOICE_FIELDS)
+          .single();
+        if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+        const { error: linkErr } = await admin
+          .from('orders')
+          .update({ invoice_id: saved.id, updated_at: now })
+          .in('id', lines.map((l) => l.order_id));
+        if (linkErr) return { statusCode: 500, body: linkErr.message };
+
+        await admin.from('order_events').insert(
+          delivered.map(({ order }) => ({
+            order_id: order.id,
+            status: order.status || 'Delivered',
+            note: `Billed on the ${formatStatementPeriod(period)} statement, due ${dueAt.slice(0, 10)}`,
+            at: now,
+          }))
+        );
+
+        issued.push(saved);
+      }
+
+      return json({ period, invoices: issued });
+    }
+
+    if (action === 'mark_paid') {
+      const invoiceId = String(body?.invoice_id ?? '').trim();
+      if (!invoiceId) return { statusCode: 400, body: 'Missing invoice_id' };
+      const reference = String(body?.reference ?? '').trim() || null;
+
+      const { data: row, error: invoiceErr } = await admin.from('invoices').select(INVOICE_FIELDS).eq('id', invoiceId).maybeSingle();
+      if (invoiceErr || !row) return { statusCode: 404, body: 'Invoice not found' };
+      const invoice = readInvoice(row);
+      if (!invoice) return { statusCode: 404, body: 'Invoice not found' };
+      if (invoice.status === 'paid') return { statusCode: 409, body: 'This invoice has already been paid.' };
+
+      const { data: saved, error: saveErr } = await admin
+        .from('invoices')
+        .update({ status: 'paid', paid_at: now, paid_reference: reference, paid_by: actorId })
+        .eq('id', invoice.id)
+        .eq('status', 'open')
+        .select(INVOICE_FIELDS)
+        .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      // The orders and the accessorials billed with them are paid with the statement.
+      for (const line of invoice.lines) {
+        const { data: order } = await admin
+          .from('orders')
+          .select('id, status, payment_status, accessorials')
+          .eq('id', line.order_id)
+          .maybeSingle();
+        if (!order || order.payment_status !== 'invoiced') continue;
+
+        const { error: paidErr } = await admin
+          .from('orders')
+          .update({
+            payment_status: 'paid',
+            accessorials: markAccessorialsPaid(readOrderAccessorials(order.accessorials), line.accessorial_ids, now),
+            updated_at: now,
+          })
+          .eq('id', order.id);
+        if (paidErr) return { statusCode: 500, body: paidErr.message };
+
+        await admin.from('order_events').insert({
+          order_id: order.id,
+          status: order.status || 'Delivered',
+          note: `Paid with the ${formatStatementPeriod(invoice.period)} statement`,
+          at: now,
+        });
+      }
+
+      const paid = readInvoice(saved);
+      if (paid) {
+        await issueReceipt(admin, { user_id: paid.user_id, order_code: null, document: makeStatementReceipt(paid, readReceiptSeller(process.env)) });
+      }
+
+      return json({ invoice: saved });
+    }
+
+    return { statusCode: 400, body: 'Unknown action' };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
@@ -0,0 +1,119 @@
+import { createClient } from '@supabase/supabase-js';
+import { normalizePricingRules } from '../../src/pricing/pricingTable.ts';
+import { toPricingRulesPayload } from '../../src/pricing/pricingRules.ts';
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const action = String(body?.action ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+
+    if (!action) return { statusCode: 400, body: 'Missing action' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+
+    const actorId = userData.user.id;
+
+    const { data: actorProfile } = await supabaseAuth
+      .from('staff_profiles')
+      .select('role, active')
+      .eq('user_id', actorId)
+      .maybeSingle();
+
+    if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    if (action === 'list_versions') {
+      const { data, error } = await admin
+        .from('pricing_rules')
+        .select('version, rules, note, created_by, published_at')
+        .order('version', { ascending: false })
+        .limit(50);
+
+      if (error) return { statusCode: 500, body: error.message };
+      return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versions: Array.isArray(data) ? data : [] }),
+      };
+    }
+
+    if (action === 'publish') {
+      if (!body?.rules || typeof body.rules !== 'object') return { statusCode: 400, body: 'Missing rules' };
+
+      const rules = toPricingRulesPayload(normalizePricingRules({ rules: body.rules }));
+      const note = String(body?.note ?? '').trim() || null;
+
+      const { data: latest, error: latestErr } = await admin
+        .from('pricing_rules')
+        .select('version')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestErr) return { statusCode: 500, body: latestErr.message };
+
+      const nextVersion = (Number(latest?.version) || 0) + 1;
+
+      const { data: inserted, error: insertErr } = await admin
+        .from('pricing_rules')
+        .insert({
+          version: nextVersion,
+          rules,
+          note,
+          created_by: actorId,
+          published_at: new Date().toISOString(),
+        })
+        .select('version, rules, note, created_by, published_at')
+        .single();
+
+      if (insertErr) {
+        // unique(version) means another admin published at the same time
+        if (insertErr.code === '23505') return { statusCode: 409, body: 'Pricing was just published by someone else. Reload and try again.' };
+        return { statusCode: 500, body: insertErr.message };
+      }
+
+      return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ok: true, version: inserted }),
+      };
+    }
+
+    return { statusCode: 400, body: 'Unsupported action' };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
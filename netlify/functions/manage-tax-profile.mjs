@@ -0,0 +1,237 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  isTaxExemptionType,
+  isValidGstRegistrationNumber,
+  isValidQstRegistrationNumber,
+  normalizeRegistrationNumber,
+} from '../../src/pricing/taxes.ts';
+
+const BUCKET = 'tax-documents';
+
+const TAX_PROFILE_FIELDS =
+  'user_id, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status, tax_exemption_certificate, tax_exemption_document, tax_exemption_submitted_at, tax_exemption_reviewed_at, tax_exemption_reviewed_by, tax_exemption_review_note';
+
+const sanitizeFilename = (name) => {
+  const base = String(name ?? '').trim() || 'document';
+  return base.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 160);
+};
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+// Customers submit their tax profile (registration numbers and an exemption with evidence);
+// admins approve or reject the exemption. Nothing is exempted until it is approved.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const action = String(body?.action ?? '').trim();
+    const accessToken = String(body?.access_token ?? '').trim();
+
+    if (!action) return { statusCode: 400, body: 'Missing action' };
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    if (action === 'submit') {
+      const gst = normalizeRegistrationNumber(body?.gst_registration_number);
+      const qst = normalizeRegistrationNumber(body?.qst_registration_number);
+      if (gst && !isValidGstRegistrationNumber(gst)) {
+        return { statusCode: 400, body: 'Invalid GST/HST number (expected 9 digits + RT + 4 digits, e.g. 123456789RT0001)' };
+      }
+      if (qst && !isValidQstRegistrationNumber(qst)) {
+        return { statusCode: 400, body: 'Invalid QST number (expected 10 digits + TQ + 4 digits, e.g. 1234567890TQ0001)' };
+      }
+
+      const rawType = String(body?.tax_exemption_type ?? '').trim();
+      if (rawType && !isTaxExemptionType(rawType)) return { statusCode: 400, body: 'Invalid tax_exemption_type' };
+      const exemptionType = rawType || null;
+      const certificate = String(body?.tax_exemption_certificate ?? '').trim() || null;
+
+      const { data: existing, error: existingErr } = await admin
+        .from('billing_profiles')
+        .select(TAX_PROFILE_FIELDS)
+        .eq('user_id', actorId)
+        .maybeSingle();
+      if (existingErr) return { statusCode: 500, body: existingErr.message };
+
+      const now = new Date().toISOString();
+      let document = existing?.tax_exemption_document ?? null;
+
+      const file = body?.file && typeof body.file === 'object' ? body.file : null;
+      const base64 = String(file?.base64 ?? '').trim();
+      if (exemptionType && base64) {
+        try {
+          await admin.storage.createBucket(BUCKET, { public: false });
+        } catch {
+          // ignore
+        }
+
+        const name = sanitizeFilename(file.name);
+        const mime = String(file.type ?? '').trim() || 'application/octet-stream';
+        const id = `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+        const path = `${actorId}/${id}_${name}`;
+        const buf = Buffer.from(base64, 'base64');
+
+        const { error: upErr } = await admin.storage.from(BUCKET).upload(path, buf, { contentType: mime, upsert: true });
+        if (upErr) return { statusCode: 500, body: upErr.message || 'Upload failed' };
+
+        const size = Number(file.size ?? 0);
+        document = {
+          id,
+          name: String(file.name ?? name),
+          mime,
+          size: Number.isFinite(size) && size > 0 ? size : buf.length,
+          storage: { bucket: BUCKET, path },
+        };
+      }
+
+      if (exemptionType && !document) {
+        return { statusCode: 400, body: 'Please attach your exemption certificate or card as evidence.' };
+      }
+
+      // Registration numbers take effect right away; any change to the exemption itself goes back to review.
+      const exemptionChanged =
+        exemptionType !== (existing?.tax_exemption_type ?? null) ||
+        certificate !== (existing?.tax_exemption_certificate ?? null) ||
+        document !== (existing?.tax_exemption_document ?? null);
+
+      const update = {
+        user_id: actorId,
+        gst_registration_number: gst || null,
+        qst_registration_number: qst || null,
+        updated_at: now,
+      };
+
+      if (!exemptionType) {
+        Object.assign(update, {
+          tax_exemption_type: null,
+          tax_exemption_status: 'none',
+          tax_exemption_certificate: null,
+          tax_exemption_document: null,
+          tax_exemption_submitted_at: null,
+          tax_exemption_reviewed_at: null,
+          tax_exemption_reviewed_by: null,
+          tax_exemption_review_note: null,
+        });
+      } else if (exemptionChanged || existing?.tax_exemption_status === 'rejected' || existing?.tax_exemption_status === 'none') {
+        Object.assign(update, {
+          tax_exemption_type: exemptionType,
+          tax_exemption_status: 'pending',
+          tax_exemption_certificate: certificate,
+          tax_exemption_document: document,
+          tax_exemption_submitted_at: now,
+          tax_exemption_reviewed_at: null,
+          tax_exemption_reviewed_by: null,
+          tax_exemption_review_note: null,
+        });
+      }
+
+      const { data: saved, error: saveErr } = await admin
+        .from('billing_profiles')
+        .upsert(update, { onConflict: 'user_id' })
+        .select(TAX_PROFILE_FIELDS)
+        .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      return json({ profile: saved });
+    }
+
+    // Everything below is staff review.
+    const { data: actorProfile } = await supabaseAuth
+      .from('staff_profiles')
+      .select('role, active')
+      .eq('user_id', actorId)
+      .maybeSingle();
+
+    if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const userId = String(body?.user_id ?? '').trim();
+    if (!userId) return { statusCode: 400, body: 'Missing user_id' };
+
+    const { data: profile, error: profileErr } = await admin
+      .from('billing_profiles')
+      .select(TAX_PROFILE_FIELDS)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (profileErr) return { statusCode: 500, body: profileErr.message };
+    if (!profile) return { statusCode: 404, body: 'Billing profile not found' };
+
+    if (action === 'document_url') {
+      const storage = profile.tax_exemption_document?.storage;
+      const bucket = String(storage?.bucket ?? '').trim();
+      const path = String(storage?.path ?? '').trim();
+      if (!bucket || !path) return { statusCode: 404, body: 'No evidence document on file' };
+
+      const { data: signed, error: signErr } = await admin.storage.from(bucket).createSignedUrl(path, 60 * 10);
+      if (signErr || !signed?.signedUrl) return { statusCode: 500, body: signErr?.message || 'Failed to create signed url' };
+      return json({ url: signed.signedUrl });
+    }
+
+    if (action === 'review') {
+      const decision = String(body?.decision ?? '').trim();
+      if (decision !== 'approved' && decision !== 'rejected') return { statusCode: 400, body: 'Invalid decision' };
+      if (!profile.tax_exemption_type) return { statusCode: 409, body: 'This customer has not requested a tax exemption' };
+      if (decision === 'approved' && !profile.tax_exemption_document) {
+        return { statusCode: 409, body: 'An exemption cannot be approved without an evidence document' };
+      }
+
+      const now = new Date().toISOString();
+      const { data: saved, error: saveErr } = await admin
+        .from('billing_profiles')
+        .update({
+          tax_exemption_status: decision,
+          tax_exemption_reviewed_at: now,
+          tax_exemption_reviewed_by: actorId,
+          tax_exemption_review_note: String(body?.note ?? '').trim() || null,
+          updated_at: now,
+        })
+        .eq('user_id', userId)
+        .select(TAX_PROFILE_FIELDS)
+        .single();
+      if (saveErr) return { statusCode: 500, body: saveErr.message };
+
+      return json({ profile: saved });
+    }
+
+    return { statusCode: 400, body: 'Unknown action' };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
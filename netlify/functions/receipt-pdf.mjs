@@ -0,0 +1,75 @@
+import { createClient } from '@supabase/supabase-js';
+import { renderReceiptPdf, renderTextReceiptPdf } from '../../src/orders/receiptPdf.ts';
+import { RECEIPT_FIELDS, readReceiptRecord, readReceiptSeller } from '../../src/orders/receipts.ts';
+
+// A receipt or credit note as a PDF, for its customer (ReceiptHistory) or staff (the admin order view). Numbered
+// receipts print from their document; older text receipts print their text.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const accessToken = String(body?.access_token ?? '').trim();
+    const receiptId = String(body?.receipt_id ?? '').trim();
+
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+    if (!receiptId) return { statusCode: 400, body: 'Missing receipt_id' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const actorId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: row, error: receiptErr } = await admin.from('receipts').select(RECEIPT_FIELDS).eq('id', receiptId).maybeSingle();
+    const receipt = readReceiptRecord(row);
+    if (receiptErr || !receipt) return { statusCode: 404, body: 'Receipt not found' };
+
+    if (receipt.user_id !== actorId) {
+      const { data: actorProfile } = await admin.from('staff_profiles').select('active').eq('user_id', actorId).maybeSingle();
+      if (!actorProfile || actorProfile.active !== true) return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const pdf = receipt.document
+      ? renderReceiptPdf(receipt.document, receipt.invoice_number)
+      : renderTextReceiptPdf(receipt.text, readReceiptSeller(process.env).name);
+    const filename = receipt.invoice_number || `receipt-${receipt.created_at.slice(0, 10) || receipt.id}`;
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+      },
+      body: Buffer.from(pdf).toString('base64'),
+      isBase64Encoded: true,
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
@@ -0,0 +1,285 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import {
+  RECONCILIATION_ORDER_FIELDS,
+  makeChargeRow,
+  makeOrderRow,
+  makeRefundRow,
+} from '../../src/orders/reconciliation.ts';
+import { readTaxRegistrations } from '../../src/pricing/taxes.ts';
+
+const json = (payload) => ({
+  statusCode: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+// Stripe objects read per list, and orders looked up one by one in Stripe; past these the report says it is
+// truncated and finance narrows the range.
+const MAX_STRIPE_ITEMS = 2000;
+const MAX_LOOKUPS = 100;
+const MAX_RANGE_DAYS = 92;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toUnix = (iso) => Math.floor(new Date(iso).getTime() / 1000);
+
+const chunk = (list, size) => {
+  const out = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+};
+
+// Admin only: matches the Stripe charges, refunds and payouts of a date range (inclusive, UTC) to orders and lists
+// what disagrees. Nothing is written.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+    if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const accessToken = String(body?.access_token ?? '').trim();
+    const from = String(body?.from ?? '').trim();
+    const to = String(body?.to ?? '').trim();
+
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+    if (!DATE_RE.test(from) || !DATE_RE.test(to)) return { statusCode: 400, body: 'Invalid range (YYYY-MM-DD)' };
+
+    const fromIso = `${from}T00:00:00.000Z`;
+    const toIso = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000).toISOString();
+    const rangeDays = (new Date(toIso).getTime() - new Date(fromIso).getTime()) / (24 * 60 * 60 * 1000);
+    if (!(rangeDays >= 1)) return { statusCode: 400, body: 'The range ends before it starts.' };
+    if (rangeDays > MAX_RANGE_DAYS) return { statusCode: 400, body: 'Pick a range of at most three months.' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+
+    const { data: actorProfile } = await supabaseAuth
+      .from('staff_profiles')
+      .select('role, active')
+      .eq('user_id', userData.user.id)
+      .maybeSingle();
+
+    if (!actorProfile || actorProfile.active !== true || actorProfile.role !== 'admin') {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const stripe = createStripeClient(stripeSecret);
+    const created = { gte: toUnix(fromIso), lt: toUnix(toIso) };
+    let truncated = false;
+
+    const listAll = async (list) => {
+      const out = [];
+      for await (const item of list) {
+        if (out.length >= MAX_STRIPE_ITEMS) {
+          truncated = true;
+          break;
+        }
+        out.push(item);
+      }
+      return out;
+    };
+
+    // The PaymentIntent carries the metadata our functions set (order, purpose, tax); its charges do not.
+    const charges = (await listAll(stripe.charges.list({ created, limit: 100, expand: ['data.payment_intent'] }))).filter(
+      (c) => c.status !== 'failed'
+    );
+    const refunds = await listAll(stripe.refunds.list({ created, limit: 100 }));
+    const payouts = await listAll(stripe.payouts.list({ created, limit: 100 }));
+
+    // Which payout settled each charge and refund (automatic payouts list their balance transactions).
+    const payoutBySource = new Map();
+    const payoutSummaries = [];
+    for (const payout of payouts) {
+      const ref = { id: payout.id, arrival_date: new Date(Number(payout.arrival_date) * 1000).toISOString().slice(0, 10) };
+      let transactions = [];
+      try {
+        transactions = await listAll(stripe.balanceTransactions.list({ payout: payout.id, limit: 100 }));
+      } catch {
+        transactions = [];
+      }
+      for (const t of transactions) {
+        const source = typeof t.source === 'string' ? t.source : t.source?.id;
+        if (source) payoutBySource.set(source, ref);
+      }
+      payoutSummaries.push({
+        id: payout.id,
+        amount: Math.round(Number(payout.amount ?? 0)) / 100,
+        status: String(payout.status ?? ''),
+        arrival_date: ref.arrival_date,
+        transactions: transactions.filter((t) => t.type !== 'payout').length,
+      });
+    }
+
+    const readPaymentIntentId = (value) => (typeof value === 'string' ? value : value?.id ?? null);
+    const chargeInputs = charges.map((c) => ({
+      id: c.id,
+      payment_intent_id: readPaymentIntentId(c.payment_intent),
+      created: c.created,
+      status: c.status,
+      amount: Number(c.amount ?? 0),
+      amount_refunded: Number(c.amount_refunded ?? 0),
+      refunded: c.refunded === true,
+      disputed: c.disputed === true,
+      metadata: { ...(c.metadata ?? {}), ...(typeof c.payment_intent === 'object' ? c.payment_intent?.metadata ?? {} : {}) },
+    }));
+    const refundInputs = refunds.map((r) => ({
+      id: r.id,
+      payment_intent_id: readPaymentIntentId(r.payment_intent),
+      created: r.created,
+      status: String(r.status ?? ''),
+      amount: Number(r.amount ?? 0),
+      metadata: r.metadata ?? {},
+    }));
+
+    // Orders by the payment they recorded, and by the order_id in the metadata (extra charges, changes, balances).
+    const paymentIntentIds = [...new Set([...chargeInputs, ...refundInputs].map((i) => i.payment_intent_id).filter(Boolean))];
+    const orderIds = [...new Set([...chargeInputs, ...refundInputs].map((i) => String(i.metadata.order_id ?? '').trim()).filter(Boolean))];
+    const ordersById = new Map();
+    const ordersByPaymentIntent = new Map();
+    const addOrders = (rows) => {
+      for (const o of Array.isArray(rows) ? rows : []) {
+        ordersById.set(o.id, o);
+        if (o.stripe_payment_intent_id) ordersByPaymentIntent.set(o.stripe_payment_intent_id, o);
+      }
+    };
+    for (const ids of chunk(paymentIntentIds, 100)) {
+      const { data, error } = await admin.from('orders').select(RECONCILIATION_ORDER_FIELDS).in('stripe_payment_intent_id', ids);
+      if (error) return { statusCode: 500, body: error.message };
+      addOrders(data);
+    }
+    for (const ids of chunk(orderIds.filter((id) => !ordersById.has(id)), 100)) {
+      const { data, error } = await admin.from('orders').select(RECONCILIATION_ORDER_FIELDS).in('id', ids);
+      if (error) return { statusCode: 500, body: error.message };
+      addOrders(data);
+    }
+    const findOrder = (input) => ordersById.get(String(input.metadata.order_id ?? '').trim()) ?? ordersByPaymentIntent.get(input.payment_intent_id) ?? null;
+
+    const registrations = readTaxRegistrations(process.env);
+    const rows = [
+      ...chargeInputs.map((c) => makeChargeRow(c, findOrder(c), registrations, payoutBySource.get(c.id) ?? null)),
+      ...refundInputs.map((r) => makeRefundRow(r, findOrder(r), payoutBySource.get(r.id) ?? null)),
+    ];
+
+    // Card-paid orders of the range whose payment is not among the charges (orders paid with a statement have none).
+    const chargedIntents = new Set(chargeInputs.filter((c) => c.status === 'succeeded').map((c) => c.payment_intent_id));
+    const { data: paidOrders, error: paidErr } = await admin
+      .from('orders')
+      .select(RECONCILIATION_ORDER_FIELDS)
+      .in('payment_status', ['paid', 'partially_refunded', 'refunded'])
+      .is('invoice_id', null)
+      .gte('created_at', fromIso)
+      .lt('created_at', toIso);
+    if (paidErr) return { statusCode: 500, body: paidErr.message };
+
+    let lookups = 0;
+    for (const order of Array.isArray(paidOrders) ? paidOrders : []) {
+      const paymentIntentId = String(order.stripe_payment_intent_id ?? '').trim();
+      if (paymentIntentId && chargedIntents.has(paymentIntentId)) continue;
+      if (!paymentIntentId) {
+        rows.push(makeOrderRow(order, { issue: 'no_charge', note: 'Marked paid with no Stripe payment' }, { id: null, status: 'none' }));
+        continue;
+      }
+      if (++lookups > MAX_LOOKUPS) {
+        truncated = true;
+        break;
+      }
+      // Charged outside the range (or a failed attempt above): only a PaymentIntent that did not succeed is reported.
+      let paymentIntent = null;
+      try {
+        paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      } catch {
+        paymentIntent = null;
+      }
+      if (paymentIntent?.status === 'succeeded') continue;
+      rows.push(
+        makeOrderRow(
+          order,
+          {
+            issue: 'no_charge',
+            note: paymentIntent ? `Marked paid but the Stripe payment is ${String(paymentIntent.status).replace(/_/g, ' ')}` : 'Stripe has no such payment',
+          },
+          { id: paymentIntentId, status: paymentIntent?.status ?? 'missing' }
+        )
+      );
+    }
+
+    // Pending orders are listed whatever their date: an expired or completed Checkout session leaves them stuck.
+    const { data: pendingOrders, error: pendingErr } = await admin
+      .from('orders')
+      .select(RECONCILIATION_ORDER_FIELDS)
+      .eq('payment_status', 'pending')
+      .lt('created_at', toIso);
+    if (pendingErr) return { statusCode: 500, body: pendingErr.message };
+
+    for (const order of Array.isArray(pendingOrders) ? pendingOrders : []) {
+      const sessionId = String(order.stripe_session_id ?? '').trim();
+      if (!sessionId) {
+        rows.push(makeOrderRow(order, { issue: 'stale_pending', note: 'Pending with no Checkout session' }, { id: null, status: 'none' }));
+        continue;
+      }
+      if (++lookups > MAX_LOOKUPS) {
+        truncated = true;
+        break;
+      }
+      let session = null;
+      try {
+        session = await stripe.checkout.sessions.retrieve(sessionId);
+      } catch {
+        session = null;
+      }
+      if (session?.status === 'open') continue;
+      const note = !session
+        ? 'Stripe has no such Checkout session'
+        : session.status === 'expired'
+          ? `The Checkout session expired${session.expires_at ? ` on ${new Date(session.expires_at * 1000).toISOString().slice(0, 10)}` : ''}`
+          : session.payment_status === 'paid'
+            ? 'Paid in Stripe but the payment was not recorded on the order'
+            : `The Checkout session is ${session.status} and ${String(session.payment_status ?? '').replace(/_/g, ' ')}`;
+      rows.push(makeOrderRow(order, { issue: 'stale_pending', note }, { id: sessionId, status: session?.status ?? 'missing' }));
+    }
+
+    rows.sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return json({
+      report: {
+        from,
+        to,
+        generated_at: new Date().toISOString(),
+        rows,
+        payouts: payoutSummaries,
+        truncated,
+      },
+    });
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
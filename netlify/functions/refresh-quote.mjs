@@ -0,0 +1,176 @@
+import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import { applyQuoteDiscounts, fetchDiscountRules } from '../../src/pricing/discounts.ts';
+import { fetchPublishedPricingRules } from '../../src/pricing/pricingRules.ts';
+import { applyQuoteToFormData, findQuoteLegMismatch, findQuoteVehicleMismatch, quoteRequestFromQuote } from '../../src/pricing/quotes.ts';
+import { priceQuoteRequest } from '../../src/pricing/quoteRouting.ts';
+import { signQuoteToken, verifyQuoteToken } from '../../src/pricing/quoteToken.ts';
+
+const formatCad = (n) => `$${Number(n).toFixed(2)}`;
+
+// Re-prices an unpaid order with the currently published rules and starts a new validity window. The route, vehicles
+// and service level are the ones its signed quote priced, not whatever form_data says now; an open Checkout session
+// is expired first so it cannot charge the old price.
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod !== 'POST') {
+      return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+    const quoteSecret = process.env.QUOTE_SIGNING_SECRET;
+
+    if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
+    if (!supabaseAnonKey) return { statusCode: 500, body: 'Missing SUPABASE_ANON_KEY' };
+    if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
+    if (!quoteSecret) return { statusCode: 500, body: 'Missing QUOTE_SIGNING_SECRET' };
+
+    const body = event.body ? JSON.parse(event.body) : {};
+    const accessToken = String(body?.access_token ?? '').trim();
+    const orderCode = String(body?.order_code ?? '').trim();
+
+    if (!accessToken) return { statusCode: 401, body: 'Missing access_token' };
+    if (!orderCode) return { statusCode: 400, body: 'Missing order_code' };
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: { persistSession: false },
+    });
+
+    const { data: userData, error: userErr } = await supabaseAuth.auth.getUser();
+    if (userErr || !userData?.user?.id) return { statusCode: 401, body: 'Invalid access_token' };
+    const userId = userData.user.id;
+
+    const admin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: order, error: orderErr } = await admin
+      .from('orders')
+      .select(
+        'id, order_code, user_id, status, payment_status, order_stage, price_before_tax, final_price_before_tax, promo_code, quote_token, stripe_session_id, form_data'
+      )
+      .eq('order_code', orderCode)
+      .maybeSingle();
+
+    if (orderErr || !order) return { statusCode: 404, body: 'Order not found' };
+    if (order.user_id !== userId) return { statusCode: 403, body: 'Forbidden' };
+    if (order.payment_status === 'paid') return { statusCode: 409, body: 'This order has already been paid.' };
+    if (order.payment_status === 'invoiced') return { statusCode: 409, body: 'This order is billed to your account.' };
+    if (order.order_stage !== 'draft' && order.order_stage !== 'pending_payment') {
+      return { statusCode: 409, body: 'Only draft and unpaid orders can be re-quoted.' };
+    }
+    // An approved offer is a price staff agreed to; re-quoting would not change what is charged.
+    const finalAmount = Number(order.final_price_before_tax);
+    if (Number.isFinite(finalAmount) && finalAmount > 0) {
+      return { statusCode: 409, body: 'This order has an approved offer price, so it does not need a new quote.' };
+    }
+
+    const verified = await verifyQuoteToken(order.quote_token, quoteSecret, { allowExpired: true });
+    if (!verified.ok) return { statusCode: 409, body: 'This order has no valid quote to refresh. Please start a new quote.' };
+    // A refresh re-prices the same route; a different one needs a new quote.
+    if (findQuoteLegMismatch(verified.quote, order.form_data) || findQuoteVehicleMismatch(verified.quote, order.form_data)) {
+      return {
+        statusCode: 409,
+        body: 'The addresses or vehicles on this order changed after it was quoted. Please start a new quote for the new route.',
+      };
+    }
+    const request = quoteRequestFromQuote(verified.quote);
+    if (!request.pickup.address || !request.dropoff.address) {
+      return { statusCode: 422, body: 'This order is missing its pickup or drop-off address. Please start a new quote.' };
+    }
+
+    // A customer who started Checkout and came back: close that session so only the refreshed price can be paid. A
+    // completed session is a bank debit still clearing, which has to settle or fail first.
+    if (order.payment_status === 'pending') {
+      const sessionId = String(order.stripe_session_id ?? '').trim();
+      if (!sessionId) return { statusCode: 409, body: 'A payment for this order is in progress. Please try again in a few minutes.' };
+      const stripeSecret = process.env.STRIPE_SECRET_KEY;
+      if (!stripeSecret) return { statusCode: 500, body: 'Missing STRIPE_SECRET_KEY' };
+      const stripe = createStripeClient(stripeSecret);
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      if (session.status === 'complete') {
+        return { statusCode: 409, body: 'A payment for this order is being processed. The quote can be refreshed if it fails.' };
+      }
+      if (session.status === 'open') await stripe.checkout.sessions.expire(sessionId);
+    }
+
+    const rules = await fetchPublishedPricingRules(admin);
+    const priced = await priceQuoteRequest(request, rules);
+    if (!priced.ok) return { statusCode: 422, body: priced.error };
+
+    // The customer's current contract rate applies; the promo code is kept only while it is still valid.
+    let lookup = await fetchDiscountRules(admin, { userId, promoCode: order.promo_code });
+    const promoError = lookup.promo_error;
+    if (promoError) lookup = await fetchDiscountRules(admin, { userId });
+    const droppedPromo = promoError ? order.promo_code : null;
+
+    const { token, payload: quote } = await signQuoteToken(applyQuoteDiscounts(priced.quote, lookup.rules, userId), quoteSecret);
+
+    const formData = order.form_data && typeof order.form_data === 'object' ? order.form_data : {};
+    const previousPrice = Number(order.price_before_tax);
+    const now = new Date().toISOString();
+
+    const { data: updated, error: updErr } = await admin
+      .from('orders')
+      .update({
+        route_area: quote.route_area || null,
+        service_type: quote.service_type,
+        service_level: quote.service_level,
+        sla_days_min: quote.sla_days_min,
+        sla_days_max: quote.sla_days_max,
+        vehicle_type: quote.vehicle_type,
+        price_before_tax: quote.price_before_tax,
+        pricing_version: quote.pricing_version,
+        promo_code: quote.promo_code || null,
+        discount_total: Number(quote.discount_total) || 0,
+        quote_token: token,
+        quote_expires_at: quote.expires_at,
+        ...(order.payment_status === 'pending' ? { payment_status: 'unpaid', stripe_session_id: null } : {}),
+        form_data: { ...applyQuoteToFormData(formData, quote), quote_id: quote.quote_id },
+        updated_at: now,
+      })
+      .eq('id', order.id)
+      .select('*')
+      .single();
+
+    if (updErr) return { statusCode: 500, body: updErr.message };
+
+    const priceChanged = !Number.isFinite(previousPrice) || Math.abs(previousPrice - quote.price_before_tax) > 0.005;
+    const refreshedNote = priceChanged
+      ? `Quote refreshed: ${Number.isFinite(previousPrice) ? formatCad(previousPrice) : '-'} → ${formatCad(quote.price_before_tax)} before tax`
+      : `Quote refreshed at ${formatCad(quote.price_before_tax)} before tax`;
+    const { error: evErr } = await admin.from('order_events').insert({
+      order_id: order.id,
+      status: order.status || 'Scheduled',
+      note: droppedPromo ? `${refreshedNote}; promo ${droppedPromo} removed (${promoError})` : refreshedNote,
+      at: now,
+    });
+
+    if (evErr) return { statusCode: 500, body: evErr.message };
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        order: updated,
+        quote,
+        previous_price_before_tax: Number.isFinite(previousPrice) ? previousPrice : null,
+        price_changed: priceChanged,
+        promo_removed: droppedPromo,
+      }),
+    };
+  } catch (err) {
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: err instanceof Error ? err.message : 'Unknown error' }),
+    };
+  }
+};
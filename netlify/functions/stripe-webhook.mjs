@@ -1,5 +1,588 @@
-import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import { createStripeClient } from '../../src/lib/stripeServer.ts';
+import { makeAmendmentReceipt, readOrderAmendments, settleOrderAmendment } from '../../src/orders/amendments.ts';
+import {
+  formatDepositReceiptLines,
+  getDepositBalanceDue,
+  makeBalanceReceipt,
+  makeOrderDeposit,
+  readOrderDeposit,
+  settleDepositBalance,
+} from '../../src/orders/deposits.ts';
+import { getStageAfterPayment, isPaidPaymentStatus } from '../../src/orders/orderStateMachine.ts';
+import {
+  formatDisputeSummary,
+  makeRefundCreditNote,
+  OWN_REFUND_PURPOSES,
+  readOrderDispute,
+  readOrderStripeRefunds,
+} from '../../src/orders/payments.ts';
+import { issueReceipt, makeReceiptDocument, readReceiptSeller } from '../../src/orders/receipts.ts';
+import {
+  formatAccessorialQuantity,
+  formatAccessorialUnit,
+  getAccessorialsTotal,
+  markAccessorialsPaid,
+  parseAccessorialIds,
+  readOrderAccessorials,
+} from '../../src/pricing/accessorials.ts';
+import { readOrderDiscounts } from '../../src/pricing/discounts.ts';
+import { formatOrderLegLabel, readOrderLegs } from '../../src/pricing/legs.ts';
+import { fetchPublishedPricingRules } from '../../src/pricing/pricingRules.ts';
+import { formatFulfillmentDays, getServiceLevelLabel } from '../../src/pricing/pricingTable.ts';
+import { readOrderServiceLevel } from '../../src/pricing/quotes.ts';
+import { computeTax, isTaxExemptionType, readTaxProfile, readTaxRegistrations, taxPlaceFromFormData } from '../../src/pricing/taxes.ts';
+import { formatOrderVehicleLabel, readOrderVehicles } from '../../src/pricing/vehicles.ts';
+
+// A delivery still being applied after this long is taken to have crashed, and the next one applies the event again.
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const ORDER_COLUMNS =
+  'id, order_code, user_id, customer_email, status, payment_status, order_stage, stripe_session_id, stripe_payment_intent_id, stripe_refunds, route_area, form_data';
+
+// Checkout sessions and payment intents for extra charges, order changes and the balance of a deposit carry a purpose;
+// the order's own payment (or its deposit) has none.
+const PAYMENT_LABELS = { accessorials: 'Extra charges payment', amendment: 'Order change payment', balance: 'Balance payment' };
+
+const isOrderPayment = (metadata) => !metadata?.purpose;
+
+const getPaymentLabel = (metadata) => PAYMENT_LABELS[metadata?.purpose] ?? 'Payment';
+
+const findOrder = async (supabaseAdmin, column, value) => {
+  if (!value) return null;
+  const { data } = await supabaseAdmin.from('orders').select(ORDER_COLUMNS).eq(column, value).maybeSingle();
+  return data ?? null;
+};
+
+const addOrderEvent = async (supabaseAdmin, order, note, at) => {
+  await supabaseAdmin.from('order_events').insert({ order_id: order.id, status: order.status || 'Scheduled', note, at });
+};
+
+// One receipt item per accessorial, before tax.
+const toAccessorialItems = (accessorials) =>
+  accessorials.map((a) => ({
+    description: [a.label, formatAccessorialQuantity(a)].filter(Boolean).join(' '),
+    details: [`$${a.unit_price.toFixed(2)} ${formatAccessorialUnit(a.unit)}`, a.note].filter(Boolean),
+    amount: a.amount,
+  }));
+
+const updateOrder = async (supabaseAdmin, order, patch) => {
+  const { error } = await supabaseAdmin.from('orders').update(patch).eq('id', order.id);
+  if (error) throw error;
+};
+
+// A paid checkout session: the order, its extra charges or an order change is marked paid, with an event and a receipt.
+// create-checkout-session also calls it, with the saved-card payment intent, when it charges the saved card, and so
+// does charge-balance for the balance of a deposit.
+export const fulfilCheckoutSession = async ({ stripe, supabaseAdmin, now }, session) => {
+  const orderId = session?.metadata?.order_id;
+  const orderCode = session?.metadata?.order_code;
+
+  if (!orderId || !orderCode) {
+    return null;
+  }
+
+  const { data: orderRow } = await supabaseAdmin
+    .from('orders')
+    .select('id, order_code, user_id, customer_email, payment_status, stripe_payment_intent_id, route_area, price_before_tax, final_price_before_tax, pricing_version, currency, status, order_stage, accessorials, amendments, deposit, form_data')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  let pricingVersion = Number.isInteger(orderRow?.pricing_version) ? orderRow.pricing_version : Number(session?.metadata?.pricing_version);
+  if (!Number.isInteger(pricingVersion)) {
+    try {
+      pricingVersion = (await fetchPublishedPricingRules(supabaseAdmin)).version;
+    } catch {
+      pricingVersion = null;
+    }
+  }
+
+  // Checkout lists the accessorials it charged; they are marked paid with this payment.
+  const accessorials = readOrderAccessorials(orderRow?.accessorials);
+  const chargedIds = parseAccessorialIds(session?.metadata?.accessorial_ids);
+  const chargedAccessorials = accessorials.filter((a) => chargedIds.includes(a.id));
+  const accessorialsTotal = getAccessorialsTotal(chargedAccessorials);
+
+  const userId = orderRow?.user_id;
+  const finalSubtotal = Number(orderRow?.final_price_before_tax);
+  const fallbackSubtotal = Number(orderRow?.price_before_tax);
+  const chosenSubtotal = Number.isFinite(finalSubtotal) && finalSubtotal > 0 ? finalSubtotal : fallbackSubtotal;
+  const safeSubtotal = Math.round(((Number.isFinite(chosenSubtotal) && chosenSubtotal >= 0 ? chosenSubtotal : 0) + accessorialsTotal) * 100) / 100;
+
+  // The customer's registration numbers come from their billing profile; the exemption is the one checkout applied,
+  // even if the profile was reviewed again since.
+  let taxProfile = null;
+  if (userId) {
+    const { data: billingRow } = await supabaseAdmin
+      .from('billing_profiles')
+      .select('gst_registration_number, qst_registration_number')
+      .eq('user_id', userId)
+      .maybeSingle();
+    taxProfile = readTaxProfile(billingRow);
+  }
+  const chargedExemption = String(session?.metadata?.tax_exemption ?? '').trim();
+  if (isTaxExemptionType(chargedExemption)) {
+    taxProfile = { ...readTaxProfile(taxProfile), tax_exemption_type: chargedExemption, tax_exemption_status: 'approved' };
+  }
+
+  // Extra charges on an order that was already paid (create-accessorials-checkout): only the accessorials change.
+  if (session?.metadata?.purpose === 'accessorials') {
+    if (!chargedAccessorials.some((a) => !a.paid_at)) return orderRow?.id ?? null;
+
+    const extraTaxes = computeTax(
+      accessorialsTotal,
+      taxPlaceFromFormData(orderRow?.form_data, orderRow?.route_area),
+      readTaxRegistrations(process.env),
+      taxProfile
+    );
+    const extraTotal = Math.round((accessorialsTotal + extraTaxes.tax) * 100) / 100;
+
+    await supabaseAdmin
+      .from('orders')
+      .update({ accessorials: markAccessorialsPaid(accessorials, chargedIds, now), updated_at: now })
+      .eq('id', orderId);
+
+    await supabaseAdmin.from('order_events').insert({
+      order_id: orderId,
+      status: orderRow?.status || 'Scheduled',
+      note: `Extra charges paid: $${extraTotal.toFixed(2)}`,
+      at: now,
+    });
+
+    if (userId) {
+      await issueReceipt(supabaseAdmin, {
+        user_id: userId,
+        order_code: String(orderCode),
+        document: makeReceiptDocument({
+          title: 'Receipt — extra charges',
+          issued_at: now,
+          order_code: String(orderCode),
+          customer_email: orderRow?.customer_email,
+          customer_registrations: extraTaxes.customer_registrations,
+          seller: readReceiptSeller(process.env),
+          items: toAccessorialItems(chargedAccessorials),
+          tax_lines: extraTaxes.lines,
+          exemption: extraTaxes.exemption,
+          payment_reference: typeof session?.payment_intent === 'string' ? session.payment_intent : null,
+        }),
+      });
+    }
+
+    return orderRow?.id ?? null;
+  }
+
+  // Balance of a change to a paid order (amend-order): only that amendment is settled; the receipt uses the tax it was
+  // priced with.
+  if (session?.metadata?.purpose === 'amendment') {
+    const amendmentId = String(session?.metadata?.amendment_id ?? '').trim();
+    const amendments = readOrderAmendments(orderRow?.amendments);
+    const amendment = amendments.find((a) => a.id === amendmentId);
+    if (!amendment || amendment.status !== 'balance_due') return orderRow?.id ?? null;
+
+    const settled = settleOrderAmendment(amendments, amendmentId, {
+      at: now,
+      payment_intent_id: typeof session?.payment_intent === 'string' ? session.payment_intent : null,
+    });
+    await supabaseAdmin.from('orders').update({ amendments: settled, updated_at: now }).eq('id', orderId);
+
+    await supabaseAdmin.from('order_events').insert({
+      order_id: orderId,
+      status: orderRow?.status || 'Scheduled',
+      note: `Order change paid: $${amendment.total.toFixed(2)}`,
+      at: now,
+    });
+
+    const paid = settled.find((a) => a.id === amendmentId);
+    if (userId && paid) {
+      await issueReceipt(supabaseAdmin, {
+        user_id: userId,
+        order_code: String(orderCode),
+        document: makeAmendmentReceipt({
+          order_code: String(orderCode),
+          customer_email: orderRow?.customer_email,
+          amendment: paid,
+          seller: readReceiptSeller(process.env),
+        }),
+      });
+    }
+
+    return orderRow?.id ?? null;
+  }
+
+  // Balance of an order paid by deposit, charged at delivery (charge-balance) or paid by the customer through Checkout.
+  if (session?.metadata?.purpose === 'balance') {
+    const deposit = readOrderDeposit(orderRow?.deposit);
+    if (!getDepositBalanceDue(deposit)) return orderRow?.id ?? null;
+
+    const settled = settleDepositBalance(deposit, {
+      at: now,
+      payment_intent_id: typeof session?.payment_intent === 'string' ? session.payment_intent : null,
+    });
+    await supabaseAdmin.from('orders').update({ deposit: settled, updated_at: now }).eq('id', orderId);
+
+    await supabaseAdmin.from('order_events').insert({
+      order_id: orderId,
+      status: orderRow?.status || 'Delivered',
+      note: `Balance paid: $${settled.balance.toFixed(2)}`,
+      at: now,
+    });
+
+    if (userId) {
+      await issueReceipt(supabaseAdmin, {
+        user_id: userId,
+        order_code: String(orderCode),
+        document: makeBalanceReceipt({
+          order_code: String(orderCode),
+          customer_email: orderRow?.customer_email,
+          deposit: settled,
+          seller: readReceiptSeller(process.env),
+        }),
+      });
+    }
+
+    return orderRow?.id ?? null;
+  }
+
+  // A session whose payment is already on the order (an event delivered again after a failure) adds no second entry.
+  const paymentIntentId = typeof session?.payment_intent === 'string' ? session.payment_intent : null;
+  const alreadyPaid = isPaidPaymentStatus(orderRow?.payment_status) && !!paymentIntentId && orderRow.stripe_payment_intent_id === paymentIntentId;
+
+  // A second payment for an order already paid another way (two checkouts left open, or a checkout completed after the
+  // order went on account) is refunded and noted on the order. The order keeps its first payment's reference for
+  // refunds and disputes, and no second receipt is issued.
+  const paidOtherwise = isPaidPaymentStatus(orderRow?.payment_status) || orderRow?.payment_status === 'invoiced';
+  if (paymentIntentId && paidOtherwise && !alreadyPaid) {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        reason: 'duplicate',
+        metadata: { purpose: 'duplicate', order_id: String(orderId), order_code: String(orderCode) },
+      },
+      { idempotencyKey: `duplicate-payment-${paymentIntentId}` }
+    );
+    await addOrderEvent(
+      supabaseAdmin,
+      orderRow,
+      `Duplicate payment refunded: $${(Math.round(Number(refund?.amount ?? 0)) / 100).toFixed(2)} (${paymentIntentId})`,
+      now
+    );
+    return orderRow?.id ?? null;
+  }
+
+  // Same place-of-supply rules checkout used, so the receipt matches what Stripe charged.
+  const taxes = computeTax(
+    safeSubtotal,
+    taxPlaceFromFormData(orderRow?.form_data, orderRow?.route_area),
+    readTaxRegistrations(process.env),
+    taxProfile
+  );
+  const total = Math.round((safeSubtotal + taxes.tax) * 100) / 100;
+
+  // Only the deposit was charged; the rest of the total is the balance owed at delivery. A repeated delivery keeps the
+  // deposit already recorded, whose balance may have been paid since.
+  const depositAmount = Number(session?.metadata?.deposit_amount);
+  const deposit =
+    Number.isFinite(depositAmount) && depositAmount > 0
+      ? (alreadyPaid ? readOrderDeposit(orderRow?.deposit) : null) ??
+        makeOrderDeposit({
+          rule: { percent: Number(session.metadata.deposit_percent) || 0, flat: Number(session.metadata.deposit_flat) || 0 },
+          total,
+          deposit: depositAmount,
+          taxLines: taxes.lines,
+          paidAt: now,
+          paymentIntentId,
+        })
+      : null;
+
+  const { error: paidErr } = await supabaseAdmin
+    .from('orders')
+    .update({
+      // A partial refund recorded since the first delivery stays on the order.
+      payment_status: alreadyPaid ? orderRow.payment_status : 'paid',
+      stripe_payment_intent_id: session.payment_intent || null,
+      updated_at: now,
+      // Payment does not move the shipment; the stage follows the state machine (orders_enforce_state_machine).
+      order_stage: getStageAfterPayment(orderRow?.order_stage),
+      pricing_version: pricingVersion,
+      ...(chargedIds.length ? { accessorials: markAccessorialsPaid(accessorials, chargedIds, now) } : {}),
+      ...(deposit ? { deposit } : {}),
+    })
+    .eq('id', orderId);
+  if (paidErr) throw paidErr;
+
+  if (!alreadyPaid) {
+    await supabaseAdmin.from('order_events').insert({
+      order_id: orderId,
+      status: orderRow?.status || 'Scheduled',
+      note: deposit
+        ? `Deposit received: $${deposit.deposit.toFixed(2)} — balance of $${deposit.balance.toFixed(2)} due at delivery`
+        : 'Payment received',
+      at: now,
+    });
+  }
+
+  if (userId) {
+    let stripeCustomerId = null;
+    try {
+      stripeCustomerId = typeof session?.customer === 'string' ? session.customer : null;
+    } catch {
+      stripeCustomerId = null;
+    }
+
+    let hasSavedPaymentMethod = false;
+    let cardBrand = null;
+    let cardLast4 = null;
+    let cardExpMonth = null;
+    let cardExpYear = null;
+
+    try {
+      if (paymentIntentId) {
+        const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+        const pmId = typeof pi?.payment_method === 'string' ? pi.payment_method : null;
+        if (pmId) {
+          const pm = await stripe.paymentMethods.retrieve(pmId);
+          const card = pm?.card || null;
+          const brand = typeof card?.brand === 'string' ? card.brand : null;
+          const last4 = typeof card?.last4 === 'string' ? card.last4 : null;
+          const expMonth = Number.isFinite(card?.exp_month) ? Number(card.exp_month) : null;
+          const expYear = Number.isFinite(card?.exp_year) ? Number(card.exp_year) : null;
+          if (brand && last4) {
+            hasSavedPaymentMethod = true;
+            cardBrand = brand;
+            cardLast4 = last4;
+            cardExpMonth = expMonth;
+            cardExpYear = expYear;
+          }
+        }
+      }
+    } catch {
+      // ignore
+    }
+
+    try {
+      await supabaseAdmin.from('billing_profiles').upsert(
+        {
+          user_id: userId,
+          stripe_customer_id: stripeCustomerId,
+          has_saved_payment_method: hasSavedPaymentMethod,
+          card_brand: cardBrand,
+          card_last4: cardLast4,
+          card_exp_month: cardExpMonth,
+          card_exp_year: cardExpYear,
+          updated_at: now,
+        },
+        { onConflict: 'user_id' }
+      );
+    } catch {
+      // ignore
+    }
+  }
+
+  if (userId) {
+    const vehicles = readOrderVehicles(orderRow?.form_data);
+    const vehicleLines =
+      vehicles.length > 1
+        ? vehicles.map((v, i) => {
+            const price = Number.isFinite(v.price_before_tax) ? `: $${v.price_before_tax.toFixed(2)}` : '';
+            return `${formatOrderVehicleLabel(v, i)}${v.vin ? ` (VIN ${v.vin})` : ''}${price}`;
+          })
+        : [];
+    const legs = readOrderLegs(orderRow?.form_data);
+    const legLines =
+      legs.length > 1
+        ? legs.map((leg, i) => {
+            const price = Number.isFinite(leg.price_before_tax) ? `: $${leg.price_before_tax.toFixed(2)}` : '';
+            return formatOrderLegLabel(leg, i) + price;
+          })
+        : [];
+    const level = readOrderServiceLevel(orderRow?.form_data);
+    const levelLine =
+      level.service_level === 'standard'
+        ? null
+        : `Service level: ${getServiceLevelLabel(level.service_level)}${level.days_min && level.days_max ? ` (${formatFulfillmentDays({ days_min: level.days_min, days_max: level.days_max })})` : ''}`;
+    // An approved offer replaced the quoted price, discounts included. The transport line is the price before them.
+    const discounts = Number.isFinite(finalSubtotal) && finalSubtotal > 0 ? [] : readOrderDiscounts(orderRow?.form_data);
+    const transportAmount = safeSubtotal - accessorialsTotal + discounts.reduce((sum, d) => sum + d.amount, 0);
+    const route = String(orderRow?.route_area ?? '').trim();
+    const receipt = makeReceiptDocument({
+      title: 'Receipt',
+      issued_at: now,
+      order_code: String(orderCode),
+      customer_email: orderRow?.customer_email,
+      customer_registrations: taxes.customer_registrations,
+      seller: readReceiptSeller(process.env),
+      items: [
+        { description: route ? `Vehicle transport — ${route}` : 'Vehicle transport', details: [levelLine, ...vehicleLines, ...legLines].filter(Boolean), amount: transportAmount },
+        ...discounts.map((d) => ({ description: `Discount — ${d.label}`, details: [], amount: -d.amount })),
+        ...toAccessorialItems(chargedAccessorials),
+      ],
+      tax_lines: taxes.lines,
+      exemption: taxes.exemption,
+      notes: [
+        ...(deposit ? formatDepositReceiptLines(deposit) : []),
+        Number.isInteger(pricingVersion) && pricingVersion > 0 ? `Pricing version: ${pricingVersion}` : null,
+      ],
+      payment_reference: paymentIntentId,
+    });
+
+    // One receipt per payment: a payment seen again finds its receipt, while another payment of the same order (paid
+    // again after a refund) or its other receipts (extra charges, order changes, a balance) do not count.
+    const receiptQuery = supabaseAdmin
+      .from('receipts')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('order_code', String(orderCode))
+      .eq('kind', 'receipt');
+    const { data: existingReceipts } = await (paymentIntentId
+      ? receiptQuery.eq('document->>payment_reference', paymentIntentId)
+      : receiptQuery.is('document->>payment_reference', null)
+    ).limit(1);
+
+    const exists = Array.isArray(existingReceipts) && existingReceipts.length > 0;
+
+    if (!exists) {
+      await issueReceipt(supabaseAdmin, { user_id: userId, order_code: String(orderCode), document: receipt });
+    }
+  }
+
+  return orderRow?.id ?? null;
+};
+
+// Each handler applies one event type and returns the id of the order it concerns (recorded with the event), or null.
+const HANDLERS = {
+  // Bank debits complete the session before the money arrives; async_payment_succeeded or _failed follows.
+  'checkout.session.completed': async (ctx, session) => {
+    if (session?.payment_status !== 'unpaid') return fulfilCheckoutSession(ctx, session);
+    const order = await findOrder(ctx.supabaseAdmin, 'id', session?.metadata?.order_id);
+    if (!order) return null;
+    await addOrderEvent(ctx.supabaseAdmin, order, `${getPaymentLabel(session.metadata)} processing — waiting for the bank`, ctx.now);
+    return order.id;
+  },
+
+  'checkout.session.async_payment_succeeded': fulfilCheckoutSession,
+
+  'checkout.session.async_payment_failed': async ({ supabaseAdmin, now }, session) => {
+    const order = await findOrder(supabaseAdmin, 'id', session?.metadata?.order_id);
+    if (!order) return null;
+    if (isOrderPayment(session.metadata) && order.payment_status !== 'paid') {
+      await updateOrder(supabaseAdmin, order, { payment_status: 'failed', updated_at: now });
+    }
+    await addOrderEvent(supabaseAdmin, order, `${getPaymentLabel(session.metadata)} failed — the bank declined the debit`, now);
+    return order.id;
+  },
+
+  // The customer left checkout without paying; the order can be paid again from a new session.
+  'checkout.session.expired': async ({ supabaseAdmin, now }, session) => {
+    if (!isOrderPayment(session?.metadata)) return null;
+    const order = await findOrder(supabaseAdmin, 'id', session?.metadata?.order_id);
+    if (!order) return null;
+    // A newer session, or a payment that went through, leaves the order as it is.
+    if (order.stripe_session_id !== session.id || !['pending', 'failed'].includes(order.payment_status)) return order.id;
+    await updateOrder(supabaseAdmin, order, { payment_status: 'unpaid', updated_at: now });
+    await addOrderEvent(supabaseAdmin, order, 'Checkout expired without payment', now);
+    return order.id;
+  },
+
+  // A declined card; the customer may still retry in the same checkout session.
+  'payment_intent.payment_failed': async ({ supabaseAdmin, now }, paymentIntent) => {
+    const order = await findOrder(supabaseAdmin, 'id', paymentIntent?.metadata?.order_id);
+    if (!order) return null;
+    if (isOrderPayment(paymentIntent.metadata) && order.payment_status !== 'paid') {
+      await updateOrder(supabaseAdmin, order, { payment_status: 'failed', updated_at: now });
+    }
+    const message = String(paymentIntent?.last_payment_error?.message ?? '').trim();
+    await addOrderEvent(supabaseAdmin, order, `${getPaymentLabel(paymentIntent.metadata)} failed${message ? `: ${message}` : ''}`, now);
+    return order.id;
+  },
+
+  // Refunds made from the Stripe dashboard. The event only says the charge was refunded, so every refund on it is read
+  // and the ones not on the order yet are recorded, by refund id: two refunds in quick succession are both recorded
+  // once, whichever event arrives first. cancel-order and amend-order have already recorded their own.
+  'charge.refunded': async ({ stripe, supabaseAdmin, now }, charge) => {
+    const paymentIntentId = typeof charge?.payment_intent === 'string' ? charge.payment_intent : null;
+    const order = await findOrder(supabaseAdmin, 'stripe_payment_intent_id', paymentIntentId);
+    if (!order) return null;
+
+    // Fully refunded, the order is no longer paid; partially refunded, it still moves forward like a paid one.
+    const paymentStatus = charge.refunded ? 'refunded' : Number(charge.amount_refunded) > 0 ? 'partially_refunded' : order.payment_status;
+
+    const recorded = readOrderStripeRefunds(order.stripe_refunds);
+    const added = [];
+    for await (const refund of stripe.refunds.list({ charge: charge.id, limit: 100 })) {
+      if (refund.status === 'failed' || refund.status === 'canceled') continue;
+      if (OWN_REFUND_PURPOSES.includes(refund.metadata?.purpose) || recorded.some((r) => r.id === refund.id)) continue;
+      const created = Number(refund.created);
+      added.push({
+        id: refund.id,
+        amount: Math.round(Number(refund.amount ?? 0)) / 100,
+        refunded_at: Number.isFinite(created) && created > 0 ? new Date(created * 1000).toISOString() : now,
+      });
+    }
+    // Stripe lists the newest first.
+    added.reverse();
+
+    if (!added.length) {
+      if (paymentStatus !== order.payment_status) await updateOrder(supabaseAdmin, order, { payment_status: paymentStatus, updated_at: now });
+      return order.id;
+    }
+
+    await updateOrder(supabaseAdmin, order, { payment_status: paymentStatus, stripe_refunds: [...recorded, ...added], updated_at: now });
+
+    let billingRow = null;
+    if (order.user_id) {
+      const { data } = await supabaseAdmin
+        .from('billing_profiles')
+        .select('gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status')
+        .eq('user_id', order.user_id)
+        .maybeSingle();
+      billingRow = data ?? null;
+    }
+
+    for (const refund of added) {
+      await addOrderEvent(supabaseAdmin, order, `Refunded from Stripe: $${refund.amount.toFixed(2)}`, now);
+      if (!order.user_id || !(refund.amount > 0)) continue;
+      const taxes = computeTax(
+        refund.amount,
+        taxPlaceFromFormData(order.form_data, order.route_area),
+        readTaxRegistrations(process.env),
+        billingRow ? readTaxProfile(billingRow) : null
+      );
+      await issueReceipt(supabaseAdmin, {
+        user_id: order.user_id,
+        order_code: String(order.order_code),
+        document: makeRefundCreditNote({
+          order_code: String(order.order_code),
+          customer_email: order.customer_email,
+          at: now,
+          refund: refund.amount,
+          refund_id: refund.id,
+          tax_lines: taxes.lines,
+          seller: readReceiptSeller(process.env),
+        }),
+      });
+    }
+    return order.id;
+  },
+
+  // The dispute is kept on the order for staff; its evidence is submitted from the Stripe dashboard.
+  'charge.dispute.created': async ({ supabaseAdmin, now }, dispute) => {
+    const paymentIntentId = typeof dispute?.payment_intent === 'string' ? dispute.payment_intent : null;
+    const order = await findOrder(supabaseAdmin, 'stripe_payment_intent_id', paymentIntentId);
+    if (!order) return null;
+    const dueBy = Number(dispute?.evidence_details?.due_by);
+    const stripeDispute = readOrderDispute({
+      id: dispute.id,
+      amount: Math.round(Number(dispute.amount ?? 0)) / 100,
+      reason: dispute.reason,
+      status: dispute.status,
+      created_at: Number.isFinite(Number(dispute.created)) ? new Date(Number(dispute.created) * 1000).toISOString() : now,
+      evidence_due_by: Number.isFinite(dueBy) && dueBy > 0 ? new Date(dueBy * 1000).toISOString() : null,
+    });
+    await updateOrder(supabaseAdmin, order, { stripe_dispute: stripeDispute, updated_at: now });
+    await addOrderEvent(supabaseAdmin, order, formatDisputeSummary(stripeDispute), now);
+    return order.id;
+  },
+};
 
 export const handler = async (event) => {
   try {
@@ -17,7 +600,7 @@ export const handler = async (event) => {
     if (!supabaseUrl) return { statusCode: 500, body: 'Missing SUPABASE_URL' };
     if (!supabaseServiceRoleKey) return { statusCode: 500, body: 'Missing SUPABASE_SERVICE_ROLE_KEY' };
 
-    const stripe = new Stripe(stripeSecret, { apiVersion: '2024-06-20' });
+    const stripe = createStripeClient(stripeSecret);
 
     const sig = event.headers['stripe-signature'] || event.headers['Stripe-Signature'];
     if (!sig) return { statusCode: 400, body: 'Missing stripe-signature' };
@@ -31,151 +614,44 @@ export const handler = async (event) => {
       return { statusCode: 400, body: 'Invalid signature' };
     }
 
-    if (stripeEvent.type !== 'checkout.session.completed') {
+    const handle = HANDLERS[stripeEvent.type];
+    if (!handle) {
       return { statusCode: 200, body: 'Ignored' };
     }
 
-    const session = stripeEvent.data.object;
-    const orderId = session?.metadata?.order_id;
-    const orderCode = session?.metadata?.order_code;
-
-    if (!orderId || !orderCode) {
-      return { statusCode: 200, body: 'Missing metadata' };
-    }
-
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
       auth: { persistSession: false },
     });
 
     const now = new Date().toISOString();
 
-    const { data: orderRow } = await supabaseAdmin
-      .from('orders')
-      .select('id, order_code, user_id, customer_email, route_area, price_before_tax, final_price_before_tax, currency, order_stage')
-      .eq('id', orderId)
-      .maybeSingle();
-
-    const userId = orderRow?.user_id;
-    const routeArea = String(orderRow?.route_area ?? '').trim().toLowerCase();
-    const finalSubtotal = Number(orderRow?.final_price_before_tax);
-    const fallbackSubtotal = Number(orderRow?.price_before_tax);
-    const chosenSubtotal = Number.isFinite(finalSubtotal) && finalSubtotal > 0 ? finalSubtotal : fallbackSubtotal;
-    const safeSubtotal = Number.isFinite(chosenSubtotal) && chosenSubtotal >= 0 ? chosenSubtotal : 0;
-    const isQc = routeArea.includes('montreal') || routeArea.includes('quebec');
-    const taxRate = isQc ? 0.14975 : 0.13;
-    const taxNote = isQc ? 'QC (GST+QST)' : 'ON (HST)';
-    const tax = Math.round(safeSubtotal * taxRate * 100) / 100;
-    const total = Math.round((safeSubtotal + tax) * 100) / 100;
-
-    const currentStage = String(orderRow?.order_stage ?? '').trim();
-    const nextStage = currentStage === 'draft' || currentStage === 'in_negotiation' ? 'pending_payment' : currentStage;
-
-    await supabaseAdmin
-      .from('orders')
-      .update({
-        payment_status: 'paid',
-        stripe_payment_intent_id: session.payment_intent || null,
-        updated_at: now,
-        status: 'Scheduled',
-        order_stage: nextStage || 'pending_payment',
-      })
-      .eq('id', orderId);
-
-    await supabaseAdmin.from('order_events').insert({
-      order_id: orderId,
-      status: 'Scheduled',
-      note: 'Payment received',
-      at: now,
-    });
-
-    if (userId) {
-      let stripeCustomerId = null;
-      try {
-        stripeCustomerId = typeof session?.customer === 'string' ? session.customer : null;
-      } catch {
-        stripeCustomerId = null;
-      }
-
-      let hasSavedPaymentMethod = false;
-      let cardBrand = null;
-      let cardLast4 = null;
-      let cardExpMonth = null;
-      let cardExpYear = null;
-
-      try {
-        const paymentIntentId = typeof session?.payment_intent === 'string' ? session.payment_intent : null;
-        if (paymentIntentId) {
-          const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
-          const pmId = typeof pi?.payment_method === 'string' ? pi.payment_method : null;
-          if (pmId) {
-            const pm = await stripe.paymentMethods.retrieve(pmId);
-            const card = pm?.card || null;
-            const brand = typeof card?.brand === 'string' ? card.brand : null;
-            const last4 = typeof card?.last4 === 'string' ? card.last4 : null;
-            const expMonth = Number.isFinite(card?.exp_month) ? Number(card.exp_month) : null;
-            const expYear = Number.isFinite(card?.exp_year) ? Number(card.exp_year) : null;
-            if (brand && last4) {
-              hasSavedPaymentMethod = true;
-              cardBrand = brand;
-              cardLast4 = last4;
-              cardExpMonth = expMonth;
-              cardExpYear = expYear;
-            }
-          }
-        }
-      } catch {
-        // ignore
-      }
-
-      try {
-        await supabaseAdmin.from('billing_profiles').upsert(
-          {
-            user_id: userId,
-            stripe_customer_id: stripeCustomerId,
-            has_saved_payment_method: hasSavedPaymentMethod,
-            card_brand: cardBrand,
-            card_last4: cardLast4,
-            card_exp_month: cardExpMonth,
-            card_exp_year: cardExpYear,
-            updated_at: now,
-          },
-          { onConflict: 'user_id' }
-        );
-      } catch {
-        // ignore
+    // The event is recorded before it is applied. A delivery of one already processed is acknowledged; one still being
+    // processed is refused so Stripe tries again later; one that failed is applied again.
+    const { error: recordErr } = await supabaseAdmin
+      .from('stripe_events')
+      .insert({ id: stripeEvent.id, type: stripeEvent.type, status: 'processing', received_at: now });
+    if (recordErr) {
+      if (recordErr.code !== '23505') throw recordErr;
+      const { data: recorded } = await supabaseAdmin.from('stripe_events').select('status, received_at').eq('id', stripeEvent.id).maybeSingle();
+      if (recorded?.status === 'processed') return { statusCode: 200, body: 'Already processed' };
+      if (recorded?.status === 'processing' && Date.now() - Date.parse(recorded.received_at) < PROCESSING_TIMEOUT_MS) {
+        return { statusCode: 409, body: 'Already processing' };
       }
+      await supabaseAdmin.from('stripe_events').update({ status: 'processing', error: null, received_at: now }).eq('id', stripeEvent.id);
     }
 
-    if (userId) {
-      const receiptText = [
-        'Receipt',
-        `Created: ${now}`,
-        `Order: ${String(orderCode)}`,
-        orderRow?.customer_email ? `Customer: ${String(orderRow.customer_email)}` : null,
-        '',
-        `Subtotal (before tax): $${safeSubtotal.toFixed(2)}`,
-        `Tax ${taxNote} (${(taxRate * 100).toFixed(3)}%): $${tax.toFixed(2)}`,
-        `Total: $${total.toFixed(2)}`,
-      ]
-        .filter(Boolean)
-        .join('\n');
-
-      const { data: existingReceipts } = await supabaseAdmin
-        .from('receipts')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('order_code', String(orderCode))
-        .limit(1);
-
-      const exists = Array.isArray(existingReceipts) && existingReceipts.length > 0;
-
-      if (!exists) {
-        await supabaseAdmin.from('receipts').insert({
-          user_id: userId,
-          order_code: String(orderCode),
-          text: receiptText,
-        });
-      }
+    try {
+      const orderId = await handle({ stripe, supabaseAdmin, now }, stripeEvent.data.object);
+      await supabaseAdmin
+        .from('stripe_events')
+        .update({ status: 'processed', order_id: orderId ?? null, processed_at: new Date().toISOString() })
+        .eq('id', stripeEvent.id);
+    } catch (err) {
+      await supabaseAdmin
+        .from('stripe_events')
+        .update({ status: 'failed', error: err instanceof Error ? err.message : String(err?.message ?? 'Unknown error') })
+        .eq('id', stripeEvent.id);
+      throw err;
     }
 
     return { statusCode: 200, body: 'OK' };
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { readOrderVehicles } from '../../src/pricing/vehicles.ts';
 
 const BUCKET = 'order-documents';
 
@@ -56,7 +57,7 @@ export const handler = async (event) => {
 
     const { data: orderRow, error: orderErr } = await admin
       .from('orders')
-      .select('id, order_code, user_id, documents')
+      .select('id, order_code, user_id, documents, form_data')
       .eq('order_code', orderCode)
       .maybeSingle();
 
@@ -66,6 +67,8 @@ export const handler = async (event) => {
     const now = new Date().toISOString();
 
     const existingDocs = Array.isArray(orderRow.documents) ? orderRow.documents : [];
+    // Documents can be tagged with one of the order's vehicles; unknown ids are dropped rather than rejected.
+    const vehicleIds = new Set(readOrderVehicles(orderRow.form_data).map((v) => v.id));
 
     const uploadedDocs = [];
 
@@ -78,6 +81,7 @@ export const handler = async (event) => {
       const size = Number(f.size ?? 0);
       const base64 = String(f.base64 ?? '').trim();
       const docType = String(f.docType ?? '').trim();
+      const vehicleId = String(f.vehicleId ?? '').trim();
 
       if (!base64) continue;
 
@@ -101,6 +105,7 @@ export const handler = async (event) => {
         mime,
         size: Number.isFinite(size) ? size : buf.length,
         kind: docType === 'release_form' || docType === 'work_order' ? 'required' : docType ? 'optional' : 'unknown',
+        ...(vehicleId && vehicleIds.has(vehicleId) ? { vehicle_id: vehicleId } : {}),
         storage: {
           bucket: BUCKET,
           path,
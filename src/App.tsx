@@ -4,6 +4,7 @@ import Dashboard from './components/Dashboard';
 import AdminPortal from './components/AdminPortal';
 import ChatBot from './components/ChatBot';
 import { supabase } from './lib/supabaseClient';
+import { loadPublishedPricingRules } from './pricing/pricingRules';
 
 const STORAGE_RECEIPTS_PENDING = 'ed_receipts_pending';
 const PENDING_RECEIPT_PREFIX = 'ed_pending_receipt_order_';
@@ -36,6 +37,11 @@ function App() {
     };
   }, []);
 
+  useEffect(() => {
+    const isLocalDev = import.meta.env.DEV && window.location.hostname === 'localhost';
+    void loadPublishedPricingRules(supabase, { local: isLocalDev });
+  }, []);
+
   useEffect(() => {
     const claimPaidReceiptFromUrl = () => {
       try {
@@ -47,29 +53,6 @@ function App() {
         const pending = String(localStorage.getItem(`${PENDING_RECEIPT_PREFIX}${order}`) ?? '').trim();
         if (!pending) return;
 
-        const persistToSupabase = async () => {
-          if (!supabase) return;
-          try {
-            const { data } = await supabase.auth.getSession();
-            const user = data?.session?.user;
-            if (!user?.id) return;
-
-            const { data: existing } = await supabase
-              .from('receipts')
-              .select('id')
-              .eq('user_id', user.id)
-              .eq('order_code', order)
-              .limit(1);
-
-            const exists = Array.isArray(existing) && existing.length > 0;
-            if (exists) return;
-
-            await supabase.from('receipts').insert({ user_id: user.id, order_code: order, text: pending });
-          } catch {
-            // ignore
-          }
-        };
-
         const entry = {
           id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
           createdAt: new Date().toISOString(),
@@ -95,8 +78,6 @@ function App() {
           // ignore
         }
 
-        void persistToSupabase();
-
         url.searchParams.delete('checkout');
         url.searchParams.delete('order');
         const nextSearch = url.searchParams.toString();
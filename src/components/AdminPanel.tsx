@@ -1,17 +1,61 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { ArrowLeft, Download, Pencil, Search, ShieldCheck, Trash2 } from 'lucide-react';
-import { computeTotals, listLocalOrders, updateLocalOrderStatus, type LocalOrder, type OrderStatus } from '../orders/localOrders';
 import {
+  amendLocalOrder,
+  cancelLocalOrder,
+  computeTotals,
+  listLocalOrders,
+  payLocalOrderAmendment,
+  previewLocalOrderAmendment,
+  updateLocalOrderAccessorials,
+  updateLocalOrderFormData,
+  updateLocalOrderStatus,
+  type LocalOrder,
+  type OrderStatus,
+} from '../orders/localOrders';
+import {
+  cancelOrder,
+  chargeOrderBalanceAsStaff,
   deleteOrderAsStaff,
+  getCurrentUser,
   getOrderEventsForStaffOrder,
   listStaffOrders,
+  listTaxProfilesAsStaff,
+  payAmendmentWithSavedCard,
+  previewOrderAmendment,
+  submitOrderAmendment,
+  updateOrderAccessorialsAsStaff,
   updateOrderFormDataAsStaff,
   updateOrderStatusAsStaff,
   type DbOrderStatus,
   type DbPaymentStatus,
   type StaffOrderRow,
 } from '../orders/supabaseOrders';
+import { ORDER_STATUSES, getAllowedStatuses, getOrderDeletionError, isPaidPaymentStatus } from '../orders/orderStateMachine';
+import { readOrderAmendments, type AmendmentChanges } from '../orders/amendments';
+import { readOrderCancellation } from '../orders/cancellation';
+import { formatDepositSummary, getDepositBalanceDue, readOrderDeposit, type OrderDeposit } from '../orders/deposits';
+import { formatDisputeSummary, readOrderDispute, type OrderDispute } from '../orders/payments';
 import { supabase } from '../lib/supabaseClient';
+import {
+  formatFulfillmentDays,
+  getServiceLevelLabel,
+  getServiceTypeLabel,
+  getVehicleClass,
+  normalizeServiceLevel,
+  normalizeServiceType,
+  normalizeVehicleType,
+  type AccessorialCode,
+} from '../pricing/pricingTable';
+import { getAccessorialsTotal, makeOrderAccessorial, readOrderAccessorials, readQuotedLoadingFee, type OrderAccessorial } from '../pricing/accessorials';
+import { getDiscountTotal, readOrderDiscounts } from '../pricing/discounts';
+import { LEG_STATUSES, formatOrderLegLabel, isLegStatus, readOrderLegs, setOrderLegStatus, withOrderLegs } from '../pricing/legs';
+import { readTaxProfile, taxPlaceFromFormData, type TaxProfile } from '../pricing/taxes';
+import { formatOrderVehicleLabel, readOrderVehicles } from '../pricing/vehicles';
+import OrderAccessorialsCard from './OrderAccessorialsCard';
+import OrderAmendmentsCard from './OrderAmendmentsCard';
+import OrderCancellationCard from './OrderCancellationCard';
+import OrderReceiptsCard from './OrderReceiptsCard';
 
 interface AdminPanelProps {
   onBack: () => void;
@@ -19,8 +63,6 @@ interface AdminPanelProps {
   role?: 'admin' | 'employee';
 }
 
-const STATUSES: OrderStatus[] = ['Scheduled', 'Picked Up', 'In Transit', 'Delayed', 'Out for Delivery', 'Delivered'];
-
 const escapeCsv = (value: unknown) => {
   const s = String(value ?? '');
   if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
@@ -99,7 +141,8 @@ const getWorkOrderFields = (order: LocalOrder): WorkOrderFields => {
   };
 };
 
-type PaymentFilter = DbPaymentStatus | 'all';
+// 'ready' is every order that can be worked: paid, or billed to an account on invoice terms.
+type PaymentFilter = DbPaymentStatus | 'ready' | 'all';
 
 type EditableFields = {
   pickup_name: string;
@@ -118,12 +161,12 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
   const isLocalDev = import.meta.env.DEV && window.location.hostname === 'localhost';
   const isEmployee = role === 'employee';
 
-  type AdminOrder = LocalOrder & { db_id?: string };
+  type AdminOrder = LocalOrder & { db_id?: string; stripe_dispute?: OrderDispute; deposit?: OrderDeposit };
   const [orders, setOrders] = useState<AdminOrder[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
-  const [paymentFilter, setPaymentFilter] = useState<PaymentFilter>('paid');
+  const [paymentFilter, setPaymentFilter] = useState<PaymentFilter>('ready');
 
   const [isEditing, setIsEditing] = useState(false);
   const [editFields, setEditFields] = useState<EditableFields>({
@@ -168,12 +211,15 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
       return;
     }
 
-    listStaffOrders()
-      .then((rows) => {
+    // Tax profiles are only readable by admins; for other staff totals are shown without exemptions.
+    Promise.all([listStaffOrders(), listTaxProfilesAsStaff().catch(() => [])])
+      .then(([rows, taxProfileRows]) => {
+        const taxProfiles = new Map<string, TaxProfile>(taxProfileRows.map((p) => [p.user_id, readTaxProfile(p)]));
         const mapped: AdminOrder[] = (rows as StaffOrderRow[]).map((r) => {
           const routeArea = String(r.route_area ?? '').trim();
           const subtotal = Number(r.price_before_tax ?? 0);
-          const totals = computeTotals(subtotal, routeArea);
+          const taxProfile = r.user_id ? taxProfiles.get(r.user_id) ?? null : null;
+          const totals = computeTotals(subtotal, taxPlaceFromFormData(r.form_data, routeArea), taxProfile);
           const docsRaw = r.documents as unknown;
           const docs = Array.isArray(docsRaw)
             ? (docsRaw as unknown[])
@@ -185,6 +231,7 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                   mime: String(d?.mime ?? ''),
                   size: Number(d?.size ?? 0),
                   kind: (String(d?.kind ?? 'unknown') as 'required' | 'optional' | 'unknown') || 'unknown',
+                  vehicle_id: typeof d?.vehicle_id === 'string' && d.vehicle_id ? d.vehicle_id : undefined,
                   storage:
                     d?.storage && typeof d.storage === 'object'
                       ? {
@@ -200,17 +247,24 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
             id: r.order_code,
             created_at: r.created_at,
             updated_at: r.updated_at,
-            service_type: (r.service_type === 'delivery_one_way' ? 'delivery_one_way' : 'pickup_one_way') as LocalOrder['service_type'],
-            vehicle_type: 'standard',
+            service_type: normalizeServiceType(r.service_type),
+            service_level: normalizeServiceLevel(r.service_level),
+            vehicle_type: normalizeVehicleType(r.vehicle_type),
             route_area: routeArea,
-            fulfillment_days_min: 0,
-            fulfillment_days_max: 0,
+            fulfillment_days_min: r.sla_days_min ?? 0,
+            fulfillment_days_max: r.sla_days_max ?? 0,
             totals,
             documents: docs,
             form_data: r.form_data,
+            accessorials: readOrderAccessorials(r.accessorials),
             status: r.status as OrderStatus,
             status_events: [],
             payment_status: r.payment_status,
+            order_stage: r.order_stage,
+            cancellation: readOrderCancellation(r.cancellation) ?? undefined,
+            amendments: readOrderAmendments(r.amendments),
+            stripe_dispute: readOrderDispute(r.stripe_dispute) ?? undefined,
+            deposit: readOrderDeposit(r.deposit) ?? undefined,
           };
         });
         setOrders(mapped);
@@ -321,6 +375,7 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
       .filter((o) => (statusFilter === 'all' ? true : o.status === statusFilter))
       .filter((o) => {
         if (paymentFilter === 'all') return true;
+        if (paymentFilter === 'ready') return isPaidPaymentStatus(o.payment_status) || o.payment_status === 'invoiced';
         return (o.payment_status ?? 'unpaid') === paymentFilter;
       })
       .filter((o) => {
@@ -362,17 +417,27 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
       'payment_status',
       'route_area',
       'service_type',
+      'service_level',
+      'sla_days_min',
+      'sla_days_max',
+      'vehicle_class',
       'pickup_address',
       'dropoff_address',
       'vehicle',
       'vin',
+      'vehicle_count',
       'transaction_id',
       'release_form_number',
       'arrival_date',
+      'promo_code',
+      'discount_total',
+      'accessorials_total',
       'subtotal',
       'tax',
       'total',
       'tax_note',
+      'tax_province',
+      'tax_exemption',
       'created_at',
       'updated_at',
     ];
@@ -380,23 +445,34 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
     const lines = [header.join(',')];
     for (const o of rows) {
       const wo = getWorkOrderFields(o);
+      const discounts = readOrderDiscounts(o.form_data);
       const data = [
         o.id,
         o.status,
         o.payment_status ?? 'unpaid',
         o.route_area,
         o.service_type,
+        o.service_level ?? 'standard',
+        o.fulfillment_days_min || '',
+        o.fulfillment_days_max || '',
+        o.vehicle_type,
         wo.pickup_address,
         wo.dropoff_address,
         wo.vehicle,
         wo.vin,
+        readOrderVehicles(o.form_data).length,
         wo.transaction_id,
         wo.release_form_number,
         wo.arrival_date,
+        discounts.find((d) => d.kind === 'promo')?.code ?? '',
+        getDiscountTotal(discounts),
+        getAccessorialsTotal(readOrderAccessorials(o.accessorials)),
         o.totals?.subtotal ?? 0,
         o.totals?.tax ?? 0,
         o.totals?.total ?? 0,
         o.totals?.tax_note ?? '',
+        o.totals?.tax_province ?? '',
+        o.totals?.tax_exemption ?? '',
         o.created_at,
         o.updated_at,
       ];
@@ -420,9 +496,13 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
     const trimmed = note.trim();
 
     if (isLocalDev) {
-      const next = updateLocalOrderStatus(selectedOrder.id, nextStatus, trimmed || undefined);
-      if (!next) {
-        setActionError('Failed to update order.');
+      try {
+        if (!updateLocalOrderStatus(selectedOrder.id, nextStatus, trimmed || undefined)) {
+          setActionError('Failed to update order.');
+          return;
+        }
+      } catch (e) {
+        setActionError(e instanceof Error ? e.message : 'Failed to update order.');
         return;
       }
       setNote('');
@@ -437,8 +517,9 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
     }
 
     void updateOrderStatusAsStaff(dbId, nextStatus as DbOrderStatus, trimmed || null)
-      .then(() => {
+      .then((res) => {
         setNote('');
+        if (res.balance_error) setActionError(`Marked ${nextStatus}, but the balance was not charged: ${res.balance_error}`);
         reload();
       })
       .catch((e) => {
@@ -446,6 +527,115 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
       });
   };
 
+  // Retries the balance of a deposit order on the saved card, e.g. after the customer updated it.
+  const chargeBalance = () => {
+    setActionError(null);
+    if (!selectedOrder) return;
+    void chargeOrderBalanceAsStaff(selectedOrder.id)
+      .then(() => reload())
+      .catch((e) => {
+        setActionError(e instanceof Error ? e.message : 'Failed to charge the balance.');
+        reload();
+      });
+  };
+
+  // Each leg of a round trip or multi-leg order has its own status and timeline, kept in form_data.legs.
+  const applyLegStatusUpdate = async (legId: string, status: string) => {
+    setActionError(null);
+    if (!selectedOrder || !isLegStatus(status)) return;
+    const trimmed = note.trim();
+    const formData = readObj(selectedOrder.form_data) ?? {};
+    const next = withOrderLegs(formData, setOrderLegStatus(readOrderLegs(formData), legId, status, trimmed || undefined));
+
+    if (isLocalDev) {
+      if (!updateLocalOrderFormData(selectedOrder.id, next)) {
+        setActionError('Failed to update leg.');
+        return;
+      }
+      setNote('');
+      reload();
+      return;
+    }
+
+    const dbId = String((selectedOrder as AdminOrder).db_id ?? '').trim();
+    if (!dbId) {
+      setActionError('Failed to update leg.');
+      return;
+    }
+
+    try {
+      await updateOrderFormDataAsStaff(dbId, next);
+      setNote('');
+      reload();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'Failed to update leg.');
+    }
+  };
+
+  // Throws so OrderAccessorialsCard can show the reason.
+  const saveAccessorials = async (next: OrderAccessorial[]) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      if (!updateLocalOrderAccessorials(selectedOrder.id, next)) throw new Error('Failed to update the extra charges.');
+      reload();
+      return;
+    }
+    const dbId = String((selectedOrder as AdminOrder).db_id ?? '').trim();
+    if (!dbId) throw new Error('Failed to update the extra charges.');
+    await updateOrderAccessorialsAsStaff(dbId, next);
+    reload();
+  };
+
+  const addAccessorial = async (code: AccessorialCode, quantity: number, accessorialNote: string) => {
+    if (!selectedOrder) return;
+    const addedBy = isLocalDev ? null : (await getCurrentUser().catch(() => null))?.email ?? null;
+    const added = makeOrderAccessorial(code, quantity, { note: accessorialNote, addedBy });
+    await saveAccessorials([...readOrderAccessorials(selectedOrder.accessorials), added]);
+  };
+
+  const removeAccessorial = async (id: string) => {
+    if (!selectedOrder) return;
+    await saveAccessorials(readOrderAccessorials(selectedOrder.accessorials).filter((a) => a.id !== id || a.paid_at));
+  };
+
+  // Throws so OrderCancellationCard can show the reason.
+  const cancelSelectedOrder = async (reason: string) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      if (!cancelLocalOrder(selectedOrder.id, { by: 'staff', reason })) throw new Error('Failed to cancel the order.');
+    } else {
+      await cancelOrder(selectedOrder.id, { reason, asStaff: true });
+    }
+    reload();
+  };
+
+  // Admins amend paid orders for the customer; a balance goes on the customer's saved card.
+  const previewAmendment = async (changes: AmendmentChanges) => {
+    if (!selectedOrder) throw new Error('Select an order first.');
+    if (isLocalDev) return previewLocalOrderAmendment(selectedOrder.id, changes, 'staff');
+    return previewOrderAmendment(selectedOrder.id, changes, { asStaff: true });
+  };
+
+  const submitAmendment = async (changes: AmendmentChanges, reason: string) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      await amendLocalOrder(selectedOrder.id, changes, { by: 'staff', reason });
+    } else {
+      await submitOrderAmendment(selectedOrder.id, changes, { reason, asStaff: true });
+    }
+    reload();
+  };
+
+  const payAmendment = async (amendmentId: string) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      payLocalOrderAmendment(selectedOrder.id, amendmentId, { by: 'staff' });
+    } else {
+      await payAmendmentWithSavedCard(selectedOrder.id, amendmentId, { asStaff: true });
+    }
+    reload();
+  };
+
   const saveEdits = async () => {
     setActionError(null);
     if (isLocalDev) {
@@ -462,6 +652,15 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
     const base = readObj(selectedOrder.form_data) ?? {};
     const next = JSON.parse(JSON.stringify(base)) as Record<string, unknown>;
 
+    // Moving a paid order changes its price, so it goes through an amendment instead.
+    const addressMoved =
+      editFields.pickup_address.trim() !== readStr(readObj(base.pickup_location)?.address) ||
+      editFields.dropoff_address.trim() !== readStr(readObj(base.dropoff_location)?.address);
+    if (isPaidPaymentStatus(selectedOrder.payment_status) && addressMoved) {
+      setActionError('This order is paid: change its pickup or drop-off under "Order changes" so it is priced again.');
+      return;
+    }
+
     const pickup = (readObj(next.pickup_location) ?? {}) as Record<string, unknown>;
     pickup.name = editFields.pickup_name;
     pickup.phone = editFields.pickup_phone;
@@ -506,6 +705,12 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
       return;
     }
 
+    const deletionError = getOrderDeletionError(selectedOrder);
+    if (deletionError) {
+      setActionError(deletionError);
+      return;
+    }
+
     const ok = window.confirm(`Delete order ${selectedOrder.id}? This cannot be undone.`);
     if (!ok) return;
 
@@ -588,7 +793,7 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                     className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
                   >
                     <option value="all">All statuses</option>
-                    {STATUSES.map((s) => (
+                    {ORDER_STATUSES.map((s) => (
                       <option key={s} value={s}>
                         {s}
                       </option>
@@ -600,11 +805,15 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                     onChange={(e) => setPaymentFilter(e.target.value as PaymentFilter)}
                     className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
                   >
-                    <option value="paid">Paid only</option>
+                    <option value="ready">Paid or invoiced</option>
                     <option value="all">All payments</option>
+                    <option value="paid">Paid</option>
+                    <option value="invoiced">Invoiced</option>
                     <option value="unpaid">Unpaid</option>
                     <option value="pending">Pending</option>
                     <option value="failed">Failed</option>
+                    <option value="refunded">Refunded</option>
+                    <option value="partially_refunded">Partially refunded</option>
                   </select>
                 </div>
 
@@ -653,14 +862,18 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                                 className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${
                                   (o.payment_status ?? 'unpaid') === 'paid'
                                     ? 'bg-emerald-50 text-emerald-700 ring-emerald-200'
-                                    : (o.payment_status ?? 'unpaid') === 'pending'
-                                      ? 'bg-amber-50 text-amber-700 ring-amber-200'
-                                      : (o.payment_status ?? 'unpaid') === 'failed'
-                                        ? 'bg-red-50 text-red-700 ring-red-200'
-                                        : 'bg-gray-50 text-gray-700 ring-gray-200'
+                                    : (o.payment_status ?? 'unpaid') === 'invoiced'
+                                      ? 'bg-sky-50 text-sky-700 ring-sky-200'
+                                      : (o.payment_status ?? 'unpaid') === 'pending'
+                                        ? 'bg-amber-50 text-amber-700 ring-amber-200'
+                                        : (o.payment_status ?? 'unpaid') === 'failed'
+                                          ? 'bg-red-50 text-red-700 ring-red-200'
+                                          : (o.payment_status ?? 'unpaid').endsWith('refunded')
+                                            ? 'bg-violet-50 text-violet-700 ring-violet-200'
+                                            : 'bg-gray-50 text-gray-700 ring-gray-200'
                                 }`}
                               >
-                                {(o.payment_status ?? 'unpaid').toUpperCase()}
+                                {(o.payment_status ?? 'unpaid').replace('_', ' ').toUpperCase()}
                               </span>
                             </div>
                           </div>
@@ -698,15 +911,39 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                         className={`inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold ring-1 ${
                           (selectedOrder.payment_status ?? 'unpaid') === 'paid'
                             ? 'bg-emerald-50 text-emerald-700 ring-emerald-200'
-                            : (selectedOrder.payment_status ?? 'unpaid') === 'pending'
-                              ? 'bg-amber-50 text-amber-700 ring-amber-200'
-                              : (selectedOrder.payment_status ?? 'unpaid') === 'failed'
-                                ? 'bg-red-50 text-red-700 ring-red-200'
-                                : 'bg-gray-50 text-gray-700 ring-gray-200'
+                            : (selectedOrder.payment_status ?? 'unpaid') === 'invoiced'
+                              ? 'bg-sky-50 text-sky-700 ring-sky-200'
+                              : (selectedOrder.payment_status ?? 'unpaid') === 'pending'
+                                ? 'bg-amber-50 text-amber-700 ring-amber-200'
+                                : (selectedOrder.payment_status ?? 'unpaid') === 'failed'
+                                  ? 'bg-red-50 text-red-700 ring-red-200'
+                                  : (selectedOrder.payment_status ?? 'unpaid').endsWith('refunded')
+                                    ? 'bg-violet-50 text-violet-700 ring-violet-200'
+                                    : 'bg-gray-50 text-gray-700 ring-gray-200'
                         }`}
                       >
-                        {(selectedOrder.payment_status ?? 'unpaid').toUpperCase()}
+                        {(selectedOrder.payment_status ?? 'unpaid').replace('_', ' ').toUpperCase()}
                       </span>
+                      {selectedOrder.stripe_dispute ? (
+                        <span
+                          title={formatDisputeSummary(selectedOrder.stripe_dispute)}
+                          className="inline-flex items-center rounded-full bg-red-50 px-2.5 py-1 text-[11px] font-semibold text-red-700 ring-1 ring-red-200"
+                        >
+                          DISPUTED
+                        </span>
+                      ) : null}
+                      {selectedOrder.deposit ? (
+                        <span
+                          title={formatDepositSummary(selectedOrder.deposit)}
+                          className={`inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold ring-1 ${
+                            getDepositBalanceDue(selectedOrder.deposit)
+                              ? 'bg-amber-50 text-amber-700 ring-amber-200'
+                              : 'bg-emerald-50 text-emerald-700 ring-emerald-200'
+                          }`}
+                        >
+                          {getDepositBalanceDue(selectedOrder.deposit) ? 'BALANCE DUE' : 'BALANCE PAID'}
+                        </span>
+                      ) : null}
                     </div>
                   ) : null}
                 </div>
@@ -720,6 +957,7 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                 <div className="p-4 space-y-4 overflow-auto flex-1">
                   {(() => {
                     const wo = getWorkOrderFields(selectedOrder);
+                    const discounts = readOrderDiscounts(selectedOrder.form_data);
                     return (
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                         <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
@@ -888,10 +1126,88 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                             </>
                           )}
                         </div>
+                        <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
+                          <div className="text-xs text-gray-500">Service level</div>
+                          <div className="mt-1 text-sm font-semibold text-gray-900">{getServiceLevelLabel(selectedOrder.service_level)}</div>
+                          <div className="mt-1 text-xs text-gray-700">
+                            SLA:{' '}
+                            {selectedOrder.fulfillment_days_max > 0
+                              ? formatFulfillmentDays({ days_min: selectedOrder.fulfillment_days_min, days_max: selectedOrder.fulfillment_days_max })
+                              : '-'}
+                          </div>
+                        </div>
+                        {discounts.length ? (
+                          <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
+                            <div className="text-xs text-gray-500">Discounts</div>
+                            {discounts.map((d) => (
+                              <div key={`${d.kind}-${d.code}`} className="mt-1 text-xs text-gray-700">
+                                {d.label}: -${d.amount.toFixed(2)}
+                              </div>
+                            ))}
+                            <div className="mt-1 text-sm font-semibold text-gray-900">Total: -${getDiscountTotal(discounts).toFixed(2)}</div>
+                          </div>
+                        ) : null}
                       </div>
                     );
                   })()}
 
+                  <OrderAccessorialsCard
+                    accessorials={readOrderAccessorials(selectedOrder.accessorials)}
+                    quotedLoadingFee={readQuotedLoadingFee(selectedOrder.form_data)}
+                    orderPaid={isPaidPaymentStatus(selectedOrder.payment_status)}
+                    onAdd={addAccessorial}
+                    onRemove={removeAccessorial}
+                  />
+
+                  {!isEmployee || selectedOrder.amendments?.length ? (
+                    <OrderAmendmentsCard
+                      order={selectedOrder}
+                      amendments={selectedOrder.amendments ?? []}
+                      actor="staff"
+                      readOnly={isEmployee}
+                      payMethods={isEmployee ? [] : ['saved_card']}
+                      onPreview={previewAmendment}
+                      onSubmit={submitAmendment}
+                      onPay={payAmendment}
+                    />
+                  ) : null}
+
+                  {selectedOrder.deposit ? (
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-2xl border border-gray-200 bg-white p-4">
+                      <div>
+                        <div className="text-sm font-semibold text-gray-900">Deposit</div>
+                        <div className="text-xs text-gray-600">
+                          {formatDepositSummary(selectedOrder.deposit)} (order total ${selectedOrder.deposit.total.toFixed(2)})
+                        </div>
+                        {selectedOrder.deposit.balance_status === 'failed' && selectedOrder.deposit.balance_error ? (
+                          <div className="mt-1 text-xs font-medium text-red-600">
+                            Last charge failed: {selectedOrder.deposit.balance_error}
+                          </div>
+                        ) : null}
+                      </div>
+                      {!isLocalDev && selectedOrder.status === 'Delivered' && getDepositBalanceDue(selectedOrder.deposit) ? (
+                        <button
+                          type="button"
+                          onClick={chargeBalance}
+                          className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors"
+                        >
+                          Charge balance
+                        </button>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {!isLocalDev ? <OrderReceiptsCard orderCode={selectedOrder.id} refreshKey={selectedOrder.updated_at} /> : null}
+
+                  {!isEmployee || selectedOrder.cancellation ? (
+                    <OrderCancellationCard
+                      order={selectedOrder}
+                      cancellation={selectedOrder.cancellation ?? null}
+                      actor="staff"
+                      onCancel={cancelSelectedOrder}
+                    />
+                  ) : null}
+
                   {!isEmployee ? (
                     <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-2xl border border-gray-200 bg-white p-4">
                       <div>
@@ -926,20 +1242,123 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                               <Pencil className="h-4 w-4" />
                               Edit
                             </button>
-                            <button
-                              type="button"
-                              onClick={deleteSelectedOrder}
-                              className="inline-flex items-center justify-center gap-2 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm font-semibold text-red-700 hover:bg-red-100 transition-colors"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                              Delete
-                            </button>
+                            {!getOrderDeletionError(selectedOrder) ? (
+                              <button
+                                type="button"
+                                onClick={deleteSelectedOrder}
+                                className="inline-flex items-center justify-center gap-2 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm font-semibold text-red-700 hover:bg-red-100 transition-colors"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                                Delete
+                              </button>
+                            ) : null}
                           </>
                         )}
                       </div>
                     </div>
                   ) : null}
 
+                  {(() => {
+                    const vehicles = readOrderVehicles(selectedOrder.form_data);
+                    return (
+                      <div className="rounded-2xl border border-gray-200 bg-white overflow-hidden">
+                        <div className="p-4 border-b border-gray-100">
+                          <div className="text-sm font-semibold text-gray-900">Vehicles ({vehicles.length})</div>
+                          <div className="text-xs text-gray-600">Each vehicle is priced and documented separately.</div>
+                        </div>
+                        <div className="overflow-x-auto">
+                          <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50 text-xs text-gray-500">
+                              <tr>
+                                <th className="px-4 py-2 text-left font-medium">#</th>
+                                <th className="px-4 py-2 text-left font-medium">Vehicle</th>
+                                <th className="px-4 py-2 text-left font-medium">VIN</th>
+                                <th className="px-4 py-2 text-left font-medium">Class</th>
+                                <th className="px-4 py-2 text-left font-medium">Condition</th>
+                                <th className="px-4 py-2 text-right font-medium">Price (before tax)</th>
+                                <th className="px-4 py-2 text-right font-medium">Docs</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {vehicles.map((v, i) => (
+                                <tr key={v.id}>
+                                  <td className="px-4 py-2 text-gray-600">{i + 1}</td>
+                                  <td className="px-4 py-2 font-medium text-gray-900">{formatOrderVehicleLabel(v, i)}</td>
+                                  <td className="px-4 py-2 font-mono text-xs text-gray-700">{v.vin || '-'}</td>
+                                  <td className="px-4 py-2 text-gray-700">{getVehicleClass(v.vehicle_type).label}</td>
+                                  <td className="px-4 py-2 text-gray-700">
+                                    {v.vehicle_condition === 'does_not_run_or_drive' ? 'Does not run or drive' : 'Runs and drives'}
+                                  </td>
+                                  <td className="px-4 py-2 text-right text-gray-900">
+                                    {typeof v.price_before_tax === 'number' ? `$${v.price_before_tax.toFixed(2)}` : '-'}
+                                    {v.discount ? <div className="text-[11px] text-emerald-700">-${v.discount.toFixed(2)} multi-car</div> : null}
+                                  </td>
+                                  <td className="px-4 py-2 text-right text-gray-700">
+                                    {(selectedOrder.documents ?? []).filter((d) => d.vehicle_id === v.id).length}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {(() => {
+                    const legs = readOrderLegs(selectedOrder.form_data);
+                    if (legs.length < 2) return null;
+                    return (
+                      <div className="rounded-2xl border border-gray-200 bg-white overflow-hidden">
+                        <div className="p-4 border-b border-gray-100">
+                          <div className="text-sm font-semibold text-gray-900">
+                            {getServiceTypeLabel(selectedOrder.service_type)} — legs ({legs.length})
+                          </div>
+                          <div className="text-xs text-gray-600">Each leg has its own dates, status and price. The note above is added to the leg's timeline.</div>
+                        </div>
+                        <div className="divide-y divide-gray-100">
+                          {legs.map((leg, i) => (
+                            <div key={leg.id} className="p-4">
+                              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                                <div>
+                                  <div className="text-sm font-semibold text-gray-900">{formatOrderLegLabel(leg, i)}</div>
+                                  <div className="mt-1 text-xs text-gray-600">
+                                    {leg.pickup_location.address || '-'} → {leg.dropoff_location.address || '-'}
+                                  </div>
+                                  <div className="mt-1 text-xs text-gray-600">
+                                    Pickup {leg.pickup_date || '-'} · Delivery {leg.delivery_date || '-'}
+                                    {typeof leg.price_before_tax === 'number' ? ` · $${leg.price_before_tax.toFixed(2)} before tax` : ''}
+                                  </div>
+                                </div>
+                                <select
+                                  value={leg.status}
+                                  onChange={(e) => void applyLegStatusUpdate(leg.id, e.target.value)}
+                                  className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                                >
+                                  {LEG_STATUSES.map((s) => (
+                                    <option key={s} value={s}>
+                                      {s}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              {leg.status_events.length ? (
+                                <div className="mt-2 space-y-1">
+                                  {leg.status_events.map((ev, idx) => (
+                                    <div key={`${ev.at}-${idx}`} className="text-xs text-gray-600">
+                                      <span className="font-semibold text-gray-800">{ev.status}</span> · {new Date(ev.at).toLocaleString()}
+                                      {ev.note ? ` — ${ev.note}` : ''}
+                                    </div>
+                                  ))}
+                                </div>
+                              ) : null}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   <div className="rounded-2xl border border-gray-200 bg-white overflow-hidden">
                     <div className="p-4 border-b border-gray-100">
                       <div className="text-sm font-semibold text-gray-900">Documents</div>
@@ -955,7 +1374,16 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                             >
                               <div className="min-w-0">
                                 <div className="text-sm font-semibold text-gray-900 truncate">{d.name}</div>
-                                <div className="text-xs text-gray-600 truncate">{d.mime}</div>
+                                <div className="text-xs text-gray-600 truncate">
+                                  {d.mime}
+                                  {d.vehicle_id
+                                    ? (() => {
+                                        const vehicles = readOrderVehicles(selectedOrder.form_data);
+                                        const index = vehicles.findIndex((v) => v.id === d.vehicle_id);
+                                        return index >= 0 ? ` · Vehicle ${index + 1}: ${formatOrderVehicleLabel(vehicles[index], index)}` : '';
+                                      })()
+                                    : ''}
+                                </div>
                               </div>
 
                               <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
@@ -997,7 +1425,7 @@ export default function AdminPanel({ onBack, embedded = false, role = 'admin' }:
                             onChange={(e) => setNextStatus(e.target.value as OrderStatus)}
                             className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
                           >
-                            {STATUSES.map((s) => (
+                            {getAllowedStatuses(selectedOrder).map((s) => (
                               <option key={s} value={s}>
                                 {s}
                               </option>
@@ -1,24 +1,63 @@
 import { useEffect, useState } from 'react';
-import { Gavel, KeyRound, Lock, Pencil, Plus, ShieldCheck, Unlock, Users } from 'lucide-react';
+import { BadgePercent, Gavel, KeyRound, Lock, Pencil, Plus, Receipt, Scale, ShieldCheck, Unlock, Users } from 'lucide-react';
 import AdminPanel from './AdminPanel';
+import DiscountsManager from './DiscountsManager';
+import InvoicesManager from './InvoicesManager';
+import PaymentReconciliation from './PaymentReconciliation';
+import PricingSimulator from './PricingSimulator';
 import { supabase } from '../lib/supabaseClient';
 import {
+  getTaxExemptionDocumentUrlAsStaff,
   listPendingOffersAsStaff,
+  listStaffOrders,
+  reviewTaxExemptionAsStaff,
+  setBillingTermsAsStaff,
+  setCustomerContractAsStaff,
   updateOfferAsStaff,
   updateOrderPricingAndStageAsStaff,
   type StaffOfferRow,
 } from '../orders/supabaseOrders';
-import { listLocalPendingOffersAsStaff, resolveLocalOfferAsStaff } from '../orders/localOrders';
+import { listLocalOrders, listLocalPendingOffersAsStaff, resolveLocalOfferAsStaff } from '../orders/localOrders';
 import {
+  ACCESSORIALS,
+  CANCELLATION_FEES,
+  DEFAULT_DISTANCE_MINIMUM_CHARGE,
   DEFAULT_DISTANCE_RATE_PER_KM,
+  DEFAULT_PRICING_RULES,
+  DEFAULT_MULTI_VEHICLE_DISCOUNT,
   OFFICIAL_CITY_TOTAL_PRICES,
-  clearDistanceRatePerKm,
-  clearPricingOverrides,
-  getDistanceRatePerKm,
-  getPricingOverrides,
-  setDistanceRatePerKm,
-  setPricingOverrides,
+  SERVICE_AREAS,
+  SERVICE_LEVELS,
+  VEHICLE_CLASSES,
+  getServiceLevelLabel,
+  isServiceLevel,
+  makeLaneRoute,
+  normalizePricingRules,
+  type AccessorialCode,
+  type CancellationFee,
+  type CancellationFeeStage,
+  type DepositRule,
+  type DistanceBand,
+  type PricingLane,
+  type PricingRules,
+  type ServiceLevel,
+  type ServiceLevelModifier,
+  type SlaWindow,
+  type VehicleType,
 } from '../pricing/pricingTable';
+import { formatAccessorialUnit } from '../pricing/accessorials';
+import {
+  applyPublishedPricingRules,
+  fetchPublishedPricingRules,
+  getLocalPublishedPricingRules,
+  publishLocalPricingRules,
+  toPricingRulesPayload,
+  type PricingRulesVersionRow,
+} from '../pricing/pricingRules';
+import { formatBillingTerms, isValidNetTermsDays, readBillingTerms, type BillingTerms } from '../orders/invoices';
+import { CUSTOMER_CONTRACT_FIELDS, isContractActive, type CustomerContractRow } from '../pricing/discounts';
+import type { SimulationOrderInput } from '../pricing/pricingSimulator';
+import { TAX_EXEMPTION_TYPES, readTaxProfile, type TaxExemptionStatus, type TaxExemptionType } from '../pricing/taxes';
 
 const STORAGE_STAFF_SESSION = 'ed_staff_session';
 const STORAGE_STAFF_CREDS = 'ed_staff_creds';
@@ -68,6 +107,14 @@ type BillingProfileRow = {
   card_last4: string | null;
   card_exp_month: number | null;
   card_exp_year: number | null;
+  gst_registration_number: string | null;
+  qst_registration_number: string | null;
+  tax_exemption_type: string | null;
+  tax_exemption_status: string | null;
+  tax_exemption_certificate: string | null;
+  tax_exemption_document: unknown;
+  payment_terms: string | null;
+  net_terms_days: number | null;
 };
 
 type OrderMiniRow = {
@@ -86,6 +133,42 @@ type AdminUserSummary = {
   cardLast4: string | null;
   cardExpMonth: number | null;
   cardExpYear: number | null;
+  taxExemptionType: TaxExemptionType | null;
+  taxExemptionStatus: TaxExemptionStatus;
+  taxExemptionCertificate: string | null;
+  hasTaxEvidence: boolean;
+  gstNumber: string | null;
+  qstNumber: string | null;
+  contract: CustomerContractRow | null;
+  terms: BillingTerms;
+};
+
+type LaneDraftRow = {
+  id: string;
+  pickup_area: string;
+  dropoff_area: string;
+  price: string;
+};
+
+type DistanceBandDraftRow = {
+  id: string;
+  up_to_km: string;
+  rate_per_km: string;
+};
+
+type SlaDraftRow = {
+  id: string;
+  route: string;
+  service_level: ServiceLevel;
+  days_min: string;
+  days_max: string;
+};
+
+type DepositDraftRow = {
+  id: string;
+  route: string;
+  percent: string;
+  flat: string;
 };
 
 const DEFAULT_STAFF_CREDS: StaffCreds = { adminPassword: 'admin123' };
@@ -112,6 +195,9 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
   const [showPricing, setShowPricing] = useState(false);
   const [showUsers, setShowUsers] = useState(false);
   const [showOffers, setShowOffers] = useState(false);
+  const [showDiscounts, setShowDiscounts] = useState(false);
+  const [showInvoices, setShowInvoices] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
 
@@ -129,7 +215,21 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
   const [resetEmpConfirm, setResetEmpConfirm] = useState('');
 
   const [pricingDraft, setPricingDraft] = useState<Record<string, string>>({});
+  const [laneDraft, setLaneDraft] = useState<LaneDraftRow[]>([]);
   const [distanceRateDraft, setDistanceRateDraft] = useState('');
+  const [distanceBandDraft, setDistanceBandDraft] = useState<DistanceBandDraftRow[]>([]);
+  const [distanceBaseFeeDraft, setDistanceBaseFeeDraft] = useState('');
+  const [distanceMinimumDraft, setDistanceMinimumDraft] = useState('');
+  const [vehicleMultiplierDraft, setVehicleMultiplierDraft] = useState<Record<string, string>>({});
+  const [multiVehicleDraft, setMultiVehicleDraft] = useState({ min_vehicles: '', percent: '' });
+  const [roundTripDiscountDraft, setRoundTripDiscountDraft] = useState('');
+  const [serviceLevelDraft, setServiceLevelDraft] = useState<Record<string, { percent: string; flat: string }>>({});
+  const [slaDraft, setSlaDraft] = useState<SlaDraftRow[]>([]);
+  const [depositDraft, setDepositDraft] = useState<DepositDraftRow[]>([]);
+  const [accessorialPriceDraft, setAccessorialPriceDraft] = useState<Record<string, string>>({});
+  const [cancellationFeeDraft, setCancellationFeeDraft] = useState<Record<string, { percent: string; flat: string }>>({});
+  const [pricingVersion, setPricingVersion] = useState<PricingRules | null>(null);
+  const [pricingLoading, setPricingLoading] = useState(false);
 
   const [offers, setOffers] = useState<StaffOfferRow[]>([]);
   const [offersLoading, setOffersLoading] = useState(false);
@@ -299,7 +399,7 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
       if (isLocalDev) {
         resolveLocalOfferAsStaff(offer.id, action, adminNote);
       } else {
-        await updateOfferAsStaff(offer.id, action, adminNote);
+        // The order's stage change is checked first, so a refused one leaves the offer pending.
         if (action === 'approved') {
           await updateOrderPricingAndStageAsStaff(offer.order_id, {
             final_price_before_tax: Number(offer.offer_amount),
@@ -311,6 +411,7 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
             order_stage: 'draft',
           });
         }
+        await updateOfferAsStaff(offer.id, action, adminNote);
       }
       setMessage(action === 'approved' ? 'Offer approved.' : 'Offer declined.');
       await loadOffers();
@@ -468,37 +569,166 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
     }
   };
 
-  const openPricing = () => {
-    if (!session || session.role !== 'admin') return;
-    setMessage(null);
-    setError(null);
-    const overrides = getPricingOverrides();
+  const fillPricingDraft = (rules: PricingRules) => {
     const next: Record<string, string> = {};
     for (const row of OFFICIAL_CITY_TOTAL_PRICES) {
-      const override = overrides[row.city];
+      const override = rules.city_prices[row.city];
       next[row.city] = Number.isFinite(override) ? String(override) : '';
     }
     setPricingDraft(next);
-    const rate = getDistanceRatePerKm();
-    setDistanceRateDraft(Number.isFinite(rate) ? String(rate) : String(DEFAULT_DISTANCE_RATE_PER_KM));
-    setShowPricing(true);
+    setLaneDraft(
+      rules.lane_prices.map((lane, idx) => ({
+        id: `${idx}_${lane.pickup_area}_${lane.dropoff_area}`,
+        pickup_area: lane.pickup_area,
+        dropoff_area: lane.dropoff_area,
+        price: String(lane.total_price),
+      }))
+    );
+    setDistanceRateDraft(String(rules.distance_rate_per_km));
+    setDistanceBandDraft(
+      rules.distance_bands.map((band, idx) => ({
+        id: `${idx}_${band.up_to_km}`,
+        up_to_km: String(band.up_to_km),
+        rate_per_km: String(band.rate_per_km),
+      }))
+    );
+    setDistanceBaseFeeDraft(rules.distance_base_fee ? String(rules.distance_base_fee) : '');
+    setDistanceMinimumDraft(String(rules.distance_minimum_charge));
+    const multipliers: Record<string, string> = {};
+    for (const [type, value] of Object.entries(rules.vehicle_multipliers)) {
+      if (Number.isFinite(value)) multipliers[type] = String(value);
+    }
+    setVehicleMultiplierDraft(multipliers);
+    setMultiVehicleDraft({
+      min_vehicles: String(rules.multi_vehicle_discount.min_vehicles),
+      percent: rules.multi_vehicle_discount.percent ? String(rules.multi_vehicle_discount.percent) : '',
+    });
+    setRoundTripDiscountDraft(rules.round_trip_discount_percent ? String(rules.round_trip_discount_percent) : '');
+    const levels: Record<string, { percent: string; flat: string }> = {};
+    for (const [level, modifier] of Object.entries(rules.service_level_modifiers)) {
+      if (modifier) levels[level] = { percent: String(modifier.percent), flat: String(modifier.flat) };
+    }
+    setServiceLevelDraft(levels);
+    const accessorialPrices: Record<string, string> = {};
+    for (const [code, price] of Object.entries(rules.accessorial_prices)) {
+      if (Number.isFinite(price)) accessorialPrices[code] = String(price);
+    }
+    setAccessorialPriceDraft(accessorialPrices);
+    const cancellationFees: Record<string, { percent: string; flat: string }> = {};
+    for (const [stage, fee] of Object.entries(rules.cancellation_fees)) {
+      if (fee) cancellationFees[stage] = { percent: String(fee.percent), flat: String(fee.flat) };
+    }
+    setCancellationFeeDraft(cancellationFees);
+    setSlaDraft(
+      rules.sla_windows.map((w, idx) => ({
+        id: `${idx}_${w.route}_${w.service_level}`,
+        route: w.route,
+        service_level: w.service_level,
+        days_min: String(w.days_min),
+        days_max: String(w.days_max),
+      }))
+    );
+    setDepositDraft(
+      rules.deposit_rules.map((r, idx) => ({
+        id: `${idx}_${r.route}`,
+        route: r.route,
+        percent: r.percent ? String(r.percent) : '',
+        flat: r.flat ? String(r.flat) : '',
+      }))
+    );
+    setPricingVersion(rules);
+  };
+
+  const loadPricing = async () => {
+    setPricingLoading(true);
+    setError(null);
+    try {
+      const rules = isLocalDev || !supabase ? getLocalPublishedPricingRules() : await fetchPublishedPricingRules(supabase);
+      fillPricingDraft(rules);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load pricing');
+    } finally {
+      setPricingLoading(false);
+    }
   };
 
-  const savePricing = () => {
+  const openPricing = () => {
     if (!session || session.role !== 'admin') return;
     setMessage(null);
     setError(null);
+    setShowPricing(true);
+    void loadPricing();
+  };
+
+  const publishPricing = async (rules: PricingRulesVersionRow['rules'], note: string) => {
+    if (isLocalDev) {
+      const row = publishLocalPricingRules(rules, note, session?.username ?? null);
+      return normalizePricingRules(row);
+    }
+
+    const token = await getAccessToken();
+    if (!token) throw new Error('Not authenticated');
+    const res = await fetch('/.netlify/functions/manage-pricing', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'publish', access_token: token, rules, note }),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(text || 'Failed to publish pricing');
+    }
+    const json = (await res.json().catch(() => null)) as { version?: unknown } | null;
+    return normalizePricingRules(json?.version);
+  };
 
+  // Validates the editor and returns the rules it describes, or sets the error and returns null.
+  const readPricingDraft = (): PricingRulesVersionRow['rules'] | null => {
     const rawRate = String(distanceRateDraft ?? '').trim();
+    let rate = DEFAULT_DISTANCE_RATE_PER_KM;
     if (rawRate) {
       const numRate = Number(rawRate);
       if (!Number.isFinite(numRate) || numRate <= 0) {
         setError('Invalid distance rate ($/km).');
-        return;
+        return null;
       }
-      setDistanceRatePerKm(numRate);
-    } else {
-      clearDistanceRatePerKm();
+      rate = numRate;
+    }
+
+    const bands: DistanceBand[] = [];
+    for (const row of distanceBandDraft) {
+      const rawUpTo = row.up_to_km.trim();
+      const rawBandRate = row.rate_per_km.trim();
+      if (!rawUpTo && !rawBandRate) continue;
+      const upTo = Number(rawUpTo);
+      const bandRate = Number(rawBandRate);
+      if (!rawUpTo || !Number.isFinite(upTo) || upTo <= 0) {
+        setError('Each distance band needs an upper limit in km.');
+        return null;
+      }
+      if (!rawBandRate || !Number.isFinite(bandRate) || bandRate < 0) {
+        setError(`Invalid rate ($/km) for the band up to ${upTo} km.`);
+        return null;
+      }
+      if (bands.some((band) => band.up_to_km === upTo)) {
+        setError(`The band up to ${upTo} km is listed twice.`);
+        return null;
+      }
+      bands.push({ up_to_km: upTo, rate_per_km: bandRate });
+    }
+    bands.sort((a, b) => a.up_to_km - b.up_to_km);
+
+    const rawBaseFee = distanceBaseFeeDraft.trim();
+    const baseFee = rawBaseFee ? Number(rawBaseFee) : 0;
+    if (!Number.isFinite(baseFee) || baseFee < 0) {
+      setError('Invalid base fee.');
+      return null;
+    }
+
+    const rawMinimum = distanceMinimumDraft.trim();
+    const minimumCharge = rawMinimum ? Number(rawMinimum) : DEFAULT_DISTANCE_MINIMUM_CHARGE;
+    if (!Number.isFinite(minimumCharge) || minimumCharge < 0) {
+      setError('Invalid minimum charge.');
+      return null;
     }
 
     const next: Record<string, number> = {};
@@ -508,27 +738,254 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
       const num = Number(raw);
       if (!Number.isFinite(num) || num <= 0) {
         setError(`Invalid price for ${row.city}.`);
-        return;
+        return null;
       }
       next[row.city] = Math.round(num);
     }
-    setPricingOverrides(next);
-    setMessage('Pricing updated.');
+
+    const multipliers: Partial<Record<VehicleType, number>> = {};
+    for (const vehicleClass of VEHICLE_CLASSES) {
+      const raw = String(vehicleMultiplierDraft[vehicleClass.type] ?? '').trim();
+      if (!raw) continue;
+      const num = Number(raw);
+      if (!Number.isFinite(num) || num <= 0) {
+        setError(`Invalid multiplier for ${vehicleClass.label}.`);
+        return null;
+      }
+      multipliers[vehicleClass.type] = num;
+    }
+
+    const rawMinVehicles = multiVehicleDraft.min_vehicles.trim();
+    const rawDiscountPercent = multiVehicleDraft.percent.trim();
+    const minVehicles = rawMinVehicles ? Number(rawMinVehicles) : DEFAULT_MULTI_VEHICLE_DISCOUNT.min_vehicles;
+    const discountPercent = rawDiscountPercent ? Number(rawDiscountPercent) : 0;
+    if (!Number.isInteger(minVehicles) || minVehicles < 2) {
+      setError('The multi-car discount needs a minimum of at least 2 vehicles.');
+      return null;
+    }
+    if (!Number.isFinite(discountPercent) || discountPercent < 0 || discountPercent >= 100) {
+      setError('Invalid multi-car discount (%).');
+      return null;
+    }
+
+    const rawRoundTripPercent = roundTripDiscountDraft.trim();
+    const roundTripPercent = rawRoundTripPercent ? Number(rawRoundTripPercent) : 0;
+    if (!Number.isFinite(roundTripPercent) || roundTripPercent < 0 || roundTripPercent >= 100) {
+      setError('Invalid round-trip discount (%).');
+      return null;
+    }
+
+    const serviceLevelModifiers: Partial<Record<ServiceLevel, ServiceLevelModifier>> = {};
+    for (const option of SERVICE_LEVELS) {
+      const draft = serviceLevelDraft[option.level];
+      const rawPercent = String(draft?.percent ?? '').trim();
+      const rawFlat = String(draft?.flat ?? '').trim();
+      if (option.level === 'standard' || (!rawPercent && !rawFlat)) continue;
+      const percent = rawPercent ? Number(rawPercent) : 0;
+      const flat = rawFlat ? Number(rawFlat) : 0;
+      if (!Number.isFinite(percent) || percent < 0 || percent > 200) {
+        setError(`Invalid surcharge (%) for ${option.label}.`);
+        return null;
+      }
+      if (!Number.isFinite(flat) || flat < 0) {
+        setError(`Invalid surcharge ($ per vehicle) for ${option.label}.`);
+        return null;
+      }
+      serviceLevelModifiers[option.level] = { percent, flat };
+    }
+
+    const accessorialPrices: Partial<Record<AccessorialCode, number>> = {};
+    for (const option of ACCESSORIALS) {
+      const raw = String(accessorialPriceDraft[option.code] ?? '').trim();
+      if (!raw) continue;
+      const price = Number(raw);
+      if (!Number.isFinite(price) || price < 0) {
+        setError(`Invalid price for ${option.label}.`);
+        return null;
+      }
+      accessorialPrices[option.code] = Math.round(price * 100) / 100;
+    }
+
+    const cancellationFees: Partial<Record<CancellationFeeStage, CancellationFee>> = {};
+    for (const option of CANCELLATION_FEES) {
+      const draft = cancellationFeeDraft[option.stage];
+      const rawPercent = String(draft?.percent ?? '').trim();
+      const rawFlat = String(draft?.flat ?? '').trim();
+      if (!rawPercent && !rawFlat) continue;
+      const percent = rawPercent ? Number(rawPercent) : 0;
+      const flat = rawFlat ? Number(rawFlat) : 0;
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        setError(`Invalid cancellation fee (%) for ${option.label.toLowerCase()}.`);
+        return null;
+      }
+      if (!Number.isFinite(flat) || flat < 0) {
+        setError(`Invalid cancellation fee ($) for ${option.label.toLowerCase()}.`);
+        return null;
+      }
+      cancellationFees[option.stage] = { percent, flat: Math.round(flat * 100) / 100 };
+    }
+
+    const slaWindows: SlaWindow[] = [];
+    const slaKeys = new Set<string>();
+    for (const row of slaDraft) {
+      const route = row.route.trim();
+      const rawMin = row.days_min.trim();
+      const rawMax = row.days_max.trim();
+      if (!route && !rawMin && !rawMax) continue;
+      if (!route) {
+        setError('Each delivery window needs a route.');
+        return null;
+      }
+      const daysMin = Number(rawMin);
+      const daysMax = Number(rawMax);
+      if (!Number.isInteger(daysMin) || !Number.isInteger(daysMax) || daysMin < 1 || daysMax < daysMin) {
+        setError(`Invalid delivery window for ${route}: use whole business days, with the maximum at least the minimum.`);
+        return null;
+      }
+      const key = `${route}\u0000${row.service_level}`;
+      if (slaKeys.has(key)) {
+        setError(`The ${getServiceLevelLabel(row.service_level)} delivery window for ${route} is listed twice.`);
+        return null;
+      }
+      slaKeys.add(key);
+      slaWindows.push({ route, service_level: row.service_level, days_min: daysMin, days_max: daysMax });
+    }
+
+    const depositRules: DepositRule[] = [];
+    const depositRoutes = new Set<string>();
+    for (const row of depositDraft) {
+      const route = row.route.trim();
+      const rawPercent = row.percent.trim();
+      const rawFlat = row.flat.trim();
+      if (!route && !rawPercent && !rawFlat) continue;
+      if (!route) {
+        setError('Each deposit rule needs a route.');
+        return null;
+      }
+      const percent = rawPercent ? Number(rawPercent) : 0;
+      const flat = rawFlat ? Number(rawFlat) : 0;
+      if (!Number.isFinite(percent) || percent < 0 || percent >= 100) {
+        setError(`Invalid deposit (%) for ${route}: use 0 to 99.`);
+        return null;
+      }
+      if (!Number.isFinite(flat) || flat < 0) {
+        setError(`Invalid deposit ($) for ${route}.`);
+        return null;
+      }
+      if (!percent && !flat) {
+        setError(`The deposit for ${route} needs a percentage or an amount.`);
+        return null;
+      }
+      if (depositRoutes.has(route)) {
+        setError(`The deposit for ${route} is listed twice.`);
+        return null;
+      }
+      depositRoutes.add(route);
+      depositRules.push({ route, percent, flat: Math.round(flat * 100) / 100 });
+    }
+
+    const lanes: PricingLane[] = [];
+    const laneKeys = new Set<string>();
+    for (const lane of laneDraft) {
+      const pickupArea = lane.pickup_area.trim();
+      const dropoffArea = lane.dropoff_area.trim();
+      const rawPrice = lane.price.trim();
+      if (!pickupArea && !dropoffArea && !rawPrice) continue;
+      if (!pickupArea || !dropoffArea) {
+        setError('Each lane needs a pickup and a drop-off service area.');
+        return null;
+      }
+      if (pickupArea === dropoffArea) {
+        setError(`Lane ${makeLaneRoute(pickupArea, dropoffArea)} must connect two different service areas.`);
+        return null;
+      }
+      const num = Number(rawPrice);
+      if (!rawPrice || !Number.isFinite(num) || num <= 0) {
+        setError(`Invalid price for lane ${makeLaneRoute(pickupArea, dropoffArea)}.`);
+        return null;
+      }
+      const key = makeLaneRoute(pickupArea, dropoffArea);
+      if (laneKeys.has(key)) {
+        setError(`Lane ${key} is listed twice.`);
+        return null;
+      }
+      laneKeys.add(key);
+      lanes.push({ pickup_area: pickupArea, dropoff_area: dropoffArea, total_price: Math.round(num) });
+    }
+
+    return {
+      ...toPricingRulesPayload(pricingVersion ?? DEFAULT_PRICING_RULES),
+      city_prices: next,
+      lane_prices: lanes,
+      distance_rate_per_km: rate,
+      distance_bands: bands,
+      distance_base_fee: baseFee,
+      distance_minimum_charge: minimumCharge,
+      vehicle_multipliers: multipliers,
+      multi_vehicle_discount: { min_vehicles: minVehicles, percent: discountPercent },
+      round_trip_discount_percent: roundTripPercent,
+      service_level_modifiers: serviceLevelModifiers,
+      sla_windows: slaWindows,
+      deposit_rules: depositRules,
+      accessorial_prices: accessorialPrices,
+      cancellation_fees: cancellationFees,
+    };
+  };
+
+  const getSimulationRules = () => {
+    setError(null);
+    const rules = readPricingDraft();
+    return rules ? normalizePricingRules({ rules }) : null;
+  };
+
+  const loadSimulationOrders = async (): Promise<SimulationOrderInput[]> => {
+    if (!isLocalDev) return listStaffOrders();
+    return listLocalOrders().map((o) => ({
+      order_code: o.id,
+      route_area: o.route_area,
+      order_stage: o.order_stage,
+      price_before_tax: o.price_before_tax ?? o.totals?.subtotal ?? null,
+      final_price_before_tax: o.final_price_before_tax,
+      form_data: o.form_data,
+      created_at: o.created_at,
+    }));
   };
 
-  const resetPricing = () => {
+  const savePricing = async () => {
     if (!session || session.role !== 'admin') return;
     setMessage(null);
     setError(null);
-    clearDistanceRatePerKm();
-    clearPricingOverrides();
-    const next: Record<string, string> = {};
-    for (const row of OFFICIAL_CITY_TOTAL_PRICES) {
-      next[row.city] = '';
+    const rules = readPricingDraft();
+    if (!rules) return;
+
+    setPricingLoading(true);
+    try {
+      const published = await publishPricing(rules, 'Pricing editor');
+      applyPublishedPricingRules(published);
+      fillPricingDraft(published);
+      setMessage(`Pricing published (version ${published.version}).`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to publish pricing');
+    } finally {
+      setPricingLoading(false);
+    }
+  };
+
+  const resetPricing = async () => {
+    if (!session || session.role !== 'admin') return;
+    setMessage(null);
+    setError(null);
+    setPricingLoading(true);
+    try {
+      const published = await publishPricing(toPricingRulesPayload(DEFAULT_PRICING_RULES), 'Reset to defaults');
+      applyPublishedPricingRules(published);
+      fillPricingDraft(published);
+      setMessage(`Pricing reset to defaults (version ${published.version}).`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to reset pricing');
+    } finally {
+      setPricingLoading(false);
     }
-    setPricingDraft(next);
-    setDistanceRateDraft(String(DEFAULT_DISTANCE_RATE_PER_KM));
-    setMessage('Pricing reset to defaults.');
   };
 
   useEffect(() => {
@@ -619,6 +1076,9 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
     setShowPricing(false);
     setShowUsers(false);
     setShowOffers(false);
+    setShowDiscounts(false);
+    setShowInvoices(false);
+    setShowReconciliation(false);
     setSession(null);
   };
 
@@ -769,10 +1229,20 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
 
       const { data: billingData, error: billingErr } = await supabase
         .from('billing_profiles')
-        .select('user_id, has_saved_payment_method, card_brand, card_last4, card_exp_month, card_exp_year');
+        .select(
+          'user_id, has_saved_payment_method, card_brand, card_last4, card_exp_month, card_exp_year, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status, tax_exemption_certificate, tax_exemption_document, payment_terms, net_terms_days'
+        );
 
       if (billingErr) throw billingErr;
 
+      const { data: contractData, error: contractErr } = await supabase.from('customer_contracts').select(CUSTOMER_CONTRACT_FIELDS);
+
+      if (contractErr) throw contractErr;
+
+      const contractsByUser = new Map<string, CustomerContractRow>(
+        ((Array.isArray(contractData) ? contractData : []) as CustomerContractRow[]).map((row) => [row.user_id, row])
+      );
+
       const orderRows = (Array.isArray(ordersData) ? ordersData : []) as OrderMiniRow[];
       const billingRows = (Array.isArray(billingData) ? billingData : []) as BillingProfileRow[];
 
@@ -812,6 +1282,7 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
       for (const id of ids) {
         const ord = ordersByUser.get(id);
         const bill = billingByUser.get(id);
+        const taxProfile = readTaxProfile(bill);
         next.push({
           userId: id,
           email: ord?.email ?? '-',
@@ -822,10 +1293,22 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
           cardLast4: bill?.card_last4 ?? null,
           cardExpMonth: typeof bill?.card_exp_month === 'number' ? bill.card_exp_month : null,
           cardExpYear: typeof bill?.card_exp_year === 'number' ? bill.card_exp_year : null,
+          taxExemptionType: taxProfile.tax_exemption_type,
+          taxExemptionStatus: taxProfile.tax_exemption_status,
+          taxExemptionCertificate: String(bill?.tax_exemption_certificate ?? '').trim() || null,
+          hasTaxEvidence: Boolean(bill?.tax_exemption_document),
+          gstNumber: taxProfile.gst_registration_number,
+          qstNumber: taxProfile.qst_registration_number,
+          contract: contractsByUser.get(id) ?? null,
+          terms: readBillingTerms(bill),
         });
       }
 
+      // Exemptions waiting for review first.
       next.sort((a, b) => {
+        const pendingA = a.taxExemptionStatus === 'pending' ? 1 : 0;
+        const pendingB = b.taxExemptionStatus === 'pending' ? 1 : 0;
+        if (pendingA !== pendingB) return pendingB - pendingA;
         const atA = new Date(a.lastOrderAt).getTime();
         const atB = new Date(b.lastOrderAt).getTime();
         const safeA = Number.isFinite(atA) ? atA : 0;
@@ -841,6 +1324,134 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
     }
   };
 
+  const [taxReviewLoading, setTaxReviewLoading] = useState<string | null>(null);
+
+  // Exemptions only affect tax once approved here; checkout re-reads the billing profile for every payment.
+  const reviewTaxExemption = async (user: AdminUserSummary, decision: 'approved' | 'rejected') => {
+    if (!session || session.role !== 'admin') return;
+    let note: string | null = null;
+    if (decision === 'rejected') {
+      const entered = window.prompt('Reason for rejecting (shown to the customer):', '');
+      if (entered === null) return;
+      note = entered.trim() || null;
+    }
+    setTaxReviewLoading(user.userId);
+    setMessage(null);
+    setError(null);
+    try {
+      await reviewTaxExemptionAsStaff(user.userId, decision, note);
+      setMessage(decision === 'approved' ? 'Tax exemption approved.' : 'Tax exemption rejected.');
+      await loadUsers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to review tax exemption');
+    } finally {
+      setTaxReviewLoading(null);
+    }
+  };
+
+  const openTaxEvidence = async (user: AdminUserSummary) => {
+    setError(null);
+    try {
+      const url = await getTaxExemptionDocumentUrlAsStaff(user.userId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to open the evidence document');
+    }
+  };
+
+  const [contractLoading, setContractLoading] = useState<string | null>(null);
+
+  // Dealer contract rates: a percentage off the transport price on every quote, until the optional end date.
+  const editContract = async (user: AdminUserSummary) => {
+    if (!session || session.role !== 'admin') return;
+    const percentRaw = window.prompt(`Contract discount for ${user.email} (% off transport, blank to remove):`, user.contract ? String(user.contract.percent_off) : '');
+    if (percentRaw === null) return;
+    const percent = percentRaw.trim() ? Number(percentRaw) : null;
+    if (percent !== null && (!Number.isFinite(percent) || percent <= 0 || percent > 100)) {
+      setError('Enter a percentage between 0 and 100.');
+      return;
+    }
+    let validUntil: string | null = null;
+    let note: string | null = null;
+    if (percent !== null) {
+      const untilRaw = window.prompt('Valid until (YYYY-MM-DD, blank for no end date):', user.contract?.valid_until ? user.contract.valid_until.slice(0, 10) : '');
+      if (untilRaw === null) return;
+      if (untilRaw.trim()) {
+        const until = new Date(`${untilRaw.trim()}T23:59:59`);
+        if (!Number.isFinite(until.getTime())) {
+          setError('Enter the end date as YYYY-MM-DD.');
+          return;
+        }
+        validUntil = until.toISOString();
+      }
+      const noteRaw = window.prompt('Note (optional, staff only):', user.contract?.note ?? '');
+      if (noteRaw === null) return;
+      note = noteRaw.trim() || null;
+    }
+    setContractLoading(user.userId);
+    setMessage(null);
+    setError(null);
+    try {
+      await setCustomerContractAsStaff(user.userId, percent, validUntil, note);
+      setMessage(percent === null ? 'Contract rate removed.' : `Contract rate set to ${percent}%.`);
+      await loadUsers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the contract rate');
+    } finally {
+      setContractLoading(null);
+    }
+  };
+
+  const [termsLoading, setTermsLoading] = useState<string | null>(null);
+
+  // Invoice terms let the account place orders without paying at checkout; they are billed on a monthly statement.
+  const editTerms = async (user: AdminUserSummary) => {
+    if (!session || session.role !== 'admin') return;
+    const daysRaw = window.prompt(
+      `Invoice terms for ${user.email}: days to pay each monthly statement (blank for card payment only):`,
+      user.terms.payment_terms === 'invoice' ? String(user.terms.net_terms_days) : ''
+    );
+    if (daysRaw === null) return;
+    const days = daysRaw.trim() ? Number(daysRaw) : null;
+    if (days !== null && !isValidNetTermsDays(days)) {
+      setError('Enter a whole number of days between 1 and 120.');
+      return;
+    }
+    setTermsLoading(user.userId);
+    setMessage(null);
+    setError(null);
+    try {
+      const terms = await setBillingTermsAsStaff(user.userId, days === null ? 'card' : 'invoice', days ?? user.terms.net_terms_days);
+      setMessage(`Payment terms set to ${formatBillingTerms(terms).toLowerCase()}.`);
+      await loadUsers();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the payment terms');
+    } finally {
+      setTermsLoading(null);
+    }
+  };
+
+  const openDiscounts = () => {
+    if (!session || session.role !== 'admin') return;
+    setMessage(null);
+    setError(null);
+    setShowDiscounts(true);
+  };
+
+  const openInvoices = () => {
+    if (!session || session.role !== 'admin') return;
+    setMessage(null);
+    setError(null);
+    setShowInvoices(true);
+  };
+
+  const openReconciliation = () => {
+    if (!session || session.role !== 'admin') return;
+    setMessage(null);
+    setError(null);
+    setShowReconciliation(true);
+  };
+
   const openUsers = () => {
     if (!session || session.role !== 'admin') return;
     setMessage(null);
@@ -941,6 +1552,30 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                       <Gavel className="h-4 w-4" />
                       <span className="hidden sm:inline">Offers</span>
                     </button>
+                    <button
+                      type="button"
+                      onClick={openDiscounts}
+                      className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                    >
+                      <BadgePercent className="h-4 w-4" />
+                      <span className="hidden sm:inline">Discounts</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={openInvoices}
+                      className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                    >
+                      <Receipt className="h-4 w-4" />
+                      <span className="hidden sm:inline">Invoices</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={openReconciliation}
+                      className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                    >
+                      <Scale className="h-4 w-4" />
+                      <span className="hidden sm:inline">Reconciliation</span>
+                    </button>
                     <button
                       type="button"
                       onClick={openSecurity}
@@ -972,7 +1607,7 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
           </div>
         </div>
 
-        {(showSecurity || showEmployees || showPricing || showUsers || showOffers) && (
+        {(showSecurity || showEmployees || showPricing || showUsers || showOffers || showDiscounts || showInvoices || showReconciliation) && (
           <div
             className="fixed inset-0 z-50 flex items-center justify-center px-4"
             role="dialog"
@@ -984,6 +1619,9 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                 setShowPricing(false);
                 setShowUsers(false);
                 setShowOffers(false);
+                setShowDiscounts(false);
+                setShowInvoices(false);
+                setShowReconciliation(false);
                 setError(null);
                 setMessage(null);
               }
@@ -998,14 +1636,28 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                     ? 'relative w-full max-w-3xl rounded-2xl bg-white shadow-2xl border border-gray-200 overflow-hidden'
                     : showUsers
                       ? 'relative w-full max-w-4xl rounded-2xl bg-white shadow-2xl border border-gray-200 overflow-hidden'
-                      : showOffers
+                      : showOffers || showDiscounts || showInvoices || showReconciliation
                         ? 'relative w-full max-w-4xl rounded-2xl bg-white shadow-2xl border border-gray-200 overflow-hidden'
                         : 'relative w-full max-w-2xl rounded-2xl bg-white shadow-2xl border border-gray-200 overflow-hidden'
               }
             >
               <div className="px-5 py-4 border-b border-gray-100">
                 <div className="text-base font-bold text-gray-900">
-                  {showEmployees ? 'Employees' : showUsers ? 'Users' : showOffers ? 'Offers' : showPricing ? 'Pricing' : 'Security'}
+                  {showEmployees
+                    ? 'Employees'
+                    : showUsers
+                      ? 'Users'
+                      : showOffers
+                        ? 'Offers'
+                        : showDiscounts
+                          ? 'Discounts'
+                          : showInvoices
+                            ? 'Invoices'
+                            : showReconciliation
+                              ? 'Reconciliation'
+                              : showPricing
+                                ? 'Pricing'
+                                : 'Security'}
                 </div>
                 <div className="text-xs text-gray-600">Admin only</div>
               </div>
@@ -1179,12 +1831,23 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                 {showPricing ? (
                   <>
                     <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
-                      <div className="text-sm font-semibold text-gray-900">Distance-based pricing</div>
-                      <div className="mt-1 text-xs text-gray-600">Default rate: ${DEFAULT_DISTANCE_RATE_PER_KM}/km (admin can override).</div>
-                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-sm font-semibold text-gray-900">Distance-based pricing</div>
+                        <div className="text-xs text-gray-600">
+                          {pricingLoading
+                            ? 'Loading...'
+                            : pricingVersion && pricingVersion.version > 0
+                              ? `Published version ${pricingVersion.version}`
+                              : 'Built-in defaults'}
+                        </div>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        {`Routes outside the lanes: base fee + each km at its band's rate, raised to the minimum charge. Default: $${DEFAULT_DISTANCE_RATE_PER_KM}/km, no bands, minimum $${DEFAULT_DISTANCE_MINIMUM_CHARGE}.`}
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
                         <div className="rounded-xl border border-gray-200 bg-white p-3">
                           <div className="text-xs font-semibold text-gray-700">Rate ($/km)</div>
-                          <div className="mt-1 text-xs text-gray-500">Leave blank to reset to default.</div>
+                          <div className="mt-1 text-xs text-gray-500">Past the last band. Leave blank to reset to default.</div>
                           <input
                             value={distanceRateDraft}
                             onChange={(e) => setDistanceRateDraft(e.target.value)}
@@ -1194,16 +1857,81 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                           />
                         </div>
                         <div className="rounded-xl border border-gray-200 bg-white p-3">
-                          <div className="text-xs font-semibold text-gray-700">Minimum charge</div>
-                          <div className="mt-1 text-xs text-gray-500">Applied to all quotes.</div>
-                          <div className="mt-2 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2 text-sm font-semibold text-gray-800">$150</div>
+                          <div className="text-xs font-semibold text-gray-700">Base fee ($)</div>
+                          <div className="mt-1 text-xs text-gray-500">Added to every distance price.</div>
+                          <input
+                            value={distanceBaseFeeDraft}
+                            onChange={(e) => setDistanceBaseFeeDraft(e.target.value)}
+                            inputMode="decimal"
+                            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            placeholder="0"
+                          />
+                        </div>
+                        <div className="rounded-xl border border-gray-200 bg-white p-3">
+                          <div className="text-xs font-semibold text-gray-700">Minimum charge ($)</div>
+                          <div className="mt-1 text-xs text-gray-500">Leave blank to reset to default.</div>
+                          <input
+                            value={distanceMinimumDraft}
+                            onChange={(e) => setDistanceMinimumDraft(e.target.value)}
+                            inputMode="decimal"
+                            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            placeholder={String(DEFAULT_DISTANCE_MINIMUM_CHARGE)}
+                          />
+                        </div>
+                      </div>
+                      <div className="mt-4 flex items-center justify-between gap-3">
+                        <div>
+                          <div className="text-xs font-semibold text-gray-700">Distance bands</div>
+                          <div className="mt-1 text-xs text-gray-500">Each band prices the km from the previous limit up to its own (e.g. 0–200 km, 200–600 km).</div>
                         </div>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setDistanceBandDraft((prev) => [...prev, { id: `${Date.now()}_${Math.random().toString(36).slice(2)}`, up_to_km: '', rate_per_km: '' }])
+                          }
+                          className="shrink-0 inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add band
+                        </button>
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {distanceBandDraft.length === 0 ? <div className="text-xs text-gray-500">No bands: every km at the rate above.</div> : null}
+                        {distanceBandDraft.map((band) => (
+                          <div key={band.id} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 rounded-xl border border-gray-200 bg-white p-3">
+                            <input
+                              value={band.up_to_km}
+                              onChange={(e) =>
+                                setDistanceBandDraft((prev) => prev.map((it) => (it.id === band.id ? { ...it, up_to_km: e.target.value } : it)))
+                              }
+                              inputMode="numeric"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="Up to (km)"
+                            />
+                            <input
+                              value={band.rate_per_km}
+                              onChange={(e) =>
+                                setDistanceBandDraft((prev) => prev.map((it) => (it.id === band.id ? { ...it, rate_per_km: e.target.value } : it)))
+                              }
+                              inputMode="decimal"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="Rate ($/km)"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setDistanceBandDraft((prev) => prev.filter((it) => it.id !== band.id))}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
                       </div>
                     </div>
 
                     <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
                       <div className="text-sm font-semibold text-gray-900">Official city total prices</div>
-                      <div className="mt-1 text-xs text-gray-600">Leave blank to use default. Changes apply immediately to quotes.</div>
+                      <div className="mt-1 text-xs text-gray-600">Leave blank to use default. Saving publishes a new version used by every quote and checkout.</div>
                       <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-[45vh] overflow-auto">
                         {OFFICIAL_CITY_TOTAL_PRICES.map((row) => (
                           <div key={row.city} className="rounded-xl border border-gray-200 bg-white p-3">
@@ -1221,18 +1949,447 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                       </div>
                     </div>
 
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Vehicle classes</div>
+                      <div className="mt-1 text-xs text-gray-600">Route prices are for a standard car; other classes are multiplied. Leave blank to use default.</div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {VEHICLE_CLASSES.map((vehicleClass) => (
+                          <div key={vehicleClass.type} className="rounded-xl border border-gray-200 bg-white p-3">
+                            <div className="text-xs font-semibold text-gray-700">{vehicleClass.label}</div>
+                            <div className="mt-1 text-xs text-gray-500">
+                              {vehicleClass.description}. Default: ×{vehicleClass.multiplier}
+                            </div>
+                            <input
+                              value={vehicleMultiplierDraft[vehicleClass.type] ?? ''}
+                              onChange={(e) => setVehicleMultiplierDraft((prev) => ({ ...prev, [vehicleClass.type]: e.target.value }))}
+                              inputMode="decimal"
+                              disabled={vehicleClass.type === 'standard'}
+                              className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm disabled:bg-gray-50"
+                              placeholder={String(vehicleClass.multiplier)}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Multi-car discount</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Percent off the transport price of every vehicle when an order has at least this many vehicles. Loading fees are not discounted. Leave blank for no discount.
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <label className="text-xs font-semibold text-gray-700">
+                          Minimum vehicles
+                          <input
+                            value={multiVehicleDraft.min_vehicles}
+                            onChange={(e) => setMultiVehicleDraft((prev) => ({ ...prev, min_vehicles: e.target.value }))}
+                            inputMode="numeric"
+                            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+                            placeholder={String(DEFAULT_MULTI_VEHICLE_DISCOUNT.min_vehicles)}
+                          />
+                        </label>
+                        <label className="text-xs font-semibold text-gray-700">
+                          Discount (%)
+                          <input
+                            value={multiVehicleDraft.percent}
+                            onChange={(e) => setMultiVehicleDraft((prev) => ({ ...prev, percent: e.target.value }))}
+                            inputMode="decimal"
+                            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+                            placeholder="0"
+                          />
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Round-trip discount</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Percent off the transport price of both legs of a round trip, after any multi-car discount. Leave blank for no discount.
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <label className="text-xs font-semibold text-gray-700">
+                          Discount (%)
+                          <input
+                            value={roundTripDiscountDraft}
+                            onChange={(e) => setRoundTripDiscountDraft(e.target.value)}
+                            inputMode="decimal"
+                            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+                            placeholder="0"
+                          />
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Service levels</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Surcharge on each vehicle's transport price after discounts, plus a flat amount per vehicle and leg. Leave both blank to use default.
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {SERVICE_LEVELS.filter((option) => option.level !== 'standard').map((option) => (
+                          <div key={option.level} className="rounded-xl border border-gray-200 bg-white p-3">
+                            <div className="text-xs font-semibold text-gray-700">{option.label}</div>
+                            <div className="mt-1 text-xs text-gray-500">
+                              Default: +{option.modifier.percent}% and +${option.modifier.flat} per vehicle
+                            </div>
+                            <div className="mt-2 grid grid-cols-2 gap-2">
+                              <input
+                                value={serviceLevelDraft[option.level]?.percent ?? ''}
+                                onChange={(e) =>
+                                  setServiceLevelDraft((prev) => ({
+                                    ...prev,
+                                    [option.level]: { percent: e.target.value, flat: prev[option.level]?.flat ?? '' },
+                                  }))
+                                }
+                                inputMode="decimal"
+                                className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                                placeholder={`${option.modifier.percent}%`}
+                              />
+                              <input
+                                value={serviceLevelDraft[option.level]?.flat ?? ''}
+                                onChange={(e) =>
+                                  setServiceLevelDraft((prev) => ({
+                                    ...prev,
+                                    [option.level]: { percent: prev[option.level]?.percent ?? '', flat: e.target.value },
+                                  }))
+                                }
+                                inputMode="decimal"
+                                className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                                placeholder={`$${option.modifier.flat}`}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Accessorials</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Extra charges staff attach to an order. The loading fee is also quoted automatically for vehicles that do not run or
+                        drive. Charges already on an order keep the price they were added at. Leave blank to use default.
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {ACCESSORIALS.map((option) => (
+                          <label key={option.code} className="text-xs font-semibold text-gray-700">
+                            {option.label} ({formatAccessorialUnit(option.unit)})
+                            <input
+                              value={accessorialPriceDraft[option.code] ?? ''}
+                              onChange={(e) => setAccessorialPriceDraft((prev) => ({ ...prev, [option.code]: e.target.value }))}
+                              inputMode="decimal"
+                              className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+                              placeholder={`$${option.price}`}
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="text-sm font-semibold text-gray-900">Cancellation fees</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        Kept from the amount paid when a paid order is cancelled; the rest is refunded. Customers can cancel until pickup, staff
+                        until delivery. Leave both blank to use default.
+                      </div>
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {CANCELLATION_FEES.map((option) => (
+                          <div key={option.stage} className="rounded-xl border border-gray-200 bg-white p-3">
+                            <div className="text-xs font-semibold text-gray-700">{option.label}</div>
+                            <div className="mt-1 text-xs text-gray-500">
+                              Default: {option.fee.percent}% and ${option.fee.flat} · {option.description}
+                            </div>
+                            <div className="mt-2 grid grid-cols-2 gap-2">
+                              <input
+                                value={cancellationFeeDraft[option.stage]?.percent ?? ''}
+                                onChange={(e) =>
+                                  setCancellationFeeDraft((prev) => ({
+                                    ...prev,
+                                    [option.stage]: { percent: e.target.value, flat: prev[option.stage]?.flat ?? '' },
+                                  }))
+                                }
+                                inputMode="decimal"
+                                className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                                placeholder={`${option.fee.percent}%`}
+                              />
+                              <input
+                                value={cancellationFeeDraft[option.stage]?.flat ?? ''}
+                                onChange={(e) =>
+                                  setCancellationFeeDraft((prev) => ({
+                                    ...prev,
+                                    [option.stage]: { percent: prev[option.stage]?.percent ?? '', flat: e.target.value },
+                                  }))
+                                }
+                                inputMode="decimal"
+                                className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                                placeholder={`$${option.fee.flat}`}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <div className="text-sm font-semibold text-gray-900">Delivery windows (SLA)</div>
+                          <div className="mt-1 text-xs text-gray-600">
+                            Business days from pickup to delivery, per route and service level. A lane's window also covers its return trip.
+                            Routes without a standard window use 1–2 days for the Montreal areas and 3–8 days elsewhere; other levels are derived
+                            from the standard window.
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSlaDraft((prev) => [
+                              ...prev,
+                              { id: `${Date.now()}_${Math.random().toString(36).slice(2)}`, route: '', service_level: 'standard', days_min: '', days_max: '' },
+                            ])
+                          }
+                          className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add window
+                        </button>
+                      </div>
+                      <div className="mt-4 space-y-2 max-h-[35vh] overflow-auto">
+                        {slaDraft.length === 0 ? <div className="text-xs text-gray-500">No published windows yet.</div> : null}
+                        {slaDraft.map((row) => (
+                          <div key={row.id} className="grid grid-cols-1 sm:grid-cols-[1fr_160px_90px_90px_auto] gap-2 rounded-xl border border-gray-200 bg-white p-3">
+                            <select
+                              value={row.route}
+                              onChange={(e) => setSlaDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, route: e.target.value } : it)))}
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            >
+                              <option value="">Route</option>
+                              <optgroup label="Service areas">
+                                {SERVICE_AREAS.map((area) => (
+                                  <option key={area} value={area}>
+                                    {area}
+                                  </option>
+                                ))}
+                              </optgroup>
+                              <optgroup label="Lanes">
+                                {laneDraft
+                                  .filter((lane) => lane.pickup_area && lane.dropoff_area)
+                                  .map((lane) => makeLaneRoute(lane.pickup_area, lane.dropoff_area))
+                                  .map((route) => (
+                                    <option key={route} value={route}>
+                                      {route}
+                                    </option>
+                                  ))}
+                              </optgroup>
+                            </select>
+                            <select
+                              value={row.service_level}
+                              onChange={(e) => {
+                                const level = e.target.value;
+                                if (!isServiceLevel(level)) return;
+                                setSlaDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, service_level: level } : it)));
+                              }}
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            >
+                              {SERVICE_LEVELS.map((option) => (
+                                <option key={option.level} value={option.level}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              value={row.days_min}
+                              onChange={(e) => setSlaDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, days_min: e.target.value } : it)))}
+                              inputMode="numeric"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="Min days"
+                            />
+                            <input
+                              value={row.days_max}
+                              onChange={(e) => setSlaDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, days_max: e.target.value } : it)))}
+                              inputMode="numeric"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="Max days"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setSlaDraft((prev) => prev.filter((it) => it.id !== row.id))}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <div className="text-sm font-semibold text-gray-900">Deposits</div>
+                          <div className="mt-1 text-xs text-gray-600">
+                            On these routes only a deposit (a percentage of the total, plus an amount) is charged at checkout; the balance is charged
+                            to the customer's card when the order is marked Delivered. A lane's rule also covers its return trip. Orders on account are
+                            not affected.
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setDepositDraft((prev) => [...prev, { id: `${Date.now()}_${Math.random().toString(36).slice(2)}`, route: '', percent: '', flat: '' }])
+                          }
+                          className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add rule
+                        </button>
+                      </div>
+                      <div className="mt-4 space-y-2 max-h-[35vh] overflow-auto">
+                        {depositDraft.length === 0 ? <div className="text-xs text-gray-500">Every route is paid in full at checkout.</div> : null}
+                        {depositDraft.map((row) => (
+                          <div key={row.id} className="grid grid-cols-1 sm:grid-cols-[1fr_110px_110px_auto] gap-2 rounded-xl border border-gray-200 bg-white p-3">
+                            <select
+                              value={row.route}
+                              onChange={(e) => setDepositDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, route: e.target.value } : it)))}
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            >
+                              <option value="">Route</option>
+                              <optgroup label="Service areas">
+                                {SERVICE_AREAS.map((area) => (
+                                  <option key={area} value={area}>
+                                    {area}
+                                  </option>
+                                ))}
+                              </optgroup>
+                              <optgroup label="Lanes">
+                                {laneDraft
+                                  .filter((lane) => lane.pickup_area && lane.dropoff_area)
+                                  .map((lane) => makeLaneRoute(lane.pickup_area, lane.dropoff_area))
+                                  .map((route) => (
+                                    <option key={route} value={route}>
+                                      {route}
+                                    </option>
+                                  ))}
+                              </optgroup>
+                            </select>
+                            <input
+                              value={row.percent}
+                              onChange={(e) => setDepositDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, percent: e.target.value } : it)))}
+                              inputMode="decimal"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="%"
+                            />
+                            <input
+                              value={row.flat}
+                              onChange={(e) => setDepositDraft((prev) => prev.map((it) => (it.id === row.id ? { ...it, flat: e.target.value } : it)))}
+                              inputMode="decimal"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="$"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setDepositDraft((prev) => prev.filter((it) => it.id !== row.id))}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <div className="text-sm font-semibold text-gray-900">Lane prices (pickup → drop-off)</div>
+                          <div className="mt-1 text-xs text-gray-600">
+                            Used when both ends match a service area. Otherwise the drop-off (then pickup) city price applies.
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setLaneDraft((prev) => [
+                              ...prev,
+                              { id: `${Date.now()}_${Math.random().toString(36).slice(2)}`, pickup_area: '', dropoff_area: '', price: '' },
+                            ])
+                          }
+                          className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add lane
+                        </button>
+                      </div>
+                      <div className="mt-4 space-y-2 max-h-[35vh] overflow-auto">
+                        {laneDraft.length === 0 ? <div className="text-xs text-gray-500">No lanes yet.</div> : null}
+                        {laneDraft.map((lane) => (
+                          <div key={lane.id} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_120px_auto] gap-2 rounded-xl border border-gray-200 bg-white p-3">
+                            <select
+                              value={lane.pickup_area}
+                              onChange={(e) =>
+                                setLaneDraft((prev) => prev.map((it) => (it.id === lane.id ? { ...it, pickup_area: e.target.value } : it)))
+                              }
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            >
+                              <option value="">Pickup area</option>
+                              {SERVICE_AREAS.map((area) => (
+                                <option key={area} value={area}>
+                                  {area}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={lane.dropoff_area}
+                              onChange={(e) =>
+                                setLaneDraft((prev) => prev.map((it) => (it.id === lane.id ? { ...it, dropoff_area: e.target.value } : it)))
+                              }
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                            >
+                              <option value="">Drop-off area</option>
+                              {SERVICE_AREAS.map((area) => (
+                                <option key={area} value={area}>
+                                  {area}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              value={lane.price}
+                              onChange={(e) => setLaneDraft((prev) => prev.map((it) => (it.id === lane.id ? { ...it, price: e.target.value } : it)))}
+                              inputMode="numeric"
+                              className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                              placeholder="Price"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setLaneDraft((prev) => prev.filter((it) => it.id !== lane.id))}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <PricingSimulator
+                      currentRules={pricingVersion ?? DEFAULT_PRICING_RULES}
+                      getCandidateRules={getSimulationRules}
+                      loadOrders={loadSimulationOrders}
+                    />
+
                     <div className="flex flex-col sm:flex-row gap-2">
                       <button
                         type="button"
-                        onClick={savePricing}
-                        className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors"
+                        onClick={() => void savePricing()}
+                        disabled={pricingLoading}
+                        className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                       >
-                        Save pricing
+                        Publish pricing
                       </button>
                       <button
                         type="button"
-                        onClick={resetPricing}
-                        className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+                        onClick={() => void resetPricing()}
+                        disabled={pricingLoading}
+                        className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                       >
                         Reset to defaults
                       </button>
@@ -1246,7 +2403,7 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                         <div>
                           <div className="text-sm font-semibold text-gray-900">Customers / Dealers</div>
-                          <div className="mt-1 text-xs text-gray-600">Saved card status and basic order counts.</div>
+                          <div className="mt-1 text-xs text-gray-600">Saved card, invoice terms, tax exemptions awaiting review, contract rates and basic order counts.</div>
                         </div>
                         <button
                           type="button"
@@ -1266,11 +2423,13 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                       />
 
                       <div className="mt-4 overflow-auto max-h-[50vh]">
-                        <div className="min-w-[720px] grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-2 pb-2 border-b border-gray-200">
-                          <div className="col-span-4">Email</div>
-                          <div className="col-span-3">User ID</div>
-                          <div className="col-span-2">Orders</div>
-                          <div className="col-span-3">Saved card</div>
+                        <div className="min-w-[960px] grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-2 pb-2 border-b border-gray-200">
+                          <div className="col-span-3">Email</div>
+                          <div className="col-span-2">User ID</div>
+                          <div className="col-span-1">Orders</div>
+                          <div className="col-span-2">Payment</div>
+                          <div className="col-span-3">Tax profile</div>
+                          <div className="col-span-1">Contract</div>
                         </div>
                         <div className="divide-y divide-gray-200">
                           {users
@@ -1289,14 +2448,14 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                                 : 'No';
                               return (
                                 <div key={u.userId} className="grid grid-cols-12 gap-2 px-2 py-2 text-sm text-gray-800">
-                                  <div className="col-span-4 truncate" title={u.email}>
+                                  <div className="col-span-3 truncate" title={u.email}>
                                     {u.email}
                                   </div>
-                                  <div className="col-span-3 truncate" title={u.userId}>
+                                  <div className="col-span-2 truncate" title={u.userId}>
                                     {u.userId}
                                   </div>
-                                  <div className="col-span-2">{u.ordersCount}</div>
-                                  <div className="col-span-3">
+                                  <div className="col-span-1">{u.ordersCount}</div>
+                                  <div className="col-span-2">
                                     <span
                                       className={
                                         u.hasSavedPaymentMethod
@@ -1306,6 +2465,82 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                                     >
                                       {safeCard}
                                     </span>
+                                    <div className="mt-1 flex items-center gap-1 text-xs">
+                                      <span className={u.terms.payment_terms === 'invoice' ? 'font-semibold text-gray-900' : 'text-gray-600'}>
+                                        {formatBillingTerms(u.terms)}
+                                      </span>
+                                      <button
+                                        type="button"
+                                        onClick={() => void editTerms(u)}
+                                        disabled={termsLoading === u.userId}
+                                        className="rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                                      >
+                                        Terms
+                                      </button>
+                                    </div>
+                                  </div>
+                                  <div className="col-span-3 text-xs">
+                                    {u.taxExemptionType ? (
+                                      <>
+                                        <div className="font-semibold text-gray-900">{TAX_EXEMPTION_TYPES[u.taxExemptionType].label}</div>
+                                        <div className={u.taxExemptionStatus === 'approved' ? 'text-emerald-700' : u.taxExemptionStatus === 'rejected' ? 'text-red-700' : 'text-amber-700'}>
+                                          {u.taxExemptionStatus}
+                                          {u.taxExemptionCertificate ? ` • #${u.taxExemptionCertificate}` : ''}
+                                        </div>
+                                        <div className="mt-1 flex flex-wrap gap-1">
+                                          {u.hasTaxEvidence ? (
+                                            <button
+                                              type="button"
+                                              onClick={() => void openTaxEvidence(u)}
+                                              className="rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50"
+                                            >
+                                              Evidence
+                                            </button>
+                                          ) : null}
+                                          {u.taxExemptionStatus !== 'approved' ? (
+                                            <button
+                                              type="button"
+                                              onClick={() => void reviewTaxExemption(u, 'approved')}
+                                              disabled={taxReviewLoading === u.userId || !u.hasTaxEvidence}
+                                              className="rounded-lg bg-emerald-600 px-2 py-1 font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+                                            >
+                                              Approve
+                                            </button>
+                                          ) : null}
+                                          {u.taxExemptionStatus !== 'rejected' ? (
+                                            <button
+                                              type="button"
+                                              onClick={() => void reviewTaxExemption(u, 'rejected')}
+                                              disabled={taxReviewLoading === u.userId}
+                                              className="rounded-lg border border-red-200 bg-white px-2 py-1 font-semibold text-red-700 hover:bg-red-50 disabled:opacity-60"
+                                            >
+                                              {u.taxExemptionStatus === 'approved' ? 'Revoke' : 'Reject'}
+                                            </button>
+                                          ) : null}
+                                        </div>
+                                      </>
+                                    ) : (
+                                      <div className="text-gray-600">No exemption</div>
+                                    )}
+                                    {u.gstNumber ? <div className="mt-1 text-gray-600">GST/HST {u.gstNumber}</div> : null}
+                                    {u.qstNumber ? <div className="text-gray-600">QST {u.qstNumber}</div> : null}
+                                  </div>
+                                  <div className="col-span-1 text-xs">
+                                    {u.contract ? (
+                                      <div className={isContractActive(u.contract) ? 'font-semibold text-gray-900' : 'text-gray-500'} title={u.contract.note ?? undefined}>
+                                        {u.contract.percent_off}%{isContractActive(u.contract) ? '' : ' (expired)'}
+                                      </div>
+                                    ) : (
+                                      <div className="text-gray-600">None</div>
+                                    )}
+                                    <button
+                                      type="button"
+                                      onClick={() => void editContract(u)}
+                                      disabled={contractLoading === u.userId}
+                                      className="mt-1 rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                                    >
+                                      {u.contract ? 'Edit' : 'Set'}
+                                    </button>
                                   </div>
                                 </div>
                               );
@@ -1426,6 +2661,36 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                   </>
                 ) : null}
 
+                {showDiscounts ? (
+                  supabase && !isLocalDev ? (
+                    <DiscountsManager />
+                  ) : (
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+                      Promo codes and contract rates are stored in Supabase and are not available in local development.
+                    </div>
+                  )
+                ) : null}
+
+                {showInvoices ? (
+                  supabase && !isLocalDev ? (
+                    <InvoicesManager />
+                  ) : (
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+                      Invoices are stored in Supabase and are not available in local development.
+                    </div>
+                  )
+                ) : null}
+
+                {showReconciliation ? (
+                  supabase && !isLocalDev ? (
+                    <PaymentReconciliation />
+                  ) : (
+                    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+                      Reconciliation reads Stripe and Supabase and is not available in local development.
+                    </div>
+                  )
+                ) : null}
+
                 {showSecurity ? (
                   <>
                     <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
@@ -1480,6 +2745,9 @@ export default function AdminPortal({ onExit }: AdminPortalProps) {
                     setShowPricing(false);
                     setShowUsers(false);
                     setShowOffers(false);
+                    setShowDiscounts(false);
+                    setShowInvoices(false);
+                    setShowReconciliation(false);
                     setError(null);
                     setMessage(null);
                   }}
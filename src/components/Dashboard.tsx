@@ -1,11 +1,24 @@
 import { useEffect, useMemo, useState } from 'react';
-import { FileText, LogOut, Package, Clock, Home } from 'lucide-react';
+import { FileText, LogOut, Package, Clock, Home, Receipt } from 'lucide-react';
 import FileUploadSection from './FileUploadSection';
 import { supabase } from '../lib/supabaseClient';
 import LocalOrders from './LocalOrders';
 import ReceiptHistory from './ReceiptHistory';
-import { createSavedQuoteOrder } from '../orders/supabaseOrders';
+import StatementHistory from './StatementHistory';
+import TaxProfileSettings from './TaxProfileSettings';
+import { createSavedQuoteOrder, requestSignedQuote } from '../orders/supabaseOrders';
 import { createLocalDraftOrderFromQuote, makeLocalOrderId } from '../orders/localOrders';
+import { normalizeServiceType, normalizeVehicleType } from '../pricing/pricingTable';
+import {
+  applyQuoteToFormData,
+  computeQuote,
+  formatQuoteValidity,
+  getQuoteExpiresAt,
+  getQuoteLegLines,
+  isQuoteExpired,
+  quoteRequestFromFormData,
+  type Quote,
+} from '../pricing/quotes';
 
 type CheckoutDraft = {
   id: string;
@@ -26,6 +39,13 @@ type QuoteReadyPayload = {
 
  const readNumber = (value: unknown): number => (typeof value === 'number' ? value : Number(value));
 
+ // Drafts saved before quotedAt was recorded fall back to when the draft was saved.
+ const getDraftQuoteExpiresAt = (draft: CheckoutDraft) => {
+   const costData = isRecord(draft.costData) ? draft.costData : null;
+   const quotedAt = costData && typeof costData.quotedAt === 'string' && costData.quotedAt ? costData.quotedAt : draft.createdAt;
+   return getQuoteExpiresAt(quotedAt);
+ };
+
 interface DashboardProps {
   onLogout: () => void;
 }
@@ -46,21 +66,28 @@ export default function Dashboard({ onLogout }: DashboardProps) {
   const [showOrders, setShowOrders] = useState(false);
   const [isDraftsOpen, setIsDraftsOpen] = useState(false);
   const [showDrafts, setShowDrafts] = useState(false);
+  const [showTaxProfile, setShowTaxProfile] = useState(false);
+  const [showStatements, setShowStatements] = useState(false);
   const [pendingUploadReset, setPendingUploadReset] = useState(false);
   const [drafts, setDrafts] = useState<CheckoutDraft[]>([]);
   const [latestQuote, setLatestQuote] = useState<QuoteReadyPayload | null>(null);
   const [saveQuoteMessage, setSaveQuoteMessage] = useState<string | null>(null);
   const [saveQuoteError, setSaveQuoteError] = useState(false);
   const [draftOfferLoadingId, setDraftOfferLoadingId] = useState<string | null>(null);
+  const [draftRefreshLoadingId, setDraftRefreshLoadingId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
   const [draftUserKey, setDraftUserKey] = useState<string>('anon');
 
-  const activeNav: 'home' | 'tracking' | 'receipts' | 'drafts' = showOrders
-    ? 'tracking'
-    : showReceiptHistory
-      ? 'receipts'
-      : showDrafts
-        ? 'drafts'
-        : 'home';
+  const activeNav: 'home' | 'tracking' | 'receipts' | 'drafts' | 'account' =
+    showTaxProfile || showStatements
+      ? 'account'
+      : showOrders
+        ? 'tracking'
+        : showReceiptHistory
+          ? 'receipts'
+          : showDrafts
+            ? 'drafts'
+            : 'home';
 
   const navButtonClass = (active: boolean) =>
     `flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 rounded-xl text-gray-700 transition-colors ${
@@ -107,6 +134,12 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       return;
     }
 
+    if (isQuoteExpired(getDraftQuoteExpiresAt(draft))) {
+      setSaveQuoteMessage('This quote has expired. Please refresh the quote before making an offer.');
+      setSaveQuoteError(true);
+      return;
+    }
+
     if (isLocalDevAuthEnabled()) {
       const formData = isRecord(draft.formData) ? (draft.formData as Record<string, unknown>) : null;
       const costData = isRecord(draft.costData) ? (draft.costData as Record<string, unknown>) : null;
@@ -134,13 +167,14 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       }
 
       const service = isRecord(formData.service) ? (formData.service as Record<string, unknown>) : null;
-      const serviceType = String(service?.service_type ?? 'pickup_one_way').trim() || 'pickup_one_way';
+      const vehicleType = normalizeVehicleType(service?.vehicle_type);
 
       const created = createLocalDraftOrderFromQuote({
         route_area: routeArea,
-        service_type: serviceType === 'delivery_one_way' ? 'delivery_one_way' : 'pickup_one_way',
-        vehicle_type: 'standard',
+        service_type: normalizeServiceType(service?.service_type),
+        vehicle_type: vehicleType,
         price_before_tax: subtotal,
+        quoted_at: typeof costData.quotedAt === 'string' ? costData.quotedAt : draft.createdAt,
         form_data: { ...formData, costEstimate: costData },
         documents: null,
       });
@@ -154,6 +188,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       setSaveQuoteMessage('Saved locally. Opening offer...');
       setSaveQuoteError(false);
       setShowOrders(true);
+      setShowTaxProfile(false);
+      setShowStatements(false);
       setShowReceiptHistory(false);
       setShowDrafts(false);
       return;
@@ -179,13 +215,6 @@ export default function Dashboard({ onLogout }: DashboardProps) {
         return;
       }
 
-      const pricingCity = typeof costData.pricingCity === 'string' ? costData.pricingCity : '';
-      const pickupLocation = isRecord(formData.pickup_location) ? (formData.pickup_location as Record<string, unknown>) : null;
-      const dropoffLocation = isRecord(formData.dropoff_location) ? (formData.dropoff_location as Record<string, unknown>) : null;
-      const pickupCity = pickupLocation && typeof pickupLocation.city === 'string' ? pickupLocation.city : '';
-      const dropoffCity = dropoffLocation && typeof dropoffLocation.city === 'string' ? dropoffLocation.city : '';
-      const routeArea = String(pricingCity || dropoffCity || pickupCity || '').trim();
-
       const baseSubtotal = readNumber(costData.cost);
       const formLoadingFee = readNumber((formData as Record<string, unknown>)?.vehicle_loading_fee);
       const loadingFee = Number.isFinite(formLoadingFee) && formLoadingFee > 0 ? formLoadingFee : 0;
@@ -196,17 +225,12 @@ export default function Dashboard({ onLogout }: DashboardProps) {
         return;
       }
 
-      const service = isRecord(formData.service) ? (formData.service as Record<string, unknown>) : null;
-      const serviceType = String(service?.service_type ?? 'pickup_one_way').trim() || 'pickup_one_way';
-
+      const signed = await requestSignedQuote(quoteRequestFromFormData(formData));
       const orderCode = makeLocalOrderId();
       const created = await createSavedQuoteOrder({
         order_code: orderCode,
-        route_area: routeArea,
-        service_type: serviceType,
-        vehicle_type: 'standard',
+        quote_token: signed.token,
         price_before_tax: subtotal,
-        currency: 'CAD',
         form_data: { ...formData, costEstimate: costData },
         documents: null,
       });
@@ -220,6 +244,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       setSaveQuoteMessage('Saved to Draft Orders. Opening offer...');
       setSaveQuoteError(false);
       setShowOrders(true);
+      setShowTaxProfile(false);
+      setShowStatements(false);
       setShowReceiptHistory(false);
       setShowDrafts(false);
     } catch (e) {
@@ -230,16 +256,23 @@ export default function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
+  useEffect(() => {
+    if (!showDrafts && !isDraftsOpen) return;
+    setNow(new Date());
+    const id = window.setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => window.clearInterval(id);
+  }, [showDrafts, isDraftsOpen]);
+
   useEffect(() => {
     if (!pendingUploadReset) return;
-    if (showOrders || showReceiptHistory || showDrafts) return;
+    if (showOrders || showReceiptHistory || showDrafts || showTaxProfile || showStatements) return;
     try {
       window.dispatchEvent(new Event('ed_reset_upload'));
     } catch {
       // ignore
     }
     setPendingUploadReset(false);
-  }, [pendingUploadReset, showOrders, showReceiptHistory, showDrafts]);
+  }, [pendingUploadReset, showOrders, showReceiptHistory, showDrafts, showTaxProfile, showStatements]);
 
   const loadDrafts = () => {
     try {
@@ -306,8 +339,88 @@ export default function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
+  const refreshDraftQuote = async (draft: CheckoutDraft) => {
+    const formData = isRecord(draft.formData) ? (draft.formData as Record<string, unknown>) : null;
+    const costData = isRecord(draft.costData) ? (draft.costData as Record<string, unknown>) : null;
+    if (!formData || !costData) {
+      setSaveQuoteMessage('This draft is missing a quote. Please Resume and calculate a quote first.');
+      setSaveQuoteError(true);
+      return;
+    }
+
+    setDraftRefreshLoadingId(draft.id);
+    setSaveQuoteMessage(null);
+    setSaveQuoteError(false);
+    try {
+      const request = quoteRequestFromFormData(formData);
+      let quote: Quote | null;
+      if (isLocalDevAuthEnabled() || !supabase) {
+        const distance = readNumber(costData.distance);
+        const extraLegs = Array.isArray(costData.extraLegs) ? costData.extraLegs.filter(isRecord) : [];
+        quote = computeQuote(request, {
+          distanceKm: Number.isFinite(distance) && distance > 0 ? distance : null,
+          legDistancesKm: [null, ...extraLegs.map((leg) => (readNumber(leg.distance) > 0 ? readNumber(leg.distance) : null))],
+        });
+      } else {
+        quote = (await requestSignedQuote(request)).quote;
+      }
+      if (!quote) throw new Error('Unable to price this route. Please Resume and calculate a new quote.');
+
+      const previousCost = readNumber(costData.cost);
+      const quotedAt = new Date().toISOString();
+      const refreshed: CheckoutDraft = {
+        ...draft,
+        formData: applyQuoteToFormData(formData, quote),
+        costData: {
+          ...costData,
+          cost: quote.transport_price,
+          baseCost: quote.base_price,
+          pricingCity: quote.route_area || costData.pricingCity,
+          pricingStatus: quote.pricing_status,
+          quotedAt,
+          extraLegs: getQuoteLegLines(quote)
+            .slice(1)
+            .map((leg) => ({
+              id: leg.id,
+              distance: leg.distance_km ?? 0,
+              baseCost: leg.base_price,
+              pricingCity: leg.route_area,
+              pricingStatus: leg.pricing_status,
+            })),
+        },
+      };
+      const next = drafts.map((d) => (d.id === draft.id ? refreshed : d));
+      setDrafts(next);
+      try {
+        localStorage.setItem(getDraftStorageKey(), JSON.stringify(next));
+        localStorage.setItem(getDraftStorageKey('v1'), JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      try {
+        window.dispatchEvent(new Event('ed_drafts_updated'));
+      } catch {
+        // ignore
+      }
+
+      setSaveQuoteMessage(
+        Number.isFinite(previousCost) && previousCost !== quote.transport_price
+          ? `Quote refreshed. Subtotal changed from $${previousCost} to $${quote.transport_price}.`
+          : `Quote refreshed. Subtotal is still $${quote.transport_price}.`
+      );
+      setSaveQuoteError(false);
+    } catch (e) {
+      setSaveQuoteMessage(e instanceof Error ? e.message : 'Failed to refresh the quote');
+      setSaveQuoteError(true);
+    } finally {
+      setDraftRefreshLoadingId(null);
+    }
+  };
+
   const resumeDraft = (draft: CheckoutDraft) => {
     setShowOrders(false);
+    setShowTaxProfile(false);
+    setShowStatements(false);
     setShowReceiptHistory(false);
     setShowDrafts(false);
     try {
@@ -455,13 +568,6 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       return;
     }
 
-    const pricingCity = typeof costData.pricingCity === 'string' ? costData.pricingCity : '';
-    const pickupLocation = isRecord(formData.pickup_location) ? (formData.pickup_location as Record<string, unknown>) : null;
-    const dropoffLocation = isRecord(formData.dropoff_location) ? (formData.dropoff_location as Record<string, unknown>) : null;
-    const pickupCity = pickupLocation && typeof pickupLocation.city === 'string' ? pickupLocation.city : '';
-    const dropoffCity = dropoffLocation && typeof dropoffLocation.city === 'string' ? dropoffLocation.city : '';
-    const routeArea = String(pricingCity || dropoffCity || pickupCity || '').trim();
-
     const baseSubtotal = readNumber(costData.cost);
     const formLoadingFee = readNumber((formData as Record<string, unknown>)?.vehicle_loading_fee);
     const loadingFee = Number.isFinite(formLoadingFee) && formLoadingFee > 0 ? formLoadingFee : 0;
@@ -472,21 +578,16 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       return;
     }
 
-    const service = isRecord(formData.service) ? (formData.service as Record<string, unknown>) : null;
-    const serviceType = String(service?.service_type ?? 'pickup_one_way').trim() || 'pickup_one_way';
-
     const orderCode = makeLocalOrderId();
 
     setSaveQuoteMessage(null);
     setSaveQuoteError(false);
     try {
+      const signed = await requestSignedQuote(quoteRequestFromFormData(formData));
       await createSavedQuoteOrder({
         order_code: orderCode,
-        route_area: routeArea,
-        service_type: serviceType,
-        vehicle_type: 'standard',
+        quote_token: signed.token,
         price_before_tax: subtotal,
-        currency: 'CAD',
         form_data: { ...formData, costEstimate: costData },
         documents: null,
       });
@@ -499,6 +600,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
         // ignore
       }
       setShowOrders(true);
+      setShowTaxProfile(false);
+      setShowStatements(false);
       setShowReceiptHistory(false);
       setShowDrafts(false);
     } catch (e) {
@@ -524,6 +627,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
   useEffect(() => {
     const onOpenReceipts = () => {
       setShowOrders(false);
+      setShowTaxProfile(false);
+      setShowStatements(false);
       setShowReceiptHistory(true);
     };
 
@@ -532,6 +637,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       if (open === '1') {
         localStorage.removeItem('ed_open_receipts');
         setShowOrders(false);
+        setShowTaxProfile(false);
+        setShowStatements(false);
         setShowReceiptHistory(true);
         setShowDrafts(false);
       }
@@ -551,6 +658,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
       setShowDrafts(true);
       setShowReceiptHistory(false);
       setShowOrders(false);
+      setShowTaxProfile(false);
+      setShowStatements(false);
     };
 
     try {
@@ -626,6 +735,7 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                       typeof costValue === 'number' && Number.isFinite(costValue)
                         ? `$${costValue}`
                         : '';
+                    const quoteExpiresAt = getDraftQuoteExpiresAt(d);
                     return (
                       <div key={d.id} className="rounded-xl border border-gray-200 bg-white p-4">
                         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
@@ -634,12 +744,23 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                             <div className="mt-1 text-xs text-gray-600">
                               Saved: {Number.isFinite(created.getTime()) ? created.toLocaleString() : d.createdAt}
                             </div>
+                            <div className={`mt-1 text-xs ${isQuoteExpired(quoteExpiresAt, now) ? 'text-red-600' : 'text-gray-500'}`}>
+                              {formatQuoteValidity(quoteExpiresAt, now)}
+                            </div>
                             <div className="mt-2 text-sm text-gray-700">
                               {total ? `Subtotal: ${total}` : 'Subtotal: -'}
                             </div>
                             <div className="mt-1 text-xs text-gray-500">Documents: {Number(d.docCount) || 0}</div>
                           </div>
                           <div className="flex flex-col sm:flex-row gap-2">
+                            <button
+                              type="button"
+                              disabled={draftRefreshLoadingId === d.id}
+                              onClick={() => void refreshDraftQuote(d)}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                            >
+                              {draftRefreshLoadingId === d.id ? 'Refreshing…' : 'Refresh quote'}
+                            </button>
                             <button
                               type="button"
                               onClick={() => resumeDraft(d)}
@@ -786,6 +907,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                 onClick={() => {
                   setIsAccountMenuOpen(false);
                   setShowOrders(false);
+                  setShowTaxProfile(false);
+                  setShowStatements(false);
                   setShowReceiptHistory(false);
                   setShowDrafts(false);
                   setPendingUploadReset(true);
@@ -801,6 +924,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                 onClick={() => {
                   setIsAccountMenuOpen(false);
                   setShowOrders(true);
+                  setShowTaxProfile(false);
+                  setShowStatements(false);
                   setShowReceiptHistory(false);
                   setShowDrafts(false);
                 }}
@@ -815,6 +940,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                   setIsAccountMenuOpen(false);
                   setShowReceiptHistory(true);
                   setShowOrders(false);
+                  setShowTaxProfile(false);
+                  setShowStatements(false);
                   setShowDrafts(false);
                 }}
                 className={navButtonClass(activeNav === 'receipts')}
@@ -830,6 +957,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                   setShowDrafts(true);
                   setShowReceiptHistory(false);
                   setShowOrders(false);
+                  setShowTaxProfile(false);
+                  setShowStatements(false);
                 }}
                 className={navButtonClass(activeNav === 'drafts')}
               >
@@ -895,6 +1024,40 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                     </div>
 
                     <div className="p-2">
+                      {supabase && !isLocalDevAuthEnabled() ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setIsAccountMenuOpen(false);
+                            setShowTaxProfile(true);
+                            setShowStatements(false);
+                            setShowOrders(false);
+                            setShowReceiptHistory(false);
+                            setShowDrafts(false);
+                          }}
+                          className="w-full flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          <Receipt className="h-4 w-4" />
+                          Tax profile
+                        </button>
+                      ) : null}
+                      {supabase && !isLocalDevAuthEnabled() ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setIsAccountMenuOpen(false);
+                            setShowStatements(true);
+                            setShowTaxProfile(false);
+                            setShowOrders(false);
+                            setShowReceiptHistory(false);
+                            setShowDrafts(false);
+                          }}
+                          className="w-full flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          <FileText className="h-4 w-4" />
+                          Statements
+                        </button>
+                      ) : null}
                       <button
                         type="button"
                         onClick={() => {
@@ -917,7 +1080,11 @@ export default function Dashboard({ onLogout }: DashboardProps) {
 
       <div className="flex-1 w-full">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
-          {showReceiptHistory ? (
+          {showTaxProfile ? (
+            <TaxProfileSettings onBack={() => setShowTaxProfile(false)} />
+          ) : showStatements ? (
+            <StatementHistory onBack={() => setShowStatements(false)} />
+          ) : showReceiptHistory ? (
             <ReceiptHistory embed onBack={() => setShowReceiptHistory(false)} />
           ) : showOrders ? (
             <LocalOrders embed onBack={() => setShowOrders(false)} />
@@ -956,6 +1123,8 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                       const label = pricingCity ? String(pricingCity) : dropoffCity ? String(dropoffCity) : pickupCity ? String(pickupCity) : '-';
                       const costValue = costData ? readNumber(costData.cost) : NaN;
                       const total = Number.isFinite(costValue) ? `$${costValue}` : '';
+                      const quoteExpiresAt = getDraftQuoteExpiresAt(d);
+                      const quoteExpired = isQuoteExpired(quoteExpiresAt, now);
                       return (
                         <div
                           key={d.id}
@@ -985,13 +1154,29 @@ export default function Dashboard({ onLogout }: DashboardProps) {
                                   </span>
                                 </div>
                               </div>
-                              <div className="mt-2 text-xs text-gray-500">Documents: {Number(d.docCount) || 0}</div>
+                              <div className={`mt-2 text-xs font-medium ${quoteExpired ? 'text-red-600' : 'text-gray-600'}`}>
+                                {formatQuoteValidity(quoteExpiresAt, now)}
+                              </div>
+                              <div className="mt-1 text-xs text-gray-500">Documents: {Number(d.docCount) || 0}</div>
                             </div>
 
                             <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
                               <button
                                 type="button"
-                                disabled={draftOfferLoadingId === d.id}
+                                disabled={draftRefreshLoadingId === d.id}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  void refreshDraftQuote(d);
+                                }}
+                                className={`inline-flex justify-center rounded-xl px-4 py-2.5 text-sm font-semibold transition-colors disabled:opacity-60 ${
+                                  quoteExpired ? 'bg-amber-500 text-white hover:bg-amber-600' : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                                }`}
+                              >
+                                {draftRefreshLoadingId === d.id ? 'Refreshing…' : 'Refresh quote'}
+                              </button>
+                              <button
+                                type="button"
+                                disabled={draftOfferLoadingId === d.id || quoteExpired}
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   void saveDraftToSupabaseAndOffer(d);
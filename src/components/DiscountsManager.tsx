@@ -0,0 +1,337 @@
+import { useEffect, useState } from 'react';
+import { listDiscountsAsStaff, savePromoCodeAsStaff, setCustomerContractAsStaff, type StaffDiscounts } from '../orders/supabaseOrders';
+import { formatDiscountAmount, isContractActive, promoDiscountRule, type PromoCodeRow } from '../pricing/discounts';
+
+type PromoDraft = {
+  code: string;
+  description: string;
+  kind: 'percent' | 'amount';
+  value: string;
+  valid_from: string;
+  valid_until: string;
+  max_redemptions: string;
+  max_per_customer: string;
+  active: boolean;
+};
+
+const EMPTY_DRAFT: PromoDraft = {
+  code: '',
+  description: '',
+  kind: 'percent',
+  value: '',
+  valid_from: '',
+  valid_until: '',
+  max_redemptions: '',
+  max_per_customer: '1',
+  active: true,
+};
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// Date inputs are local days: a code is valid from the start of valid_from to the end of valid_until.
+const toDayInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (!Number.isFinite(d.getTime())) return '';
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDayInput = (day: string, endOfDay: boolean) => (day ? new Date(`${day}T${endOfDay ? '23:59:59' : '00:00:00'}`).toISOString() : null);
+
+const formatValidity = (row: PromoCodeRow) => {
+  const from = row.valid_from ? new Date(row.valid_from).toLocaleDateString() : '';
+  const until = row.valid_until ? new Date(row.valid_until).toLocaleDateString() : '';
+  if (from && until) return `${from} – ${until}`;
+  if (from) return `From ${from}`;
+  if (until) return `Until ${until}`;
+  return 'No end date';
+};
+
+const draftFromRow = (row: PromoCodeRow): PromoDraft => ({
+  code: row.code,
+  description: row.description ?? '',
+  kind: row.percent_off ? 'percent' : 'amount',
+  value: String(row.percent_off ?? row.amount_off ?? ''),
+  valid_from: toDayInput(row.valid_from),
+  valid_until: toDayInput(row.valid_until),
+  max_redemptions: row.max_redemptions ? String(row.max_redemptions) : '',
+  max_per_customer: row.max_per_customer ? String(row.max_per_customer) : '',
+  active: row.active,
+});
+
+// Promo codes (create, edit, pause) with their redemptions, and the contract rates set from the Users view.
+export default function DiscountsManager() {
+  const [data, setData] = useState<StaffDiscounts>({ promo_codes: [], contracts: [] });
+  const [draft, setDraft] = useState<PromoDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await listDiscountsAsStaff());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load discounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const save = async (next: PromoDraft) => {
+    setError(null);
+    setMessage(null);
+    const value = Number(next.value);
+    if (!next.code.trim()) {
+      setError('Enter a code.');
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0 || (next.kind === 'percent' && value > 100)) {
+      setError(next.kind === 'percent' ? 'Enter a percentage between 0 and 100.' : 'Enter an amount greater than 0.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await savePromoCodeAsStaff({
+        code: next.code,
+        description: next.description.trim() || null,
+        percent_off: next.kind === 'percent' ? value : null,
+        amount_off: next.kind === 'amount' ? value : null,
+        valid_from: fromDayInput(next.valid_from, false),
+        valid_until: fromDayInput(next.valid_until, true),
+        max_redemptions: next.max_redemptions.trim() ? Number(next.max_redemptions) : null,
+        max_per_customer: next.max_per_customer.trim() ? Number(next.max_per_customer) : null,
+        active: next.active,
+      });
+      setMessage(`Promo code ${saved.code} saved.`);
+      setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the promo code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeContract = async (userId: string) => {
+    if (!window.confirm('Remove this contract rate? Quotes already issued keep it until they expire.')) return;
+    setError(null);
+    setMessage(null);
+    try {
+      await setCustomerContractAsStaff(userId, null);
+      setMessage('Contract rate removed.');
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to remove the contract rate');
+    }
+  };
+
+  const inputClass = 'mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal';
+  const totals = data.promo_codes.reduce((sum, row) => ({ redemptions: sum.redemptions + row.redemptions, given: sum.given + row.discount_given }), {
+    redemptions: 0,
+    given: 0,
+  });
+
+  return (
+    <div className="space-y-4">
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div> : null}
+      {message ? <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div> : null}
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="text-sm font-semibold text-gray-900">{data.promo_codes.some((r) => r.code === draft.code.trim().toUpperCase()) ? 'Edit promo code' : 'New promo code'}</div>
+        <div className="mt-1 text-xs text-gray-600">
+          Promo codes come off the transport price (not loading fees), after any contract rate. Usage limits count paid orders.
+        </div>
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-xs font-semibold text-gray-700">
+            Code
+            <input value={draft.code} onChange={(e) => setDraft((p) => ({ ...p, code: e.target.value.toUpperCase() }))} className={inputClass} placeholder="SPRING10" />
+          </label>
+          <label className="text-xs font-semibold text-gray-700">
+            Discount
+            <div className="mt-1 flex gap-2">
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft((p) => ({ ...p, kind: e.target.value === 'amount' ? 'amount' : 'percent' }))}
+                className="rounded-xl border border-gray-300 bg-white px-2 py-2 text-sm font-normal"
+              >
+                <option value="percent">% off</option>
+                <option value="amount">$ off</option>
+              </select>
+              <input
+                value={draft.value}
+                onChange={(e) => setDraft((p) => ({ ...p, value: e.target.value }))}
+                inputMode="decimal"
+                className="min-w-0 flex-1 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+                placeholder={draft.kind === 'percent' ? '10' : '50'}
+              />
+            </div>
+          </label>
+          <label className="text-xs font-semibold text-gray-700">
+            Description
+            <input value={draft.description} onChange={(e) => setDraft((p) => ({ ...p, description: e.target.value }))} className={inputClass} placeholder="Spring campaign" />
+          </label>
+          <label className="text-xs font-semibold text-gray-700">
+            Valid from
+            <input type="date" value={draft.valid_from} onChange={(e) => setDraft((p) => ({ ...p, valid_from: e.target.value }))} className={inputClass} />
+          </label>
+          <label className="text-xs font-semibold text-gray-700">
+            Valid until
+            <input type="date" value={draft.valid_until} onChange={(e) => setDraft((p) => ({ ...p, valid_until: e.target.value }))} className={inputClass} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs font-semibold text-gray-700">
+              Max uses
+              <input
+                value={draft.max_redemptions}
+                onChange={(e) => setDraft((p) => ({ ...p, max_redemptions: e.target.value }))}
+                inputMode="numeric"
+                className={inputClass}
+                placeholder="Unlimited"
+              />
+            </label>
+            <label className="text-xs font-semibold text-gray-700">
+              Per customer
+              <input
+                value={draft.max_per_customer}
+                onChange={(e) => setDraft((p) => ({ ...p, max_per_customer: e.target.value }))}
+                inputMode="numeric"
+                className={inputClass}
+                placeholder="Unlimited"
+              />
+            </label>
+          </div>
+        </div>
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-800">
+            <input type="checkbox" checked={draft.active} onChange={(e) => setDraft((p) => ({ ...p, active: e.target.checked }))} />
+            Active
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              onClick={() => void save(draft)}
+              disabled={saving}
+              className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save code'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-gray-900">Promo codes</div>
+            <div className="mt-1 text-xs text-gray-600">
+              {totals.redemptions} paid order{totals.redemptions === 1 ? '' : 's'} used a code · {formatCad(totals.given)} given (approved offers excluded)
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => void load()}
+            disabled={loading}
+            className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+        <div className="mt-4 overflow-auto max-h-[40vh]">
+          <div className="min-w-[860px] grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-2 pb-2 border-b border-gray-200">
+            <div className="col-span-2">Code</div>
+            <div className="col-span-2">Discount</div>
+            <div className="col-span-3">Validity</div>
+            <div className="col-span-2">Redeemed</div>
+            <div className="col-span-1">Status</div>
+            <div className="col-span-2">Actions</div>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {data.promo_codes.map((row) => (
+              <div key={row.code} className="grid grid-cols-12 gap-2 px-2 py-2 text-sm text-gray-800 items-start">
+                <div className="col-span-2">
+                  <div className="font-semibold text-gray-900">{row.code}</div>
+                  {row.description ? <div className="text-xs text-gray-500 truncate" title={row.description}>{row.description}</div> : null}
+                </div>
+                <div className="col-span-2">{formatDiscountAmount(promoDiscountRule(row))} off</div>
+                <div className="col-span-3 text-xs text-gray-700">{formatValidity(row)}</div>
+                <div className="col-span-2 text-xs text-gray-700">
+                  <div>
+                    {row.redemptions}
+                    {row.max_redemptions ? ` / ${row.max_redemptions}` : ''} orders
+                    {row.max_per_customer ? ` · ${row.max_per_customer} per customer` : ''}
+                  </div>
+                  <div>{formatCad(row.discount_given)} given</div>
+                </div>
+                <div className="col-span-1 text-xs font-semibold">
+                  <span className={row.active ? 'text-emerald-700' : 'text-gray-500'}>{row.active ? 'Active' : 'Paused'}</span>
+                </div>
+                <div className="col-span-2 flex flex-wrap gap-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(draftFromRow(row))}
+                    className="rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void save({ ...draftFromRow(row), active: !row.active })}
+                    disabled={saving}
+                    className="rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    {row.active ? 'Pause' : 'Resume'}
+                  </button>
+                </div>
+              </div>
+            ))}
+            {!loading && data.promo_codes.length === 0 ? <div className="px-2 py-4 text-sm text-gray-600">No promo codes yet.</div> : null}
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="text-sm font-semibold text-gray-900">Contract rates</div>
+        <div className="mt-1 text-xs text-gray-600">Per-customer discounts off the transport price. Set them from the Users view.</div>
+        <div className="mt-3 divide-y divide-gray-200">
+          {data.contracts.map((c) => (
+            <div key={c.user_id} className="flex items-start justify-between gap-3 py-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-semibold text-gray-900 truncate" title={c.user_id}>
+                  {c.email || c.user_id}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {c.percent_off}% off
+                  {c.valid_until ? ` · until ${new Date(c.valid_until).toLocaleDateString()}` : ''}
+                  {isContractActive(c) ? '' : ' · expired'}
+                  {c.note ? ` · ${c.note}` : ''}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => void removeContract(c.user_id)}
+                className="shrink-0 rounded-lg border border-red-200 bg-white px-2 py-1 text-xs font-semibold text-red-700 hover:bg-red-50"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {!loading && data.contracts.length === 0 ? <div className="py-2 text-sm text-gray-600">No contract rates.</div> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { formatDistanceBand, getActivePricingRules, getDistancePriceBreakdown } from '../pricing/pricingTable';
+
+interface DistancePriceBreakdownProps {
+  distanceKm: number;
+  title?: string;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// Explains an "estimated" (distance-based) route price: base fee, per-km bands and the minimum charge.
+export default function DistancePriceBreakdown({ distanceKm, title = 'How this estimate is calculated' }: DistancePriceBreakdownProps) {
+  const breakdown = getDistancePriceBreakdown(distanceKm, getActivePricingRules());
+
+  return (
+    <div className="rounded-lg bg-white border border-gray-200 p-3 text-sm">
+      <div className="text-xs font-semibold text-gray-700">{title}</div>
+      <div className="mt-2 divide-y divide-gray-100">
+        {breakdown.base_fee > 0 ? (
+          <div className="flex items-center justify-between gap-3 py-1.5">
+            <div className="text-gray-700">Base fee</div>
+            <div className="shrink-0 text-gray-900">{formatCad(breakdown.base_fee)}</div>
+          </div>
+        ) : null}
+        {breakdown.bands.map((band) => (
+          <div key={band.from_km} className="flex items-center justify-between gap-3 py-1.5">
+            <div className="text-gray-700">
+              {formatDistanceBand(band)}
+              <span className="text-xs text-gray-500">
+                {' '}
+                · {Math.round(band.km)} km × ${band.rate_per_km}/km
+              </span>
+            </div>
+            <div className="shrink-0 text-gray-900">{formatCad(band.amount)}</div>
+          </div>
+        ))}
+        {breakdown.minimum_applied ? (
+          <div className="flex items-center justify-between gap-3 py-1.5">
+            <div className="text-gray-700">Minimum charge applies</div>
+            <div className="shrink-0 text-gray-900">{formatCad(breakdown.minimum_charge)}</div>
+          </div>
+        ) : null}
+        <div className="flex items-center justify-between gap-3 py-1.5 font-semibold">
+          <div className="text-gray-900">Route price (standard car)</div>
+          <div className="shrink-0 text-gray-900">{formatCad(breakdown.total)}</div>
+        </div>
+      </div>
+      <div className="mt-1 text-xs text-gray-500">Vehicle class, discounts and service level are applied to this price.</div>
+    </div>
+  );
+}
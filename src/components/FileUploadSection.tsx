@@ -7,14 +7,55 @@ import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
 import markerIcon from 'leaflet/dist/images/marker-icon.png';
 import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 import {
+  formatFulfillmentDays,
+  getActivePricingRules,
   getFulfillmentDaysForRoute,
-  getDistanceRatePerKm,
+  getDistancePrice,
+  VEHICLE_CLASSES,
+  getVehicleClass,
+  getAccessorialPrice,
+  getVehicleClassMultiplier,
+  normalizeVehicleType,
+  resolveRoutePriceForAddresses,
+  SERVICE_TYPES,
+  getDepositRule,
+  getServiceLevelLabel,
+  getServiceTypeLabel,
+  isMultiLegServiceType,
+  normalizeServiceLevel,
+  normalizeServiceType,
+  type ServiceLevel,
   type ServiceType,
   type VehicleType,
 } from '../pricing/pricingTable';
 import { computeTotals, makeLocalOrderId, upsertLocalOrder, updateLocalOrderPaymentStatus } from '../orders/localOrders';
-import { createOrderWithInitialEvent, getAccessToken } from '../orders/supabaseOrders';
+import {
+  checkMyDiscounts,
+  createOrderWithInitialEvent,
+  getAccessToken,
+  getMyBillingTerms,
+  getMySavedCard,
+  getMyTaxProfile,
+  placeOrderOnAccount,
+  requestSignedQuote,
+  startSavedCardPayment,
+} from '../orders/supabaseOrders';
+import { getDepositAmount } from '../orders/deposits';
+import { readBillingTerms, type BillingTerms } from '../orders/invoices';
+import { formatSavedCard, type SavedCard } from '../orders/payments';
 import { supabase } from '../lib/supabaseClient';
+import { inferProvinceFromPostal, isValidCanadianPostalCode, normalizePostalCode } from '../lib/postalCodes';
+import { getQuoteExpiresAt, priceQuoteLegs, quoteRequestFromFormData, type QuoteLegBase } from '../pricing/quotes';
+import { formatOrderLegLabel, readOrderLegs, withOrderLegs, type OrderLeg } from '../pricing/legs';
+import { formatOrderVehicleLabel, readOrderVehicles, withOrderVehicles, type OrderVehicle } from '../pricing/vehicles';
+import { TAX_EXEMPTION_TYPES, formatTaxReceiptLines, getCustomerTaxRegistrations, readTaxProfile, taxPlaceFromFormData, type TaxProfile } from '../pricing/taxes';
+import type { ServiceAreaConfidence, ServiceAreaInput } from '../pricing/serviceAreas';
+import { computeDiscounts, getDiscountTotal, type DiscountRule } from '../pricing/discounts';
+import DistancePriceBreakdown from './DistancePriceBreakdown';
+import OrderLegsEditor from './OrderLegsEditor';
+import OrderVehiclesEditor from './OrderVehiclesEditor';
+import PromoCodeField from './PromoCodeField';
+import ServiceLevelOptions from './ServiceLevelOptions';
 
 interface UploadedFile {
   id: string;
@@ -23,6 +64,7 @@ interface UploadedFile {
   type: string;
   file: File;
   docType: 'release_form' | 'work_order' | 'bill_of_sale' | 'photo' | 'notes' | 'other' | 'unknown';
+  vehicleId?: string;
 }
 
 interface FileUploadSectionProps {
@@ -167,26 +209,6 @@ const stripDiacritics = (value: string) =>
 
 const looksLikeStreetAddress = (value: string) => /\d/.test(String(value ?? ''));
 
-const normalizePostalCode = (value: string) => {
-  const raw = normalizeWhitespace(String(value ?? '').toUpperCase());
-  if (!raw) return '';
-  const compact = raw.replace(/[^A-Z0-9]/g, '');
-  if (compact.length === 6) {
-    const chars = compact.split('');
-    const toDigit = (c: string) => (c === 'I' ? '1' : c === 'O' || c === 'Q' ? '0' : c);
-    const toLetter = (c: string) => (c === '1' ? 'I' : c === '0' ? 'O' : c);
-    if (chars[1]) chars[1] = toDigit(chars[1]);
-    if (chars[3]) chars[3] = toDigit(chars[3]);
-    if (chars[5]) chars[5] = toDigit(chars[5]);
-    if (chars[0]) chars[0] = toLetter(chars[0]);
-    if (chars[2]) chars[2] = toLetter(chars[2]);
-    if (chars[4]) chars[4] = toLetter(chars[4]);
-    const repaired = chars.join('');
-    return `${repaired.slice(0, 3)} ${repaired.slice(3)}`;
-  }
-  return raw;
-};
-
 const repairStreetNameOcr = (street: string) => {
   const raw = normalizeWhitespace(String(street ?? ''));
   if (!raw) return '';
@@ -229,12 +251,6 @@ const splitLine1ToNumberStreet = (line1: string): { number: string; street: stri
   return { number: '', street: s };
 };
 
-const isValidCanadianPostalCode = (value: string) => {
-  const postal = normalizePostalCode(value);
-  const compact = postal.replace(/[^A-Z0-9]/g, '');
-  return /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(compact);
-};
-
 const postalPrefixAllowsProvince = (postal: string, province: string) => {
   const compact = normalizePostalCode(postal).replace(/[^A-Z0-9]/g, '');
   const first = compact.slice(0, 1).toUpperCase();
@@ -317,26 +333,6 @@ const normalizeProvinceCode = (value: string): string => {
   return PROVINCE_NAME_TO_CODE[key] ?? '';
 };
 
-const inferProvinceFromPostal = (postal: string): string => {
-  const compact = normalizePostalCode(postal).replace(/[^A-Z0-9]/g, '');
-  const first = compact.slice(0, 1).toUpperCase();
-  if (!first) return '';
-  if (['T'].includes(first)) return 'AB';
-  if (['V'].includes(first)) return 'BC';
-  if (['R'].includes(first)) return 'MB';
-  if (['E'].includes(first)) return 'NB';
-  if (['A'].includes(first)) return 'NL';
-  if (['B'].includes(first)) return 'NS';
-  if (['X'].includes(first)) return 'NT';
-  if (['X'].includes(first)) return 'NU';
-  if (['K', 'L', 'M', 'N', 'P'].includes(first)) return 'ON';
-  if (['C'].includes(first)) return 'PE';
-  if (['G', 'H', 'J'].includes(first)) return 'QC';
-  if (['S'].includes(first)) return 'SK';
-  if (['Y'].includes(first)) return 'YT';
-  return '';
-};
-
 const extractProvincePostalFromLine = (line: string): { province: string; postal_code: string; remainder: string } => {
   const s = normalizeWhitespace(line);
   if (!s) return { province: '', postal_code: '', remainder: '' };
@@ -578,6 +574,98 @@ type CostData = {
   route?: unknown;
   pricingCity?: string;
   pricingStatus?: 'official' | 'estimated';
+  pricingConfidence?: ServiceAreaConfidence;
+  pricingReason?: string;
+  // Route price for a standard car; `cost` is this scaled by the vehicle class.
+  baseCost?: number;
+  vehicleType?: VehicleType;
+  // When the price was calculated; the quote validity window starts here.
+  quotedAt?: string;
+  // Legs after the first one (round trips and multi-leg moves), each with its own route price for a standard car.
+  extraLegs?: CostLeg[];
+};
+
+type CostLeg = {
+  id: string;
+  distance: number;
+  baseCost: number;
+  pricingCity?: string;
+  pricingStatus?: 'official' | 'estimated';
+};
+
+// The first leg is the route priced in costData; a round trip priced before its return leg was reuses it.
+const getCostLegBases = (costData: CostData | null | undefined, serviceType: ServiceType): QuoteLegBase[] => {
+  const toBase = (leg: CostLeg): QuoteLegBase => ({
+    id: leg.id,
+    pickup_address: '',
+    dropoff_address: '',
+    route_area: leg.pricingCity ?? '',
+    pricing_status: leg.pricingStatus ?? 'estimated',
+    distance_km: leg.distance,
+    base_price: leg.baseCost,
+  });
+  const first: CostLeg = {
+    id: 'leg_1',
+    distance: Number(costData?.distance ?? 0) || 0,
+    baseCost: Number(costData?.baseCost ?? costData?.cost ?? 0) || 0,
+    pricingCity: costData?.pricingCity,
+    pricingStatus: costData?.pricingStatus,
+  };
+  if (!isMultiLegServiceType(serviceType)) return [toBase(first)];
+  const extra = costData?.extraLegs?.length ? costData.extraLegs : serviceType === 'round_trip' ? [{ ...first, id: 'leg_2' }] : [];
+  return [first, ...extra].map(toBase);
+};
+
+// cost is the transport price for every vehicle and leg on the order (net of any multi-car or round-trip discount,
+// with the service-level surcharge), before loading fees.
+const applyVehiclesToCost = (
+  costData: CostData,
+  vehicles: OrderVehicle[],
+  serviceType: ServiceType = 'pickup_one_way',
+  serviceLevel: ServiceLevel = 'standard'
+): CostData => {
+  const baseCost = Number.isFinite(costData.baseCost) ? (costData.baseCost as number) : costData.cost;
+  const priced = priceQuoteLegs(getCostLegBases({ ...costData, baseCost }, serviceType), vehicles, serviceType, getActivePricingRules(), serviceLevel);
+  return { ...costData, baseCost, vehicleType: normalizeVehicleType(vehicles[0]?.vehicle_type), cost: priced.transport_price };
+};
+
+const CONFIDENCE_RANK: Record<ServiceAreaConfidence, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+const applyRoutePricing = (
+  estimate: CostData,
+  pickup: ServiceAreaInput,
+  dropoff: ServiceAreaInput,
+  vehicles: OrderVehicle[],
+  serviceType: ServiceType = 'pickup_one_way',
+  serviceLevel: ServiceLevel = 'standard'
+): CostData => {
+  const quotedAt = new Date().toISOString();
+  const resolved = resolveRoutePriceForAddresses(pickup, dropoff);
+  if (!resolved) return applyVehiclesToCost({ ...estimate, pricingStatus: 'estimated', quotedAt }, vehicles, serviceType, serviceLevel);
+  const { pickup_match, dropoff_match } = resolved;
+  // A lane price depends on both ends, so report the weaker match; a city price only on the area it came from.
+  const weakest =
+    resolved.source === 'lane'
+      ? CONFIDENCE_RANK[pickup_match.confidence] < CONFIDENCE_RANK[dropoff_match.confidence]
+        ? pickup_match
+        : dropoff_match
+      : dropoff_match.area
+        ? dropoff_match
+        : pickup_match;
+  return applyVehiclesToCost(
+    {
+      ...estimate,
+      cost: resolved.total_price,
+      pricingCity: resolved.route,
+      pricingStatus: 'official',
+      pricingConfidence: weakest.confidence,
+      pricingReason: weakest.reason,
+      quotedAt,
+    },
+    vehicles,
+    serviceType,
+    serviceLevel
+  );
 };
 
 const minimizeCostDataForStorage = (input: CostData | null | undefined): CostData | null => {
@@ -588,6 +676,12 @@ const minimizeCostDataForStorage = (input: CostData | null | undefined): CostDat
     duration: input.duration,
     pricingCity: input.pricingCity,
     pricingStatus: input.pricingStatus,
+    pricingConfidence: input.pricingConfidence,
+    pricingReason: input.pricingReason,
+    baseCost: input.baseCost,
+    vehicleType: input.vehicleType,
+    quotedAt: input.quotedAt,
+    extraLegs: input.extraLegs,
   };
 };
 
@@ -602,6 +696,7 @@ const minimizeFormDataForStorage = (input: FormData | null | undefined): FormDat
   return {
     service: {
       service_type: input.service?.service_type,
+      service_level: input.service?.service_level,
       vehicle_type: input.service?.vehicle_type,
     },
     vehicle: {
@@ -667,6 +762,8 @@ const minimizeFormDataForStorage = (input: FormData | null | undefined): FormDat
     },
     dealer_notes: clampTextForStorage(input.dealer_notes, 2000),
     costEstimate: input.costEstimate ? minimizeCostDataForStorage(input.costEstimate) : undefined,
+    vehicles: input.vehicles,
+    legs: input.legs,
     vehicle_condition:
       (input as unknown as Record<string, unknown>)?.vehicle_condition === 'does_not_run_or_drive' ? 'does_not_run_or_drive' : 'runs_and_drives',
     draft_source: String(input.draft_source ?? '').trim() || undefined,
@@ -688,6 +785,8 @@ const emitQuoteReady = (payload: { formData: unknown; costData: unknown; docCoun
 type FormData = {
   service: {
     service_type: ServiceType;
+    // Missing on forms saved before service levels; they are standard.
+    service_level?: ServiceLevel;
     vehicle_type: VehicleType;
   };
   vehicle: {
@@ -754,6 +853,8 @@ type FormData = {
   dealer_notes: string;
   costEstimate?: CostData | null;
   vehicle_condition?: 'runs_and_drives' | 'does_not_run_or_drive';
+  vehicles?: OrderVehicle[];
+  legs?: OrderLeg[];
   draft_source?: string;
   pickup_locked?: boolean;
   transaction_id?: string;
@@ -1342,6 +1443,92 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
     };
   }, []);
 
+  // Approved exemptions on the billing profile change the tax shown before checkout (checkout applies the same profile).
+  const [taxProfile, setTaxProfile] = useState<TaxProfile | null>(null);
+
+  useEffect(() => {
+    if (!supabase || !isLoggedIn || userKey === 'local-dev') {
+      setTaxProfile(null);
+      return;
+    }
+    let active = true;
+    getMyTaxProfile()
+      .then((row) => {
+        if (active) setTaxProfile(row ? readTaxProfile(row) : null);
+      })
+      .catch(() => {
+        if (active) setTaxProfile(null);
+      });
+    return () => {
+      active = false;
+    };
+  }, [isLoggedIn, userKey]);
+
+  // The card saved at the customer's last checkout pays in one click; accounts on invoice terms can bill the order instead.
+  const [savedCard, setSavedCard] = useState<SavedCard | null>(null);
+  const [billingTerms, setBillingTerms] = useState<BillingTerms>(() => readBillingTerms(null));
+
+  useEffect(() => {
+    if (!supabase || !isLoggedIn || userKey === 'local-dev') {
+      setSavedCard(null);
+      setBillingTerms(readBillingTerms(null));
+      return;
+    }
+    let active = true;
+    getMySavedCard()
+      .then((card) => {
+        if (active) setSavedCard(card);
+      })
+      .catch(() => {
+        if (active) setSavedCard(null);
+      });
+    getMyBillingTerms()
+      .then((terms) => {
+        if (active) setBillingTerms(terms);
+      })
+      .catch(() => {
+        if (active) setBillingTerms(readBillingTerms(null));
+      });
+    return () => {
+      active = false;
+    };
+  }, [isLoggedIn, userKey]);
+
+  // The customer's contract rate and an applied promo code. Only a preview: create-quote checks and applies them again.
+  const canUseDiscounts = Boolean(supabase) && isLoggedIn && userKey !== 'local-dev';
+  const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPromoCode(null);
+    if (!canUseDiscounts) {
+      setDiscountRules([]);
+      return;
+    }
+    let active = true;
+    checkMyDiscounts()
+      .then((rules) => {
+        if (active) setDiscountRules(rules);
+      })
+      .catch(() => {
+        if (active) setDiscountRules([]);
+      });
+    return () => {
+      active = false;
+    };
+  }, [canUseDiscounts]);
+
+  const applyPromoCode = async (code: string) => {
+    const rules = await checkMyDiscounts(code);
+    setDiscountRules(rules);
+    setPromoCode(rules.find((r) => r.kind === 'promo')?.code ?? null);
+  };
+
+  const removePromoCode = () => {
+    setDiscountRules((prev) => prev.filter((r) => r.kind !== 'promo'));
+    setPromoCode(null);
+  };
+
   const preventFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
   };
@@ -1427,6 +1614,54 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
       setVehicleCondition('runs_and_drives');
     }
   }, [formData]);
+
+  const orderVehicles = useMemo(
+    () => readOrderVehicles(formData ? { ...formData, vehicle_condition: vehicleCondition } : null),
+    [formData, vehicleCondition]
+  );
+  const serviceType = normalizeServiceType(formData?.service?.service_type);
+  const serviceLevel = normalizeServiceLevel(formData?.service?.service_level);
+  const orderLegs = useMemo(() => readOrderLegs(formData), [formData]);
+  const orderPricing = useMemo(
+    () => priceQuoteLegs(getCostLegBases(costData, serviceType), orderVehicles, serviceType, getActivePricingRules(), serviceLevel),
+    [costData, orderVehicles, serviceType, serviceLevel]
+  );
+  const orderDiscounts = useMemo(() => computeDiscounts(orderPricing.transport_price, discountRules), [orderPricing, discountRules]);
+  const discountTotal = getDiscountTotal(orderDiscounts);
+  const priceForServiceLevel = (level: ServiceLevel) =>
+    costData
+      ? priceQuoteLegs(getCostLegBases(costData, serviceType), orderVehicles, serviceType, getActivePricingRules(), level).price_before_tax
+      : null;
+  const fulfillment = getFulfillmentDaysForRoute(costData?.pricingCity, serviceLevel);
+
+  // Adding, removing or re-classing a vehicle (or switching the service type or level) changes the transport price
+  // but not the route estimate.
+  useEffect(() => {
+    setCostData((prev) => {
+      if (!prev) return prev;
+      const next = applyVehiclesToCost(prev, orderVehicles, serviceType, serviceLevel);
+      return next.cost === prev.cost && next.vehicleType === prev.vehicleType ? prev : next;
+    });
+  }, [orderVehicles, serviceType, serviceLevel]);
+
+  const updateServiceType = (next: ServiceType) => {
+    setFormData((prev) => (prev ? { ...prev, service: { ...prev.service, service_type: next } } : prev));
+  };
+
+  const updateServiceLevel = (next: ServiceLevel) => {
+    setFormData((prev) => (prev ? { ...prev, service: { ...prev.service, service_level: next } } : prev));
+  };
+
+  const updateOrderLegs = (legs: OrderLeg[]) => {
+    setFormData((prev) => (prev ? withOrderLegs(prev, legs) : prev));
+  };
+
+  const updateOrderVehicles = (vehicles: OrderVehicle[]) => {
+    setFormData((prev) => (prev ? withOrderVehicles(prev, vehicles) : prev));
+    const ids = new Set(vehicles.map((v) => v.id));
+    setUploadedFiles((prev) => prev.map((f) => (f.vehicleId && !ids.has(f.vehicleId) ? { ...f, vehicleId: undefined } : f)));
+  };
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const suppressGeocodeRef = useRef(false);
   const autoExtractTriggeredRef = useRef(false);
@@ -2006,13 +2241,9 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
             const durationMin = Math.round(route.duration / 60);
             const polyline = route?.geometry?.coordinates ? encodePolyline(route.geometry.coordinates) : undefined;
 
-            const costPerKm = getDistanceRatePerKm();
-            const minimumCost = 150;
-            const calculatedCost = Math.max(distanceKm * costPerKm, minimumCost);
-
             return {
               distance: distanceKm,
-              cost: Math.round(calculatedCost),
+              cost: getDistancePrice(distanceKm),
               duration: durationMin,
               route: { geometry: route.geometry, polyline },
             };
@@ -2037,13 +2268,9 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
               const durationMin = Math.round(route.duration / 60);
               const polyline = route?.geometry?.coordinates ? encodePolyline(route.geometry.coordinates) : undefined;
 
-              const costPerKm = getDistanceRatePerKm();
-              const minimumCost = 150;
-              const calculatedCost = Math.max(distanceKm * costPerKm, minimumCost);
-              
               return {
                 distance: distanceKm,
-                cost: Math.round(calculatedCost),
+                cost: getDistancePrice(distanceKm),
                 duration: durationMin,
                 route: { geometry: route.geometry, polyline }
               };
@@ -2068,14 +2295,10 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
       const averageSpeed = 60; // km/h
       const duration = Math.round((distance / averageSpeed) * 60); // minutes
 
-      // Simple cost calculation: per km with minimum $150
-      const costPerKm = getDistanceRatePerKm();
-      const minimumCost = 150;
-      const calculatedCost = Math.max(distance * costPerKm, minimumCost);
-
+      // Priced like the routed distance: base fee, per-km bands and the minimum charge from the published rules.
       return {
         distance: Math.round(distance),
-        cost: Math.round(calculatedCost),
+        cost: getDistancePrice(distance),
         duration: duration
       };
     } catch (error) {
@@ -2084,6 +2307,55 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
     }
   };
 
+  // Prices the legs after the first one, each from its own addresses. A round trip's return leg is the first leg's
+  // road distance (firstEstimate) with the route resolved the other way. Returns an error when a leg cannot be located.
+  const priceExtraLegs = async (
+    form: FormData | null,
+    firstEstimate: CostData,
+    firstCoords: { pickup: { lat: number; lng: number }; dropoff: { lat: number; lng: number } }
+  ): Promise<{ ok: true; legs: CostLeg[] } | { ok: false; error: string }> => {
+    const type = normalizeServiceType(form?.service?.service_type);
+    const legs = readOrderLegs(form).slice(1);
+    const priced: CostLeg[] = [];
+    for (let i = 0; i < legs.length; i += 1) {
+      const { pickup_location: pickup, dropoff_location: dropoff } = legs[i];
+      const label = `leg ${i + 2}`;
+      if (!pickup.address || !dropoff.address) return { ok: false, error: `Please enter the pickup and drop-off address of ${label}.` };
+
+      let distance = firstEstimate.distance;
+      let estimateCost = firstEstimate.cost;
+      let from: { lat: number; lng: number } | null = firstCoords.dropoff;
+      let to: { lat: number; lng: number } | null = firstCoords.pickup;
+      if (type !== 'round_trip') {
+        const readLegCoords = (location: OrderLeg['pickup_location']) => {
+          const lat = Number(location.lat);
+          const lng = Number(location.lng);
+          return location.lat && location.lng && Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+        };
+        from = readLegCoords(pickup) ?? (await geocodeAddress(pickup.address).catch(() => null));
+        to = readLegCoords(dropoff) ?? (await geocodeAddress(dropoff.address).catch(() => null));
+        if (!from || !to) return { ok: false, error: `Unable to locate both addresses of ${label}. Please verify them and try again.` };
+        const estimate = await calculateCostAndDistance(from.lat, from.lng, to.lat, to.lng);
+        if (!estimate) return { ok: false, error: `Unable to calculate the distance of ${label}. Please try again.` };
+        distance = estimate.distance;
+        estimateCost = estimate.cost;
+      }
+
+      const resolved = resolveRoutePriceForAddresses(
+        { address: pickup.address, postal_code: pickup.postal_code, ...from },
+        { address: dropoff.address, postal_code: dropoff.postal_code, ...to }
+      );
+      priced.push({
+        id: legs[i].id,
+        distance,
+        baseCost: resolved ? resolved.total_price : estimateCost,
+        pricingCity: resolved ? resolved.route : dropoff.city || pickup.city,
+        pricingStatus: resolved ? 'official' : 'estimated',
+      });
+    }
+    return { ok: true, legs: priced };
+  };
+
   const dropoffCoords = useMemo(() => {
     const addr = String(formData?.dropoff_location?.address ?? '').trim();
     if (!addr) return null;
@@ -2134,9 +2406,9 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
   }, [formData?.pickup_location?.address]);
 
   useEffect(() => {
-    const vt = String(formData?.service?.vehicle_type ?? 'standard');
-    if (vt && vt !== 'standard') {
-      updateFormField('service', 'vehicle_type', 'standard');
+    const vt = formData?.service?.vehicle_type;
+    if (vt && vt !== normalizeVehicleType(vt)) {
+      updateFormField('service', 'vehicle_type', normalizeVehicleType(vt));
     }
   }, [formData?.service?.vehicle_type]);
 
@@ -2408,7 +2680,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
     const normalizedServiceType = extractedServiceTypeRaw.toLowerCase();
     const serviceType = /deliver/.test(normalizedServiceType) ? 'delivery_one_way' : 'pickup_one_way';
 
-    const vehicleType = 'standard';
+    const vehicleType = normalizeVehicleType(vehicleObj?.vehicle_class);
 
     const extractedDropoffAddress = pickFirstString(
       dropoffObj?.address,
@@ -3208,7 +3480,20 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
       return false;
     }
 
-    const nextCost = { ...estimate, pricingStatus: 'estimated' as const };
+    const extraLegs = await priceExtraLegs(formData, estimate, { pickup: pickupResolved, dropoff: dropoffResolved });
+    if (!extraLegs.ok) {
+      setManualWizardError(extraLegs.error);
+      return false;
+    }
+
+    const nextCost = applyRoutePricing(
+      { ...estimate, extraLegs: extraLegs.legs },
+      { address: pickupAddress, postal_code: formData?.pickup_location?.postal_code, ...pickupResolved },
+      { address: dropoffAddress, postal_code: formData?.dropoff_location?.postal_code, ...dropoffResolved },
+      readOrderVehicles(formData),
+      normalizeServiceType(formData?.service?.service_type),
+      normalizeServiceLevel(formData?.service?.service_level)
+    );
     setCostData(nextCost);
     setManualWizardError(null);
     try {
@@ -3363,6 +3648,9 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
               />
             </div>
           </div>
+          <div className="mt-4">
+            <OrderVehiclesEditor vehicles={orderVehicles} onChange={updateOrderVehicles} />
+          </div>
         </div>
 
         <div className="mb-6 pb-6 border-b border-gray-200">
@@ -3420,11 +3708,17 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="block text-sm text-gray-600 mb-1">Service</label>
-              <input
-                value="Vehicle transport"
-                readOnly
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-800"
-              />
+              <select
+                value={serviceType}
+                onChange={(e) => updateServiceType(normalizeServiceType(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {SERVICE_TYPES.map((option) => (
+                  <option key={option.type} value={option.type}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
             </div>
             <div>
               <label className="block text-sm text-gray-600 mb-1">Vehicle Type</label>
@@ -3702,6 +3996,12 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
           </div>
         </div>
 
+        {isMultiLegServiceType(serviceType) ? (
+          <div className="mb-6">
+            <OrderLegsEditor serviceType={serviceType} legs={orderLegs} onChange={updateOrderLegs} />
+          </div>
+        ) : null}
+
         <div className="mb-6">
           <h5 className="text-sm font-semibold text-gray-700 mb-3">Transaction</h5>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -4057,8 +4357,33 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
 
       if (Number.isFinite(pickupLat) && Number.isFinite(pickupLng) && hasValidDropoffCoords) {
         const estimate = await calculateCostAndDistance(pickupLat, pickupLng, dropoffLat, dropoffLng);
+        const extraLegs = estimate
+          ? await priceExtraLegs(formData, estimate, { pickup: { lat: pickupLat, lng: pickupLng }, dropoff: { lat: dropoffLat, lng: dropoffLng } })
+          : null;
+        if (extraLegs && !extraLegs.ok) {
+          setSubmitMessage(extraLegs.error);
+          setSubmitError(true);
+          return;
+        }
         if (estimate) {
-          const nextCost = { ...estimate, pricingStatus: 'estimated' as const };
+          const nextCost = applyRoutePricing(
+            { ...estimate, extraLegs: extraLegs?.legs },
+            {
+              address: formData?.pickup_location?.address,
+              postal_code: formData?.pickup_location?.postal_code,
+              lat: pickupLat,
+              lng: pickupLng,
+            },
+            {
+              address: formData?.dropoff_location?.address,
+              postal_code: formData?.dropoff_location?.postal_code,
+              lat: dropoffLat,
+              lng: dropoffLng,
+            },
+            readOrderVehicles(formData),
+            normalizeServiceType(formData?.service?.service_type),
+            normalizeServiceLevel(formData?.service?.service_level)
+          );
           setCostData(nextCost);
           try {
             emitQuoteReady({
@@ -4217,7 +4542,14 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
             resolvedDropoffCoords.lng
           );
           if (estimate) {
-            return minimizeCostDataForStorage({ ...estimate, pricingStatus: 'estimated' as const });
+            return minimizeCostDataForStorage(
+              applyRoutePricing(
+                estimate,
+                { address: pickupAddress, postal_code: extracted?.pickup_location?.postal_code, ...pickupCoords },
+                { address: dropoffAddressBase, postal_code: extracted?.dropoff_location?.postal_code, ...resolvedDropoffCoords },
+                readOrderVehicles(extracted)
+              )
+            );
           }
         }
 
@@ -4461,7 +4793,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
     setShowCheckout(true);
   };
 
-  const handlePayNow = async () => {
+  const handlePayNow = async (method: 'checkout' | 'saved_card' | 'invoice' = 'checkout') => {
     if (!formData) return;
 
     const baseAccepted =
@@ -4480,7 +4812,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
       return;
     }
 
-    const loadingFee = vehicleCondition === 'does_not_run_or_drive' ? 50 : 0;
+    const loadingFee = orderPricing.loading_fee;
 
     if (!isLoggedIn) {
       setSubmitMessage('Please log in with Google to continue.');
@@ -4519,6 +4851,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
               size: f.file.size,
               base64: await fileToBase64(f.file),
               docType: f.docType,
+              vehicleId: orderVehicles.length > 1 ? f.vehicleId ?? null : null,
             }))
           )
         : [];
@@ -4536,12 +4869,18 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
             user,
             userName: user.name || user.email || 'Account',
             files,
-            formData: {
-              ...formData,
-              costEstimate: costData,
-              vehicle_condition: vehicleCondition,
-              vehicle_loading_fee: loadingFee,
-            },
+            formData: withOrderLegs(
+              withOrderVehicles(
+                {
+                  ...formData,
+                  costEstimate: costData,
+                  vehicle_condition: vehicleCondition,
+                  vehicle_loading_fee: loadingFee,
+                },
+                orderVehicles
+              ),
+              orderLegs
+            ),
           }),
         });
 
@@ -4566,33 +4905,66 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
         const arrivalDate = String(formData?.transaction?.arrival_date ?? formData?.arrival_date ?? '').trim();
         const userLabel = String(user?.name || user?.email || 'Account').trim();
 
-        const fulfillment = (() => {
-          const city = String(costData?.pricingCity ?? '').toLowerCase();
-          return city.includes('montreal') ? 'As fast as 1–2 business days' : '3–8 business days';
-        })();
-
+        // A summary kept in this browser; the numbered receipt is issued by the server when the payment goes through.
         const lines: string[] = [];
-        lines.push('Receipt');
+        lines.push('Order summary');
         lines.push(`Created: ${now}`);
         lines.push(`Account: ${userLabel}`);
+        lines.push('Your numbered receipt will appear in Receipts once the payment is confirmed.');
         lines.push('');
         if (costData) {
-          const loadingFee = vehicleCondition === 'does_not_run_or_drive' ? 50 : 0;
-          const subtotalBeforeTax = Number(costData.cost ?? 0) + loadingFee;
+          const subtotalBeforeTax = Math.round((Number(costData.cost ?? 0) + loadingFee - discountTotal) * 100) / 100;
           lines.push(`Distance: ${costData.distance} km`);
+          if (orderVehicles.length > 1) {
+            lines.push(`Vehicles: ${orderVehicles.length}`);
+            orderPricing.vehicles.forEach((line, i) => {
+              const vehicle = orderVehicles[i];
+              const vin = vehicle?.vin ? ` (VIN ${vehicle.vin})` : '';
+              lines.push(`- ${vehicle ? formatOrderVehicleLabel(vehicle, i) : `Vehicle ${i + 1}`}${vin}: $${line.price_before_tax.toFixed(2)}`);
+            });
+            if (orderPricing.multi_vehicle_discount) {
+              lines.push(
+                `Multi-car discount (${orderPricing.multi_vehicle_discount_percent}%): -$${orderPricing.multi_vehicle_discount.toFixed(2)}`
+              );
+            }
+          } else {
+            lines.push(`Vehicle class: ${getVehicleClass(formData?.service?.vehicle_type).label}`);
+          }
+          if (orderLegs.length > 1) {
+            lines.push(`${getServiceTypeLabel(serviceType)}: ${orderLegs.length} legs`);
+            orderPricing.legs.forEach((line, i) => {
+              const leg = orderLegs[i];
+              lines.push(`- ${leg ? formatOrderLegLabel(leg, i) : `Leg ${i + 1}`}: $${line.price_before_tax.toFixed(2)}`);
+            });
+            if (orderPricing.round_trip_discount) {
+              lines.push(
+                `Round-trip discount (${orderPricing.round_trip_discount_percent}%): -$${orderPricing.round_trip_discount.toFixed(2)}`
+              );
+            }
+          }
+          if (orderPricing.service_level_fee) {
+            lines.push(`${getServiceLevelLabel(serviceLevel)}: +$${orderPricing.service_level_fee.toFixed(2)}`);
+          }
           if (costData.pricingCity && costData.pricingStatus === 'official') {
             lines.push(`City: ${costData.pricingCity}`);
-            lines.push(`Price (before tax): $${subtotalBeforeTax}`);
-            lines.push('Note: + applicable tax.');
-          } else {
-            lines.push(`Price (before tax): $${subtotalBeforeTax}`);
-            lines.push('Note: + applicable tax.');
           }
+          orderDiscounts.forEach((d) => lines.push(`Discount — ${d.label}: -$${d.amount.toFixed(2)}`));
+          const receiptTotals = computeTotals(subtotalBeforeTax, taxPlaceFromFormData(formData, String(costData.pricingCity ?? '')), taxProfile);
+          lines.push(`Price (before tax): $${subtotalBeforeTax}`);
+          lines.push(
+            ...formatTaxReceiptLines({
+              lines: receiptTotals.tax_lines ?? [],
+              exemption: receiptTotals.tax_exemption ?? null,
+              customer_registrations: getCustomerTaxRegistrations(taxProfile),
+            })
+          );
+          lines.push(`Total: $${receiptTotals.total.toFixed(2)}`);
           if (loadingFee) {
             lines.push(`Loading fee: $${loadingFee}`);
             lines.push('Note: A customer service representative will contact you within 24 hours to reconfirm vehicle condition and pickup details.');
           }
-          lines.push(`Estimated delivery time: ${fulfillment}`);
+          lines.push(`Service level: ${getServiceLevelLabel(serviceLevel)}`);
+          lines.push(`Estimated delivery time: ${formatFulfillmentDays(fulfillment)}`);
           lines.push('');
         }
         lines.push('Pickup Location:');
@@ -4616,8 +4988,8 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
       const normalizedReceipt = String(finalReceiptText).replace(/\r\n/g, '\n').trim();
 
       const routeArea = String(costData?.pricingCity ?? formData?.dropoff_location?.city ?? formData?.pickup_location?.city ?? '').trim();
-      const subtotal = Number(costData?.cost ?? 0) + loadingFee;
-      const totals = computeTotals(subtotal, routeArea);
+      const subtotal = Number(costData?.cost ?? 0) + loadingFee - discountTotal;
+      const totals = computeTotals(subtotal, taxPlaceFromFormData(formData, routeArea), taxProfile);
       const orderCode = makeLocalOrderId();
       const isLocalDev = import.meta.env.DEV && window.location.hostname === 'localhost';
 
@@ -4629,30 +5001,38 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
 
       if (isLocalDev) {
         const now = new Date().toISOString();
-        const fulfillment = getFulfillmentDaysForRoute(routeArea);
+        const orderFulfillment = getFulfillmentDaysForRoute(routeArea, serviceLevel);
         upsertLocalOrder({
           id: orderCode,
           created_at: now,
           updated_at: now,
-          service_type: String(formData?.service?.service_type ?? 'pickup_one_way') === 'delivery_one_way' ? 'delivery_one_way' : 'pickup_one_way',
-          vehicle_type: 'standard',
+          service_type: serviceType,
+          service_level: serviceLevel,
+          vehicle_type: normalizeVehicleType(formData?.service?.vehicle_type),
           route_area: routeArea,
-          fulfillment_days_min: fulfillment.days_min,
-          fulfillment_days_max: fulfillment.days_max,
+          fulfillment_days_min: orderFulfillment.days_min,
+          fulfillment_days_max: orderFulfillment.days_max,
           totals,
           customer: { name: user.name, email: user.email },
-          form_data: {
-            ...formData,
-            costEstimate: costData,
-            vehicle_condition: vehicleCondition,
-            vehicle_loading_fee: loadingFee,
-          },
+          form_data: withOrderLegs(
+            withOrderVehicles(
+              {
+                ...formData,
+                costEstimate: costData,
+                vehicle_condition: vehicleCondition,
+                vehicle_loading_fee: loadingFee,
+              },
+              orderVehicles
+            ),
+            orderLegs
+          ),
           documents: uploadedFiles.map((f) => ({
             id: f.id,
             name: f.name,
             mime: f.type,
             size: f.file.size,
             kind: f.docType === 'release_form' || f.docType === 'work_order' ? 'required' : f.docType === 'unknown' ? 'unknown' : 'optional',
+            vehicle_id: orderVehicles.length > 1 ? f.vehicleId : undefined,
           })),
           status: 'Scheduled',
           status_events: [{ status: 'Scheduled', at: now, note: 'Order created' }],
@@ -4684,21 +5064,26 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
         throw new Error('Payments are currently unavailable. Please try again later.');
       }
 
+      const orderFormData = withOrderLegs(
+        withOrderVehicles(
+          {
+            ...formData,
+            costEstimate: costData,
+            vehicle_condition: vehicleCondition,
+            vehicle_loading_fee: loadingFee,
+          },
+          orderVehicles
+        ),
+        orderLegs
+      );
+      const signed = await requestSignedQuote(quoteRequestFromFormData(orderFormData, dealershipCoords), { promoCode });
       await createOrderWithInitialEvent({
         order_code: orderCode,
+        quote_token: signed.token,
         customer_name: user.name,
         customer_email: user.email,
-        route_area: routeArea,
-        service_type: String(formData?.service?.service_type ?? 'pickup_one_way'),
-        vehicle_type: 'standard',
         price_before_tax: totals.subtotal,
-        currency: 'CAD',
-        form_data: {
-          ...formData,
-          costEstimate: costData,
-          vehicle_condition: vehicleCondition,
-          vehicle_loading_fee: loadingFee,
-        },
+        form_data: orderFormData,
       });
 
       const token = await getAccessToken();
@@ -4717,10 +5102,36 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
         }
       }
 
+      if (method === 'saved_card') {
+        window.location.href = await startSavedCardPayment(orderCode, { quoteToken: signed.token });
+        setSubmitMessage('Payment processing…');
+        setSubmitError(false);
+        return;
+      }
+
+      // Nothing is paid now, so there is no receipt yet: the order is on the monthly statement once delivered.
+      if (method === 'invoice') {
+        await placeOrderOnAccount(orderCode, { quoteToken: signed.token });
+        try {
+          localStorage.removeItem(`${PENDING_RECEIPT_PREFIX}${orderCode}`);
+        } catch {
+          // ignore
+        }
+        setSubmitMessage(`Order ${orderCode} placed on your account. It will be billed on your monthly statement once delivered.`);
+        setSubmitError(false);
+
+        clearPersisted();
+        setFormData(null);
+        setUploadedFiles([]);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        setShowCheckout(false);
+        return;
+      }
+
       const res = await fetch('/.netlify/functions/create-checkout-session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ order_code: orderCode, access_token: token }),
+        body: JSON.stringify({ order_code: orderCode, access_token: token, quote_token: signed.token }),
       });
 
       if (!res.ok) {
@@ -4744,6 +5155,12 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
     }
   };
 
+  const checkoutConfirmed =
+    checkoutConfirmations.pickupAddress &&
+    checkoutConfirmations.dropoffAddress &&
+    checkoutConfirmations.vehicleDetails &&
+    (vehicleCondition === 'runs_and_drives' ? checkoutConfirmations.vehicleRunsAndDrives : checkoutConfirmations.vehicleDoesNotRunOrDrive);
+
   return (
     <div>
       {isDropoffValidationOpen && typeof document !== 'undefined'
@@ -4821,9 +5238,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                 <div className="p-6 space-y-5 overflow-y-auto ocean-scrollbar" style={{ maxHeight: 'calc(85vh - 72px - 88px)' }}>
                   {(() => {
                     const routeArea = String(costData?.pricingCity ?? formData?.dropoff_location?.city ?? formData?.pickup_location?.city ?? '').trim();
-                    const serviceTypeLabel =
-                      String(formData?.service?.service_type ?? '') === 'delivery_one_way' ? 'Delivery (one-way)' : 'Pickup (one-way)';
-                    const fulfillment = routeArea.toLowerCase().includes('montreal') ? 'As fast as 1–2 business days' : '3–8 business days';
+                    const serviceTypeLabel = getServiceTypeLabel(serviceType);
                     const pickupName = String(formData?.pickup_location?.name ?? '').trim();
                     const pickupPhone = String(formData?.pickup_location?.phone ?? '').trim();
                     const pickupAddress = String(formData?.pickup_location?.address ?? '').trim();
@@ -4837,14 +5252,18 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                     <div className="text-sm font-semibold text-gray-900">Order details</div>
                     <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
                       <div className="rounded-lg bg-gray-50 border border-gray-200 p-3">
-                        <div className="text-xs font-medium text-gray-500">Pricing city</div>
+                        <div className="text-xs font-medium text-gray-500">Pricing route</div>
                         <div className="mt-1 font-semibold text-gray-900">{routeArea || '-'}</div>
-                        <div className="mt-1 text-xs text-gray-600">Estimated delivery: {fulfillment}</div>
+                        <div className="mt-1 text-xs text-gray-600">
+                          {getServiceLevelLabel(serviceLevel)} · estimated delivery: {formatFulfillmentDays(fulfillment)}
+                        </div>
                       </div>
                       <div className="rounded-lg bg-gray-50 border border-gray-200 p-3">
                         <div className="text-xs font-medium text-gray-500">Service type</div>
                         <div className="mt-1 font-semibold text-gray-900">{serviceTypeLabel}</div>
+                        <div className="mt-1 text-xs text-gray-600">Vehicle class: {getVehicleClass(formData?.service?.vehicle_type).label}</div>
                         <div className="mt-1 text-xs text-gray-600">Documents uploaded: {docCount}</div>
+                        {orderLegs.length > 1 ? <div className="mt-1 text-xs text-gray-600">Legs: {orderLegs.length}</div> : null}
                       </div>
                       <div className="rounded-lg bg-gray-50 border border-gray-200 p-3">
                         <div className="text-xs font-medium text-gray-500">Pickup</div>
@@ -4865,29 +5284,111 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
 
               {(() => {
                 const routeArea = String(costData?.pricingCity ?? formData?.dropoff_location?.city ?? formData?.pickup_location?.city ?? '').trim();
-                const loadingFee = vehicleCondition === 'does_not_run_or_drive' ? 50 : 0;
-                const subtotal = Number(costData?.cost ?? 0) + loadingFee;
-                const totals = computeTotals(subtotal, routeArea);
+                const loadingFee = orderPricing.loading_fee;
+                const subtotal = Number(costData?.cost ?? 0) + loadingFee - discountTotal;
+                const totals = computeTotals(subtotal, taxPlaceFromFormData(formData, routeArea), taxProfile);
                 return (
                   <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
-                    <div className="text-xs font-medium text-gray-500">Totals (origin-based pricing)</div>
+                    <div className="text-xs font-medium text-gray-500">Totals (tax based on the drop-off province)</div>
+                    {orderVehicles.length > 1 ? (
+                      <div className="mt-3 rounded-lg bg-white border border-gray-200 divide-y divide-gray-100 text-sm">
+                        {orderPricing.vehicles.map((line, i) => {
+                          const vehicle = orderVehicles[i];
+                          return (
+                            <div key={line.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                              <div>
+                                <div className="font-medium text-gray-900">
+                                  {i + 1}. {vehicle ? formatOrderVehicleLabel(vehicle, i) : `Vehicle ${i + 1}`}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                  {getVehicleClass(line.vehicle_type).label}
+                                  {vehicle?.vin ? ` · VIN ${vehicle.vin}` : ''}
+                                  {line.loading_fee ? ` · incl. $${line.loading_fee.toFixed(2)} loading fee` : ''}
+                                </div>
+                              </div>
+                              <div className="shrink-0 font-semibold text-gray-900">${line.price_before_tax.toFixed(2)}</div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : null}
+                    {orderLegs.length > 1 ? (
+                      <div className="mt-3 rounded-lg bg-white border border-gray-200 divide-y divide-gray-100 text-sm">
+                        {orderPricing.legs.map((line, i) => {
+                          const leg = orderLegs[i];
+                          return (
+                            <div key={line.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                              <div>
+                                <div className="font-medium text-gray-900">{leg ? formatOrderLegLabel(leg, i) : `Leg ${i + 1}`}</div>
+                                <div className="text-xs text-gray-500">
+                                  {line.distance_km ? `${line.distance_km} km` : line.route_area || '-'}
+                                  {leg?.pickup_date ? ` · pickup ${leg.pickup_date}` : ''}
+                                  {leg?.delivery_date ? ` · delivery ${leg.delivery_date}` : ''}
+                                </div>
+                              </div>
+                              <div className="shrink-0 font-semibold text-gray-900">${line.price_before_tax.toFixed(2)}</div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : null}
                     <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
                       <div className="rounded-lg bg-white border border-gray-200 p-3">
                         <div className="text-xs text-gray-500">Subtotal (before tax)</div>
                         <div className="mt-1 font-semibold text-gray-900">${totals.subtotal.toFixed(2)}</div>
-                        {loadingFee ? <div className="mt-1 text-xs text-gray-600">Includes $50.00 loading fee</div> : null}
+                        {loadingFee ? <div className="mt-1 text-xs text-gray-600">Includes ${loadingFee.toFixed(2)} loading fees</div> : null}
+                        {orderPricing.multi_vehicle_discount ? (
+                          <div className="mt-1 text-xs font-medium text-emerald-700">
+                            Multi-car discount ({orderPricing.multi_vehicle_discount_percent}%): -${orderPricing.multi_vehicle_discount.toFixed(2)}
+                          </div>
+                        ) : null}
+                        {orderPricing.round_trip_discount ? (
+                          <div className="mt-1 text-xs font-medium text-emerald-700">
+                            Round-trip discount ({orderPricing.round_trip_discount_percent}%): -${orderPricing.round_trip_discount.toFixed(2)}
+                          </div>
+                        ) : null}
+                        {orderPricing.service_level_fee ? (
+                          <div className="mt-1 text-xs text-gray-600">
+                            Includes ${orderPricing.service_level_fee.toFixed(2)} for {getServiceLevelLabel(serviceLevel)}
+                          </div>
+                        ) : null}
+                        {orderDiscounts.map((d) => (
+                          <div key={`${d.kind}-${d.code}`} className="mt-1 text-xs font-medium text-emerald-700">
+                            {d.label}: -${d.amount.toFixed(2)}
+                          </div>
+                        ))}
                       </div>
                       <div className="rounded-lg bg-white border border-gray-200 p-3">
                         <div className="text-xs text-gray-500">Tax {totals.tax_note ? `(${totals.tax_note})` : ''}</div>
                         <div className="mt-1 font-semibold text-gray-900">${totals.tax.toFixed(2)}</div>
-                        <div className="text-xs text-gray-500">Rate: {(totals.tax_rate * 100).toFixed(2)}%</div>
+                        {(totals.tax_lines ?? []).map((line) => (
+                          <div key={line.code} className="text-xs text-gray-500">
+                            {line.label}: ${line.amount.toFixed(2)}
+                          </div>
+                        ))}
+                        {totals.tax_exemption ? (
+                          <div className="mt-1 text-xs font-medium text-emerald-700">{TAX_EXEMPTION_TYPES[totals.tax_exemption].label}</div>
+                        ) : null}
                       </div>
                       <div className="rounded-lg bg-white border border-gray-200 p-3">
                         <div className="text-xs text-gray-500">Total</div>
                         <div className="mt-1 font-bold text-gray-900">${totals.total.toFixed(2)}</div>
-                        <div className="text-xs text-gray-500">Payable now</div>
+                        {(() => {
+                          const deposit = getDepositAmount(totals.total, getDepositRule(routeArea));
+                          if (!deposit) return <div className="text-xs text-gray-500">Payable now</div>;
+                          return (
+                            <div className="text-xs text-gray-500">
+                              Deposit ${deposit.toFixed(2)} payable now · balance ${(totals.total - deposit).toFixed(2)} charged to your card at delivery
+                            </div>
+                          );
+                        })()}
                       </div>
                     </div>
+                    {canUseDiscounts ? (
+                      <div className="mt-3">
+                        <PromoCodeField appliedCode={promoCode} onApply={applyPromoCode} onRemove={removePromoCode} />
+                      </div>
+                    ) : null}
                   </div>
                 );
               })()}
@@ -4917,7 +5418,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                   <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 p-4">
                     <div className="text-sm font-semibold text-amber-900">Additional loading fee</div>
                     <div className="mt-1 text-sm text-amber-900">
-                      An additional loading fee of 50 is required for vehicles that do not run or drive. This fee has been added to your total.
+                      An additional loading fee of ${getAccessorialPrice('loading').toFixed(2)} is required for vehicles that do not run or drive. This fee has been added to your total.
                     </div>
                     <div className="mt-2 text-sm text-amber-900">
                       A customer service representative will contact you within 24 hours to reconfirm vehicle condition and pickup details before scheduling transportation.
@@ -5011,7 +5512,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                       className="mt-1 h-4 w-4"
                     />
                     <div className="text-sm text-gray-700">
-                      I confirm the vehicle does not run or drive and understand an additional 50 loading fee will be added to the order.
+                      I confirm the vehicle does not run or drive and understand an additional ${getAccessorialPrice('loading').toFixed(2)} loading fee will be added to the order.
                     </div>
                   </label>
                 )}
@@ -5045,19 +5546,33 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                     >
                       Save as draft
                     </button>
+                    {billingTerms.payment_terms === 'invoice' ? (
+                      <button
+                        type="button"
+                        disabled={isSubmitting || !checkoutConfirmed}
+                        onClick={async () => {
+                          await handlePayNow('invoice');
+                        }}
+                        className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                      >
+                        Bill to my account (net {billingTerms.net_terms_days})
+                      </button>
+                    ) : null}
+                    {savedCard ? (
+                      <button
+                        type="button"
+                        disabled={isSubmitting || !checkoutConfirmed}
+                        onClick={async () => {
+                          await handlePayNow('saved_card');
+                        }}
+                        className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                      >
+                        Pay with {formatSavedCard(savedCard)}
+                      </button>
+                    ) : null}
                     <button
                       type="button"
-                      disabled={(() => {
-                        const baseAccepted =
-                          checkoutConfirmations.pickupAddress &&
-                          checkoutConfirmations.dropoffAddress &&
-                          checkoutConfirmations.vehicleDetails;
-                        const vehicleAccepted =
-                          vehicleCondition === 'runs_and_drives'
-                            ? checkoutConfirmations.vehicleRunsAndDrives
-                            : checkoutConfirmations.vehicleDoesNotRunOrDrive;
-                        return isSubmitting || !(baseAccepted && vehicleAccepted);
-                      })()}
+                      disabled={isSubmitting || !checkoutConfirmed}
                       onClick={async () => {
                         await handlePayNow();
                       }}
@@ -5151,25 +5666,67 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
               <div className="relative w-full max-w-2xl max-h-[90vh] rounded-2xl bg-white shadow-2xl border border-gray-200 overflow-hidden flex flex-col">
             <div className="flex-shrink-0 bg-gradient-to-r from-cyan-500 to-blue-600 text-white px-6 py-4">
               <div className="text-lg font-semibold">Transport Quote</div>
-              <div className="text-sm opacity-90">Price based on pickup location</div>
+              <div className="text-sm opacity-90">Price based on pickup and drop-off locations</div>
             </div>
 
             <div className="flex-1 overflow-y-auto p-6">
               <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 gap-3">
                 <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
-                  <div className="text-xs font-medium text-gray-500">Pickup location (pricing)</div>
+                  <div className="text-xs font-medium text-gray-500">Route (pricing)</div>
                   <div className="mt-1 text-sm font-semibold text-gray-900">
                     {String(costData?.pricingCity ?? formData?.pickup_location?.city ?? formData?.dropoff_location?.city ?? '-')}
                   </div>
+                  {costData?.pricingReason ? (
+                    <div className={`mt-1 text-xs ${costData.pricingConfidence === 'low' ? 'text-amber-700' : 'text-gray-500'}`}>
+                      {costData.pricingReason}
+                    </div>
+                  ) : null}
                 </div>
                 <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
                   <div className="text-xs font-medium text-gray-500">Service Type</div>
-                  <div className="mt-1 text-sm font-semibold text-gray-900">
-                    {String(formData?.service?.service_type ?? '') === 'delivery_one_way' ? 'Delivery (one-way)' : 'Pickup (one-way)'}
+                  <div className="mt-1 text-sm font-semibold text-gray-900">{getServiceTypeLabel(serviceType)}</div>
+                  {orderLegs.length > 1 ? (
+                    <div className="mt-1 text-xs text-gray-500">
+                      {orderPricing.legs.map((line, i) => `Leg ${i + 1}: $${line.price_before_tax.toFixed(2)}`).join(' · ')}
+                    </div>
+                  ) : null}
+                </div>
+                <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 sm:col-span-2">
+                  <div className="text-xs font-medium text-gray-500">{orderVehicles.length > 1 ? 'Vehicle 1 class' : 'Vehicle class'}</div>
+                  <select
+                    value={normalizeVehicleType(formData?.service?.vehicle_type)}
+                    onChange={(e) => {
+                      const next = normalizeVehicleType(e.target.value);
+                      updateFormField('service', 'vehicle_type', next);
+                    }}
+                    className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+                  >
+                    {VEHICLE_CLASSES.map((vehicleClass) => (
+                      <option key={vehicleClass.type} value={vehicleClass.type}>
+                        {vehicleClass.label} — {vehicleClass.description}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="mt-1 text-xs text-gray-500">
+                    Larger vehicles take more truck space. {getVehicleClass(formData?.service?.vehicle_type).label} is priced at ×
+                    {getVehicleClassMultiplier(formData?.service?.vehicle_type)} the standard rate.
                   </div>
                 </div>
               </div>
 
+              <div className="mb-6">
+                <OrderVehiclesEditor vehicles={orderVehicles} onChange={updateOrderVehicles} />
+              </div>
+
+              <div className="mb-6">
+                <ServiceLevelOptions
+                  route={String(costData?.pricingCity ?? '')}
+                  value={serviceLevel}
+                  onChange={updateServiceLevel}
+                  priceFor={isLoggedIn ? priceForServiceLevel : undefined}
+                />
+              </div>
+
               {/* Route Map */}
               <div className="mb-6 rounded-lg overflow-hidden border border-gray-200 h-64 bg-gray-100 relative">
                 {formData?.dropoff_location?.lat && formData?.dropoff_location?.lng ? (
@@ -5212,6 +5769,19 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                     <div className="text-4xl font-bold text-cyan-600 mb-2">${costData.cost}</div>
                     <div className="text-sm text-gray-600">Price (before tax)</div>
                     <div className="text-xs text-gray-500 mt-1">Note: + applicable tax.</div>
+                    {costData.quotedAt ? (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Price valid until {new Date(getQuoteExpiresAt(costData.quotedAt)).toLocaleString()}.
+                      </div>
+                    ) : null}
+                    {costData.pricingStatus !== 'official' ? (
+                      <div className="mt-4 text-left">
+                        <DistancePriceBreakdown
+                          distanceKm={Number(costData.distance) || 0}
+                          title={orderLegs.length > 1 ? 'How the first leg is estimated' : undefined}
+                        />
+                      </div>
+                    ) : null}
                   </>
                 ) : (
                   <div className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-5">
@@ -5224,7 +5794,7 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
               <div className="bg-gray-50 rounded-lg p-4 mb-6">
                 <div className="text-sm text-gray-700 text-center font-medium">Estimated delivery time</div>
                 <div className="text-sm text-gray-600 text-center mt-1">
-                  {String(costData?.pricingCity ?? '').toLowerCase().includes('montreal') ? 'As fast as 1–2 business days' : '3–8 business days'}
+                  {formatFulfillmentDays(fulfillment)} ({getServiceLevelLabel(serviceLevel)})
                 </div>
               </div>
             </div>
@@ -5827,6 +6397,31 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                           </div>
                         </div>
                       </div>
+
+                      <div className="mt-4 rounded-xl border border-gray-200 bg-white p-4">
+                        <div className="text-sm font-semibold text-gray-900">Service</div>
+                        <div className="mt-1 text-sm text-gray-600">One-way, a round trip back to the pickup address, or several legs.</div>
+                        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {SERVICE_TYPES.map((option) => (
+                            <button
+                              key={option.type}
+                              type="button"
+                              onClick={() => updateServiceType(option.type)}
+                              className={`rounded-lg border px-3 py-2 text-left text-sm transition-colors ${
+                                serviceType === option.type ? 'border-blue-600 bg-blue-50 text-blue-900' : 'border-gray-300 bg-white text-gray-800 hover:bg-gray-50'
+                              }`}
+                            >
+                              <div className="font-semibold">{option.label}</div>
+                              <div className="text-xs text-gray-600">{option.description}</div>
+                            </button>
+                          ))}
+                        </div>
+                        {isMultiLegServiceType(serviceType) ? (
+                          <div className="mt-4">
+                            <OrderLegsEditor serviceType={serviceType} legs={orderLegs} onChange={updateOrderLegs} />
+                          </div>
+                        ) : null}
+                      </div>
                       </>
                     ) : manualWizardStep === 'quote' ? (
                       <div className="mt-4 rounded-xl border border-gray-200 bg-white p-4">
@@ -5872,17 +6467,57 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                                 <div className="mt-1 font-semibold text-gray-900">{Number(costData?.distance ?? 0) || 0} km</div>
                               </div>
                               <div className="rounded-lg bg-gray-50 border border-gray-200 p-3">
-                                <div className="text-xs font-medium text-gray-500">Rate</div>
-                                <div className="mt-1 font-semibold text-gray-900">${getDistanceRatePerKm()}/km</div>
+                                <div className="text-xs font-medium text-gray-500">Pricing</div>
+                                <div className="mt-1 font-semibold text-gray-900">{costData?.pricingStatus === 'official' ? 'Official route price' : 'Estimated by distance'}</div>
                               </div>
                               <div className="rounded-lg bg-gray-50 border border-gray-200 p-3">
                                 <div className="text-xs font-medium text-gray-500">Minimum</div>
-                                <div className="mt-1 font-semibold text-gray-900">$150</div>
+                                <div className="mt-1 font-semibold text-gray-900">${getActivePricingRules().distance_minimum_charge.toFixed(2)}</div>
                               </div>
                             </div>
+                            {costData && costData.pricingStatus !== 'official' ? (
+                              <div className="mt-4">
+                                <DistancePriceBreakdown
+                                  distanceKm={Number(costData.distance) || 0}
+                                  title={orderLegs.length > 1 ? 'How the first leg is estimated' : undefined}
+                                />
+                              </div>
+                            ) : null}
+                            {orderLegs.length > 1 ? (
+                              <div className="mt-4 rounded-lg bg-white border border-gray-200 divide-y divide-gray-100 text-sm">
+                                {orderPricing.legs.map((line, i) => (
+                                  <div key={line.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                                    <div className="text-gray-700">
+                                      {orderLegs[i] ? formatOrderLegLabel(orderLegs[i], i) : `Leg ${i + 1}`}
+                                      {line.distance_km ? <span className="text-xs text-gray-500"> · {line.distance_km} km</span> : null}
+                                    </div>
+                                    <div className="shrink-0 font-semibold text-gray-900">${line.transport_price.toFixed(2)}</div>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : null}
                             <div className="mt-4 rounded-xl border border-gray-200 bg-gray-50 p-4">
                               <div className="text-xs font-medium text-gray-500">Estimated price (before tax)</div>
                               <div className="mt-1 text-2xl font-bold text-gray-900">${Number(costData?.cost ?? 0) || 0}</div>
+                              {orderPricing.round_trip_discount ? (
+                                <div className="mt-1 text-xs font-medium text-emerald-700">
+                                  Includes a {orderPricing.round_trip_discount_percent}% round-trip discount (-${orderPricing.round_trip_discount.toFixed(2)})
+                                </div>
+                              ) : null}
+                              {orderPricing.service_level_fee ? (
+                                <div className="mt-1 text-xs text-gray-600">
+                                  Includes ${orderPricing.service_level_fee.toFixed(2)} for {getServiceLevelLabel(serviceLevel)}
+                                </div>
+                              ) : null}
+                              <div className="mt-1 text-xs text-gray-600">Estimated delivery: {formatFulfillmentDays(fulfillment)}</div>
+                            </div>
+                            <div className="mt-4">
+                              <ServiceLevelOptions
+                                route={String(costData?.pricingCity ?? '')}
+                                value={serviceLevel}
+                                onChange={updateServiceLevel}
+                                priceFor={priceForServiceLevel}
+                              />
                             </div>
                           </>
                         ) : null}
@@ -5991,6 +6626,10 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                             />
                           </div>
                         </div>
+
+                        <div className="mt-4">
+                          <OrderVehiclesEditor vehicles={orderVehicles} onChange={updateOrderVehicles} />
+                        </div>
                       </div>
                     ) : null}
 
@@ -6101,6 +6740,23 @@ export default function FileUploadSection({ hideHeader: _hideHeader = false, onC
                     </div>
                   </div>
                   <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-2">
+                    {orderVehicles.length > 1 ? (
+                      <select
+                        value={file.vehicleId ?? ''}
+                        onChange={(e) => {
+                          const vehicleId = e.target.value || undefined;
+                          setUploadedFiles((prev) => prev.map((f) => (f.id === file.id ? { ...f, vehicleId } : f)));
+                        }}
+                        className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs"
+                      >
+                        <option value="">Whole order</option>
+                        {orderVehicles.map((vehicle, i) => (
+                          <option key={vehicle.id} value={vehicle.id}>
+                            {i + 1}. {formatOrderVehicleLabel(vehicle, i)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
                     <div className="inline-flex items-center gap-2 rounded-full bg-green-50 border border-green-200 px-3 py-1 text-xs font-semibold text-green-700">
                       <CheckCircle className="w-4 h-4" />
                       Required
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { issueStatementsAsStaff, listInvoicesAsStaff, markInvoicePaidAsStaff } from '../orders/supabaseOrders';
+import {
+  formatInvoiceStatus,
+  formatStatementPeriod,
+  getInvoiceStatus,
+  getPreviousStatementPeriod,
+  isStatementPeriod,
+  type Invoice,
+  type InvoiceStatus,
+} from '../orders/invoices';
+
+type StatusFilter = InvoiceStatus | 'all';
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  open: 'bg-amber-50 text-amber-800 ring-amber-200',
+  overdue: 'bg-red-50 text-red-700 ring-red-200',
+  paid: 'bg-emerald-50 text-emerald-700 ring-emerald-200',
+};
+
+// Monthly statements for accounts on invoice terms (set from the Users view): issue a month's statements, follow what
+// is open or overdue and record payments.
+export default function InvoicesManager() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [period, setPeriod] = useState(getPreviousStatementPeriod());
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setInvoices(await listInvoicesAsStaff());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const issue = async () => {
+    setError(null);
+    setMessage(null);
+    if (!isStatementPeriod(period)) {
+      setError('Pick the month to bill.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const issued = await issueStatementsAsStaff(period);
+      setMessage(
+        issued.length
+          ? `${issued.length} statement${issued.length === 1 ? '' : 's'} issued for ${formatStatementPeriod(period)}.`
+          : `No delivered orders left to bill for ${formatStatementPeriod(period)}.`
+      );
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to issue the statements');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const markPaid = async (invoice: Invoice) => {
+    const reference = window.prompt(`Payment reference for ${invoice.customer_email ?? invoice.user_id}, ${invoice.period} (cheque, EFT, ...):`, '');
+    if (reference === null) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await markInvoicePaidAsStaff(invoice.id, reference.trim() || null);
+      setMessage(`Statement ${invoice.period} marked paid.`);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to mark the invoice paid');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const now = new Date();
+  const rows = invoices.map((invoice) => ({ invoice, status: getInvoiceStatus(invoice, now) }));
+  const shown = filter === 'all' ? rows : rows.filter((r) => r.status === filter);
+  const outstanding = rows.filter((r) => r.status !== 'paid').reduce((sum, r) => sum + r.invoice.total, 0);
+  const overdue = rows.filter((r) => r.status === 'overdue').reduce((sum, r) => sum + r.invoice.total, 0);
+
+  return (
+    <div className="space-y-4">
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div> : null}
+      {message ? <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div> : null}
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="text-sm font-semibold text-gray-900">Issue statements</div>
+        <div className="mt-1 text-xs text-gray-600">
+          Bills every order placed on account and delivered by the end of the month that is not on a statement yet, one statement per account.
+        </div>
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-end gap-3">
+          <label className="text-xs font-semibold text-gray-700">
+            Month
+            <input
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => void issue()}
+            disabled={saving}
+            className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Working...' : 'Issue statements'}
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-gray-900">Statements</div>
+            <div className="mt-1 text-xs text-gray-600">
+              {formatCad(outstanding)} outstanding · {formatCad(overdue)} overdue
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as StatusFilter)}
+              className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+            >
+              <option value="all">All</option>
+              <option value="open">Open</option>
+              <option value="overdue">Overdue</option>
+              <option value="paid">Paid</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => void load()}
+              disabled={loading}
+              className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 overflow-auto max-h-[45vh]">
+          <div className="min-w-[860px] grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-2 pb-2 border-b border-gray-200">
+            <div className="col-span-3">Customer</div>
+            <div className="col-span-2">Month</div>
+            <div className="col-span-2">Due</div>
+            <div className="col-span-2">Total</div>
+            <div className="col-span-1">Status</div>
+            <div className="col-span-2">Actions</div>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {shown.map(({ invoice, status }) => (
+              <div key={invoice.id} className="px-2 py-2 text-sm text-gray-800">
+                <div className="grid grid-cols-12 gap-2 items-start">
+                  <div className="col-span-3 truncate" title={invoice.user_id}>
+                    {invoice.customer_email || invoice.user_id}
+                  </div>
+                  <div className="col-span-2">
+                    <div>{formatStatementPeriod(invoice.period)}</div>
+                    <div className="text-xs text-gray-500">
+                      {invoice.lines.length} order{invoice.lines.length === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  <div className="col-span-2 text-xs text-gray-700">{invoice.due_at ? new Date(invoice.due_at).toLocaleDateString() : '-'}</div>
+                  <div className="col-span-2">
+                    <div className="font-semibold text-gray-900">{formatCad(invoice.total)}</div>
+                    <div className="text-xs text-gray-500">incl. {formatCad(invoice.tax)} tax</div>
+                  </div>
+                  <div className="col-span-1">
+                    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${STATUS_BADGES[status]}`}>
+                      {formatInvoiceStatus(status).toUpperCase()}
+                    </span>
+                  </div>
+                  <div className="col-span-2 flex flex-wrap gap-1 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId((id) => (id === invoice.id ? null : invoice.id))}
+                      className="rounded-lg border border-gray-300 bg-white px-2 py-1 font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      {expandedId === invoice.id ? 'Hide' : 'Orders'}
+                    </button>
+                    {status !== 'paid' ? (
+                      <button
+                        type="button"
+                        onClick={() => void markPaid(invoice)}
+                        disabled={saving}
+                        className="rounded-lg bg-emerald-600 px-2 py-1 font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+                      >
+                        Mark paid
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+                {expandedId === invoice.id ? (
+                  <div className="mt-2 rounded-xl border border-gray-200 bg-white p-3 text-xs text-gray-700 space-y-1">
+                    {invoice.lines.map((line) => (
+                      <div key={line.order_id} className="flex justify-between gap-3">
+                        <span className="min-w-0 truncate">
+                          {line.order_code}
+                          {line.route ? ` · ${line.route}` : ''} · delivered {new Date(line.delivered_at).toLocaleDateString()}
+                        </span>
+                        <span className="shrink-0">
+                          {formatCad(line.subtotal)} + {formatCad(line.tax)} tax
+                        </span>
+                      </div>
+                    ))}
+                    {invoice.paid_at ? (
+                      <div className="pt-1 text-gray-500">
+                        Paid {new Date(invoice.paid_at).toLocaleDateString()}
+                        {invoice.paid_reference ? ` · ${invoice.paid_reference}` : ''}
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+              </div>
+            ))}
+            {!loading && shown.length === 0 ? <div className="px-2 py-4 text-sm text-gray-600">No statements.</div> : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
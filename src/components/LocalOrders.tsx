@@ -1,25 +1,53 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { ArrowLeft } from 'lucide-react';
 import {
+  cancelOrder,
   createOfferForOrder,
   getMyPendingOfferForOrder,
   getMyLatestOfferForOrder,
   listMyOrders,
   getOrderEventsForMyOrder,
   getAccessToken,
+  getMyBillingTerms,
+  getMySavedCard,
+  payAmendmentWithSavedCard,
+  placeOrderOnAccount,
+  previewOrderAmendment,
+  refreshOrderQuote,
+  startAccessorialsCheckout,
+  startAmendmentCheckout,
+  startBalanceCheckout,
+  startSavedCardPayment,
+  submitOrderAmendment,
   type DbOrderEventRow,
   type DbOrderRow,
   type DbOrderStage,
 } from '../orders/supabaseOrders';
 import { supabase } from '../lib/supabaseClient';
 import {
+  amendLocalOrder,
+  cancelLocalOrder,
   createLocalOfferForOrder,
   getLocalLatestOfferForOrder,
   getLocalPendingOfferForOrder,
   getLocalOrderById,
   listLocalOrders,
+  payLocalOrderAccessorials,
+  payLocalOrderAmendment,
+  previewLocalOrderAmendment,
+  refreshLocalOrderQuote,
   updateLocalOrderPaymentStatus,
 } from '../orders/localOrders';
+import { readOrderAmendments, type AmendmentChanges } from '../orders/amendments';
+import { readOrderCancellation } from '../orders/cancellation';
+import { formatDepositSummary, getDepositBalanceDue, readOrderDeposit } from '../orders/deposits';
+import { formatOrderStage, normalizeOrderStage } from '../orders/orderStateMachine';
+import { readBillingTerms, type BillingTerms } from '../orders/invoices';
+import { formatSavedCard, type SavedCard } from '../orders/payments';
+import { formatAccessorialQuantity, getAccessorialsTotal, getUnpaidAccessorials, readOrderAccessorials } from '../pricing/accessorials';
+import { formatQuoteValidity, isQuoteExpired } from '../pricing/quotes';
+import OrderAmendmentsCard, { type AmendmentPaymentMethod } from './OrderAmendmentsCard';
+import OrderCancellationCard from './OrderCancellationCard';
 
 interface LocalOrdersProps {
   onBack: () => void;
@@ -42,7 +70,12 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
             order_stage: (o.order_stage ?? 'pending_payment') as DbOrderStage,
             price_before_tax: Number((o as { price_before_tax?: unknown })?.price_before_tax ?? o?.totals?.subtotal ?? 0),
             final_price_before_tax: (o as { final_price_before_tax?: unknown })?.final_price_before_tax as number | null,
+            quote_expires_at: o.quote_expires_at ?? null,
             route_area: String(o?.route_area ?? ''),
+            accessorials: o.accessorials ?? [],
+            cancellation: o.cancellation ?? null,
+            amendments: o.amendments ?? [],
+            form_data: o.form_data,
             created_at: o.created_at,
             updated_at: o.updated_at,
           }));
@@ -90,7 +123,13 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
         | 'order_stage'
         | 'price_before_tax'
         | 'final_price_before_tax'
+        | 'quote_expires_at'
         | 'route_area'
+        | 'accessorials'
+        | 'cancellation'
+        | 'amendments'
+        | 'deposit'
+        | 'form_data'
         | 'created_at'
         | 'updated_at'
       >
@@ -105,6 +144,19 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
 
   const [payLoading, setPayLoading] = useState(false);
   const [payError, setPayError] = useState<string | null>(null);
+  const [savedCard, setSavedCard] = useState<SavedCard | null>(null);
+  const [billingTerms, setBillingTerms] = useState<BillingTerms>(() => readBillingTerms(null));
+
+  const [extrasLoading, setExtrasLoading] = useState(false);
+  const [extrasError, setExtrasError] = useState<string | null>(null);
+  const [balanceLoading, setBalanceLoading] = useState(false);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+
+  const [quoteRefreshLoading, setQuoteRefreshLoading] = useState(false);
+  const [quoteRefreshError, setQuoteRefreshError] = useState<string | null>(null);
+  const [quoteRefreshMessage, setQuoteRefreshMessage] = useState<string | null>(null);
+  // Ticks once a minute so quote countdowns stay current while the page is open.
+  const [now, setNow] = useState(() => new Date());
 
   const [offerOpen, setOfferOpen] = useState(false);
   const [offerAmount, setOfferAmount] = useState('');
@@ -129,6 +181,22 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
     void reloadOrders();
   }, [reloadOrders]);
 
+  // The card saved at the customer's last checkout pays in one click; accounts on invoice terms can bill the order instead.
+  useEffect(() => {
+    if (isLocalDev || !supabase) return;
+    getMySavedCard()
+      .then(setSavedCard)
+      .catch(() => setSavedCard(null));
+    getMyBillingTerms()
+      .then(setBillingTerms)
+      .catch(() => setBillingTerms(readBillingTerms(null)));
+  }, [isLocalDev]);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => window.clearInterval(id);
+  }, []);
+
   useEffect(() => {
     let targetId = '';
     try {
@@ -163,12 +231,7 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
   }, [orders, selectedId]);
 
   const stageBuckets = useMemo(() => {
-    const normalizeStage = (s: unknown): DbOrderStage => {
-      const v = String(s ?? '').trim();
-      if (v === 'draft' || v === 'in_negotiation' || v === 'pending_payment' || v === 'order_dispatched' || v === 'order_completed') return v;
-      return 'pending_payment';
-    };
-    const items = orders.map((o) => ({ ...o, order_stage: normalizeStage((o as { order_stage?: unknown }).order_stage) }));
+    const items = orders.map((o) => ({ ...o, order_stage: normalizeOrderStage((o as { order_stage?: unknown }).order_stage) }));
     const byStage = (stage: DbOrderStage) => items.filter((o) => (o.order_stage ?? 'pending_payment') === stage);
     return {
       draft: byStage('draft'),
@@ -176,6 +239,7 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
       pending_payment: byStage('pending_payment'),
       order_dispatched: byStage('order_dispatched'),
       order_completed: byStage('order_completed'),
+      cancelled: byStage('cancelled'),
     };
   }, [orders]);
 
@@ -186,16 +250,17 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
     return Number.isFinite(v) && v > 0 ? `$${v.toFixed(2)}` : '-';
   };
 
-  const formatStageLabel = (stageRaw: unknown) => {
-    const stage = String(stageRaw ?? '').trim();
-    if (stage === 'draft') return 'Draft';
-    if (stage === 'in_negotiation') return 'In negotiation';
-    if (stage === 'pending_payment') return 'Pending payment';
-    if (stage === 'order_dispatched') return 'Dispatched';
-    if (stage === 'order_completed') return 'Completed';
-    return 'Pending payment';
+  // Only unpaid drafts and pending payments are charged at the quoted price; approved offers keep their own price.
+  const hasLiveQuote = (row: (typeof orders)[number]) => {
+    const stage = String((row as { order_stage?: unknown }).order_stage ?? '').trim() || 'pending_payment';
+    if (stage !== 'draft' && stage !== 'pending_payment') return false;
+    if (row.payment_status === 'paid' || row.payment_status === 'invoiced' || row.payment_status === 'pending') return false;
+    const finalRaw = Number((row as { final_price_before_tax?: unknown }).final_price_before_tax);
+    return !(Number.isFinite(finalRaw) && finalRaw > 0);
   };
 
+  const formatStageLabel = (stageRaw: unknown) => formatOrderStage(normalizeOrderStage(stageRaw));
+
   const stageBadgeClass = (stageRaw: unknown) => {
     const stage = String(stageRaw ?? '').trim();
     if (stage === 'draft') return 'bg-slate-100 text-slate-700 ring-slate-200';
@@ -203,6 +268,7 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
     if (stage === 'pending_payment') return 'bg-blue-50 text-blue-800 ring-blue-200';
     if (stage === 'order_dispatched') return 'bg-cyan-50 text-cyan-800 ring-cyan-200';
     if (stage === 'order_completed') return 'bg-emerald-50 text-emerald-800 ring-emerald-200';
+    if (stage === 'cancelled') return 'bg-red-50 text-red-800 ring-red-200';
     return 'bg-blue-50 text-blue-800 ring-blue-200';
   };
 
@@ -334,6 +400,8 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
 
   const openOrder = (id: string) => {
     setSelectedId(id);
+    setQuoteRefreshError(null);
+    setQuoteRefreshMessage(null);
   };
 
   const searched = useMemo(() => {
@@ -400,13 +468,53 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
     };
   }, [isLocalDev, selectedId]);
 
-  const startPayment = async () => {
+  const refreshQuote = async () => {
+    if (!selectedOrder) return;
+    setQuoteRefreshLoading(true);
+    setQuoteRefreshError(null);
+    setQuoteRefreshMessage(null);
+    const previous = Number(selectedOrder.price_before_tax);
+    try {
+      let nextPrice: number;
+      let promoRemoved: string | null = null;
+      if (isLocalDev) {
+        const updated = refreshLocalOrderQuote(selectedOrder.order_code);
+        nextPrice = Number(updated.price_before_tax);
+        await reloadOrders();
+        const evs = Array.isArray(updated.status_events) ? updated.status_events : [];
+        setEvents(evs.map((ev) => ({ status: ev.status, at: ev.at, note: typeof ev.note === 'string' ? ev.note : null })));
+      } else {
+        const refreshed = await refreshOrderQuote(selectedOrder.order_code);
+        nextPrice = refreshed.quote.price_before_tax;
+        promoRemoved = refreshed.promo_removed;
+        await reloadOrders();
+        setEvents(await getOrderEventsForMyOrder(selectedOrder.id).catch(() => events));
+      }
+      setPayError(null);
+      setQuoteRefreshMessage(
+        (Number.isFinite(previous) && Math.abs(previous - nextPrice) > 0.005
+          ? `Quote refreshed. The price changed from $${previous.toFixed(2)} to $${nextPrice.toFixed(2)} before tax.`
+          : `Quote refreshed. The price is still $${nextPrice.toFixed(2)} before tax.`) +
+          (promoRemoved ? ` Promo code ${promoRemoved} is no longer valid and was removed.` : '')
+      );
+    } catch (err) {
+      setQuoteRefreshError(err instanceof Error ? err.message : 'Failed to refresh the quote');
+    } finally {
+      setQuoteRefreshLoading(false);
+    }
+  };
+
+  const startPayment = async (method: 'checkout' | 'saved_card' | 'invoice' = 'checkout') => {
     if (!selectedOrder) return;
     const stage = String((selectedOrder as { order_stage?: unknown }).order_stage ?? '').trim();
     if (stage && stage !== 'pending_payment') {
       setPayError('This order is not ready for payment yet.');
       return;
     }
+    if (hasLiveQuote(selectedOrder) && isQuoteExpired(selectedOrder.quote_expires_at)) {
+      setPayError('This quote has expired. Please refresh the quote to confirm the current price before paying.');
+      return;
+    }
     setPayLoading(true);
     setPayError(null);
     try {
@@ -423,7 +531,12 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
               order_stage: (o.order_stage ?? 'pending_payment') as DbOrderStage,
               price_before_tax: Number((o as { price_before_tax?: unknown })?.price_before_tax ?? o?.totals?.subtotal ?? 0),
               final_price_before_tax: (o as { final_price_before_tax?: unknown })?.final_price_before_tax as number | null,
+              quote_expires_at: o.quote_expires_at ?? null,
               route_area: String(o?.route_area ?? ''),
+              accessorials: o.accessorials ?? [],
+              cancellation: o.cancellation ?? null,
+              amendments: o.amendments ?? [],
+              form_data: o.form_data,
               created_at: o.created_at,
               updated_at: o.updated_at,
             }))
@@ -451,6 +564,17 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
         throw new Error('Payments are currently unavailable. Please try again later.');
       }
 
+      if (method === 'saved_card') {
+        window.location.href = await startSavedCardPayment(selectedOrder.order_code);
+        return;
+      }
+
+      if (method === 'invoice') {
+        await placeOrderOnAccount(selectedOrder.order_code);
+        await reloadOrders();
+        return;
+      }
+
       const token = await getAccessToken();
       if (!token) throw new Error('Not authenticated');
 
@@ -474,6 +598,106 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
     }
   };
 
+  // Accessorials staff added after the order was paid are charged in a checkout of their own.
+  const payExtraCharges = async () => {
+    if (!selectedOrder) return;
+    setExtrasLoading(true);
+    setExtrasError(null);
+    try {
+      if (isLocalDev) {
+        payLocalOrderAccessorials(selectedOrder.order_code);
+        await reloadOrders();
+        const updated = getLocalOrderById(selectedOrder.order_code);
+        const evs = Array.isArray(updated?.status_events) ? updated?.status_events : [];
+        setEvents(evs.map((ev) => ({ status: ev.status, at: ev.at, note: typeof ev.note === 'string' ? ev.note : null })));
+        return;
+      }
+
+      if (!supabase) {
+        throw new Error('Payments are currently unavailable. Please try again later.');
+      }
+
+      window.location.href = await startAccessorialsCheckout(selectedOrder.order_code);
+    } catch (err) {
+      setExtrasError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setExtrasLoading(false);
+    }
+  };
+
+  // The balance of a deposit order is charged to the saved card at delivery; when that fails the customer pays it here.
+  const payBalance = async () => {
+    if (!selectedOrder) return;
+    setBalanceLoading(true);
+    setBalanceError(null);
+    try {
+      window.location.href = await startBalanceCheckout(selectedOrder.order_code);
+    } catch (err) {
+      setBalanceError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setBalanceLoading(false);
+    }
+  };
+
+  // Customers can cancel until pickup; a paid order is refunded less the cancellation fee.
+  const cancelSelectedOrder = async (reason: string) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      cancelLocalOrder(selectedOrder.order_code, { by: 'customer', reason });
+      await reloadOrders();
+      const updated = getLocalOrderById(selectedOrder.order_code);
+      const evs = Array.isArray(updated?.status_events) ? updated?.status_events : [];
+      setEvents(evs.map((ev) => ({ status: ev.status, at: ev.at, note: typeof ev.note === 'string' ? ev.note : null })));
+      return;
+    }
+
+    await cancelOrder(selectedOrder.order_code, { reason });
+    await reloadOrders();
+    setEvents(await getOrderEventsForMyOrder(selectedOrder.id).catch(() => events));
+  };
+
+  const reloadSelectedOrderEvents = async (order: { id: string; order_code: string }) => {
+    if (isLocalDev) {
+      const updated = getLocalOrderById(order.order_code);
+      const evs = Array.isArray(updated?.status_events) ? updated?.status_events : [];
+      setEvents(evs.map((ev) => ({ status: ev.status, at: ev.at, note: typeof ev.note === 'string' ? ev.note : null })));
+      return;
+    }
+    setEvents(await getOrderEventsForMyOrder(order.id).catch(() => events));
+  };
+
+  // Changes to a paid order are re-quoted; a balance is paid by card (Checkout) or with the saved card.
+  const previewAmendment = async (changes: AmendmentChanges) => {
+    if (!selectedOrder) throw new Error('Select an order first.');
+    if (isLocalDev) return previewLocalOrderAmendment(selectedOrder.order_code, changes, 'customer');
+    return previewOrderAmendment(selectedOrder.order_code, changes);
+  };
+
+  const submitAmendment = async (changes: AmendmentChanges, reason: string) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      await amendLocalOrder(selectedOrder.order_code, changes, { by: 'customer', reason });
+    } else {
+      await submitOrderAmendment(selectedOrder.order_code, changes, { reason });
+    }
+    await reloadOrders();
+    await reloadSelectedOrderEvents(selectedOrder);
+  };
+
+  const payAmendment = async (amendmentId: string, method: AmendmentPaymentMethod) => {
+    if (!selectedOrder) return;
+    if (isLocalDev) {
+      payLocalOrderAmendment(selectedOrder.order_code, amendmentId, { by: 'customer' });
+    } else if (method === 'checkout') {
+      window.location.href = await startAmendmentCheckout(selectedOrder.order_code, amendmentId);
+      return;
+    } else {
+      await payAmendmentWithSavedCard(selectedOrder.order_code, amendmentId);
+    }
+    await reloadOrders();
+    await reloadSelectedOrderEvents(selectedOrder);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
@@ -666,6 +890,11 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                                 <div className="mt-0.5 text-xs text-gray-600 truncate">
                                   {String((o as { route_area?: unknown }).route_area ?? '').trim() || '-'}
                                 </div>
+                                {hasLiveQuote(o) && o.quote_expires_at ? (
+                                  <div className={`mt-0.5 text-[11px] ${isQuoteExpired(o.quote_expires_at, now) ? 'text-red-600' : 'text-gray-500'}`}>
+                                    {formatQuoteValidity(o.quote_expires_at, now)}
+                                  </div>
+                                ) : null}
                               </div>
                               <div className="shrink-0 text-xs font-semibold text-gray-900">{formatAmount(o)}</div>
                             </div>
@@ -699,6 +928,11 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                                 <div className="mt-0.5 text-xs text-gray-600 truncate">
                                   {String((o as { route_area?: unknown }).route_area ?? '').trim() || '-'}
                                 </div>
+                                {hasLiveQuote(o) && o.quote_expires_at ? (
+                                  <div className={`mt-0.5 text-[11px] ${isQuoteExpired(o.quote_expires_at, now) ? 'text-red-600' : 'text-gray-500'}`}>
+                                    {formatQuoteValidity(o.quote_expires_at, now)}
+                                  </div>
+                                ) : null}
                               </div>
                               <div className="shrink-0 text-xs font-semibold text-gray-900">{formatAmount(o)}</div>
                             </div>
@@ -732,6 +966,11 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                                 <div className="mt-0.5 text-xs text-gray-600 truncate">
                                   {String((o as { route_area?: unknown }).route_area ?? '').trim() || '-'}
                                 </div>
+                                {hasLiveQuote(o) && o.quote_expires_at ? (
+                                  <div className={`mt-0.5 text-[11px] ${isQuoteExpired(o.quote_expires_at, now) ? 'text-red-600' : 'text-gray-500'}`}>
+                                    {formatQuoteValidity(o.quote_expires_at, now)}
+                                  </div>
+                                ) : null}
                               </div>
                               <div className="shrink-0 text-xs font-semibold text-gray-900">{formatAmount(o)}</div>
                             </div>
@@ -794,6 +1033,33 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                       </div>
                     </div>
                   ) : null}
+
+                  {stageBuckets.cancelled.length > 0 ? (
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <div className="text-xs font-semibold text-gray-600">Cancelled</div>
+                        <div className="text-[11px] font-semibold text-gray-500">{stageBuckets.cancelled.length}</div>
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {stageBuckets.cancelled.slice(0, 20).map((o) => (
+                          <button
+                            key={o.id}
+                            type="button"
+                            onClick={() => openOrder(o.id)}
+                            className={`w-full text-left rounded-xl border px-3 py-2 transition-colors ${
+                              selectedId === o.id ? 'border-cyan-300 bg-cyan-50 shadow-sm' : 'border-gray-200 bg-white hover:bg-gray-50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="text-sm font-semibold text-gray-900 truncate">{o.order_code}</div>
+                              <div className="text-xs font-semibold text-gray-700">{formatAmount(o)}</div>
+                            </div>
+                            <div className="mt-1 text-xs text-gray-600 truncate">{String((o as { route_area?: unknown }).route_area ?? '').trim() || '-'}</div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ) : null}
                 </div>
 
                 <div className="pt-4" />
@@ -819,7 +1085,13 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                         {formatStageLabel((selectedOrder as { order_stage?: unknown }).order_stage)}
                       </span>
                       <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-1 text-xs font-semibold text-gray-800 ring-1 ring-gray-200">
-                        {selectedOrder.payment_status === 'paid' ? 'Paid' : selectedOrder.payment_status === 'pending' ? 'Payment pending' : 'Unpaid'}
+                        {selectedOrder.payment_status === 'paid'
+                          ? 'Paid'
+                          : selectedOrder.payment_status === 'invoiced'
+                            ? 'Billed to account'
+                            : selectedOrder.payment_status === 'pending'
+                              ? 'Payment pending'
+                              : 'Unpaid'}
                       </span>
                     </div>
                   ) : null}
@@ -860,6 +1132,37 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                     <div className="mt-1 text-sm text-gray-800">{events?.[0]?.note ?? '-'}</div>
                   </div>
 
+                  {hasLiveQuote(selectedOrder) ? (
+                    <div
+                      className={`rounded-2xl border p-4 ${
+                        isQuoteExpired(selectedOrder.quote_expires_at, now) ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+                      }`}
+                    >
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div>
+                          <div className="text-sm font-semibold text-gray-900">Quote</div>
+                          <div className="text-xs text-gray-600">
+                            {selectedOrder.quote_expires_at
+                              ? isQuoteExpired(selectedOrder.quote_expires_at, now)
+                                ? 'This quote has expired. Refresh it to confirm the current price before paying.'
+                                : `${formatQuoteValidity(selectedOrder.quote_expires_at, now)} (until ${new Date(selectedOrder.quote_expires_at).toLocaleString()}).`
+                              : 'Refresh the quote to lock in the current price.'}
+                          </div>
+                          {quoteRefreshMessage ? <div className="mt-1 text-xs text-emerald-700">{quoteRefreshMessage}</div> : null}
+                          {quoteRefreshError ? <div className="mt-1 text-xs text-red-600">{quoteRefreshError}</div> : null}
+                        </div>
+                        <button
+                          type="button"
+                          disabled={quoteRefreshLoading}
+                          onClick={() => void refreshQuote()}
+                          className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                        >
+                          {quoteRefreshLoading ? 'Refreshing…' : 'Refresh quote'}
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
                   {!latestOfferLoading && latestOffer ? (
                     <div className="rounded-2xl border border-gray-200 bg-white p-4">
                       <div className="text-sm font-semibold text-gray-900">Your offer</div>
@@ -916,7 +1219,7 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                     </div>
                   )}
 
-                  {String((selectedOrder as { order_stage?: unknown }).order_stage ?? '') === 'pending_payment' && selectedOrder.payment_status !== 'paid' && (
+                  {String((selectedOrder as { order_stage?: unknown }).order_stage ?? '') === 'pending_payment' && selectedOrder.payment_status !== 'paid' && selectedOrder.payment_status !== 'invoiced' && (
                     <div className="rounded-2xl border border-gray-200 bg-white p-4">
                       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                         <div>
@@ -924,18 +1227,141 @@ export default function LocalOrders({ onBack, embed = false }: LocalOrdersProps)
                           <div className="text-xs text-gray-600">Status: {selectedOrder.payment_status}</div>
                           {payError && <div className="mt-1 text-xs text-red-600">{payError}</div>}
                         </div>
-                        <button
-                          type="button"
-                          disabled={payLoading}
-                          onClick={startPayment}
-                          className="inline-flex justify-center rounded-xl bg-gray-900 px-4 py-2.5 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
-                        >
-                          {payLoading ? 'Redirecting…' : 'Pay now'}
-                        </button>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          {billingTerms.payment_terms === 'invoice' ? (
+                            <button
+                              type="button"
+                              disabled={payLoading || (hasLiveQuote(selectedOrder) && isQuoteExpired(selectedOrder.quote_expires_at, now))}
+                              onClick={() => void startPayment('invoice')}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                            >
+                              Bill to my account (net {billingTerms.net_terms_days})
+                            </button>
+                          ) : null}
+                          {savedCard ? (
+                            <button
+                              type="button"
+                              disabled={payLoading || (hasLiveQuote(selectedOrder) && isQuoteExpired(selectedOrder.quote_expires_at, now))}
+                              onClick={() => void startPayment('saved_card')}
+                              className="inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                            >
+                              Pay with {formatSavedCard(savedCard)}
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            disabled={payLoading || (hasLiveQuote(selectedOrder) && isQuoteExpired(selectedOrder.quote_expires_at, now))}
+                            onClick={() => void startPayment()}
+                            className="inline-flex justify-center rounded-xl bg-gray-900 px-4 py-2.5 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+                          >
+                            {payLoading ? 'Redirecting…' : 'Pay now'}
+                          </button>
+                        </div>
                       </div>
                     </div>
                   )}
 
+                  {(() => {
+                    const deposit = readOrderDeposit(selectedOrder.deposit);
+                    if (!deposit) return null;
+                    const payable = !isLocalDev && selectedOrder.status === 'Delivered' && getDepositBalanceDue(deposit) > 0;
+                    return (
+                      <div className="rounded-2xl border border-gray-200 bg-white p-4">
+                        <div className="text-sm font-semibold text-gray-900">Deposit</div>
+                        <div className="text-xs text-gray-600">
+                          {formatDepositSummary(deposit)} (order total ${deposit.total.toFixed(2)}, tax included)
+                        </div>
+                        {deposit.balance_status === 'failed' ? (
+                          <div className="mt-1 text-xs text-red-600">
+                            We could not charge the balance to your card{deposit.balance_error ? `: ${deposit.balance_error}` : ''}.
+                          </div>
+                        ) : null}
+                        {payable ? (
+                          <div className="mt-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                            <div>
+                              <div className="text-xs text-gray-600">Due now: ${deposit.balance.toFixed(2)}</div>
+                              {balanceError ? <div className="mt-1 text-xs text-red-600">{balanceError}</div> : null}
+                            </div>
+                            <button
+                              type="button"
+                              disabled={balanceLoading}
+                              onClick={() => void payBalance()}
+                              className="inline-flex justify-center rounded-xl bg-gray-900 px-4 py-2.5 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+                            >
+                              {balanceLoading ? 'Redirecting…' : 'Pay balance'}
+                            </button>
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })()}
+
+                  {(() => {
+                    const accessorials = readOrderAccessorials(selectedOrder.accessorials);
+                    if (!accessorials.length) return null;
+                    const unpaid = getUnpaidAccessorials(accessorials);
+                    const payable = selectedOrder.payment_status === 'paid' && unpaid.length > 0;
+                    return (
+                      <div className="rounded-2xl border border-gray-200 bg-white p-4">
+                        <div className="text-sm font-semibold text-gray-900">Extra charges</div>
+                        <div className="text-xs text-gray-600">
+                          {selectedOrder.payment_status === 'paid'
+                            ? 'Added by our team for services beyond the quoted transport. Tax is added at checkout.'
+                            : selectedOrder.payment_status === 'invoiced'
+                              ? 'Added by our team; they are billed with the order on your monthly statement, plus tax.'
+                              : 'Added by our team; they are included when you pay for the order, plus tax.'}
+                        </div>
+                        <div className="mt-2 divide-y divide-gray-100 text-sm">
+                          {accessorials.map((a) => (
+                            <div key={a.id} className="flex items-center justify-between gap-3 py-1.5">
+                              <div className="min-w-0">
+                                <div className="text-gray-800">{[a.label, formatAccessorialQuantity(a)].filter(Boolean).join(' ')}</div>
+                                {a.note ? <div className="text-xs text-gray-500 break-words">{a.note}</div> : null}
+                              </div>
+                              <div className="shrink-0 text-right">
+                                <div className="font-semibold text-gray-900">${a.amount.toFixed(2)}</div>
+                                <div className="text-xs text-gray-500">{a.paid_at ? 'Paid' : 'Due'}</div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        {payable ? (
+                          <div className="mt-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                            <div>
+                              <div className="text-xs text-gray-600">Due now: ${getAccessorialsTotal(unpaid).toFixed(2)} before tax</div>
+                              {extrasError ? <div className="mt-1 text-xs text-red-600">{extrasError}</div> : null}
+                            </div>
+                            <button
+                              type="button"
+                              disabled={extrasLoading}
+                              onClick={() => void payExtraCharges()}
+                              className="inline-flex justify-center rounded-xl bg-gray-900 px-4 py-2.5 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+                            >
+                              {extrasLoading ? 'Redirecting…' : 'Pay extra charges'}
+                            </button>
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })()}
+
+                  <OrderAmendmentsCard
+                    order={selectedOrder}
+                    amendments={readOrderAmendments(selectedOrder.amendments)}
+                    actor="customer"
+                    payMethods={isLocalDev ? ['checkout'] : ['checkout', 'saved_card']}
+                    onPreview={previewAmendment}
+                    onSubmit={submitAmendment}
+                    onPay={payAmendment}
+                  />
+
+                  <OrderCancellationCard
+                    order={selectedOrder}
+                    cancellation={readOrderCancellation(selectedOrder.cancellation)}
+                    actor="customer"
+                    onCancel={cancelSelectedOrder}
+                  />
+
                   <div className="rounded-2xl border border-gray-200 bg-white p-4">
                     <div className="text-sm font-semibold text-gray-900">Status timeline</div>
                     <div className="mt-3 space-y-2">
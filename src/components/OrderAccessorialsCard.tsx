@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  MAX_ORDER_ACCESSORIALS,
+  formatAccessorialQuantity,
+  formatAccessorialUnit,
+  getAccessorialsTotal,
+  getUnpaidAccessorials,
+  type OrderAccessorial,
+} from '../pricing/accessorials';
+import { ACCESSORIALS, getAccessorialOption, getAccessorialPrice, type AccessorialCode } from '../pricing/pricingTable';
+
+interface OrderAccessorialsCardProps {
+  accessorials: OrderAccessorial[];
+  // The loading fee already in the quoted price (form_data.vehicle_loading_fee).
+  quotedLoadingFee: number;
+  orderPaid: boolean;
+  // Both throw with the reason when the order could not be updated.
+  onAdd: (code: AccessorialCode, quantity: number, note: string) => Promise<void>;
+  onRemove: (id: string) => Promise<void>;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// Staff attach accessorials to an order at the published catalogue price. Before payment they are charged with the
+// order; after it the customer pays them from their order page. Paid charges cannot be removed.
+export default function OrderAccessorialsCard({ accessorials, quotedLoadingFee, orderPaid, onAdd, onRemove }: OrderAccessorialsCardProps) {
+  const [code, setCode] = useState<AccessorialCode>('waiting_time');
+  const [quantity, setQuantity] = useState('1');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const option = getAccessorialOption(code);
+  const qty = Number(quantity);
+  const qtyValid = Number.isFinite(qty) && qty > 0;
+  const unpaid = getUnpaidAccessorials(accessorials);
+  const atLimit = accessorials.length >= MAX_ORDER_ACCESSORIALS;
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update the extra charges.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const add = () =>
+    run(async () => {
+      await onAdd(code, qty, note);
+      setQuantity('1');
+      setNote('');
+    });
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">Accessorials</div>
+          <div className="text-xs text-gray-600">
+            {orderPaid
+              ? 'Charges added now are paid by the customer from their order page.'
+              : 'Charges added now are included when the customer pays for the order.'}
+          </div>
+        </div>
+        {unpaid.length ? (
+          <div className="shrink-0 text-right">
+            <div className="text-xs text-gray-500">Unpaid</div>
+            <div className="text-sm font-semibold text-gray-900">{formatCad(getAccessorialsTotal(unpaid))}</div>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mt-3 divide-y divide-gray-100 text-sm">
+        {quotedLoadingFee > 0 ? (
+          <div className="flex items-center justify-between gap-3 py-1.5">
+            <div className="text-gray-700">
+              Loading fee <span className="text-xs text-gray-500">· in the quoted price</span>
+            </div>
+            <div className="shrink-0 text-gray-900">{formatCad(quotedLoadingFee)}</div>
+          </div>
+        ) : null}
+        {accessorials.map((a) => (
+          <div key={a.id} className="flex items-center justify-between gap-3 py-1.5">
+            <div className="min-w-0">
+              <div className="text-gray-700">
+                {[a.label, formatAccessorialQuantity(a)].filter(Boolean).join(' ')}
+                <span className="text-xs text-gray-500">
+                  {' '}
+                  · {formatCad(a.unit_price)} {formatAccessorialUnit(a.unit)}
+                </span>
+              </div>
+              {a.note ? <div className="text-xs text-gray-500 break-words">{a.note}</div> : null}
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-semibold ${a.paid_at ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-800'}`}
+              >
+                {a.paid_at ? 'Paid' : 'Unpaid'}
+              </span>
+              <span className="text-gray-900">{formatCad(a.amount)}</span>
+              {!a.paid_at ? (
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => void run(() => onRemove(a.id))}
+                  className="rounded-lg p-1 text-gray-500 hover:bg-gray-100 hover:text-red-700 disabled:opacity-60"
+                  aria-label={`Remove ${a.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              ) : null}
+            </div>
+          </div>
+        ))}
+        {!quotedLoadingFee && !accessorials.length ? <div className="py-1.5 text-xs text-gray-500">No accessorials on this order.</div> : null}
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr_auto] gap-2">
+        <select
+          value={code}
+          onChange={(e) => setCode(e.target.value as AccessorialCode)}
+          className="rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+          aria-label="Accessorial"
+        >
+          {ACCESSORIALS.map((a) => (
+            <option key={a.code} value={a.code}>
+              {a.label} ({formatCad(getAccessorialPrice(a.code))} {formatAccessorialUnit(a.unit)})
+            </option>
+          ))}
+        </select>
+        <input
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          inputMode="decimal"
+          className="w-full sm:w-20 rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+          aria-label="Quantity"
+        />
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+          placeholder="Note (optional)"
+          aria-label="Note"
+        />
+        <button
+          type="button"
+          disabled={saving || atLimit || !qtyValid}
+          onClick={() => void add()}
+          className="inline-flex items-center justify-center gap-1 rounded-lg bg-gray-900 px-3 py-1.5 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </div>
+      {option ? <div className="mt-1 text-xs text-gray-500">{option.description}</div> : null}
+      {atLimit ? <div className="mt-1 text-xs text-gray-500">An order can have up to {MAX_ORDER_ACCESSORIALS} accessorials.</div> : null}
+      {error ? <div className="mt-1 text-xs text-red-700">{error}</div> : null}
+    </div>
+  );
+}
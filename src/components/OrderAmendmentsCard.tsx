@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import {
+  canAmendOrder,
+  canPayOrderAmendment,
+  formatAmendmentChanges,
+  formatAmendmentStatus,
+  formatAmendmentSummary,
+  readAmendmentFields,
+  type AmendableOrder,
+  type AmendmentActor,
+  type AmendmentChanges,
+  type OrderAmendment,
+} from '../orders/amendments';
+import { SERVICE_LEVELS, type ServiceLevel } from '../pricing/pricingTable';
+
+export type AmendmentPaymentMethod = 'checkout' | 'saved_card';
+
+interface OrderAmendmentsCardProps {
+  order: AmendableOrder;
+  amendments: OrderAmendment[];
+  actor: AmendmentActor;
+  // Shows the history only.
+  readOnly?: boolean;
+  // How a balance can be paid from here; none shows it as due only.
+  payMethods: AmendmentPaymentMethod[];
+  // All three throw with the reason when the change could not be priced, saved or paid.
+  onPreview: (changes: AmendmentChanges) => Promise<OrderAmendment>;
+  onSubmit: (changes: AmendmentChanges, reason: string) => Promise<void>;
+  onPay: (amendmentId: string, method: AmendmentPaymentMethod) => Promise<void>;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+const STATUS_BADGES: Record<OrderAmendment['status'], string> = {
+  balance_due: 'bg-amber-50 text-amber-800',
+  paid: 'bg-emerald-50 text-emerald-700',
+  refund_due: 'bg-amber-50 text-amber-800',
+  refunded: 'bg-violet-50 text-violet-700',
+  no_difference: 'bg-gray-100 text-gray-700',
+};
+
+const PAY_LABELS: Record<AmendmentPaymentMethod, string> = {
+  checkout: 'Pay by card',
+  saved_card: 'Use saved card',
+};
+
+// Changes to a paid order's pickup, drop-off or service level: the change is re-quoted before it is confirmed, and
+// the history lists every change with what was charged or refunded for it.
+export default function OrderAmendmentsCard({
+  order,
+  amendments,
+  actor,
+  readOnly = false,
+  payMethods,
+  onPreview,
+  onSubmit,
+  onPay,
+}: OrderAmendmentsCardProps) {
+  const current = readAmendmentFields(order.form_data);
+  const [editing, setEditing] = useState(false);
+  const [pickupAddress, setPickupAddress] = useState(current.pickup_address);
+  const [dropoffAddress, setDropoffAddress] = useState(current.dropoff_address);
+  const [serviceLevel, setServiceLevel] = useState<ServiceLevel>(current.service_level);
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<OrderAmendment | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canAmend = !readOnly && canAmendOrder({ ...order, amendments }, actor).ok;
+  const canPay = canPayOrderAmendment(order, actor).ok;
+  if (!canAmend && !amendments.length) return null;
+
+  const changes: AmendmentChanges = { pickup_address: pickupAddress, dropoff_address: dropoffAddress, service_level: serviceLevel };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setPickupAddress(current.pickup_address);
+    setDropoffAddress(current.dropoff_address);
+    setServiceLevel(current.service_level);
+    setReason('');
+    setPreview(null);
+    setError(null);
+    setEditing(true);
+  };
+
+  const getPrice = () => run(async () => setPreview(await onPreview(changes)), 'Failed to price the change.');
+
+  const confirm = () =>
+    run(async () => {
+      await onSubmit(changes, reason.trim());
+      setEditing(false);
+      setPreview(null);
+    }, 'Failed to change the order.');
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">Order changes</div>
+          <div className="text-xs text-gray-600">
+            A change is priced again with today&apos;s rates; the difference is charged or refunded with tax.
+          </div>
+        </div>
+        {canAmend && !editing ? (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="shrink-0 rounded-xl border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+          >
+            Change order
+          </button>
+        ) : null}
+      </div>
+
+      {editing ? (
+        <div className="mt-3 space-y-2">
+          <label className="block text-xs font-semibold text-gray-700">
+            Pickup address
+            <input
+              value={pickupAddress}
+              onChange={(e) => {
+                setPickupAddress(e.target.value);
+                setPreview(null);
+              }}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            />
+          </label>
+          <label className="block text-xs font-semibold text-gray-700">
+            Drop-off address
+            <input
+              value={dropoffAddress}
+              onChange={(e) => {
+                setDropoffAddress(e.target.value);
+                setPreview(null);
+              }}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            />
+          </label>
+          <label className="block text-xs font-semibold text-gray-700">
+            Service level
+            <select
+              value={serviceLevel}
+              onChange={(e) => {
+                setServiceLevel(e.target.value as ServiceLevel);
+                setPreview(null);
+              }}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            >
+              {SERVICE_LEVELS.map((option) => (
+                <option key={option.level} value={option.level}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full min-h-[60px] rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+            placeholder="Reason (optional)"
+          />
+
+          {preview ? (
+            <div className="rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm space-y-1">
+              {formatAmendmentChanges(preview).map((line) => (
+                <div key={line} className="text-xs text-gray-700 break-words">
+                  {line}
+                </div>
+              ))}
+              <div className="flex justify-between gap-3 pt-1">
+                <span className="text-gray-700">Quoted before</span>
+                <span className="text-gray-900">{formatCad(preview.previous_quote)}</span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-gray-700">Quoted now</span>
+                <span className="text-gray-900">{formatCad(preview.new_quote)}</span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-gray-700">Tax</span>
+                <span className="text-gray-900">{formatCad(preview.tax)}</span>
+              </div>
+              <div className="flex justify-between gap-3 font-semibold">
+                <span className="text-gray-900">{preview.total < 0 ? 'To refund' : 'To pay'}</span>
+                <span className="text-gray-900">{formatCad(Math.abs(preview.total))}</span>
+              </div>
+            </div>
+          ) : null}
+
+          <div className="flex flex-wrap gap-2">
+            {preview ? (
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void confirm()}
+                className="rounded-xl bg-gray-900 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+              >
+                {saving ? 'Saving…' : 'Confirm change'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void getPrice()}
+                className="rounded-xl bg-gray-900 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+              >
+                {saving ? 'Pricing…' : 'Get price'}
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => setEditing(false)}
+              className="rounded-xl border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {amendments.length ? (
+        <div className="mt-3 divide-y divide-gray-100">
+          {[...amendments].reverse().map((a) => (
+            <div key={a.id} className="py-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs text-gray-500">
+                  {a.at ? new Date(a.at).toLocaleString() : ''} · by {a.by === 'staff' ? 'EasyDrive' : 'the customer'}
+                </div>
+                <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_BADGES[a.status]}`}>{formatAmendmentStatus(a.status)}</span>
+              </div>
+              {formatAmendmentChanges(a).map((line) => (
+                <div key={line} className="text-sm text-gray-800 break-words">
+                  {line}
+                </div>
+              ))}
+              {a.reason ? <div className="text-xs text-gray-600 break-words">{a.reason}</div> : null}
+              <div className="text-xs font-semibold text-gray-700">{formatAmendmentSummary(a)}</div>
+              {a.status === 'balance_due' && canPay && payMethods.length ? (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {payMethods.map((method) => (
+                    <button
+                      key={method}
+                      type="button"
+                      disabled={saving}
+                      onClick={() => void run(() => onPay(a.id, method), 'Failed to pay the balance.')}
+                      className="rounded-lg bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-60"
+                    >
+                      {PAY_LABELS[method]} · {formatCad(a.total)}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-2 text-xs text-red-700">{error}</div> : null}
+    </div>
+  );
+}
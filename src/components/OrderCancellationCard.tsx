@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { canCancelOrder, type CancellationActor, type OrderCancellation } from '../orders/cancellation';
+import { isPaidPaymentStatus, normalizeOrderStage, type OrderState } from '../orders/orderStateMachine';
+import { formatCancellationFee, getCancellationFee } from '../pricing/pricingTable';
+
+interface OrderCancellationCardProps {
+  order: OrderState;
+  cancellation: OrderCancellation | null;
+  actor: CancellationActor;
+  // Throws with the reason when the order could not be cancelled.
+  onCancel: (reason: string) => Promise<void>;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// Cancelled orders show what was kept and refunded; open ones a cancel button with the fee that applies. The exact
+// refund is worked out from the payment when the order is cancelled.
+export default function OrderCancellationCard({ order, cancellation, actor, onCancel }: OrderCancellationCardProps) {
+  const [reason, setReason] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (cancellation) {
+    return (
+      <div className="rounded-2xl border border-red-200 bg-red-50 p-4">
+        <div className="text-sm font-semibold text-red-900">Order cancelled</div>
+        <div className="text-xs text-red-800">
+          {cancellation.at ? new Date(cancellation.at).toLocaleString() : ''} · by {cancellation.by === 'staff' ? 'EasyDrive' : 'the customer'}
+        </div>
+        {cancellation.reason ? <div className="mt-2 text-sm text-gray-800 break-words">{cancellation.reason}</div> : null}
+        {cancellation.amount_paid > 0 ? (
+          <div className="mt-3 space-y-1 text-sm">
+            <div className="flex justify-between gap-3">
+              <span className="text-gray-700">Amount paid</span>
+              <span className="text-gray-900">{formatCad(cancellation.amount_paid)}</span>
+            </div>
+            <div className="flex justify-between gap-3">
+              <span className="text-gray-700">Cancellation fee</span>
+              <span className="text-gray-900">{formatCad(cancellation.fee)}</span>
+            </div>
+            <div className="flex justify-between gap-3 font-semibold">
+              <span className="text-gray-900">Refunded</span>
+              <span className="text-gray-900">{formatCad(cancellation.refund)}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-2 text-xs text-gray-700">Nothing was charged for this order.</div>
+        )}
+      </div>
+    );
+  }
+
+  if (!canCancelOrder(order, actor).ok) return null;
+
+  const paid = isPaidPaymentStatus(order.payment_status);
+  const fee = getCancellationFee(normalizeOrderStage(order.order_stage) === 'order_dispatched' ? 'order_dispatched' : 'pending_payment');
+
+  const cancel = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onCancel(reason.trim());
+      setConfirming(false);
+      setReason('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to cancel the order.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="text-sm font-semibold text-gray-900">Cancel order</div>
+      <div className="text-xs text-gray-600">
+        {paid
+          ? `The payment is refunded less the cancellation fee: ${formatCancellationFee(fee).toLowerCase()}.`
+          : 'Nothing has been charged, so there is no fee.'}
+      </div>
+      {confirming ? (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full min-h-[70px] rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+            placeholder="Reason (optional)"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void cancel()}
+              className="rounded-xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 transition-colors disabled:opacity-60"
+            >
+              {saving ? 'Cancelling…' : 'Confirm cancellation'}
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => setConfirming(false)}
+              className="rounded-xl border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60"
+            >
+              Keep order
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setConfirming(true)}
+          className="mt-3 rounded-xl border border-red-200 bg-white px-4 py-2 text-sm font-semibold text-red-700 hover:bg-red-50 transition-colors"
+        >
+          Cancel order
+        </button>
+      )}
+      {error ? <div className="mt-2 text-xs text-red-700">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { getActivePricingRules, type ServiceType } from '../pricing/pricingTable';
+import {
+  MAX_ORDER_LEGS,
+  formatOrderLegLabel,
+  makeEmptyOrderLeg,
+  type OrderLeg,
+  type OrderLegLocation,
+} from '../pricing/legs';
+
+interface OrderLegsEditorProps {
+  serviceType: ServiceType;
+  legs: OrderLeg[];
+  onChange: (legs: OrderLeg[]) => void;
+}
+
+type LegEnd = 'pickup_location' | 'dropoff_location';
+
+const LOCATION_FIELDS: Array<{ key: keyof OrderLegLocation; label: string; placeholder?: string }> = [
+  { key: 'name', label: 'Name', placeholder: 'Body shop, auction, dealer…' },
+  { key: 'address', label: 'Address', placeholder: '8670 10e Avenue, Montreal, QC' },
+  { key: 'city', label: 'City' },
+  { key: 'postal_code', label: 'Postal code' },
+];
+
+// Edits every leg's dates, and the addresses of the legs after the first one; the first leg keeps using the
+// pickup and drop-off fields of the form. A round trip's return leg is the first leg reversed.
+export default function OrderLegsEditor({ serviceType, legs, onChange }: OrderLegsEditorProps) {
+  const isMultiLeg = serviceType === 'multi_leg';
+  const roundTripDiscount = getActivePricingRules().round_trip_discount_percent;
+
+  const update = (id: string, patch: Partial<OrderLeg>) => {
+    onChange(legs.map((leg) => (leg.id === id ? { ...leg, ...patch } : leg)));
+  };
+
+  const updateLocation = (leg: OrderLeg, end: LegEnd, key: keyof OrderLegLocation, value: string) => {
+    // A typed address no longer matches the coordinates picked for the old one.
+    const resetsCoords = key === 'address' || key === 'city' || key === 'postal_code';
+    const location: OrderLegLocation = { ...leg[end], [key]: value, ...(resetsCoords ? { lat: '', lng: '' } : {}) };
+    update(leg.id, end === 'pickup_location' ? { pickup_location: location } : { dropoff_location: location });
+  };
+
+  const remove = (id: string) => {
+    onChange(legs.filter((leg) => leg.id !== id));
+  };
+
+  const add = () => {
+    if (!isMultiLeg || legs.length >= MAX_ORDER_LEGS) return;
+    onChange([...legs, makeEmptyOrderLeg(legs[legs.length - 1]?.dropoff_location)]);
+  };
+
+  const renderLocation = (leg: OrderLeg, end: LegEnd, title: string) => (
+    <div className="rounded-lg border border-gray-200 bg-white p-3">
+      <div className="text-xs font-semibold text-gray-700">{title}</div>
+      <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+        {LOCATION_FIELDS.map((field) => (
+          <label key={field.key} className="text-xs text-gray-600">
+            {field.label}
+            <input
+              value={leg[end][field.key]}
+              onChange={(e) => updateLocation(leg, end, field.key, e.target.value)}
+              placeholder={field.placeholder}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">{isMultiLeg ? 'Legs' : 'Round trip'}</div>
+          <div className="mt-1 text-xs text-gray-600">
+            {isMultiLeg
+              ? 'Each leg is picked up, delivered and priced on its own. A new leg starts where the previous one ends.'
+              : `We bring the vehicle back from the drop-off to the pickup address.${roundTripDiscount > 0 ? ` Round trips save ${roundTripDiscount}% on transport.` : ''}`}
+          </div>
+        </div>
+        {isMultiLeg ? (
+          <button
+            type="button"
+            onClick={add}
+            disabled={legs.length >= MAX_ORDER_LEGS}
+            className="shrink-0 inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            Add leg
+          </button>
+        ) : null}
+      </div>
+
+      {legs.map((leg, i) => (
+        <div key={leg.id} className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs font-semibold text-gray-700">{formatOrderLegLabel(leg, i)}</div>
+            {isMultiLeg && i > 0 ? (
+              <button
+                type="button"
+                onClick={() => remove(leg.id)}
+                className="inline-flex items-center gap-1 text-xs font-semibold text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Remove
+              </button>
+            ) : null}
+          </div>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600">
+              Pickup date
+              <input
+                type="date"
+                value={leg.pickup_date}
+                onChange={(e) => update(leg.id, { pickup_date: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Delivery date
+              <input
+                type="date"
+                value={leg.delivery_date}
+                min={leg.pickup_date || undefined}
+                onChange={(e) => update(leg.id, { delivery_date: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+          {isMultiLeg && i > 0 ? (
+            <div className="mt-3 grid grid-cols-1 gap-3">
+              {renderLocation(leg, 'pickup_location', 'Pickup')}
+              {renderLocation(leg, 'dropoff_location', 'Drop-off')}
+            </div>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import type { ReceiptRecord } from '../orders/receipts';
+import { getReceiptPdf, listOrderReceiptsAsStaff } from '../orders/supabaseOrders';
+
+interface OrderReceiptsCardProps {
+  orderCode: string;
+  // Changes when the order does (payment, refund, order change), so new receipts show up.
+  refreshKey?: string;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// The receipts and credit notes issued for an order, each downloadable as the PDF the customer gets.
+export default function OrderReceiptsCard({ orderCode, refreshKey }: OrderReceiptsCardProps) {
+  const [receipts, setReceipts] = useState<ReceiptRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+    listOrderReceiptsAsStaff(orderCode)
+      .then((rows) => {
+        if (active) setReceipts(rows);
+      })
+      .catch((e) => {
+        if (active) setError(e instanceof Error ? e.message : 'Failed to load the receipts');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [orderCode, refreshKey]);
+
+  const download = async (id: string) => {
+    setDownloadingId(id);
+    setError(null);
+    try {
+      const { blob, filename } = await getReceiptPdf(id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to download the receipt');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="text-sm font-semibold text-gray-900">Receipts</div>
+      {loading ? (
+        <div className="mt-1 text-xs text-gray-600">Loading…</div>
+      ) : receipts.length === 0 ? (
+        <div className="mt-1 text-xs text-gray-600">No receipts issued for this order yet.</div>
+      ) : (
+        <div className="mt-2 divide-y divide-gray-100">
+          {receipts.map((r) => (
+            <div key={r.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">
+                  {r.invoice_number ?? 'Receipt (unnumbered)'}
+                  {r.document ? <span className="font-normal text-gray-600"> · {r.document.title}</span> : null}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {r.created_at ? new Date(r.created_at).toLocaleString() : ''}
+                  {r.document ? ` · ${r.kind === 'credit_note' ? 'credited ' : ''}${formatCad(r.document.total)}` : ''}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => void download(r.id)}
+                disabled={downloadingId === r.id}
+                className="inline-flex shrink-0 items-center gap-1.5 rounded-xl border border-gray-300 bg-white px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60 transition-colors"
+              >
+                <Download className="h-3.5 w-3.5" />
+                {downloadingId === r.id ? 'Preparing…' : 'PDF'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {error ? <div className="mt-2 text-xs font-medium text-red-600">{error}</div> : null}
+    </div>
+  );
+}
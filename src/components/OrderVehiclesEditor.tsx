@@ -0,0 +1,129 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { VEHICLE_CLASSES, getActivePricingRules, normalizeVehicleType } from '../pricing/pricingTable';
+import { MAX_ORDER_VEHICLES, makeEmptyOrderVehicle, normalizeVehicleCondition, type OrderVehicle } from '../pricing/vehicles';
+
+interface OrderVehiclesEditorProps {
+  vehicles: OrderVehicle[];
+  onChange: (vehicles: OrderVehicle[]) => void;
+}
+
+const sanitizeVin = (v: string) => String(v ?? '').toUpperCase().replace(/[^A-HJ-NPR-Z0-9]/g, '').slice(0, 17);
+const sanitizeYear = (v: string) => String(v ?? '').replace(/[^0-9]/g, '').slice(0, 4);
+
+// Edits the vehicles after the first one; the first vehicle keeps using the single-vehicle fields of the form.
+export default function OrderVehiclesEditor({ vehicles, onChange }: OrderVehiclesEditorProps) {
+  const [primary, ...additional] = vehicles;
+  const discount = getActivePricingRules().multi_vehicle_discount;
+
+  const update = (id: string, patch: Partial<OrderVehicle>) => {
+    onChange(vehicles.map((v) => (v.id === id ? { ...v, ...patch } : v)));
+  };
+
+  const remove = (id: string) => {
+    onChange(vehicles.filter((v) => v.id !== id));
+  };
+
+  const add = () => {
+    if (!primary || vehicles.length >= MAX_ORDER_VEHICLES) return;
+    onChange([...vehicles, makeEmptyOrderVehicle(primary.vehicle_type)]);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">Additional vehicles</div>
+          <div className="mt-1 text-xs text-gray-600">
+            Ship more vehicles on the same route. Each vehicle is priced by its class and condition.
+            {discount.percent > 0 ? ` Orders of ${discount.min_vehicles}+ vehicles save ${discount.percent}% on transport.` : ''}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={add}
+          disabled={vehicles.length >= MAX_ORDER_VEHICLES}
+          className="shrink-0 inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          Add vehicle
+        </button>
+      </div>
+
+      {additional.map((vehicle, i) => (
+        <div key={vehicle.id} className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs font-semibold text-gray-700">Vehicle {i + 2}</div>
+            <button
+              type="button"
+              onClick={() => remove(vehicle.id)}
+              className="inline-flex items-center gap-1 text-xs font-semibold text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              Remove
+            </button>
+          </div>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-gray-600">
+              VIN
+              <input
+                value={vehicle.vin}
+                onChange={(e) => update(vehicle.id, { vin: sanitizeVin(e.target.value) })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Year
+              <input
+                value={vehicle.year}
+                onChange={(e) => update(vehicle.id, { year: sanitizeYear(e.target.value) })}
+                inputMode="numeric"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Make
+              <input
+                value={vehicle.make}
+                onChange={(e) => update(vehicle.id, { make: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Model
+              <input
+                value={vehicle.model}
+                onChange={(e) => update(vehicle.id, { model: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Vehicle class
+              <select
+                value={vehicle.vehicle_type}
+                onChange={(e) => update(vehicle.id, { vehicle_type: normalizeVehicleType(e.target.value) })}
+                className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+              >
+                {VEHICLE_CLASSES.map((vehicleClass) => (
+                  <option key={vehicleClass.type} value={vehicleClass.type}>
+                    {vehicleClass.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Condition
+              <select
+                value={vehicle.vehicle_condition}
+                onChange={(e) => update(vehicle.id, { vehicle_condition: normalizeVehicleCondition(e.target.value) })}
+                className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+              >
+                <option value="runs_and_drives">Runs and drives</option>
+                <option value="does_not_run_or_drive">Does not run or drive (+ loading fee)</option>
+              </select>
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
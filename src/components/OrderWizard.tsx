@@ -2,14 +2,29 @@ import { useEffect, useMemo, useState } from 'react';
 import { ArrowLeft, ArrowRight, CheckCircle, FileText, MapPin, Package, ShieldCheck, User } from 'lucide-react';
 import {
   PRICING_TABLE,
+  SERVICE_TYPES,
+  formatFulfillmentDays,
+  getActivePricingRules,
   getFulfillmentDaysForRoute,
   getOfficialCityPriceForAddress,
   getPricingRow,
+  getServiceLevelLabel,
+  getServiceTypeLabel,
+  isMultiLegServiceType,
+  isServiceType,
+  normalizeServiceLevel,
+  normalizeServiceType,
+  resolveRoutePriceForAddresses,
+  type ServiceLevel,
   type ServiceType,
   type VehicleType,
 } from '../pricing/pricingTable';
 import { computeTotals, makeLocalOrderId, upsertLocalOrder, updateLocalOrderPaymentStatus } from '../orders/localOrders';
-import { createOrderWithInitialEvent, getAccessToken } from '../orders/supabaseOrders';
+import { createOrderWithInitialEvent, getAccessToken, requestSignedQuote } from '../orders/supabaseOrders';
+import { priceQuoteLegs, quoteRequestFromFormData } from '../pricing/quotes';
+import { formatOrderLegLabel, readOrderLegs, withOrderLegs, type OrderLeg } from '../pricing/legs';
+import OrderLegsEditor from './OrderLegsEditor';
+import ServiceLevelOptions from './ServiceLevelOptions';
 import { supabase } from '../lib/supabaseClient';
 
 type WizardStep = 'quote' | 'info' | 'addresses' | 'docs' | 'disclosures' | 'payment' | 'confirmation';
@@ -34,11 +49,13 @@ const DRAFT_STORAGE_KEY = 'ed_order_wizard_draft_v1';
 type OrderWizardDraft = {
   step: WizardStep;
   serviceType: ServiceType;
+  serviceLevel?: ServiceLevel;
   routeArea: string;
   customer: { name: string; email: string; phone: string };
   dealer: { name: string; email: string; phone: string };
   pickupAddress: string;
   dropoffAddress: string;
+  legs?: OrderLeg[];
   docs: Array<{ id: string; name: string; mime: string; size: number; kind: 'required' | 'optional' | 'unknown' }>;
   disclosuresAccepted: { timelines: boolean; payments: boolean; inTransit: boolean };
   paymentMethod: 'stripe_checkout';
@@ -81,6 +98,7 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
 
   const [step, setStep] = useState<WizardStep>(() => loadDraft()?.step ?? 'quote');
   const [serviceType, setServiceType] = useState<ServiceType>(() => loadDraft()?.serviceType ?? 'pickup_one_way');
+  const [serviceLevel, setServiceLevel] = useState<ServiceLevel>(() => normalizeServiceLevel(loadDraft()?.serviceLevel));
   const [vehicleType] = useState<VehicleType>('standard');
   const [routeArea, setRouteArea] = useState<string>(() => loadDraft()?.routeArea ?? '');
 
@@ -89,6 +107,7 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
 
   const [pickupAddress, setPickupAddress] = useState(() => loadDraft()?.pickupAddress ?? '');
   const [dropoffAddress, setDropoffAddress] = useState(() => loadDraft()?.dropoffAddress ?? '');
+  const [legs, setLegs] = useState<OrderLeg[]>(() => loadDraft()?.legs ?? []);
 
   const [docs, setDocs] = useState<
     Array<{ id: string; name: string; mime: string; size: number; kind: 'required' | 'optional' | 'unknown' }>
@@ -112,11 +131,13 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
       const draft: OrderWizardDraft = {
         step,
         serviceType,
+        serviceLevel,
         routeArea,
         customer,
         dealer,
         pickupAddress,
         dropoffAddress,
+        legs,
         docs,
         disclosuresAccepted,
         paymentMethod,
@@ -129,11 +150,13 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
   }, [
     step,
     serviceType,
+    serviceLevel,
     routeArea,
     customer,
     dealer,
     pickupAddress,
     dropoffAddress,
+    legs,
     docs,
     disclosuresAccepted,
     paymentMethod,
@@ -215,7 +238,7 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
 
       if (pickupAddr) setPickupAddress(pickupAddr);
       if (dropoffAddr) setDropoffAddress(dropoffAddr);
-      if (svcRaw === 'delivery_one_way' || svcRaw === 'pickup_one_way') setServiceType(svcRaw as ServiceType);
+      if (isServiceType(svcRaw)) setServiceType(svcRaw);
 
       const official = getOfficialCityPriceForAddress(dropoffAddr || pickupAddr);
       if (official?.city) setRouteArea(official.city);
@@ -240,15 +263,47 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
 
   const routeOptions = useMemo(() => PRICING_TABLE.map((r) => r.route), []);
 
-  const quoteSubtotal = useMemo(() => {
+  // The first leg's addresses are the pickup and drop-off fields; a round trip's return leg is derived from them.
+  const orderLegs = useMemo(
+    () =>
+      readOrderLegs({
+        service: { service_type: serviceType },
+        pickup_location: { address: pickupAddress.trim() },
+        dropoff_location: { address: dropoffAddress.trim() },
+        legs,
+      }),
+    [serviceType, pickupAddress, dropoffAddress, legs]
+  );
+
+  // Legs after the first one use their own city price when their addresses resolve to one, else the selected city's.
+  const legBases = useMemo(() => {
     const row = getPricingRow(routeArea, vehicleType);
     const retail = Number(row?.retail_price ?? 0);
-    return Number.isFinite(retail) ? retail : 0;
-  }, [routeArea, vehicleType]);
+    const cityPrice = Number.isFinite(retail) ? retail : 0;
+    return orderLegs.map((leg, i) => {
+      const resolved = i > 0 ? resolveRoutePriceForAddresses(leg.pickup_location, leg.dropoff_location) : null;
+      return {
+        id: leg.id,
+        pickup_address: leg.pickup_location.address,
+        dropoff_address: leg.dropoff_location.address,
+        route_area: resolved?.route ?? routeArea,
+        pricing_status: 'official' as const,
+        distance_km: null,
+        base_price: resolved?.total_price ?? cityPrice,
+      };
+    });
+  }, [orderLegs, routeArea, vehicleType]);
+
+  const priceLegs = (level: ServiceLevel) =>
+    priceQuoteLegs(legBases, [{ vehicle_type: vehicleType, vehicle_condition: 'runs_and_drives' }], serviceType, getActivePricingRules(), level);
+
+  const legPricing = priceLegs(serviceLevel);
+
+  const quoteSubtotal = legPricing.price_before_tax;
 
   const totals = useMemo(() => computeTotals(quoteSubtotal, routeArea), [quoteSubtotal, routeArea]);
 
-  const fulfillment = useMemo(() => getFulfillmentDaysForRoute(routeArea), [routeArea]);
+  const fulfillment = useMemo(() => getFulfillmentDaysForRoute(routeArea, serviceLevel), [routeArea, serviceLevel]);
 
   const stepIndex = STEPS.findIndex((s) => s.id === step);
 
@@ -278,6 +333,11 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
         setError('Please enter both pickup and drop-off addresses.');
         return;
       }
+      const incomplete = orderLegs.findIndex((leg) => !leg.pickup_location.address || !leg.dropoff_location.address);
+      if (incomplete > 0) {
+        setError(`Please enter the pickup and drop-off address of leg ${incomplete + 1}.`);
+        return;
+      }
       setStep('docs');
       return;
     }
@@ -316,6 +376,7 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
           created_at: now,
           updated_at: now,
           service_type: serviceType,
+          service_level: serviceLevel,
           vehicle_type: vehicleType,
           route_area: routeArea,
           fulfillment_days_min: fulfillment.days_min,
@@ -323,6 +384,14 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
           totals,
           customer,
           dealer,
+          form_data: withOrderLegs(
+            {
+              service: { service_type: serviceType, service_level: serviceLevel, vehicle_type: vehicleType },
+              pickup_location: { address: pickupAddress.trim() },
+              dropoff_location: { address: dropoffAddress.trim() },
+            },
+            orderLegs
+          ),
           documents: docs.map((d) => ({
             id: d.id,
             name: d.name,
@@ -346,16 +415,25 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
         return;
       }
 
-      createOrderWithInitialEvent({
-        order_code: orderCode,
-        customer_name: customer.name.trim(),
-        customer_email: customer.email.trim(),
-        route_area: routeArea,
-        service_type: serviceType,
-        vehicle_type: vehicleType,
-        price_before_tax: totals.subtotal,
-        currency: 'CAD',
-      })
+      const formData = withOrderLegs(
+        {
+          service: { service_type: serviceType, service_level: serviceLevel, vehicle_type: vehicleType },
+          pickup_location: { address: pickupAddress.trim() },
+          dropoff_location: { address: dropoffAddress.trim() },
+        },
+        orderLegs
+      );
+      requestSignedQuote(quoteRequestFromFormData(formData))
+        .then((signed) =>
+          createOrderWithInitialEvent({
+            order_code: orderCode,
+            quote_token: signed.token,
+            customer_name: customer.name.trim(),
+            customer_email: customer.email.trim(),
+            price_before_tax: totals.subtotal,
+            form_data: formData,
+          })
+        )
         .then(() => {
           clearDraft();
           setCreatedOrderId(orderCode);
@@ -479,12 +557,18 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                     <div className="text-xs font-medium text-gray-600 mb-2">Service type</div>
                     <select
                       value={serviceType}
-                      onChange={(e) => setServiceType(e.target.value as ServiceType)}
+                      onChange={(e) => setServiceType(normalizeServiceType(e.target.value))}
                       className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
                     >
-                      <option value="pickup_one_way">Pickup (one-way)</option>
-                      <option value="delivery_one_way">Delivery (one-way)</option>
+                      {SERVICE_TYPES.map((option) => (
+                        <option key={option.type} value={option.type}>
+                          {option.label}
+                        </option>
+                      ))}
                     </select>
+                    {isMultiLegServiceType(serviceType) ? (
+                      <div className="mt-1 text-xs text-gray-500">{SERVICE_TYPES.find((option) => option.type === serviceType)?.description}</div>
+                    ) : null}
                   </div>
 
                   <div>
@@ -504,6 +588,13 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                   </div>
                 </div>
 
+                <ServiceLevelOptions
+                  route={routeArea}
+                  value={serviceLevel}
+                  onChange={setServiceLevel}
+                  priceFor={(level) => (routeArea ? priceLegs(level).price_before_tax : null)}
+                />
+
                 <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
                   <div className="text-sm font-semibold text-gray-900">Price (before tax)</div>
                   <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
@@ -511,11 +602,20 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                       <div className="text-xs text-gray-500">Price (before tax)</div>
                       <div className="mt-1 font-bold text-gray-900">${totals.subtotal}</div>
                       <div className="text-xs text-gray-500">Note: + applicable tax.</div>
+                      {legPricing.round_trip_discount ? (
+                        <div className="mt-1 text-xs font-medium text-emerald-700">
+                          Includes a {legPricing.round_trip_discount_percent}% round-trip discount
+                        </div>
+                      ) : null}
+                      {legPricing.service_level_fee ? (
+                        <div className="mt-1 text-xs text-gray-600">
+                          Includes ${legPricing.service_level_fee.toFixed(2)} for {getServiceLevelLabel(serviceLevel)}
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                   <div className="mt-3 text-xs text-gray-600">
-                    Estimated delivery time: {routeArea.toLowerCase().includes('montreal') ? 'as fast as 1–2 business days' : 'usually 3–8 business days'}
-                    .
+                    Estimated delivery time ({getServiceLevelLabel(serviceLevel)}): {formatFulfillmentDays(fulfillment)}.
                   </div>
                   <div className="mt-1 text-xs text-gray-500">Vehicle type: {vehicleType}</div>
                 </div>
@@ -621,6 +721,10 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                     />
                   </div>
                 </div>
+
+                {isMultiLegServiceType(serviceType) ? (
+                  <OrderLegsEditor serviceType={serviceType} legs={orderLegs} onChange={setLegs} />
+                ) : null}
               </div>
             )}
 
@@ -783,6 +887,13 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                     <div className="rounded-xl bg-white border border-gray-200 p-3">
                       <div className="text-xs text-gray-500">Subtotal (before tax)</div>
                       <div className="mt-1 font-semibold text-gray-900">${totals.subtotal}</div>
+                      {orderLegs.length > 1
+                        ? legPricing.legs.map((line, i) => (
+                            <div key={line.id} className="text-xs text-gray-500">
+                              {orderLegs[i] ? formatOrderLegLabel(orderLegs[i], i) : `Leg ${i + 1}`}: ${line.price_before_tax.toFixed(2)}
+                            </div>
+                          ))
+                        : null}
                     </div>
                     <div className="rounded-xl bg-white border border-gray-200 p-3">
                       <div className="text-xs text-gray-500">Tax {totals.tax_note ? `(${totals.tax_note})` : ''}</div>
@@ -835,7 +946,8 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                     </div>
                     <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
                       <div className="text-xs text-gray-500">Service type</div>
-                      <div className="mt-1 font-semibold text-gray-900">{serviceType === 'delivery_one_way' ? 'Delivery (one-way)' : 'Pickup (one-way)'}</div>
+                      <div className="mt-1 font-semibold text-gray-900">{getServiceTypeLabel(serviceType)}</div>
+                      {orderLegs.length > 1 ? <div className="mt-1 text-xs text-gray-600">{orderLegs.length} legs</div> : null}
                     </div>
                     <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
                       <div className="text-xs text-gray-500">Subtotal (before tax)</div>
@@ -849,9 +961,8 @@ export default function OrderWizard({ onBack, onGoToOrders }: OrderWizardProps)
                     </div>
                     <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
                       <div className="text-xs text-gray-500">Fulfillment</div>
-                      <div className="mt-1 font-semibold text-gray-900">
-                        {fulfillment.days_min}–{fulfillment.days_max} business days
-                      </div>
+                      <div className="mt-1 font-semibold text-gray-900">{formatFulfillmentDays(fulfillment)}</div>
+                      <div className="mt-1 text-xs text-gray-600">{getServiceLevelLabel(serviceLevel)}</div>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { reconcilePaymentsAsStaff } from '../orders/supabaseOrders';
+import {
+  RECONCILIATION_ISSUE_LABELS,
+  formatReconciliationCsv,
+  isReconciled,
+  type ReconciliationIssue,
+  type ReconciliationReport,
+} from '../orders/reconciliation';
+
+type IssueFilter = ReconciliationIssue | 'all' | 'mismatches';
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// The previous calendar month, which finance closes at the start of each month.
+const getPreviousMonthRange = (now: Date = new Date()) => {
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0));
+  return { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+};
+
+const KIND_LABELS = { charge: 'Charge', refund: 'Refund', order: 'Order' } as const;
+
+// Checks Stripe against the orders for a date range: each charge and refund with the order it belongs to, paid orders
+// with no payment and pending orders stuck on a dead Checkout session. Export as CSV for the books.
+export default function PaymentReconciliation() {
+  const [range, setRange] = useState(getPreviousMonthRange);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [filter, setFilter] = useState<IssueFilter>('mismatches');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setError(null);
+    if (!range.from || !range.to || range.from > range.to) {
+      setError('Pick a start and an end date.');
+      return;
+    }
+    setLoading(true);
+    try {
+      setReport(await reconcilePaymentsAsStaff(range.from, range.to));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to reconcile the payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!report) return;
+    const blob = new Blob([formatReconciliationCsv(report.rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `easydrive-reconciliation-${report.from}-${report.to}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const rows = report?.rows ?? [];
+  const shown =
+    filter === 'all'
+      ? rows
+      : filter === 'mismatches'
+        ? rows.filter((r) => !isReconciled(r))
+        : rows.filter((r) => r.findings.some((f) => f.issue === filter));
+  const charged = rows.filter((r) => r.kind === 'charge').reduce((sum, r) => sum + (r.stripe_amount ?? 0), 0);
+  const refunded = rows.filter((r) => r.kind === 'refund').reduce((sum, r) => sum + (r.stripe_amount ?? 0), 0);
+  const paidOut = (report?.payouts ?? []).reduce((sum, p) => sum + p.amount, 0);
+  const mismatches = rows.filter((r) => !isReconciled(r)).length;
+
+  return (
+    <div className="space-y-4">
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div> : null}
+
+      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+        <div className="text-sm font-semibold text-gray-900">Payment reconciliation</div>
+        <div className="mt-1 text-xs text-gray-600">
+          Matches Stripe's charges, refunds and payouts to orders, and flags amounts, tax and statuses that disagree. Dates are in UTC;
+          pending orders are checked whatever their date.
+        </div>
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-end gap-3">
+          <label className="text-xs font-semibold text-gray-700">
+            From
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            />
+          </label>
+          <label className="text-xs font-semibold text-gray-700">
+            To
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => void run()}
+            disabled={loading}
+            className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Checking...' : 'Reconcile'}
+          </button>
+        </div>
+      </div>
+
+      {report ? (
+        <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold text-gray-900">
+                {report.from} – {report.to}
+              </div>
+              <div className="mt-1 text-xs text-gray-600">
+                {formatCad(charged)} charged · {formatCad(refunded)} refunded · {formatCad(paidOut)} paid out ·{' '}
+                <span className={mismatches ? 'font-semibold text-red-700' : 'font-semibold text-emerald-700'}>
+                  {mismatches} to check
+                </span>
+              </div>
+              {report.truncated ? (
+                <div className="mt-1 text-xs font-medium text-amber-700">Stripe has more than the report reads for this range: pick a shorter one.</div>
+              ) : null}
+            </div>
+            <div className="flex gap-2">
+              <select value={filter} onChange={(e) => setFilter(e.target.value as IssueFilter)} className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm">
+                <option value="mismatches">To check</option>
+                <option value="all">All</option>
+                {(Object.keys(RECONCILIATION_ISSUE_LABELS) as ReconciliationIssue[]).map((issue) => (
+                  <option key={issue} value={issue}>
+                    {RECONCILIATION_ISSUE_LABELS[issue]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={exportCsv}
+                className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors"
+              >
+                <Download className="h-4 w-4" />
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-auto max-h-[45vh]">
+            <div className="min-w-[900px] grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-2 pb-2 border-b border-gray-200">
+              <div className="col-span-2">Date</div>
+              <div className="col-span-2">Stripe</div>
+              <div className="col-span-2">Order</div>
+              <div className="col-span-2">Stripe / order</div>
+              <div className="col-span-1">Status</div>
+              <div className="col-span-3">Issues</div>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {shown.map((row) => (
+                <div key={`${row.kind}-${row.stripe_id ?? row.order_id}`} className="min-w-[900px] grid grid-cols-12 gap-2 px-2 py-2 text-sm text-gray-800 items-start">
+                  <div className="col-span-2 text-xs text-gray-700">
+                    <div>{row.created_at ? new Date(row.created_at).toLocaleDateString() : '-'}</div>
+                    {row.payout_date ? <div className="text-gray-500">Paid out {row.payout_date}</div> : null}
+                  </div>
+                  <div className="col-span-2 min-w-0">
+                    <div className="text-xs font-semibold text-gray-900">
+                      {KIND_LABELS[row.kind]}
+                      {row.purpose && row.purpose !== 'order' ? ` · ${row.purpose}` : ''}
+                    </div>
+                    <div className="truncate text-xs text-gray-500" title={row.stripe_id ?? ''}>
+                      {row.stripe_id ?? '-'}
+                    </div>
+                  </div>
+                  <div className="col-span-2 min-w-0">
+                    <div className="truncate">{row.order_code ?? '-'}</div>
+                    <div className="truncate text-xs text-gray-500">{row.customer_email ?? ''}</div>
+                  </div>
+                  <div className="col-span-2 text-xs">
+                    <div className="font-semibold text-gray-900">
+                      {row.stripe_amount !== null ? formatCad(row.stripe_amount) : '-'} / {row.expected_amount !== null ? formatCad(row.expected_amount) : '-'}
+                    </div>
+                    {row.stripe_tax !== null || row.expected_tax !== null ? (
+                      <div className="text-gray-500">
+                        tax {row.stripe_tax !== null ? formatCad(row.stripe_tax) : '-'} / {row.expected_tax !== null ? formatCad(row.expected_tax) : '-'}
+                      </div>
+                    ) : null}
+                    {row.stripe_refunded ? <div className="text-gray-500">{formatCad(row.stripe_refunded)} refunded</div> : null}
+                  </div>
+                  <div className="col-span-1 text-xs">
+                    <div>{row.stripe_status.replace(/_/g, ' ')}</div>
+                    <div className="text-gray-500">{row.payment_status?.replace(/_/g, ' ') ?? ''}</div>
+                  </div>
+                  <div className="col-span-3 text-xs">
+                    {row.findings.length ? (
+                      row.findings.map((f, idx) => (
+                        <div key={`${f.issue}-${idx}`} className="text-red-700">
+                          <span className="font-semibold">{RECONCILIATION_ISSUE_LABELS[f.issue]}:</span> {f.note}
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-emerald-700">Matches</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {shown.length === 0 ? (
+                <div className="px-2 py-4 text-sm text-gray-600">{filter === 'mismatches' ? 'Everything matches.' : 'Nothing in this range.'}</div>
+              ) : null}
+            </div>
+          </div>
+
+          {report.payouts.length ? (
+            <div className="mt-4 rounded-xl border border-gray-200 bg-white p-3 text-xs text-gray-700 space-y-1">
+              <div className="font-semibold text-gray-900">Payouts</div>
+              {report.payouts.map((p) => (
+                <div key={p.id} className="flex justify-between gap-3">
+                  <span className="min-w-0 truncate">
+                    {p.arrival_date} · {p.id} · {p.status.replace(/_/g, ' ')} · {p.transactions} transaction{p.transactions === 1 ? '' : 's'}
+                  </span>
+                  <span className="shrink-0 font-semibold">{formatCad(p.amount)}</span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
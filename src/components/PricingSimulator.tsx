@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { QUOTE_MARKUP, type PricingRules } from '../pricing/pricingTable';
+import {
+  SIMULATION_MONTH_OPTIONS,
+  simulatePricing,
+  type PricingSimulation,
+  type SimulatedPrice,
+  type SimulationOrderInput,
+} from '../pricing/pricingSimulator';
+
+interface PricingSimulatorProps {
+  // The published rules the orders are compared against.
+  currentRules: PricingRules;
+  // The rules in the editor, or null when the editor has an error (the editor shows it).
+  getCandidateRules: () => PricingRules | null;
+  loadOrders: () => Promise<SimulationOrderInput[]>;
+}
+
+const formatCad = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+
+const formatDelta = (n: number) => (Math.abs(n) < 0.005 ? '$0.00' : `${n > 0 ? '+' : '-'}$${Math.abs(n).toFixed(2)}`);
+
+const deltaClass = (n: number) => (n > 0.005 ? 'text-green-700' : n < -0.005 ? 'text-red-700' : 'text-gray-600');
+
+const marginPercent = (p: SimulatedPrice) => (p.revenue > 0 ? `${((p.margin / p.revenue) * 100).toFixed(1)}%` : '-');
+
+// Re-prices past orders with the rules in the pricing editor before they are published.
+export default function PricingSimulator({ currentRules, getCandidateRules, loadOrders }: PricingSimulatorProps) {
+  const [months, setMonths] = useState<number>(3);
+  const [markupDraft, setMarkupDraft] = useState(String(QUOTE_MARKUP));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PricingSimulation | null>(null);
+
+  const run = async () => {
+    setError(null);
+    const rawMarkup = markupDraft.trim();
+    const markup = rawMarkup ? Number(rawMarkup) : QUOTE_MARKUP;
+    if (!Number.isFinite(markup) || markup < 0) {
+      setError('Invalid markup ($ per vehicle).');
+      return;
+    }
+    const candidateRules = getCandidateRules();
+    if (!candidateRules) return;
+
+    setLoading(true);
+    try {
+      const orders = await loadOrders();
+      setResult(simulatePricing(orders, { rules: currentRules, markup: QUOTE_MARKUP }, { rules: candidateRules, markup }, { months }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = result?.totals ?? null;
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+      <div className="text-sm font-semibold text-gray-900">What-if simulator</div>
+      <div className="mt-1 text-xs text-gray-600">
+        Re-prices past orders with the prices above (before publishing) and compares them with the published version. Margin is revenue less
+        Northline&apos;s cost: the published retail price less the markup, per vehicle and leg. Saved quotes are not included.
+      </div>
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="rounded-xl border border-gray-200 bg-white p-3 text-xs font-semibold text-gray-700">
+          Orders from the last
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+          >
+            {SIMULATION_MONTH_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n} month{n === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="rounded-xl border border-gray-200 bg-white p-3 text-xs font-semibold text-gray-700">
+          Markup ($ per vehicle)
+          <input
+            value={markupDraft}
+            onChange={(e) => setMarkupDraft(e.target.value)}
+            inputMode="decimal"
+            className="mt-2 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm font-normal"
+            placeholder={String(QUOTE_MARKUP)}
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={() => void run()}
+            disabled={loading}
+            className="w-full inline-flex justify-center rounded-xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Simulating...' : 'Run simulation'}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="mt-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{error}</div> : null}
+
+      {result && totals ? (
+        <div className="mt-4 space-y-3">
+          <div className="text-xs text-gray-600">
+            {totals.orders} order{totals.orders === 1 ? '' : 's'} since {new Date(result.since).toLocaleDateString()}
+            {result.skipped.length ? ` · ${result.skipped.length} could not be re-priced (${result.skipped.slice(0, 5).join(', ')}${result.skipped.length > 5 ? '…' : ''})` : ''}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="rounded-xl border border-gray-200 bg-white p-3">
+              <div className="text-xs font-semibold text-gray-700">Revenue</div>
+              <div className="mt-1 text-sm font-semibold text-gray-900">{formatCad(totals.candidate.revenue)}</div>
+              <div className={`mt-1 text-xs font-semibold ${deltaClass(totals.candidate.revenue - totals.current.revenue)}`}>
+                {formatDelta(totals.candidate.revenue - totals.current.revenue)} vs published ({formatCad(totals.current.revenue)})
+              </div>
+              <div className="mt-1 text-xs text-gray-500">Charged: {formatCad(totals.charged)}</div>
+            </div>
+            <div className="rounded-xl border border-gray-200 bg-white p-3">
+              <div className="text-xs font-semibold text-gray-700">Margin</div>
+              <div className="mt-1 text-sm font-semibold text-gray-900">
+                {formatCad(totals.candidate.margin)} ({marginPercent(totals.candidate)})
+              </div>
+              <div className={`mt-1 text-xs font-semibold ${deltaClass(totals.candidate.margin - totals.current.margin)}`}>
+                {formatDelta(totals.candidate.margin - totals.current.margin)} vs published ({formatCad(totals.current.margin)}, {marginPercent(totals.current)})
+              </div>
+              <div className="mt-1 text-xs text-gray-500">Northline cost: {formatCad(totals.candidate.northline_cost)}</div>
+            </div>
+            <div className="rounded-xl border border-gray-200 bg-white p-3">
+              <div className="text-xs font-semibold text-gray-700">Negotiated orders</div>
+              {totals.negotiated_orders ? (
+                <>
+                  <div className="mt-1 text-sm font-semibold text-gray-900">
+                    {totals.negotiated_orders} at {formatCad(totals.negotiated_revenue)}
+                  </div>
+                  <div className={`mt-1 text-xs font-semibold ${deltaClass(totals.candidate_negotiated_revenue - totals.negotiated_revenue)}`}>
+                    New prices: {formatCad(totals.candidate_negotiated_revenue)} ({formatDelta(totals.candidate_negotiated_revenue - totals.negotiated_revenue)})
+                  </div>
+                </>
+              ) : (
+                <div className="mt-1 text-xs text-gray-500">No approved offers in this period.</div>
+              )}
+            </div>
+          </div>
+
+          {result.routes.length ? (
+            <div className="overflow-auto rounded-xl border border-gray-200 bg-white max-h-[45vh]">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Route</th>
+                    <th className="px-3 py-2 text-right font-semibold">Orders</th>
+                    <th className="px-3 py-2 text-right font-semibold">Published</th>
+                    <th className="px-3 py-2 text-right font-semibold">New</th>
+                    <th className="px-3 py-2 text-right font-semibold">Revenue Δ</th>
+                    <th className="px-3 py-2 text-right font-semibold">Margin Δ</th>
+                    <th className="px-3 py-2 text-right font-semibold">New vs negotiated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.routes.map((route) => (
+                    <tr key={route.route} className="border-t border-gray-100">
+                      <td className="px-3 py-2 text-gray-900">{route.route}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{route.orders}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatCad(route.current.revenue)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCad(route.candidate.revenue)}</td>
+                      <td className={`px-3 py-2 text-right font-semibold ${deltaClass(route.candidate.revenue - route.current.revenue)}`}>
+                        {formatDelta(route.candidate.revenue - route.current.revenue)}
+                      </td>
+                      <td className={`px-3 py-2 text-right font-semibold ${deltaClass(route.candidate.margin - route.current.margin)}`}>
+                        {formatDelta(route.candidate.margin - route.current.margin)}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${deltaClass(route.candidate_negotiated_revenue - route.negotiated_revenue)}`}>
+                        {route.negotiated_orders
+                          ? `${formatDelta(route.candidate_negotiated_revenue - route.negotiated_revenue)} (${route.negotiated_orders})`
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-600">No orders to re-price in this period.</div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+
+interface PromoCodeFieldProps {
+  appliedCode: string | null;
+  // Throws with the reason when the code is refused.
+  onApply: (code: string) => Promise<void>;
+  onRemove: () => void;
+}
+
+export default function PromoCodeField({ appliedCode, onApply, onRemove }: PromoCodeFieldProps) {
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = async () => {
+    const code = draft.trim();
+    if (!code) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await onApply(code);
+      setDraft('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to apply the promo code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (appliedCode) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg bg-white border border-emerald-200 px-3 py-2 text-sm">
+        <div className="text-emerald-800">
+          Promo code <span className="font-semibold">{appliedCode}</span> applied
+        </div>
+        <button type="button" onClick={onRemove} className="text-xs font-semibold text-gray-600 hover:text-gray-900">
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value.toUpperCase())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              void apply();
+            }
+          }}
+          className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm"
+          placeholder="Promo code"
+          aria-label="Promo code"
+        />
+        <button
+          type="button"
+          onClick={() => void apply()}
+          disabled={loading || !draft.trim()}
+          className="shrink-0 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Checking...' : 'Apply'}
+        </button>
+      </div>
+      {error ? <div className="mt-1 text-xs text-red-700">{error}</div> : null}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useState } from 'react';
-import { ArrowLeft, Clipboard, CheckCircle, FileText, X, Trash2 } from 'lucide-react';
+import { ArrowLeft, Clipboard, CheckCircle, Download, FileText, X, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabaseClient';
+import { formatReceiptText, RECEIPT_FIELDS, readReceiptRecord, type ReceiptRecord } from '../orders/receipts';
+import { getReceiptPdf } from '../orders/supabaseOrders';
 
 interface ReceiptHistoryProps {
   onBack: () => void;
@@ -11,12 +13,8 @@ type ReceiptEntry = {
   id: string;
   createdAt: string;
   text: string;
-};
-
-type DocumentReceiptRow = {
-  id?: unknown;
-  created_at?: unknown;
-  text?: unknown;
+  // Set on receipts loaded from the account; the ones kept in this browser only have text.
+  record?: ReceiptRecord;
 };
 
 const STORAGE_RECEIPTS_PENDING = 'ed_receipts_pending';
@@ -57,6 +55,11 @@ const removeLocalReceiptById = (storageKey: string, id: string) => {
   writeLocalReceipts(storageKey, next);
 };
 
+const getReceiptTitle = (r: ReceiptEntry) => {
+  if (!r.record?.invoice_number) return 'Receipt';
+  return `${r.record.kind === 'credit_note' ? 'Credit note' : 'Invoice'} ${r.record.invoice_number}`;
+};
+
 function extractReceiptPrice(text: string): string | null {
   const lines = text
     .split(/\r?\n/)
@@ -98,6 +101,8 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
   const [loadError, setLoadError] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [localReceiptsCount, setLocalReceiptsCount] = useState(0);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
 
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [userKey, setUserKey] = useState<string | null>(null);
@@ -180,19 +185,23 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
       try {
         const { data, error } = await sb
           .from('receipts')
-          .select('id, created_at, text')
+          .select(RECEIPT_FIELDS)
           .eq('user_id', userKey)
           .order('created_at', { ascending: false });
 
         if (error) throw error;
 
+        // Numbered receipts show their document with the number; older ones their stored text.
         const remote = (Array.isArray(data) ? data : [])
-          .map((row: DocumentReceiptRow) => ({
-            id: String(row?.id ?? ''),
-            createdAt: String(row?.created_at ?? new Date().toISOString()),
-            text: String(row?.text ?? ''),
+          .map(readReceiptRecord)
+          .filter((r): r is ReceiptRecord => r !== null)
+          .map((record) => ({
+            id: record.id,
+            createdAt: record.created_at || new Date().toISOString(),
+            text: record.document ? formatReceiptText(record.document, record.invoice_number) : record.text,
+            record,
           }))
-          .filter((r) => r.id && r.text);
+          .filter((r) => r.text);
 
         const localNow = localKey ? readLocalReceipts(localKey) : [];
         const dedup = new Map<string, ReceiptEntry>();
@@ -251,6 +260,26 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
     return receipts.find((r) => r.id === selectedReceiptId) ?? null;
   }, [receipts, selectedReceiptId]);
 
+  const downloadReceipt = async (id: string) => {
+    setDownloadingId(id);
+    setDownloadError(null);
+    try {
+      const { blob, filename } = await getReceiptPdf(id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : 'Failed to download the receipt');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   const deleteReceiptConfirmed = async (id: string) => {
     const localKey = userKey ? `${STORAGE_RECEIPTS_BY_USER_PREFIX}${userKey}` : null;
     if (localKey) removeLocalReceiptById(localKey, id);
@@ -352,7 +381,7 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
           <div className="relative w-full max-w-3xl overflow-hidden rounded-3xl border border-gray-200 bg-white shadow-2xl">
             <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-gray-100">
               <div className="min-w-0">
-                <div className="text-lg font-bold text-gray-900">Receipt details</div>
+                <div className="text-lg font-bold text-gray-900">{selectedReceipt.record?.invoice_number ? getReceiptTitle(selectedReceipt) : 'Receipt details'}</div>
                 <div className="mt-1 flex items-center gap-2 text-xs font-medium text-gray-600">
                   <div className="flex h-5 w-5 items-center justify-center rounded-full bg-emerald-50 ring-1 ring-emerald-100">
                     <CheckCircle className="h-3 w-3 text-emerald-700" />
@@ -362,15 +391,30 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
               </div>
 
               <div className="flex items-center gap-2 shrink-0">
-                <button
-                  type="button"
-                  onClick={() => setDeleteTargetId(selectedReceipt.id)}
-                  title="Delete receipt"
-                  aria-label="Delete receipt"
-                  className="inline-flex h-10 w-10 items-center justify-center rounded-xl border border-gray-200 bg-white text-gray-700 hover:bg-red-50 hover:text-red-700 hover:border-red-200 transition-colors"
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
+                {selectedReceipt.record ? (
+                  <button
+                    type="button"
+                    onClick={() => void downloadReceipt(selectedReceipt.id)}
+                    disabled={downloadingId === selectedReceipt.id}
+                    title="Download PDF"
+                    aria-label="Download PDF"
+                    className="inline-flex h-10 w-10 items-center justify-center rounded-xl border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-60 transition-colors"
+                  >
+                    <Download className="h-5 w-5" />
+                  </button>
+                ) : null}
+                {/* Numbered receipts are accounting records and stay on the account. */}
+                {selectedReceipt.record?.invoice_number ? null : (
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTargetId(selectedReceipt.id)}
+                    title="Delete receipt"
+                    aria-label="Delete receipt"
+                    className="inline-flex h-10 w-10 items-center justify-center rounded-xl border border-gray-200 bg-white text-gray-700 hover:bg-red-50 hover:text-red-700 hover:border-red-200 transition-colors"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={async () => {
@@ -404,6 +448,7 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
             </div>
 
             <div className="p-6 sm:p-7">
+              {downloadError ? <div className="mb-4 text-xs font-medium text-red-700">{downloadError}</div> : null}
               <pre className="whitespace-pre-wrap text-sm leading-7 text-gray-800 max-h-[70vh] overflow-auto rounded-2xl border border-gray-200 bg-gray-50 p-5 sm:p-7 shadow-inner font-mono">
                 {selectedReceipt.text}
               </pre>
@@ -493,30 +538,32 @@ export default function ReceiptHistory({ onBack, embed = false }: ReceiptHistory
                           >
                             {idx + 1}
                           </div>
-                          <div className="text-sm font-bold text-gray-900">Receipt</div>
+                          <div className="text-sm font-bold text-gray-900">{getReceiptTitle(r)}</div>
                         </div>
                         <div className="flex items-center gap-2">
                           <div className="text-xs font-medium text-gray-500">
                             {new Date(r.createdAt).toLocaleDateString()}
                           </div>
-                          <button
-                            type="button"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              setDeleteTargetId(r.id);
-                            }}
-                            title="Delete receipt"
-                            aria-label="Delete receipt"
-                            className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {r.record?.invoice_number ? null : (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                setDeleteTargetId(r.id);
+                              }}
+                              title="Delete receipt"
+                              aria-label="Delete receipt"
+                              className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-baseline justify-between gap-3">
                         <div className="text-lg font-extrabold text-gray-900">
-                          {extractReceiptPrice(r.text) ?? '-'}
+                          {r.record?.document ? `$${r.record.document.total.toFixed(2)}` : extractReceiptPrice(r.text) ?? '-'}
                         </div>
                         <div className="text-[11px] font-medium text-gray-500">Tap to view</div>
                       </div>
@@ -0,0 +1,55 @@
+import {
+  SERVICE_LEVELS,
+  formatFulfillmentDays,
+  formatServiceLevelModifier,
+  getActivePricingRules,
+  getFulfillmentDaysForRoute,
+  getServiceLevelModifier,
+  type ServiceLevel,
+} from '../pricing/pricingTable';
+
+interface ServiceLevelOptionsProps {
+  // The quoted route (lane or service area); delivery windows are published per route.
+  route: string;
+  value: ServiceLevel;
+  onChange: (level: ServiceLevel) => void;
+  // Price before tax of the whole order at each level, when the quote is known.
+  priceFor?: (level: ServiceLevel) => number | null;
+}
+
+export default function ServiceLevelOptions({ route, value, onChange, priceFor }: ServiceLevelOptionsProps) {
+  const rules = getActivePricingRules();
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="text-sm font-semibold text-gray-900">Service level</div>
+      <div className="mt-1 text-xs text-gray-600">Delivery windows are in business days from pickup.</div>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {SERVICE_LEVELS.map((option) => {
+          const selected = option.level === value;
+          const price = priceFor ? priceFor(option.level) : null;
+          return (
+            <button
+              key={option.level}
+              type="button"
+              onClick={() => onChange(option.level)}
+              aria-pressed={selected}
+              className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                selected ? 'border-blue-600 bg-blue-50 text-blue-900' : 'border-gray-300 bg-white text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="text-sm font-semibold">{option.label}</div>
+                <div className="shrink-0 text-xs font-semibold">
+                  {price !== null && Number.isFinite(price) ? `$${price.toFixed(2)}` : formatServiceLevelModifier(getServiceLevelModifier(option.level, rules))}
+                </div>
+              </div>
+              <div className="mt-1 text-xs text-gray-600">{option.description}</div>
+              <div className="mt-1 text-xs font-medium text-gray-700">{formatFulfillmentDays(getFulfillmentDaysForRoute(route, option.level, rules))}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
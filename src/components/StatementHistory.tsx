@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabaseClient';
+import { getMyBillingTerms, listMyInvoices } from '../orders/supabaseOrders';
+import {
+  formatInvoiceStatus,
+  formatStatementPeriod,
+  getInvoiceStatus,
+  type BillingTerms,
+  type Invoice,
+  type InvoiceStatus,
+} from '../orders/invoices';
+
+interface StatementHistoryProps {
+  onBack: () => void;
+}
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  open: 'bg-amber-50 text-amber-800 ring-amber-200',
+  overdue: 'bg-red-50 text-red-700 ring-red-100',
+  paid: 'bg-emerald-50 text-emerald-700 ring-emerald-100',
+};
+
+// Monthly statements for accounts on invoice terms: what is open, overdue or paid, and the orders and tax on each.
+export default function StatementHistory({ onBack }: StatementHistoryProps) {
+  const [terms, setTerms] = useState<BillingTerms | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      setError('Statements need an account connection. Please try again later.');
+      return;
+    }
+    let active = true;
+    Promise.all([getMyBillingTerms(), listMyInvoices()])
+      .then(([nextTerms, nextInvoices]) => {
+        if (!active) return;
+        setTerms(nextTerms);
+        setInvoices(nextInvoices);
+      })
+      .catch((e) => {
+        if (active) setError(e instanceof Error ? e.message : 'Failed to load your statements');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const now = new Date();
+  const outstanding = invoices.filter((i) => i.status !== 'paid').reduce((sum, i) => sum + i.total, 0);
+
+  return (
+    <div className="rounded-2xl bg-white border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 sm:py-5 border-b border-gray-100">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="text-base sm:text-lg font-bold text-gray-900">Statements</div>
+            <div className="mt-1 text-xs sm:text-sm text-gray-600">
+              {terms?.payment_terms === 'invoice'
+                ? `Orders billed to your account are invoiced monthly once delivered; each statement is due ${terms.net_terms_days} days after it is issued.`
+                : 'Your account pays by card at checkout. Contact us to apply for invoice terms.'}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onBack}
+            className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 sm:px-6 py-4 sm:py-5 space-y-4">
+        {loading ? <div className="text-sm text-gray-600">Loading...</div> : null}
+        {error ? <div className="text-sm font-medium text-red-600">{error}</div> : null}
+
+        {invoices.length ? (
+          <div className="text-sm text-gray-700">
+            Outstanding: <span className="font-semibold text-gray-900">{formatCad(outstanding)}</span>
+          </div>
+        ) : null}
+
+        <div className="divide-y divide-gray-100 rounded-xl border border-gray-200">
+          {invoices.map((invoice) => {
+            const status = getInvoiceStatus(invoice, now);
+            return (
+              <div key={invoice.id} className="p-3 sm:p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">{formatStatementPeriod(invoice.period)}</div>
+                    <div className="text-xs text-gray-600">
+                      {invoice.lines.length} order{invoice.lines.length === 1 ? '' : 's'} · issued {new Date(invoice.issued_at).toLocaleDateString()} · due{' '}
+                      {new Date(invoice.due_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900">{formatCad(invoice.total)}</span>
+                    <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-semibold ring-1 ${STATUS_BADGES[status]}`}>
+                      {formatInvoiceStatus(status)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId((id) => (id === invoice.id ? null : invoice.id))}
+                      className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      {expandedId === invoice.id ? 'Hide' : 'Details'}
+                    </button>
+                  </div>
+                </div>
+
+                {expandedId === invoice.id ? (
+                  <div className="mt-3 rounded-xl bg-gray-50 p-3 text-xs text-gray-700 space-y-2">
+                    {invoice.lines.map((line) => (
+                      <div key={line.order_id}>
+                        <div className="flex justify-between gap-3 font-semibold text-gray-900">
+                          <span className="min-w-0 truncate">
+                            Order {line.order_code}
+                            {line.route ? ` · ${line.route}` : ''}
+                          </span>
+                          <span className="shrink-0">{formatCad(line.subtotal)}</span>
+                        </div>
+                        <div className="text-gray-500">Delivered {new Date(line.delivered_at).toLocaleDateString()}</div>
+                        {line.tax_lines.map((t) => (
+                          <div key={t.code} className="flex justify-between gap-3">
+                            <span>{t.label}</span>
+                            <span>{formatCad(t.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                    <div className="border-t border-gray-200 pt-2 space-y-0.5">
+                      <div className="flex justify-between gap-3">
+                        <span>Subtotal</span>
+                        <span>{formatCad(invoice.subtotal)}</span>
+                      </div>
+                      <div className="flex justify-between gap-3">
+                        <span>Tax</span>
+                        <span>{formatCad(invoice.tax)}</span>
+                      </div>
+                      <div className="flex justify-between gap-3 font-semibold text-gray-900">
+                        <span>Total</span>
+                        <span>{formatCad(invoice.total)}</span>
+                      </div>
+                    </div>
+                    {invoice.paid_at ? <div className="text-gray-500">Paid {new Date(invoice.paid_at).toLocaleDateString()}</div> : null}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+          {!loading && !invoices.length ? <div className="p-4 text-sm text-gray-600">No statements yet.</div> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabaseClient';
+import { getMyTaxProfile, submitMyTaxProfile, type DbTaxProfileRow } from '../orders/supabaseOrders';
+import {
+  TAX_EXEMPTION_TYPES,
+  TAX_EXEMPTION_TYPE_OPTIONS,
+  isTaxExemptionType,
+  isValidGstRegistrationNumber,
+  isValidQstRegistrationNumber,
+  type TaxExemptionStatus,
+  type TaxExemptionType,
+} from '../pricing/taxes';
+
+interface TaxProfileSettingsProps {
+  onBack: () => void;
+}
+
+const MAX_EVIDENCE_BYTES = 8 * 1024 * 1024;
+
+const STATUS_BADGES: Record<TaxExemptionStatus, { label: string; className: string }> = {
+  none: { label: 'No exemption', className: 'bg-gray-100 text-gray-700 ring-gray-200' },
+  pending: { label: 'Pending review', className: 'bg-amber-50 text-amber-800 ring-amber-200' },
+  approved: { label: 'Approved', className: 'bg-emerald-50 text-emerald-700 ring-emerald-100' },
+  rejected: { label: 'Rejected', className: 'bg-red-50 text-red-700 ring-red-100' },
+};
+
+const fileToBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result ?? '');
+      resolve(result.includes(',') ? result.split(',')[1] : result);
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
+// Dealer tax profile: registration numbers for receipts and a tax exemption that staff approve before it applies.
+export default function TaxProfileSettings({ onBack }: TaxProfileSettingsProps) {
+  const [profile, setProfile] = useState<DbTaxProfileRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [gstNumber, setGstNumber] = useState('');
+  const [qstNumber, setQstNumber] = useState('');
+  const [exemptionType, setExemptionType] = useState<TaxExemptionType | ''>('');
+  const [certificate, setCertificate] = useState('');
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+
+  const applyProfile = (row: DbTaxProfileRow | null) => {
+    setProfile(row);
+    setGstNumber(row?.gst_registration_number ?? '');
+    setQstNumber(row?.qst_registration_number ?? '');
+    setExemptionType(row?.tax_exemption_type && isTaxExemptionType(row.tax_exemption_type) ? row.tax_exemption_type : '');
+    setCertificate(row?.tax_exemption_certificate ?? '');
+    setEvidenceFile(null);
+  };
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      setError('Tax profiles need an account connection. Please try again later.');
+      return;
+    }
+    let active = true;
+    getMyTaxProfile()
+      .then((row) => {
+        if (active) applyProfile(row);
+      })
+      .catch((e) => {
+        if (active) setError(e instanceof Error ? e.message : 'Failed to load the tax profile');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const save = async () => {
+    setMessage(null);
+    setError(null);
+
+    if (gstNumber.trim() && !isValidGstRegistrationNumber(gstNumber)) {
+      setError('GST/HST number should look like 123456789RT0001.');
+      return;
+    }
+    if (qstNumber.trim() && !isValidQstRegistrationNumber(qstNumber)) {
+      setError('QST number should look like 1234567890TQ0001.');
+      return;
+    }
+    if (exemptionType && !evidenceFile && !profile?.tax_exemption_document) {
+      setError('Please attach your exemption certificate or card.');
+      return;
+    }
+    if (evidenceFile && evidenceFile.size > MAX_EVIDENCE_BYTES) {
+      setError('The evidence file is too large (8 MB max).');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const file = evidenceFile
+        ? { name: evidenceFile.name, type: evidenceFile.type, size: evidenceFile.size, base64: await fileToBase64(evidenceFile) }
+        : null;
+      const saved = await submitMyTaxProfile({
+        gst_registration_number: gstNumber.trim() || null,
+        qst_registration_number: qstNumber.trim() || null,
+        tax_exemption_type: exemptionType || null,
+        tax_exemption_certificate: certificate.trim() || null,
+        file,
+      });
+      applyProfile(saved);
+      setMessage(
+        saved.tax_exemption_status === 'pending'
+          ? 'Saved. Your exemption will apply once our team has reviewed the evidence.'
+          : 'Tax profile saved.'
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the tax profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = profile?.tax_exemption_status ?? 'none';
+  const badge = STATUS_BADGES[status] ?? STATUS_BADGES.none;
+
+  return (
+    <div className="rounded-2xl bg-white border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 sm:py-5 border-b border-gray-100">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="text-base sm:text-lg font-bold text-gray-900">Tax profile</div>
+            <div className="mt-1 text-xs sm:text-sm text-gray-600">
+              Registration numbers printed on your receipts, and tax exemptions for your account.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onBack}
+            className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 sm:px-6 py-4 sm:py-5 space-y-4">
+        {loading ? <div className="text-sm text-gray-600">Loading...</div> : null}
+        {message ? <div className="text-sm font-medium text-emerald-700">{message}</div> : null}
+        {error ? <div className="text-sm font-medium text-red-600">{error}</div> : null}
+
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+          <div className="text-sm font-semibold text-gray-900">Registration numbers</div>
+          <div className="mt-1 text-xs text-gray-600">Shown on receipts so you can claim input tax credits.</div>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-gray-700">
+              GST/HST number
+              <input
+                value={gstNumber}
+                onChange={(e) => setGstNumber(e.target.value)}
+                className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                placeholder="123456789RT0001"
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-700">
+              QST number (Quebec)
+              <input
+                value={qstNumber}
+                onChange={(e) => setQstNumber(e.target.value)}
+                className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                placeholder="1234567890TQ0001"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm font-semibold text-gray-900">Tax exemption</div>
+            <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-semibold ring-1 ${badge.className}`}>{badge.label}</span>
+          </div>
+          <div className="mt-1 text-xs text-gray-600">
+            Exemptions are checked by our team and apply to orders paid after approval. Until then tax is charged as usual.
+          </div>
+          {status === 'rejected' && profile?.tax_exemption_review_note ? (
+            <div className="mt-2 text-xs text-red-700">Reviewer note: {profile.tax_exemption_review_note}</div>
+          ) : null}
+
+          <select
+            value={exemptionType}
+            onChange={(e) => setExemptionType(isTaxExemptionType(e.target.value) ? e.target.value : '')}
+            className="mt-3 w-full rounded-xl border border-gray-300 bg-white px-3 py-2.5 text-sm"
+          >
+            <option value="">No exemption</option>
+            {TAX_EXEMPTION_TYPE_OPTIONS.map((type) => (
+              <option key={type} value={type}>
+                {TAX_EXEMPTION_TYPES[type].label}
+              </option>
+            ))}
+          </select>
+
+          {exemptionType ? (
+            <>
+              <div className="mt-2 text-xs text-gray-600">{TAX_EXEMPTION_TYPES[exemptionType].description}</div>
+              <label className="mt-3 block text-xs font-medium text-gray-700">
+                Certificate / card number
+                <input
+                  value={certificate}
+                  onChange={(e) => setCertificate(e.target.value)}
+                  className="mt-1 w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="mt-3 block text-xs font-medium text-gray-700">
+                Evidence (PDF or image)
+                <input
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={(e) => setEvidenceFile(e.target.files?.[0] ?? null)}
+                  className="mt-1 block w-full text-sm"
+                />
+              </label>
+              {profile?.tax_exemption_document && !evidenceFile ? (
+                <div className="mt-1 text-xs text-gray-600">On file: {profile.tax_exemption_document.name}</div>
+              ) : null}
+            </>
+          ) : null}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={saving || loading}
+          className="inline-flex justify-center rounded-xl bg-cyan-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-cyan-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save tax profile'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+// A minimal PDF writer for text documents (receipts): Letter pages with Helvetica text and rules, nothing else. The
+// two standard fonts need no embedding, so the output is a few kilobytes. Text uses WinAnsiEncoding: Latin-1 plus
+// the typographic dashes, quotes and bullet; anything else prints as "?".
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfText = {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  font?: PdfFont;
+  // Right-aligned text ends at x.
+  align?: 'left' | 'right';
+  muted?: boolean;
+};
+
+export type PdfRule = { x1: number; y1: number; x2: number; y2: number };
+
+export type PdfPage = { texts: PdfText[]; rules: PdfRule[] };
+
+// US Letter, in points.
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+// Helvetica advance widths (per 1000 em) for characters 32–126. The bold weight is a little wider for letters but
+// not for digits and currency signs, so amounts right-align the same in both.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// WinAnsi codes for the characters outside Latin-1 that receipts use.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+const EXTRA_WIDTHS: Record<number, number> = { 0x80: 556, 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000 };
+
+const toWinAnsi = (text: string): number[] => {
+  const codes: number[] = [];
+  for (const ch of text.replace(/→/g, '->').replace(/×/g, 'x')) {
+    const code = ch.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) codes.push(code);
+    else codes.push(WIN_ANSI_EXTRAS[ch] ?? 63);
+  }
+  return codes;
+};
+
+const charWidth = (code: number) => (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : EXTRA_WIDTHS[code] ?? 556);
+
+export const measurePdfText = (text: string, size: number) => (toWinAnsi(text).reduce((sum, code) => sum + charWidth(code), 0) * size) / 1000;
+
+// Breaks text into lines no wider than maxWidth, at spaces where it can.
+export const wrapPdfText = (text: string, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (measurePdfText(next, size) <= maxWidth) {
+        line = next;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word longer than the line is cut wherever it overflows.
+      let rest = word;
+      while (measurePdfText(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measurePdfText(rest.slice(0, cut), size) > maxWidth) cut -= 1;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// A PDF string literal; bytes outside printable ASCII are octal escapes so the file stays 7-bit.
+const toPdfString = (text: string) =>
+  `(${toWinAnsi(text)
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+      return code >= 32 && code <= 126 ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`;
+    })
+    .join('')})`;
+
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const renderPageContent = (page: PdfPage) => {
+  const ops: string[] = [];
+  if (page.rules.length) {
+    ops.push('0.75 G 0.5 w');
+    for (const r of page.rules) ops.push(`${fmt(r.x1)} ${fmt(r.y1)} m ${fmt(r.x2)} ${fmt(r.y2)} l S`);
+  }
+  for (const t of page.texts) {
+    const x = t.align === 'right' ? t.x - measurePdfText(t.text, t.size) : t.x;
+    ops.push(
+      `BT ${t.muted ? '0.42 g' : '0 g'} /${t.font === 'bold' ? 'F2' : 'F1'} ${fmt(t.size)} Tf ${fmt(x)} ${fmt(t.y)} Td ${toPdfString(t.text)} Tj ET`
+    );
+  }
+  return ops.join('\n');
+};
+
+export const renderPdf = (pages: PdfPage[], info: { title?: string; author?: string } = {}): Uint8Array => {
+  const objects: string[] = [];
+  // Objects 1–5 are fixed; each page adds a page object and its content stream.
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (EasyDrive)${info.title ? ` /Title ${toPdfString(info.title)}` : ''}${info.author ? ` /Author ${toPdfString(info.author)}` : ''} >>`;
+  pages.forEach((page, i) => {
+    const content = renderPageContent(page);
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i += 1) bytes[i] = out.charCodeAt(i);
+  return bytes;
+};
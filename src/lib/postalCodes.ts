@@ -0,0 +1,61 @@
+export const normalizePostalCode = (value: string) => {
+  const raw = String(value ?? '').toUpperCase().replace(/\s+/g, ' ').trim();
+  if (!raw) return '';
+  const compact = raw.replace(/[^A-Z0-9]/g, '');
+  if (compact.length === 6) {
+    const chars = compact.split('');
+    const toDigit = (c: string) => (c === 'I' ? '1' : c === 'O' || c === 'Q' ? '0' : c);
+    const toLetter = (c: string) => (c === '1' ? 'I' : c === '0' ? 'O' : c);
+    if (chars[1]) chars[1] = toDigit(chars[1]);
+    if (chars[3]) chars[3] = toDigit(chars[3]);
+    if (chars[5]) chars[5] = toDigit(chars[5]);
+    if (chars[0]) chars[0] = toLetter(chars[0]);
+    if (chars[2]) chars[2] = toLetter(chars[2]);
+    if (chars[4]) chars[4] = toLetter(chars[4]);
+    const repaired = chars.join('');
+    return `${repaired.slice(0, 3)} ${repaired.slice(3)}`;
+  }
+  return raw;
+};
+
+export const isValidCanadianPostalCode = (value: string) => {
+  const postal = normalizePostalCode(value);
+  const compact = postal.replace(/[^A-Z0-9]/g, '');
+  return /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(compact);
+};
+
+export const inferProvinceFromPostal = (postal: string): string => {
+  const compact = normalizePostalCode(postal).replace(/[^A-Z0-9]/g, '');
+  const first = compact.slice(0, 1).toUpperCase();
+  if (!first) return '';
+  if (['T'].includes(first)) return 'AB';
+  if (['V'].includes(first)) return 'BC';
+  if (['R'].includes(first)) return 'MB';
+  if (['E'].includes(first)) return 'NB';
+  if (['A'].includes(first)) return 'NL';
+  if (['B'].includes(first)) return 'NS';
+  if (['X'].includes(first)) return 'NT';
+  if (['X'].includes(first)) return 'NU';
+  if (['K', 'L', 'M', 'N', 'P'].includes(first)) return 'ON';
+  if (['C'].includes(first)) return 'PE';
+  if (['G', 'H', 'J'].includes(first)) return 'QC';
+  if (['S'].includes(first)) return 'SK';
+  if (['Y'].includes(first)) return 'YT';
+  return '';
+};
+
+// Forward sortation area: the first three characters of a Canadian postal code (e.g. "K1P").
+export const getForwardSortationArea = (postal: string): string => {
+  const compact = normalizePostalCode(postal).replace(/[^A-Z0-9]/g, '');
+  return /^[A-Z]\d[A-Z]/.test(compact) ? compact.slice(0, 3) : '';
+};
+
+export const extractPostalCodeFromAddress = (address: string): string => {
+  const upper = String(address ?? '').toUpperCase();
+  const candidates = upper.match(/\b[A-Z0-9]{3}\s*[A-Z0-9]{3}\b/g) ?? [];
+  for (let i = candidates.length - 1; i >= 0; i -= 1) {
+    const maybe = normalizePostalCode(candidates[i]);
+    if (isValidCanadianPostalCode(maybe)) return maybe;
+  }
+  return '';
+};
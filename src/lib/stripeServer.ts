@@ -0,0 +1,21 @@
+import Stripe from 'stripe';
+
+// Server side only: the Netlify functions get their Stripe client here rather than constructing one, so an
+// end-to-end run can hand them the local fake (test/support/fakeStripe.ts) instead of the live API.
+
+// The version the functions are written against; newer than the one the installed typings default to.
+export const STRIPE_API_VERSION = '2024-06-20';
+
+export type StripeClientFactory = (secretKey: string) => Stripe;
+
+const createLiveClient: StripeClientFactory = (secretKey) =>
+  new Stripe(secretKey, { apiVersion: STRIPE_API_VERSION as Stripe.LatestApiVersion });
+
+let factory: StripeClientFactory = createLiveClient;
+
+export const createStripeClient = (secretKey: string) => factory(secretKey);
+
+// Pass null to go back to the live client.
+export const setStripeClientFactory = (next: StripeClientFactory | null) => {
+  factory = next ?? createLiveClient;
+};
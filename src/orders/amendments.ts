@@ -0,0 +1,337 @@
+import { readOrderDiscounts } from '../pricing/discounts';
+import { getServiceLevelLabel, isServiceLevel, type ServiceLevel } from '../pricing/pricingTable';
+import { applyQuoteToFormData, readOrderServiceLevel, type Quote } from '../pricing/quotes';
+import {
+  computeTax,
+  taxPlaceFromFormData,
+  type TaxLine,
+  type TaxProfile,
+  type TaxRegistrations,
+} from '../pricing/taxes';
+import type { CancellationActor } from './cancellation';
+import { getDepositBalanceDue, readOrderDeposit } from './deposits';
+import { isPaidPaymentStatus, normalizeOrderStage, type OrderState } from './orderStateMachine';
+import { makeReceiptDocument, type ReceiptSeller } from './receipts';
+
+// Changes to a paid order's pickup, drop-off or service level go through an amendment instead of a plain form edit:
+// the amended order is re-quoted with the published rules, and the difference with what it was quoted at (plus tax)
+// is charged as a top-up (Checkout or the saved card) or refunded against the order's payment (amend-order). Each
+// amendment is kept in orders.amendments as the order's amendment history. Discounts already given are kept as they
+// were; an approved offer price moves by the same difference.
+
+export type AmendmentActor = CancellationActor;
+
+export type AmendmentChanges = {
+  pickup_address?: string;
+  dropoff_address?: string;
+  service_level?: ServiceLevel;
+};
+
+export type AmendmentStatus = 'balance_due' | 'paid' | 'refund_due' | 'refunded' | 'no_difference';
+
+export type OrderAmendment = {
+  id: string;
+  at: string;
+  by: AmendmentActor;
+  by_user: string | null;
+  reason: string | null;
+  changes: AmendmentChanges;
+  // The same fields as they were before the amendment.
+  previous: AmendmentChanges;
+  // Quoted prices before tax and discounts, both with the order's pricing rules: the order as it was, and as amended.
+  previous_quote: number;
+  new_quote: number;
+  // Before tax; positive is charged to the customer, negative refunded.
+  difference: number;
+  // The tax on the amount that changes hands (always positive); total carries the sign of difference.
+  tax_lines: TaxLine[];
+  tax: number;
+  total: number;
+  status: AmendmentStatus;
+  settled_at: string | null;
+  // Stripe top-up payment or refund; null when nothing went through Stripe (or for local orders).
+  payment_intent_id: string | null;
+  refund_id: string | null;
+};
+
+export type AmendableOrder = OrderState & {
+  price_before_tax?: number | null;
+  final_price_before_tax?: number | null;
+  form_data?: unknown;
+  amendments?: unknown;
+  deposit?: unknown;
+};
+
+export type AmendmentPlan = {
+  amendment: OrderAmendment;
+  form_data: Record<string, unknown>;
+  price_before_tax: number;
+  final_price_before_tax: number | null;
+};
+
+// Keeps orders.amendments (and the Stripe metadata that lists one by id) small.
+export const MAX_ORDER_AMENDMENTS = 20;
+
+const MAX_ADDRESS_LENGTH = 300;
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const readText = (v: unknown) => (typeof v === 'string' ? v : v == null ? '' : String(v)).trim();
+
+const readNumber = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+const makeAmendmentId = () => `amd_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const readAmendmentChanges = (raw: unknown): AmendmentChanges => {
+  const r = readRecord(raw) ?? {};
+  const changes: AmendmentChanges = {};
+  const pickup = readText(r.pickup_address).slice(0, MAX_ADDRESS_LENGTH);
+  const dropoff = readText(r.dropoff_address).slice(0, MAX_ADDRESS_LENGTH);
+  if (pickup) changes.pickup_address = pickup;
+  if (dropoff) changes.dropoff_address = dropoff;
+  if (isServiceLevel(r.service_level)) changes.service_level = r.service_level;
+  return changes;
+};
+
+export const readAmendmentFields = (formData: unknown): Required<AmendmentChanges> => {
+  const form = readRecord(formData) ?? {};
+  return {
+    pickup_address: readText(readRecord(form.pickup_location)?.address),
+    dropoff_address: readText(readRecord(form.dropoff_location)?.address),
+    service_level: readOrderServiceLevel(form).service_level,
+  };
+};
+
+export const readOrderAmendments = (raw: unknown): OrderAmendment[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(readRecord)
+    .filter((r): r is Record<string, unknown> => Boolean(r && readText(r.id)))
+    .map((r) => {
+      const status = readText(r.status);
+      return {
+        id: readText(r.id),
+        at: readText(r.at),
+        by: r.by === 'staff' ? 'staff' : 'customer',
+        by_user: readText(r.by_user) || null,
+        reason: readText(r.reason) || null,
+        changes: readAmendmentChanges(r.changes),
+        previous: readAmendmentChanges(r.previous),
+        previous_quote: readNumber(r.previous_quote),
+        new_quote: readNumber(r.new_quote),
+        difference: readNumber(r.difference),
+        tax_lines: Array.isArray(r.tax_lines) ? (r.tax_lines as TaxLine[]) : [],
+        tax: readNumber(r.tax),
+        total: readNumber(r.total),
+        status: (['balance_due', 'paid', 'refund_due', 'refunded', 'no_difference'].includes(status) ? status : 'no_difference') as AmendmentStatus,
+        settled_at: readText(r.settled_at) || null,
+        payment_intent_id: readText(r.payment_intent_id) || null,
+        refund_id: readText(r.refund_id) || null,
+      };
+    });
+};
+
+export const getAmendmentDue = (amendments: OrderAmendment[]) => amendments.find((a) => a.status === 'balance_due') ?? null;
+
+// Customers can amend until the vehicle is picked up; staff until delivery. Unpaid orders are edited and re-quoted
+// instead (refresh-quote).
+const checkAmendableOrder = (order: AmendableOrder, actor: AmendmentActor): string | null => {
+  const stage = normalizeOrderStage(order.order_stage);
+  if (stage === 'cancelled') return 'This order was cancelled.';
+  if (stage === 'order_completed' || order.status === 'Delivered') return 'A delivered order cannot be changed.';
+  if (!isPaidPaymentStatus(order.payment_status)) return 'This order is not paid yet; edit it and refresh its quote instead.';
+  if (actor === 'customer' && (stage === 'order_dispatched' || order.status !== 'Scheduled')) {
+    return 'The vehicle has already been picked up. Please contact us to change this order.';
+  }
+  // The balance owed at delivery was worked out from the order as booked.
+  if (getDepositBalanceDue(readOrderDeposit(order.deposit))) return 'This order was booked with a deposit. Please contact us to change it.';
+  return null;
+};
+
+// A new amendment waits until the previous top-up is paid.
+export const canAmendOrder = (order: AmendableOrder, actor: AmendmentActor): { ok: true } | { ok: false; error: string } => {
+  const error = checkAmendableOrder(order, actor);
+  if (error) return { ok: false, error };
+  const amendments = readOrderAmendments(order.amendments);
+  if (getAmendmentDue(amendments)) return { ok: false, error: 'The previous change to this order has not been paid yet.' };
+  if (amendments.length >= MAX_ORDER_AMENDMENTS) return { ok: false, error: 'This order cannot be changed again. Please contact us.' };
+  return { ok: true };
+};
+
+// A balance is only collected while the order could still be changed: not once it was cancelled (or refunded) or
+// delivered since the change was proposed.
+export const canPayOrderAmendment = (order: AmendableOrder, actor: AmendmentActor): { ok: true } | { ok: false; error: string } => {
+  const error = checkAmendableOrder(order, actor);
+  return error ? { ok: false, error } : { ok: true };
+};
+
+// A moved address has to be located again, so the old city, postal code, province and coordinates are dropped.
+const moveLocation = (location: unknown, address: string) => ({
+  ...(readRecord(location) ?? {}),
+  address,
+  city: '',
+  postal_code: null,
+  province: null,
+  lat: null,
+  lng: null,
+});
+
+// The order form with the changes applied, ready to be re-quoted (quoteRequestFromFormData). Changes that match the
+// order as it is are dropped; an empty `changes` means there is nothing to amend.
+export const prepareOrderAmendment = (
+  formData: unknown,
+  rawChanges: unknown
+): { changes: AmendmentChanges; previous: AmendmentChanges; form_data: Record<string, unknown> } => {
+  const form = readRecord(formData) ?? {};
+  const current = readAmendmentFields(form);
+  const requested = readAmendmentChanges(rawChanges);
+  const changes: AmendmentChanges = {};
+  const previous: AmendmentChanges = {};
+  let next: Record<string, unknown> = { ...form };
+
+  if (requested.pickup_address && requested.pickup_address !== current.pickup_address) {
+    changes.pickup_address = requested.pickup_address;
+    previous.pickup_address = current.pickup_address;
+    next = { ...next, pickup_location: moveLocation(next.pickup_location, requested.pickup_address) };
+  }
+  if (requested.dropoff_address && requested.dropoff_address !== current.dropoff_address) {
+    changes.dropoff_address = requested.dropoff_address;
+    previous.dropoff_address = current.dropoff_address;
+    next = { ...next, dropoff_location: moveLocation(next.dropoff_location, requested.dropoff_address) };
+  }
+  if (requested.service_level && requested.service_level !== current.service_level) {
+    changes.service_level = requested.service_level;
+    previous.service_level = current.service_level;
+    next = { ...next, service: { ...(readRecord(next.service) ?? {}), service_level: requested.service_level } };
+  }
+  return { changes, previous, form_data: next };
+};
+
+// Prices the amendment as the difference between two quotes made with the same rules (the order's pricing version):
+// `baseQuote` for the order as it is and `quote` for prepareOrderAmendment's form. Only the changed fields move the
+// price, not rules published since. Works out the order's new price fields; tax is charged or refunded at the amended
+// order's place of supply.
+export const planOrderAmendment = (input: {
+  order: AmendableOrder;
+  by: AmendmentActor;
+  byUser?: string | null;
+  reason?: string | null;
+  prepared: ReturnType<typeof prepareOrderAmendment>;
+  baseQuote: Quote;
+  quote: Quote;
+  registrations?: TaxRegistrations;
+  profile?: TaxProfile | null;
+  now?: Date;
+}): AmendmentPlan => {
+  const form = readRecord(input.order.form_data) ?? {};
+  const discounts = readOrderDiscounts(form);
+  const price = Math.max(0, readNumber(input.order.price_before_tax));
+  const finalPrice = readNumber(input.order.final_price_before_tax);
+  const charged = finalPrice > 0 ? finalPrice : price;
+  const previousQuote = roundCents(input.baseQuote.price_before_tax);
+  const difference = Math.max(-charged, roundCents(input.quote.price_before_tax - previousQuote));
+
+  // The quote's distance replaces the one saved with the original estimate, so later re-pricing uses the new route.
+  const estimate = readRecord(input.prepared.form_data.costEstimate);
+  const amendedForm = applyQuoteToFormData(
+    estimate ? { ...input.prepared.form_data, costEstimate: { ...estimate, distance: input.quote.distance_km } } : input.prepared.form_data,
+    { ...input.quote, discounts }
+  );
+
+  const taxes = computeTax(
+    Math.abs(difference),
+    taxPlaceFromFormData(amendedForm, input.quote.route_area),
+    input.registrations ?? {},
+    input.profile ?? null
+  );
+  const sign = difference < 0 ? -1 : 1;
+
+  return {
+    amendment: {
+      id: makeAmendmentId(),
+      at: (input.now ?? new Date()).toISOString(),
+      by: input.by,
+      by_user: readText(input.byUser) || null,
+      reason: readText(input.reason).slice(0, 500) || null,
+      changes: input.prepared.changes,
+      previous: input.prepared.previous,
+      previous_quote: previousQuote,
+      new_quote: roundCents(input.quote.price_before_tax),
+      difference,
+      tax_lines: difference ? taxes.lines.filter((l) => l.amount > 0) : [],
+      tax: difference ? taxes.tax : 0,
+      total: roundCents(difference + sign * (difference ? taxes.tax : 0)),
+      status: difference > 0 ? 'balance_due' : difference < 0 ? 'refund_due' : 'no_difference',
+      settled_at: null,
+      payment_intent_id: null,
+      refund_id: null,
+    },
+    form_data: amendedForm,
+    price_before_tax: roundCents(Math.max(0, price + difference)),
+    final_price_before_tax: finalPrice > 0 ? roundCents(finalPrice + difference) : input.order.final_price_before_tax ?? null,
+  };
+};
+
+export const settleOrderAmendment = (
+  amendments: OrderAmendment[],
+  id: string,
+  settlement: { at: string; payment_intent_id?: string | null; refund_id?: string | null }
+): OrderAmendment[] =>
+  amendments.map((a) => {
+    if (a.id !== id) return a;
+    if (a.status === 'balance_due') return { ...a, status: 'paid', settled_at: settlement.at, payment_intent_id: settlement.payment_intent_id ?? null };
+    if (a.status === 'refund_due') return { ...a, status: 'refunded', settled_at: settlement.at, refund_id: settlement.refund_id ?? null };
+    return a;
+  });
+
+export const formatAmendmentChanges = (a: Pick<OrderAmendment, 'changes' | 'previous'>): string[] => {
+  const lines: string[] = [];
+  if (a.changes.pickup_address) lines.push(`Pickup: ${a.previous.pickup_address || '-'} → ${a.changes.pickup_address}`);
+  if (a.changes.dropoff_address) lines.push(`Drop-off: ${a.previous.dropoff_address || '-'} → ${a.changes.dropoff_address}`);
+  if (a.changes.service_level) {
+    lines.push(`Service level: ${getServiceLevelLabel(a.previous.service_level ?? 'standard')} → ${getServiceLevelLabel(a.changes.service_level)}`);
+  }
+  return lines;
+};
+
+export const formatAmendmentStatus = (status: AmendmentStatus) => {
+  if (status === 'balance_due') return 'Balance due';
+  if (status === 'paid') return 'Paid';
+  if (status === 'refund_due') return 'Refund due';
+  if (status === 'refunded') return 'Refunded';
+  return 'No price change';
+};
+
+export const formatAmendmentSummary = (a: OrderAmendment) => {
+  const amount = `$${Math.abs(a.total).toFixed(2)}`;
+  if (a.difference > 0) return `${a.status === 'paid' ? 'Charged' : 'Balance due'} ${amount} incl. tax`;
+  if (a.difference < 0) return `${a.status === 'refunded' ? 'Refunded' : 'Refund due'} ${amount} incl. tax`;
+  return 'No price change';
+};
+
+// Receipt for a top-up, or credit note for a refund, with the tax on the amount that changed hands.
+export const makeAmendmentReceipt = (input: { order_code: string; customer_email?: string | null; amendment: OrderAmendment; seller: ReceiptSeller }) => {
+  const a = input.amendment;
+  const refund = a.difference < 0;
+  return makeReceiptDocument({
+    kind: refund ? 'credit_note' : 'receipt',
+    title: refund ? 'Credit note — order change' : 'Receipt — order change',
+    issued_at: a.settled_at ?? a.at,
+    order_code: input.order_code,
+    customer_email: input.customer_email,
+    seller: input.seller,
+    items: [
+      {
+        description: refund ? 'Refund for the order change' : 'Order change',
+        details: [...formatAmendmentChanges(a), `Quoted before: $${a.previous_quote.toFixed(2)}`, `Quoted now: $${a.new_quote.toFixed(2)}`],
+        amount: Math.abs(a.difference),
+      },
+    ],
+    tax_lines: a.tax_lines,
+    notes: [a.reason ? `Reason: ${a.reason}` : null],
+    payment_reference: refund ? a.refund_id : a.payment_intent_id,
+  });
+};
@@ -0,0 +1,143 @@
+import { getActivePricingRules, getCancellationFee, type PricingRules } from '../pricing/pricingTable';
+import type { TaxLine } from '../pricing/taxes';
+import { normalizeOrderStage, type OrderStage, type OrderState, type PaymentStatus } from './orderStateMachine';
+import { makeReceiptDocument, type ReceiptSeller } from './receipts';
+
+// Cancelling an order keeps its row and timeline: the stage becomes cancelled and orders.cancellation records who
+// cancelled it, why, the fee kept and what was refunded. A paid order is refunded against its Stripe payment
+// (cancel-order) less the cancellation fee for the stage it was in; an unpaid one is only closed.
+
+export type CancellationActor = 'customer' | 'staff';
+
+export type OrderCancellation = {
+  at: string;
+  by: CancellationActor;
+  by_user: string | null;
+  reason: string | null;
+  // The stage the order was in; the fee depends on it.
+  stage: OrderStage;
+  amount_paid: number;
+  fee: number;
+  refund: number;
+  // Stripe refund id; null when nothing was refunded or for local orders.
+  refund_id: string | null;
+};
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+// Customers can cancel until the vehicle is picked up; after that only staff can, and the later fee applies.
+export const canCancelOrder = (order: OrderState, actor: CancellationActor): { ok: true } | { ok: false; error: string } => {
+  const stage = normalizeOrderStage(order.order_stage);
+  if (stage === 'cancelled') return { ok: false, error: 'This order is already cancelled.' };
+  if (stage === 'order_completed' || order.status === 'Delivered') return { ok: false, error: 'A delivered order cannot be cancelled.' };
+  if (actor === 'customer' && (stage === 'order_dispatched' || order.status !== 'Scheduled')) {
+    return { ok: false, error: 'The vehicle has already been picked up. Please contact us to cancel this order.' };
+  }
+  return { ok: true };
+};
+
+export const computeCancellationRefund = (
+  stage: OrderStage,
+  amountPaid: number,
+  rules: PricingRules = getActivePricingRules()
+): { fee: number; refund: number } => {
+  const paid = Number.isFinite(amountPaid) && amountPaid > 0 ? roundCents(amountPaid) : 0;
+  if (!paid) return { fee: 0, refund: 0 };
+  const { percent, flat } = getCancellationFee(stage === 'order_dispatched' ? 'order_dispatched' : 'pending_payment', rules);
+  const fee = Math.min(paid, roundCents((paid * percent) / 100 + flat));
+  return { fee, refund: roundCents(paid - fee) };
+};
+
+export const getPaymentStatusAfterRefund = (current: PaymentStatus, amountPaid: number, refund: number): PaymentStatus => {
+  // Nothing was charged for an order billed to an account; cancelling takes it off the next statement.
+  if (current === 'invoiced') return 'unpaid';
+  if (!(refund > 0)) return current;
+  return refund >= amountPaid ? 'refunded' : 'partially_refunded';
+};
+
+export const makeOrderCancellation = (input: {
+  order: OrderState;
+  by: CancellationActor;
+  byUser?: string | null;
+  reason?: string | null;
+  amountPaid: number;
+  refundId?: string | null;
+  rules?: PricingRules;
+  now?: Date;
+}): OrderCancellation => {
+  const stage = normalizeOrderStage(input.order.order_stage);
+  const paid = Number.isFinite(input.amountPaid) && input.amountPaid > 0 ? roundCents(input.amountPaid) : 0;
+  return {
+    at: (input.now ?? new Date()).toISOString(),
+    by: input.by,
+    by_user: String(input.byUser ?? '').trim() || null,
+    reason: String(input.reason ?? '').trim() || null,
+    stage,
+    amount_paid: paid,
+    ...computeCancellationRefund(stage, paid, input.rules),
+    refund_id: String(input.refundId ?? '').trim() || null,
+  };
+};
+
+export const readOrderCancellation = (raw: unknown): OrderCancellation | null => {
+  const r = readRecord(raw);
+  if (!r) return null;
+  const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+  return {
+    at: String(r.at ?? ''),
+    by: r.by === 'staff' ? 'staff' : 'customer',
+    by_user: typeof r.by_user === 'string' && r.by_user ? r.by_user : null,
+    reason: typeof r.reason === 'string' && r.reason.trim() ? r.reason.trim() : null,
+    stage: normalizeOrderStage(r.stage),
+    amount_paid: num(r.amount_paid),
+    fee: num(r.fee),
+    refund: num(r.refund),
+    refund_id: typeof r.refund_id === 'string' && r.refund_id ? r.refund_id : null,
+  };
+};
+
+export const formatCancellationSummary = (c: OrderCancellation) =>
+  c.amount_paid > 0
+    ? `Refund $${c.refund.toFixed(2)}${c.fee > 0 ? ` (cancellation fee $${c.fee.toFixed(2)})` : ''}`
+    : 'Nothing was charged';
+
+// The tax included in a refund: the refund is tax-inclusive, so each tax is its rate's share of it. Pass the lines
+// of the order's tax breakdown (computeTax); exempt lines have a 0 rate and drop out.
+export const getRefundTaxLines = (lines: TaxLine[], refund: number): TaxLine[] => {
+  const rate = lines.reduce((sum, l) => sum + l.rate, 0);
+  return lines.filter((l) => l.rate > 0).map((l) => ({ ...l, amount: roundCents((refund * l.rate) / (1 + rate)) }));
+};
+
+export const makeCancellationCreditNote = (input: {
+  order_code: string;
+  customer_email?: string | null;
+  cancellation: OrderCancellation;
+  // Tax lines of the original charge; the tax included in the refund is credited.
+  tax_lines?: TaxLine[];
+  seller: ReceiptSeller;
+}) => {
+  const c = input.cancellation;
+  const taxLines = c.refund > 0 ? getRefundTaxLines(input.tax_lines ?? [], c.refund) : [];
+  const refundTax = taxLines.reduce((sum, l) => sum + l.amount, 0);
+  return makeReceiptDocument({
+    kind: 'credit_note',
+    title: 'Credit note — order cancellation',
+    issued_at: c.at,
+    order_code: input.order_code,
+    customer_email: input.customer_email,
+    seller: input.seller,
+    items: [
+      {
+        description: 'Refund for the cancelled order',
+        details: [`Amount paid: $${c.amount_paid.toFixed(2)}`, `Cancellation fee: $${c.fee.toFixed(2)}`],
+        amount: roundCents(c.refund - refundTax),
+      },
+    ],
+    tax_lines: taxLines,
+    notes: [`Cancelled by: ${c.by === 'staff' ? 'EasyDrive' : 'customer'}`, c.reason ? `Reason: ${c.reason}` : null],
+    payment_reference: c.refund_id,
+  });
+};
@@ -0,0 +1,144 @@
+import type { DepositRule } from '../pricing/pricingTable';
+import type { TaxLine } from '../pricing/taxes';
+import { getRefundTaxLines } from './cancellation';
+import { makeReceiptDocument, type ReceiptSeller } from './receipts';
+
+// Orders on a route with a deposit rule (pricing deposit_rules) are charged part of their total at checkout; the
+// order is then paid and moves forward as usual, and orders.deposit records what is still owed. When staff mark it
+// Delivered the balance is charged off-session to the card saved at checkout (charge-balance). If the bank declines or
+// asks for 3-D Secure, the customer pays the balance through Checkout from their order page instead.
+
+export type DepositBalanceStatus = 'due' | 'paid' | 'failed';
+
+export type OrderDeposit = {
+  // The rule the deposit was taken with.
+  percent: number;
+  flat: number;
+  // Amounts include tax: the order total, the deposit charged at checkout and the balance owed at delivery.
+  total: number;
+  deposit: number;
+  balance: number;
+  // Tax lines of the whole order; each payment includes its share of them.
+  tax_lines: TaxLine[];
+  paid_at: string;
+  payment_intent_id: string | null;
+  balance_status: DepositBalanceStatus;
+  balance_paid_at: string | null;
+  balance_payment_intent_id: string | null;
+  // Why the last attempt to charge the balance failed (the bank's message).
+  balance_error: string | null;
+};
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+const readText = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+// What is charged at checkout for an order of `total` (tax included). 0 means the order is paid in full: there is no
+// rule, or the deposit would cover the whole total.
+export const getDepositAmount = (total: number, rule: Pick<DepositRule, 'percent' | 'flat'> | null): number => {
+  if (!rule || !(total > 0)) return 0;
+  const deposit = roundCents((total * rule.percent) / 100 + rule.flat);
+  return deposit > 0 && deposit < total ? deposit : 0;
+};
+
+export const makeOrderDeposit = (input: {
+  rule: Pick<DepositRule, 'percent' | 'flat'>;
+  total: number;
+  deposit: number;
+  taxLines: TaxLine[];
+  paidAt: string;
+  paymentIntentId?: string | null;
+}): OrderDeposit => {
+  const total = roundCents(input.total);
+  const deposit = Math.min(total, roundCents(input.deposit));
+  return {
+    percent: input.rule.percent,
+    flat: input.rule.flat,
+    total,
+    deposit,
+    balance: roundCents(total - deposit),
+    tax_lines: input.taxLines,
+    paid_at: input.paidAt,
+    payment_intent_id: String(input.paymentIntentId ?? '').trim() || null,
+    balance_status: 'due',
+    balance_paid_at: null,
+    balance_payment_intent_id: null,
+    balance_error: null,
+  };
+};
+
+export const readOrderDeposit = (raw: unknown): OrderDeposit | null => {
+  const r = readRecord(raw);
+  if (!r || !(num(r.deposit) > 0)) return null;
+  return {
+    percent: num(r.percent),
+    flat: num(r.flat),
+    total: num(r.total),
+    deposit: num(r.deposit),
+    balance: num(r.balance),
+    tax_lines: Array.isArray(r.tax_lines) ? (r.tax_lines as TaxLine[]) : [],
+    paid_at: String(r.paid_at ?? ''),
+    payment_intent_id: readText(r.payment_intent_id),
+    balance_status: r.balance_status === 'paid' ? 'paid' : r.balance_status === 'failed' ? 'failed' : 'due',
+    balance_paid_at: readText(r.balance_paid_at),
+    balance_payment_intent_id: readText(r.balance_payment_intent_id),
+    balance_error: readText(r.balance_error),
+  };
+};
+
+// The balance still owed on the order; 0 once it is paid (or when the order was paid in full).
+export const getDepositBalanceDue = (deposit: OrderDeposit | null) =>
+  deposit && deposit.balance_status !== 'paid' && deposit.balance > 0 ? deposit.balance : 0;
+
+export const settleDepositBalance = (deposit: OrderDeposit, input: { at: string; payment_intent_id?: string | null }): OrderDeposit => ({
+  ...deposit,
+  balance_status: 'paid',
+  balance_paid_at: input.at,
+  balance_payment_intent_id: String(input.payment_intent_id ?? '').trim() || null,
+  balance_error: null,
+});
+
+export const failDepositBalance = (deposit: OrderDeposit, error: string): OrderDeposit => ({
+  ...deposit,
+  balance_status: 'failed',
+  balance_error: error.trim() || 'The card was declined.',
+});
+
+export const formatDepositSummary = (deposit: OrderDeposit) =>
+  deposit.balance_status === 'paid'
+    ? `Deposit $${deposit.deposit.toFixed(2)} and balance $${deposit.balance.toFixed(2)} paid`
+    : `Deposit $${deposit.deposit.toFixed(2)} paid — balance $${deposit.balance.toFixed(2)} due at delivery`;
+
+// Added to the order's receipt under its total.
+export const formatDepositReceiptLines = (deposit: OrderDeposit) => [
+  `Deposit paid: $${deposit.deposit.toFixed(2)}`,
+  `Balance due at delivery: $${deposit.balance.toFixed(2)} (charged to the card on file)`,
+];
+
+// Receipt for the balance charged at delivery, with both payments and the tax included in the balance.
+export const makeBalanceReceipt = (input: { order_code: string; customer_email?: string | null; deposit: OrderDeposit; seller: ReceiptSeller }) => {
+  const d = input.deposit;
+  const taxLines = getRefundTaxLines(d.tax_lines, d.balance);
+  const balanceTax = taxLines.reduce((sum, l) => sum + l.amount, 0);
+  return makeReceiptDocument({
+    title: 'Receipt — balance at delivery',
+    issued_at: d.balance_paid_at ?? new Date().toISOString(),
+    order_code: input.order_code,
+    customer_email: input.customer_email,
+    seller: input.seller,
+    items: [
+      {
+        description: 'Balance at delivery',
+        details: [`Order total: $${d.total.toFixed(2)}`, `Deposit paid ${d.paid_at.slice(0, 10)}: $${d.deposit.toFixed(2)}`],
+        amount: roundCents(d.balance - balanceTax),
+      },
+    ],
+    tax_lines: taxLines,
+    payment_reference: d.balance_payment_intent_id,
+  });
+};
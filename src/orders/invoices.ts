@@ -0,0 +1,205 @@
+import { getAccessorialsTotal, getUnpaidAccessorials, readOrderAccessorials } from '../pricing/accessorials';
+import { computeTax, taxPlaceFromFormData, type TaxLine, type TaxProfile, type TaxRegistrations } from '../pricing/taxes';
+import { makeReceiptDocument, type ReceiptSeller } from './receipts';
+
+// Invoice billing for dealer accounts. An admin puts an account on invoice terms (billing_profiles.payment_terms and
+// net_terms_days); its orders are then placed on account (create-checkout-session with `payment_method: 'invoice'`)
+// instead of going through Checkout, and move forward like paid orders with payment_status 'invoiced'. Each month
+// manage-invoices groups an account's delivered orders that are not on a statement yet into one invoice, with the tax
+// worked out per order. The orders become paid when staff mark the invoice paid.
+
+export type PaymentTerms = 'card' | 'invoice';
+
+export type BillingTerms = {
+  payment_terms: PaymentTerms;
+  // Days after the statement date the invoice is due.
+  net_terms_days: number;
+};
+
+export const DEFAULT_NET_TERMS_DAYS = 30;
+export const MAX_NET_TERMS_DAYS = 120;
+
+// Stored status is open or paid; an open invoice past its due date reads as overdue.
+export type InvoiceStatus = 'open' | 'paid' | 'overdue';
+
+export type InvoiceLine = {
+  order_id: string;
+  order_code: string;
+  delivered_at: string;
+  route: string;
+  subtotal: number;
+  tax_lines: TaxLine[];
+  tax: number;
+  total: number;
+  // Accessorials billed on this line; they are marked paid with the invoice.
+  accessorial_ids: string[];
+};
+
+export type Invoice = {
+  id: string;
+  user_id: string;
+  customer_email: string | null;
+  // Statement month, YYYY-MM.
+  period: string;
+  issued_at: string;
+  due_at: string;
+  status: 'open' | 'paid';
+  subtotal: number;
+  tax: number;
+  total: number;
+  lines: InvoiceLine[];
+  paid_at: string | null;
+  paid_reference: string | null;
+};
+
+// The order columns a statement line is built from.
+export type InvoiceableOrder = {
+  id: string;
+  order_code: string;
+  route_area?: string | null;
+  price_before_tax?: number | null;
+  final_price_before_tax?: number | null;
+  accessorials?: unknown;
+  form_data?: unknown;
+};
+
+export const INVOICE_FIELDS =
+  'id, user_id, customer_email, period, issued_at, due_at, status, subtotal, tax, total, lines, paid_at, paid_reference';
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+export const isValidNetTermsDays = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0 && (v as number) <= MAX_NET_TERMS_DAYS;
+
+// Reads the terms columns of a billing_profiles row; accounts without a row pay by card.
+export const readBillingTerms = (row: unknown): BillingTerms => {
+  const r = readRecord(row);
+  const days = Number(r?.net_terms_days);
+  return {
+    payment_terms: r?.payment_terms === 'invoice' ? 'invoice' : 'card',
+    net_terms_days: isValidNetTermsDays(days) ? days : DEFAULT_NET_TERMS_DAYS,
+  };
+};
+
+export const formatBillingTerms = (terms: BillingTerms) =>
+  terms.payment_terms === 'invoice' ? `Invoice, net ${terms.net_terms_days}` : 'Card';
+
+export const isStatementPeriod = (v: unknown): v is string => typeof v === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+
+// The statement month before `now`, which is the one issued at the start of a month.
+export const getPreviousStatementPeriod = (now: Date = new Date()) => {
+  const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+// Orders delivered before this instant (the first day of the next month, UTC) are billed on the period's statement.
+export const getStatementPeriodEnd = (period: string) => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1)).toISOString();
+};
+
+export const formatStatementPeriod = (period: string) => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-CA', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+export const getInvoiceDueDate = (issuedAt: string, netTermsDays: number) =>
+  new Date(new Date(issuedAt).getTime() + netTermsDays * 24 * 60 * 60 * 1000).toISOString();
+
+export const getInvoiceStatus = (invoice: Pick<Invoice, 'status' | 'due_at'>, now: Date = new Date()): InvoiceStatus => {
+  if (invoice.status === 'paid') return 'paid';
+  const due = new Date(invoice.due_at).getTime();
+  return Number.isFinite(due) && due < now.getTime() ? 'overdue' : 'open';
+};
+
+export const formatInvoiceStatus = (status: InvoiceStatus) => (status === 'paid' ? 'Paid' : status === 'overdue' ? 'Overdue' : 'Open');
+
+// One statement line per delivered order: the agreed price (an approved offer, or the quote) and the accessorials not
+// paid yet, taxed at the order's place of supply.
+export const makeInvoiceLine = (input: {
+  order: InvoiceableOrder;
+  deliveredAt: string;
+  registrations?: TaxRegistrations;
+  profile?: TaxProfile | null;
+}): InvoiceLine => {
+  const { order } = input;
+  const offer = num(order.final_price_before_tax);
+  const price = offer > 0 ? offer : num(order.price_before_tax);
+  const accessorials = getUnpaidAccessorials(readOrderAccessorials(order.accessorials));
+  const subtotal = roundCents(Math.max(0, price) + getAccessorialsTotal(accessorials));
+  const taxes = computeTax(subtotal, taxPlaceFromFormData(order.form_data, order.route_area), input.registrations ?? {}, input.profile ?? null);
+  return {
+    order_id: order.id,
+    order_code: order.order_code,
+    delivered_at: input.deliveredAt,
+    route: String(order.route_area ?? '').trim(),
+    subtotal,
+    tax_lines: taxes.lines,
+    tax: taxes.tax,
+    total: roundCents(subtotal + taxes.tax),
+    accessorial_ids: accessorials.map((a) => a.id),
+  };
+};
+
+export const summarizeInvoiceLines = (lines: InvoiceLine[]) => {
+  const subtotal = roundCents(lines.reduce((sum, l) => sum + l.subtotal, 0));
+  const tax = roundCents(lines.reduce((sum, l) => sum + l.tax, 0));
+  return { subtotal, tax, total: roundCents(subtotal + tax) };
+};
+
+const readInvoiceLine = (raw: unknown): InvoiceLine | null => {
+  const r = readRecord(raw);
+  if (!r || typeof r.order_id !== 'string' || !r.order_id) return null;
+  return {
+    order_id: r.order_id,
+    order_code: String(r.order_code ?? ''),
+    delivered_at: String(r.delivered_at ?? ''),
+    route: String(r.route ?? ''),
+    subtotal: num(r.subtotal),
+    tax_lines: Array.isArray(r.tax_lines) ? (r.tax_lines as TaxLine[]) : [],
+    tax: num(r.tax),
+    total: num(r.total),
+    accessorial_ids: Array.isArray(r.accessorial_ids) ? r.accessorial_ids.filter((id): id is string => typeof id === 'string') : [],
+  };
+};
+
+export const readInvoice = (raw: unknown): Invoice | null => {
+  const r = readRecord(raw);
+  if (!r || typeof r.id !== 'string' || !r.id) return null;
+  return {
+    id: r.id,
+    user_id: String(r.user_id ?? ''),
+    customer_email: typeof r.customer_email === 'string' && r.customer_email ? r.customer_email : null,
+    period: String(r.period ?? ''),
+    issued_at: String(r.issued_at ?? ''),
+    due_at: String(r.due_at ?? ''),
+    status: r.status === 'paid' ? 'paid' : 'open',
+    subtotal: num(r.subtotal),
+    tax: num(r.tax),
+    total: num(r.total),
+    lines: (Array.isArray(r.lines) ? r.lines : []).map(readInvoiceLine).filter((l): l is InvoiceLine => l !== null),
+    paid_at: typeof r.paid_at === 'string' && r.paid_at ? r.paid_at : null,
+    paid_reference: typeof r.paid_reference === 'string' && r.paid_reference ? r.paid_reference : null,
+  };
+};
+
+// Receipt for a paid statement: one item per order, with the tax of every order added up per tax.
+export const makeStatementReceipt = (invoice: Invoice, seller: ReceiptSeller) =>
+  makeReceiptDocument({
+    title: `Receipt — statement ${invoice.period}`,
+    issued_at: invoice.paid_at ?? invoice.issued_at,
+    customer_email: invoice.customer_email,
+    seller,
+    items: invoice.lines.map((l) => ({
+      description: `Order ${l.order_code}${l.route ? ` — ${l.route}` : ''}`,
+      details: l.delivered_at ? [`Delivered ${l.delivered_at.slice(0, 10)}`] : [],
+      amount: l.subtotal,
+    })),
+    tax_lines: invoice.lines.flatMap((l) => l.tax_lines),
+    notes: [`Statement issued: ${invoice.issued_at.slice(0, 10)}`],
+    payment_reference: invoice.paid_reference,
+  });
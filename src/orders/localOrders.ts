@@ -1,10 +1,52 @@
-export type OrderStatus =
-  | 'Scheduled'
-  | 'Picked Up'
-  | 'In Transit'
-  | 'Delayed'
-  | 'Out for Delivery'
-  | 'Delivered';
+import { getUnpaidAccessorials, markAccessorialsPaid, readOrderAccessorials, type OrderAccessorial } from '../pricing/accessorials';
+import { getLocalPricingRulesVersion } from '../pricing/pricingRules';
+import { getActivePricingRules, getFulfillmentDaysForRoute, type ServiceLevel, type ServiceType, type VehicleType } from '../pricing/pricingTable';
+import {
+  applyQuoteToFormData,
+  computeQuote,
+  getQuoteExpiresAt,
+  quoteRequestFromFormData,
+  readOrderServiceLevel,
+  readSavedQuoteDistances,
+} from '../pricing/quotes';
+import { priceQuoteRequest } from '../pricing/quoteRouting';
+import {
+  computeTax,
+  readTaxRegistrations,
+  taxPlaceFromFormData,
+  type ProvinceCode,
+  type TaxExemptionType,
+  type TaxLine,
+  type TaxPlaceInput,
+  type TaxProfile,
+} from '../pricing/taxes';
+import {
+  canAmendOrder,
+  canPayOrderAmendment,
+  formatAmendmentChanges,
+  formatAmendmentSummary,
+  makeAmendmentReceipt,
+  planOrderAmendment,
+  prepareOrderAmendment,
+  readOrderAmendments,
+  settleOrderAmendment,
+  type AmendmentActor,
+  type AmendmentChanges,
+  type OrderAmendment,
+} from './amendments';
+import {
+  canCancelOrder,
+  formatCancellationSummary,
+  getPaymentStatusAfterRefund,
+  makeCancellationCreditNote,
+  makeOrderCancellation,
+  type CancellationActor,
+  type OrderCancellation,
+} from './cancellation';
+import { getStageAfterPayment, isPaymentStatus, planStageChange, planStatusChange, type OrderStage, type OrderStatus, type PaymentStatus } from './orderStateMachine';
+import { formatReceiptText, readReceiptSeller } from './receipts';
+
+export type { OrderStatus };
 
 export type OrderStatusEvent = {
   status: OrderStatus;
@@ -25,11 +67,16 @@ export type OrderTotals = {
   tax: number;
   total: number;
   tax_note: string;
+  // Place-of-supply province and one line per tax (GST/HST/PST/QST); missing on orders saved before they were tracked.
+  tax_province?: ProvinceCode;
+  tax_lines?: TaxLine[];
+  // Approved exemption from the customer's billing profile, if one applied.
+  tax_exemption?: TaxExemptionType | null;
 };
 
-export type LocalPaymentStatus = 'unpaid' | 'pending' | 'paid' | 'failed';
+export type LocalPaymentStatus = PaymentStatus;
 
-export type LocalOrderStage = 'draft' | 'in_negotiation' | 'pending_payment' | 'order_dispatched' | 'order_completed';
+export type LocalOrderStage = OrderStage;
 
 export type LocalOrderDocument = {
   id: string;
@@ -37,6 +84,8 @@ export type LocalOrderDocument = {
   mime: string;
   size: number;
   kind: 'required' | 'optional' | 'unknown';
+  // Set when the document belongs to one vehicle of a multi-vehicle order.
+  vehicle_id?: string;
   storage?: {
     bucket: string;
     path: string;
@@ -48,26 +97,35 @@ export type LocalOrder = {
   created_at: string;
   updated_at: string;
   order_stage?: LocalOrderStage;
-  service_type: 'pickup_one_way' | 'delivery_one_way';
-  vehicle_type: 'standard';
+  service_type: ServiceType;
+  // Orders saved before service levels have none; they are standard.
+  service_level?: ServiceLevel;
+  vehicle_type: VehicleType;
   route_area: string;
   fulfillment_days_min: number;
   fulfillment_days_max: number;
   price_before_tax?: number;
   final_price_before_tax?: number | null;
+  pricing_version?: number | null;
+  quote_expires_at?: string | null;
   totals: OrderTotals;
   customer?: OrderParty;
   dealer?: OrderParty;
   form_data?: unknown;
+  accessorials?: OrderAccessorial[];
   documents: LocalOrderDocument[];
   receipt_text?: string;
   status: OrderStatus;
   status_events: OrderStatusEvent[];
   notes?: string;
   payment_status?: LocalPaymentStatus;
+  cancellation?: OrderCancellation;
+  amendments?: OrderAmendment[];
 };
 
 const STORAGE_KEY = 'ed_local_orders_v1';
+// ReceiptHistory's pending bucket; it is claimed into the signed-in user's receipts.
+const RECEIPTS_PENDING_KEY = 'ed_receipts_pending';
 const OFFERS_STORAGE_KEY = 'ed_local_order_offers_v1';
 
 export type LocalOrderOfferStatus = 'pending' | 'approved' | 'declined';
@@ -114,6 +172,8 @@ const normalizeTotals = (totals: OrderTotals | null | undefined): OrderTotals |
     tax: safeTax,
     total: safeTotal,
     tax_note: note,
+    ...(totals.tax_province ? { tax_province: totals.tax_province } : {}),
+    ...(Array.isArray(totals.tax_lines) ? { tax_lines: totals.tax_lines } : {}),
   };
 };
 
@@ -128,8 +188,7 @@ export const listLocalOrders = (): LocalOrder[] => {
       if (!normalizedTotals) return o;
 
       const ps = String((o as { payment_status?: unknown })?.payment_status ?? '').trim().toLowerCase();
-      const normalizedPaymentStatus: LocalPaymentStatus =
-        ps === 'paid' || ps === 'pending' || ps === 'failed' || ps === 'unpaid' ? (ps as LocalPaymentStatus) : 'unpaid';
+      const normalizedPaymentStatus: LocalPaymentStatus = isPaymentStatus(ps) ? ps : 'unpaid';
 
       const changed =
         o.totals.tax_rate !== 0 ||
@@ -223,6 +282,10 @@ export const createLocalOfferForOrder = (orderId: string, offerAmount: number, n
   const pending = getLocalPendingOfferForOrder(id);
   if (pending) throw new Error('You already have a pending offer for this order.');
 
+  const order = getLocalOrderById(id);
+  const plan = order ? planStageChange(order, 'in_negotiation') : null;
+  if (plan && !plan.ok) throw new Error(plan.error);
+
   const now = new Date().toISOString();
   const offer: LocalOrderOffer = {
     id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
@@ -238,9 +301,8 @@ export const createLocalOfferForOrder = (orderId: string, offerAmount: number, n
   const existing = readLocalOffers();
   writeLocalOffers([offer, ...existing]);
 
-  const order = getLocalOrderById(id);
-  if (order) {
-    const next: LocalOrder = { ...order, order_stage: 'in_negotiation', updated_at: now };
+  if (order && plan?.ok) {
+    const next: LocalOrder = { ...order, ...plan.patch, updated_at: now };
     upsertLocalOrder(next);
   }
 
@@ -284,6 +346,10 @@ export const resolveLocalOfferAsStaff = (
 
   const at = new Date().toISOString();
   const existing = all[idx];
+  const ord = getLocalOrderById(existing.order_id);
+  const plan = ord ? planStageChange(ord, action === 'approved' ? 'pending_payment' : 'draft') : null;
+  if (plan && !plan.ok) throw new Error(plan.error);
+
   const updated: LocalOrderOffer = {
     ...existing,
     status: action === 'approved' ? 'approved' : 'declined',
@@ -294,12 +360,11 @@ export const resolveLocalOfferAsStaff = (
   nextOffers[idx] = updated;
   writeLocalOffers(nextOffers);
 
-  const ord = getLocalOrderById(existing.order_id);
-  if (ord) {
+  if (ord && plan?.ok) {
     const nextOrder: LocalOrder = {
       ...ord,
+      ...plan.patch,
       updated_at: at,
-      order_stage: action === 'approved' ? 'pending_payment' : 'draft',
       final_price_before_tax: action === 'approved' ? Number(existing.offer_amount) : null,
       status_events: [
         {
@@ -325,20 +390,45 @@ export const upsertLocalOrder = (order: LocalOrder) => {
   writeLocalOrders(next);
 };
 
+// Throws with the reason when the state machine refuses the change.
 export const updateLocalOrderStatus = (id: string, status: OrderStatus, note?: string) => {
   const existing = getLocalOrderById(id);
   if (!existing) return null;
+  const plan = planStatusChange(existing, status);
+  if (!plan.ok) throw new Error(plan.error);
   const at = new Date().toISOString();
   const next: LocalOrder = {
     ...existing,
+    ...plan.patch,
     updated_at: at,
-    status,
     status_events: [{ status, at, note }, ...(existing.status_events ?? [])],
   };
   upsertLocalOrder(next);
   return next;
 };
 
+export const updateLocalOrderFormData = (id: string, form_data: unknown) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) return null;
+  const next: LocalOrder = { ...existing, updated_at: new Date().toISOString(), form_data };
+  upsertLocalOrder(next);
+  return next;
+};
+
+export const updateLocalOrderAccessorials = (id: string, accessorials: OrderAccessorial[]) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) return null;
+  const next: LocalOrder = { ...existing, updated_at: new Date().toISOString(), accessorials };
+  upsertLocalOrder(next);
+  return next;
+};
+
+// Like the Stripe webhook: a payment covers every accessorial that was unpaid when it was made.
+const payLocalAccessorials = (order: LocalOrder, at: string) => {
+  const accessorials = readOrderAccessorials(order.accessorials);
+  return markAccessorialsPaid(accessorials, getUnpaidAccessorials(accessorials).map((a) => a.id), at);
+};
+
 export const updateLocalOrderPaymentStatus = (id: string, payment_status: LocalPaymentStatus, note?: string) => {
   const existing = getLocalOrderById(id);
   if (!existing) return null;
@@ -347,12 +437,202 @@ export const updateLocalOrderPaymentStatus = (id: string, payment_status: LocalP
     ...existing,
     updated_at: at,
     payment_status,
+    order_stage: payment_status === 'paid' ? getStageAfterPayment(existing.order_stage) : existing.order_stage,
+    accessorials: payment_status === 'paid' ? payLocalAccessorials(existing, at) : existing.accessorials,
     status_events: [{ status: existing.status, at, note }, ...(existing.status_events ?? [])],
   };
   upsertLocalOrder(next);
   return next;
 };
 
+// Local stand-in for create-accessorials-checkout: the extra charges on a paid order are marked paid.
+export const payLocalOrderAccessorials = (id: string) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) return null;
+  const at = new Date().toISOString();
+  const next: LocalOrder = {
+    ...existing,
+    updated_at: at,
+    accessorials: payLocalAccessorials(existing, at),
+    status_events: [{ status: existing.status, at, note: 'Extra charges paid' }, ...(existing.status_events ?? [])],
+  };
+  upsertLocalOrder(next);
+  return next;
+};
+
+const addLocalPendingReceipt = (text: string, createdAt: string) => {
+  try {
+    const raw = localStorage.getItem(RECEIPTS_PENDING_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    const existing = Array.isArray(parsed) ? parsed : [];
+    const entry = { id: `${Date.now()}_${Math.random().toString(36).slice(2)}`, createdAt, text };
+    localStorage.setItem(RECEIPTS_PENDING_KEY, JSON.stringify([entry, ...existing]));
+  } catch {
+    // ignore
+  }
+};
+
+// Local receipts have no invoice number: only the functions issue numbered ones.
+const formatLocalAmendmentReceipt = (order: LocalOrder, amendment: OrderAmendment) =>
+  formatReceiptText(
+    makeAmendmentReceipt({ order_code: order.id, customer_email: order.customer?.email, amendment, seller: readReceiptSeller(import.meta.env) })
+  );
+
+// Local stand-in for the cancel-order function: the paid total is "refunded" less the cancellation fee, and the credit
+// note goes to the local receipts. Throws with the reason when the order cannot be cancelled.
+export const cancelLocalOrder = (id: string, input: { by: CancellationActor; reason?: string | null }) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) return null;
+  const allowed = canCancelOrder(existing, input.by);
+  if (!allowed.ok) throw new Error(allowed.error);
+  const plan = planStageChange(existing, 'cancelled');
+  if (!plan.ok) throw new Error(plan.error);
+
+  const paymentStatus = existing.payment_status ?? 'unpaid';
+  const cancellation = makeOrderCancellation({
+    order: existing,
+    by: input.by,
+    reason: input.reason,
+    amountPaid: paymentStatus === 'paid' ? existing.totals.total : 0,
+  });
+  const at = cancellation.at;
+  const next: LocalOrder = {
+    ...existing,
+    ...plan.patch,
+    updated_at: at,
+    payment_status: getPaymentStatusAfterRefund(paymentStatus, cancellation.amount_paid, cancellation.refund),
+    cancellation,
+    status_events: [
+      {
+        status: existing.status,
+        at,
+        note: [`Order cancelled by ${input.by === 'staff' ? 'EasyDrive' : 'the customer'}`, cancellation.reason, formatCancellationSummary(cancellation)]
+          .filter(Boolean)
+          .join(' — '),
+      },
+      ...(existing.status_events ?? []),
+    ],
+  };
+  upsertLocalOrder(next);
+  if (cancellation.amount_paid > 0) {
+    addLocalPendingReceipt(
+      formatReceiptText(
+        makeCancellationCreditNote({
+          order_code: existing.id,
+          customer_email: existing.customer?.email,
+          cancellation,
+          tax_lines: existing.totals.tax_lines,
+          seller: readReceiptSeller(import.meta.env),
+        })
+      ),
+      at
+    );
+  }
+  return next;
+};
+
+// Local stand-in for amend-order's pricing: the order and the amended order are both quoted with the rules of the
+// order's pricing version (the active rules when that version is not saved locally).
+const planLocalAmendment = async (
+  existing: LocalOrder,
+  changes: AmendmentChanges,
+  input: { by: AmendmentActor; reason?: string | null }
+) => {
+  const allowed = canAmendOrder(existing, input.by);
+  if (!allowed.ok) throw new Error(allowed.error);
+  const prepared = prepareOrderAmendment(existing.form_data, changes);
+  if (!Object.keys(prepared.changes).length) throw new Error('Nothing to change.');
+  const rules = getLocalPricingRulesVersion(existing.pricing_version) ?? getActivePricingRules();
+  const base = await priceQuoteRequest(quoteRequestFromFormData(existing.form_data), rules);
+  if (!base.ok) throw new Error(base.error);
+  const priced = await priceQuoteRequest(quoteRequestFromFormData(prepared.form_data), rules);
+  if (!priced.ok) throw new Error(priced.error);
+  const plan = planOrderAmendment({
+    order: existing,
+    by: input.by,
+    reason: input.reason,
+    prepared,
+    baseQuote: base.quote,
+    quote: priced.quote,
+    registrations: readTaxRegistrations(import.meta.env),
+  });
+  return { plan, quote: priced.quote };
+};
+
+export const previewLocalOrderAmendment = async (id: string, changes: AmendmentChanges, by: AmendmentActor) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) throw new Error('Order not found');
+  return (await planLocalAmendment(existing, changes, { by })).plan.amendment;
+};
+
+// A refund is settled right away (with a credit note in the local receipts); a balance waits for payLocalOrderAmendment.
+export const amendLocalOrder = async (id: string, changes: AmendmentChanges, input: { by: AmendmentActor; reason?: string | null }) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) throw new Error('Order not found');
+  const { plan, quote } = await planLocalAmendment(existing, changes, input);
+  let amendment = plan.amendment;
+  if (amendment.status === 'refund_due') [amendment] = settleOrderAmendment([amendment], amendment.id, { at: amendment.at });
+
+  const at = amendment.at;
+  const charged = typeof plan.final_price_before_tax === 'number' && plan.final_price_before_tax > 0 ? plan.final_price_before_tax : plan.price_before_tax;
+  const next: LocalOrder = {
+    ...existing,
+    updated_at: at,
+    route_area: quote.route_area,
+    service_level: quote.service_level,
+    fulfillment_days_min: quote.sla_days_min,
+    fulfillment_days_max: quote.sla_days_max,
+    price_before_tax: plan.price_before_tax,
+    final_price_before_tax: plan.final_price_before_tax,
+    pricing_version: quote.pricing_version,
+    totals: computeTotals(charged, taxPlaceFromFormData(plan.form_data, quote.route_area)),
+    form_data: plan.form_data,
+    amendments: [...readOrderAmendments(existing.amendments), amendment],
+    status_events: [
+      {
+        status: existing.status,
+        at,
+        note: [
+          `Order changed by ${input.by === 'staff' ? 'EasyDrive' : 'the customer'}: ${formatAmendmentChanges(amendment).join('; ')}`,
+          amendment.reason,
+          formatAmendmentSummary(amendment),
+        ]
+          .filter(Boolean)
+          .join(' — '),
+      },
+      ...(existing.status_events ?? []),
+    ],
+  };
+  upsertLocalOrder(next);
+  if (amendment.status === 'refunded') {
+    addLocalPendingReceipt(formatLocalAmendmentReceipt(existing, amendment), at);
+  }
+  return amendment;
+};
+
+// Local stand-in for paying an amendment's balance (Checkout or the saved card).
+export const payLocalOrderAmendment = (id: string, amendmentId: string, input: { by: AmendmentActor }) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) return null;
+  const amendments = readOrderAmendments(existing.amendments);
+  const due = amendments.find((a) => a.id === amendmentId && a.status === 'balance_due');
+  if (!due) throw new Error('This change has no balance to pay.');
+  const payable = canPayOrderAmendment(existing, input.by);
+  if (!payable.ok) throw new Error(payable.error);
+  const at = new Date().toISOString();
+  const settled = settleOrderAmendment(amendments, amendmentId, { at });
+  const next: LocalOrder = {
+    ...existing,
+    updated_at: at,
+    amendments: settled,
+    status_events: [{ status: existing.status, at, note: `Order change paid: $${due.total.toFixed(2)}` }, ...(existing.status_events ?? [])],
+  };
+  upsertLocalOrder(next);
+  const paid = settled.find((a) => a.id === amendmentId);
+  if (paid) addLocalPendingReceipt(formatLocalAmendmentReceipt(existing, paid), at);
+  return next;
+};
+
 export const deleteLocalOrder = (id: string) => {
   const orderId = String(id ?? '').trim();
   if (!orderId) return;
@@ -374,6 +654,8 @@ export const createLocalDraftOrderFromQuote = (input: {
   service_type: LocalOrder['service_type'];
   vehicle_type: LocalOrder['vehicle_type'];
   price_before_tax: number;
+  // When the price was quoted; the validity window runs from here, not from when the draft was saved.
+  quoted_at?: string | null;
   form_data?: unknown;
   documents?: LocalOrderDocument[] | null;
 }) => {
@@ -382,7 +664,9 @@ export const createLocalDraftOrderFromQuote = (input: {
   const routeArea = String(input.route_area ?? '').trim();
   const subtotalRaw = Number(input.price_before_tax);
   const subtotal = Number.isFinite(subtotalRaw) && subtotalRaw >= 0 ? subtotalRaw : 0;
-  const totals = computeTotals(subtotal, routeArea);
+  const totals = computeTotals(subtotal, taxPlaceFromFormData(input.form_data, routeArea));
+  const level = readOrderServiceLevel(input.form_data);
+  const fulfillment = getFulfillmentDaysForRoute(routeArea, level.service_level);
 
   const order: LocalOrder = {
     id: orderId,
@@ -390,12 +674,15 @@ export const createLocalDraftOrderFromQuote = (input: {
     updated_at: now,
     order_stage: 'draft',
     service_type: input.service_type,
+    service_level: level.service_level,
     vehicle_type: input.vehicle_type,
     route_area: routeArea,
-    fulfillment_days_min: 0,
-    fulfillment_days_max: 0,
+    fulfillment_days_min: level.days_min ?? fulfillment.days_min,
+    fulfillment_days_max: level.days_max ?? fulfillment.days_max,
     price_before_tax: subtotal,
     final_price_before_tax: null,
+    pricing_version: getActivePricingRules().version,
+    quote_expires_at: getQuoteExpiresAt(input.quoted_at || now),
     totals,
     form_data: input.form_data ?? null,
     documents: Array.isArray(input.documents) ? input.documents : [],
@@ -408,22 +695,74 @@ export const createLocalDraftOrderFromQuote = (input: {
   return order;
 };
 
-export const computeTotals = (subtotal: number, routeArea: string): OrderTotals => {
+// Local stand-in for the refresh-quote function: re-prices with the active rules and the distance saved with the quote.
+export const refreshLocalOrderQuote = (id: string) => {
+  const existing = getLocalOrderById(id);
+  if (!existing) throw new Error('Order not found');
+  if (existing.payment_status === 'paid' || existing.payment_status === 'pending') throw new Error('This order has already been paid.');
+  const stage = existing.order_stage ?? 'pending_payment';
+  if (stage !== 'draft' && stage !== 'pending_payment') throw new Error('Only draft and unpaid orders can be re-quoted.');
+  if (typeof existing.final_price_before_tax === 'number' && existing.final_price_before_tax > 0) {
+    throw new Error('This order has an approved offer price, so it does not need a new quote.');
+  }
+
+  const form = existing.form_data && typeof existing.form_data === 'object' ? (existing.form_data as Record<string, unknown>) : {};
+  const quote = computeQuote(quoteRequestFromFormData(form), readSavedQuoteDistances(form));
+  if (!quote) throw new Error('Unable to price this route. Please start a new quote.');
+
+  const at = new Date().toISOString();
+  const previous = Number(existing.price_before_tax ?? existing.totals?.subtotal);
+  const changed = !Number.isFinite(previous) || Math.abs(previous - quote.price_before_tax) > 0.005;
+  const next: LocalOrder = {
+    ...existing,
+    updated_at: at,
+    route_area: quote.route_area,
+    service_level: quote.service_level,
+    vehicle_type: quote.vehicle_type,
+    fulfillment_days_min: quote.sla_days_min,
+    fulfillment_days_max: quote.sla_days_max,
+    price_before_tax: quote.price_before_tax,
+    pricing_version: quote.pricing_version,
+    quote_expires_at: getQuoteExpiresAt(at),
+    totals: computeTotals(quote.price_before_tax, taxPlaceFromFormData(form, quote.route_area)),
+    form_data: applyQuoteToFormData(form, quote),
+    status_events: [
+      {
+        status: existing.status,
+        at,
+        note: changed
+          ? `Quote refreshed: $${Number.isFinite(previous) ? previous.toFixed(2) : '-'} → $${quote.price_before_tax.toFixed(2)} before tax (local)`
+          : `Quote refreshed at $${quote.price_before_tax.toFixed(2)} before tax (local)`,
+      },
+      ...(existing.status_events ?? []),
+    ],
+  };
+  upsertLocalOrder(next);
+  return next;
+};
+
+// Accepts the order's pickup/drop-off (place of supply) or, for callers that only have it, the route label.
+// Pass the customer's tax profile to apply an approved exemption.
+export const computeTotals = (subtotal: number, place: TaxPlaceInput | string, profile: TaxProfile | null = null): OrderTotals => {
   const sub = Number(subtotal);
   const safeSubtotalRaw = Number.isFinite(sub) && sub >= 0 ? sub : 0;
   const safeSubtotal = Math.round(safeSubtotalRaw * 100) / 100;
-  const r = String(routeArea ?? '').trim().toLowerCase();
-  const isQc = r.includes('montreal') || r.includes('quebec');
-  const tax_rate = isQc ? 0.14975 : 0.13;
-  const tax_note = isQc ? 'QC (GST+QST)' : 'ON (HST)';
-  const tax = Math.round(safeSubtotal * tax_rate * 100) / 100;
-  const total = Math.round((safeSubtotal + tax) * 100) / 100;
+  const breakdown = computeTax(
+    safeSubtotal,
+    typeof place === 'string' ? { route_area: place } : place,
+    readTaxRegistrations(import.meta.env),
+    profile
+  );
+  const total = Math.round((safeSubtotal + breakdown.tax) * 100) / 100;
   return {
     currency: 'CAD',
     subtotal: safeSubtotal,
-    tax_rate,
-    tax,
+    tax_rate: breakdown.rate,
+    tax: breakdown.tax,
     total,
-    tax_note,
+    tax_note: breakdown.note,
+    tax_province: breakdown.province,
+    tax_lines: breakdown.lines,
+    tax_exemption: breakdown.exemption,
   };
 };
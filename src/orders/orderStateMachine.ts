@@ -0,0 +1,163 @@
+// Allowed order status and stage transitions, shared by the local and Supabase backends (and the Stripe webhook).
+// The orders_enforce_state_machine trigger in supabase/schema.sql applies the same rules to every write, so a direct
+// update cannot skip them; keep the two in step.
+//
+// The status is where the vehicle is (Scheduled → Picked Up → In Transit → Out for Delivery → Delivered, with Delayed
+// reachable from any step before delivery). The stage is where the order is commercially (draft → in_negotiation →
+// pending_payment → order_dispatched → order_completed). An order only moves past Scheduled once it is paid, or billed
+// to an account on invoice terms (src/orders/invoices.ts), and its stage follows the status: leaving Scheduled
+// dispatches it, Delivered completes it. Any stage before completion can be cancelled (src/orders/cancellation.ts); a
+// cancelled order keeps its row and timeline but no longer moves.
+
+export type OrderStatus = 'Scheduled' | 'Picked Up' | 'In Transit' | 'Delayed' | 'Out for Delivery' | 'Delivered';
+export type OrderStage = 'draft' | 'in_negotiation' | 'pending_payment' | 'order_dispatched' | 'order_completed' | 'cancelled';
+export type PaymentStatus = 'unpaid' | 'pending' | 'paid' | 'invoiced' | 'failed' | 'refunded' | 'partially_refunded';
+
+export const ORDER_STATUSES: OrderStatus[] = ['Scheduled', 'Picked Up', 'In Transit', 'Delayed', 'Out for Delivery', 'Delivered'];
+export const PAYMENT_STATUSES: PaymentStatus[] = ['unpaid', 'pending', 'paid', 'invoiced', 'failed', 'refunded', 'partially_refunded'];
+export const ORDER_STAGES: OrderStage[] = ['draft', 'in_negotiation', 'pending_payment', 'order_dispatched', 'order_completed', 'cancelled'];
+
+const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Scheduled: ['Picked Up', 'Delayed'],
+  'Picked Up': ['In Transit', 'Delayed'],
+  'In Transit': ['Out for Delivery', 'Delayed', 'Delivered'],
+  Delayed: ['Scheduled', 'Picked Up', 'In Transit', 'Out for Delivery', 'Delivered'],
+  'Out for Delivery': ['Delivered', 'Delayed'],
+  Delivered: [],
+};
+
+const STAGE_TRANSITIONS: Record<OrderStage, OrderStage[]> = {
+  draft: ['in_negotiation', 'pending_payment', 'cancelled'],
+  in_negotiation: ['draft', 'pending_payment', 'cancelled'],
+  pending_payment: ['draft', 'in_negotiation', 'order_dispatched', 'cancelled'],
+  order_dispatched: ['order_completed', 'cancelled'],
+  order_completed: [],
+  cancelled: [],
+};
+
+// A paid order cannot go back to being a draft or under negotiation; dispatch and completion need a paid order.
+const UNPAID_STAGES: OrderStage[] = ['draft', 'in_negotiation'];
+const PAID_STAGES: OrderStage[] = ['order_dispatched', 'order_completed'];
+
+export type OrderState = {
+  status: OrderStatus;
+  // Orders saved before stages were tracked have none; they are treated as awaiting payment.
+  order_stage?: OrderStage | null;
+  payment_status?: PaymentStatus | null;
+};
+
+export type OrderStatePatch = {
+  status?: OrderStatus;
+  order_stage?: OrderStage;
+};
+
+export type OrderTransitionResult = { ok: true; patch: OrderStatePatch } | { ok: false; error: string };
+
+export const isOrderStatus = (v: unknown): v is OrderStatus => ORDER_STATUSES.includes(v as OrderStatus);
+
+export const isOrderStage = (v: unknown): v is OrderStage => ORDER_STAGES.includes(v as OrderStage);
+
+export const isPaymentStatus = (v: unknown): v is PaymentStatus => PAYMENT_STATUSES.includes(v as PaymentStatus);
+
+export const normalizeOrderStage = (v: unknown): OrderStage => {
+  const s = String(v ?? '').trim();
+  return isOrderStage(s) ? s : 'pending_payment';
+};
+
+// Paid by card or bank debit. A partial refund (goodwill, a cheaper order change) leaves the rest of the payment on
+// the order, so it still counts as paid.
+export const isPaidPaymentStatus = (status: unknown) => status === 'paid' || status === 'partially_refunded';
+
+// Why a cancelled or refunded order takes no further payment (Checkout, the saved card, billing on account, extra
+// charges), or null when it still can.
+export const getClosedOrderError = (order: { order_stage?: unknown; payment_status?: unknown }): string | null => {
+  if (normalizeOrderStage(order.order_stage) === 'cancelled') return 'This order was cancelled.';
+  if (order.payment_status === 'refunded') return 'This order has been refunded.';
+  if (order.payment_status === 'partially_refunded') return 'This order has been partly refunded.';
+  return null;
+};
+
+// An invoiced order is paid on the account's monthly statement; it moves forward like a paid one.
+const isPaid = (order: OrderState) => isPaidPaymentStatus(order.payment_status) || order.payment_status === 'invoiced';
+
+// The stage an order's status implies, or null when the status leaves the stage as it is.
+const stageForStatus = (status: OrderStatus): OrderStage | null => {
+  if (status === 'Delivered') return 'order_completed';
+  if (status === 'Scheduled') return null;
+  return 'order_dispatched';
+};
+
+const checkStage = (order: OrderState, next: OrderStage): string | null => {
+  const current = normalizeOrderStage(order.order_stage);
+  if (current === next) return null;
+  if (!STAGE_TRANSITIONS[current].includes(next)) {
+    return `An order cannot move from ${formatOrderStage(current)} to ${formatOrderStage(next)}.`;
+  }
+  if (UNPAID_STAGES.includes(next) && isPaid(order)) return 'This order has already been paid.';
+  if (PAID_STAGES.includes(next) && !isPaid(order)) {
+    return `An order must be paid before it is ${next === 'order_completed' ? 'completed' : 'dispatched'}.`;
+  }
+  return null;
+};
+
+export const formatOrderStage = (stage: OrderStage) => {
+  if (stage === 'draft') return 'Draft';
+  if (stage === 'in_negotiation') return 'In negotiation';
+  if (stage === 'pending_payment') return 'Pending payment';
+  if (stage === 'order_dispatched') return 'Dispatched';
+  if (stage === 'cancelled') return 'Cancelled';
+  return 'Completed';
+};
+
+// Status updates with the same status are allowed: they only add a note to the timeline.
+export const planStatusChange = (order: OrderState, next: OrderStatus): OrderTransitionResult => {
+  if (!isOrderStatus(next)) return { ok: false, error: 'Unknown order status.' };
+  if (normalizeOrderStage(order.order_stage) === 'cancelled') return { ok: false, error: 'This order was cancelled.' };
+  if (order.status === next) return { ok: true, patch: {} };
+  if (!STATUS_TRANSITIONS[order.status]?.includes(next)) {
+    return { ok: false, error: `An order cannot move from ${order.status} to ${next}.` };
+  }
+  if (next !== 'Scheduled' && !isPaid(order)) {
+    return { ok: false, error: `This order is not paid yet, so it cannot be marked ${next}.` };
+  }
+
+  // The stage only moves forward here; the payment check above covers dispatch and completion.
+  const stage = stageForStatus(next);
+  const current = normalizeOrderStage(order.order_stage);
+  return {
+    ok: true,
+    patch: stage && current !== stage && current !== 'order_completed' ? { status: next, order_stage: stage } : { status: next },
+  };
+};
+
+export const planStageChange = (order: OrderState, next: OrderStage): OrderTransitionResult => {
+  if (!isOrderStage(next)) return { ok: false, error: 'Unknown order stage.' };
+  const error = checkStage(order, next);
+  if (error) return { ok: false, error };
+  return { ok: true, patch: normalizeOrderStage(order.order_stage) === next ? {} : { order_stage: next } };
+};
+
+// Staff can only delete an order nobody has paid for: a draft or one awaiting payment. Any other order is cancelled
+// (cancel-order), which keeps its refunds, credit notes and timeline. The orders_delete_staff policy checks the same.
+export const getOrderDeletionError = (order: OrderState): string | null => {
+  const stage = normalizeOrderStage(order.order_stage);
+  if (stage !== 'draft' && stage !== 'pending_payment') {
+    return 'Only drafts and orders awaiting payment can be deleted. Cancel this order instead.';
+  }
+  const payment = order.payment_status ?? 'unpaid';
+  if (payment !== 'unpaid' && payment !== 'failed') return 'A paid order cannot be deleted. Cancel it instead.';
+  return null;
+};
+
+// Statuses staff can pick for the order, its current one first.
+export const getAllowedStatuses = (order: OrderState): OrderStatus[] => [
+  order.status,
+  ...ORDER_STATUSES.filter((s) => s !== order.status && planStatusChange(order, s).ok),
+];
+
+// The stage a completed checkout leaves the order in: drafts and negotiated orders become awaiting payment, an order
+// already past payment (or cancelled) keeps its stage.
+export const getStageAfterPayment = (stage: unknown): OrderStage => {
+  const current = normalizeOrderStage(stage);
+  return current === 'draft' || current === 'in_negotiation' ? 'pending_payment' : current;
+};
@@ -0,0 +1,122 @@
+import type { TaxLine } from '../pricing/taxes';
+import { getRefundTaxLines } from './cancellation';
+import { makeReceiptDocument, type ReceiptSeller } from './receipts';
+
+// What Stripe reports about an order's payment after checkout, as recorded by stripe-webhook: refunds made outside
+// cancel-order and amend-order (from the Stripe dashboard) and disputes. Every event the webhook handles is also
+// recorded in the stripe_events table, so a retried delivery is not applied twice.
+
+// Refunds our own functions make carry this purpose in their metadata and are already on the order. stripe-webhook
+// refunds a second payment for an order that was already paid as 'duplicate'.
+export const OWN_REFUND_PURPOSES = ['cancellation', 'amendment', 'duplicate'];
+
+// A refund made from the Stripe dashboard (orders.stripe_refunds). Each one is recorded once, by its Stripe id,
+// whichever charge.refunded event reports it.
+export type OrderStripeRefund = {
+  id: string;
+  amount: number;
+  refunded_at: string;
+};
+
+export type OrderDispute = {
+  id: string;
+  amount: number;
+  reason: string;
+  // Stripe's dispute status (warning_needs_response, needs_response, under_review, won, lost, ...).
+  status: string;
+  created_at: string;
+  evidence_due_by: string | null;
+};
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+export const readOrderDispute = (raw: unknown): OrderDispute | null => {
+  const r = readRecord(raw);
+  if (!r || typeof r.id !== 'string' || !r.id) return null;
+  return {
+    id: r.id,
+    amount: Number.isFinite(Number(r.amount)) ? Number(r.amount) : 0,
+    reason: typeof r.reason === 'string' && r.reason ? r.reason : 'general',
+    status: typeof r.status === 'string' && r.status ? r.status : 'needs_response',
+    created_at: String(r.created_at ?? ''),
+    evidence_due_by: typeof r.evidence_due_by === 'string' && r.evidence_due_by ? r.evidence_due_by : null,
+  };
+};
+
+export const readOrderStripeRefunds = (raw: unknown): OrderStripeRefund[] =>
+  (Array.isArray(raw) ? raw : [])
+    .map(readRecord)
+    .filter((r): r is Record<string, unknown> => !!r && typeof r.id === 'string' && !!r.id)
+    .map((r) => ({
+      id: String(r.id),
+      amount: Number.isFinite(Number(r.amount)) ? Number(r.amount) : 0,
+      refunded_at: String(r.refunded_at ?? ''),
+    }));
+
+export const formatDisputeSummary = (d: OrderDispute) =>
+  `Payment disputed: $${d.amount.toFixed(2)} (${d.reason.replace(/_/g, ' ')})${
+    d.evidence_due_by ? ` — evidence due ${d.evidence_due_by.slice(0, 10)}` : ''
+  }`;
+
+// The card saved at the customer's last checkout (billing_profiles), charged off-session by create-checkout-session
+// when they choose to pay with it.
+export type SavedCard = {
+  brand: string;
+  last4: string;
+  exp_month: number | null;
+  exp_year: number | null;
+};
+
+const CARD_BRANDS: Record<string, string> = {
+  amex: 'American Express',
+  diners: 'Diners Club',
+  discover: 'Discover',
+  jcb: 'JCB',
+  mastercard: 'Mastercard',
+  unionpay: 'UnionPay',
+  visa: 'Visa',
+};
+
+// Null when there is no saved card or it has expired.
+export const readSavedCard = (raw: unknown, now: Date = new Date()): SavedCard | null => {
+  const r = readRecord(raw);
+  if (!r || r.has_saved_payment_method !== true) return null;
+  const brand = typeof r.card_brand === 'string' ? r.card_brand.trim() : '';
+  const last4 = typeof r.card_last4 === 'string' ? r.card_last4.trim() : '';
+  if (!brand || !last4) return null;
+  const expMonth = Number.isInteger(Number(r.card_exp_month)) && r.card_exp_month !== null ? Number(r.card_exp_month) : null;
+  const expYear = Number.isInteger(Number(r.card_exp_year)) && r.card_exp_year !== null ? Number(r.card_exp_year) : null;
+  if (expMonth && expYear && (expYear < now.getFullYear() || (expYear === now.getFullYear() && expMonth < now.getMonth() + 1))) {
+    return null;
+  }
+  return { brand, last4, exp_month: expMonth, exp_year: expYear };
+};
+
+export const formatSavedCard = (card: SavedCard) =>
+  `${CARD_BRANDS[card.brand.toLowerCase()] ?? card.brand.charAt(0).toUpperCase() + card.brand.slice(1)} •••• ${card.last4}`;
+
+export const makeRefundCreditNote = (input: {
+  order_code: string;
+  customer_email?: string | null;
+  at: string;
+  refund: number;
+  refund_id?: string | null;
+  // Tax lines of the original charge; the tax included in the refund is credited.
+  tax_lines?: TaxLine[];
+  seller: ReceiptSeller;
+}) => {
+  const taxLines = getRefundTaxLines(input.tax_lines ?? [], input.refund);
+  const refundTax = taxLines.reduce((sum, l) => sum + l.amount, 0);
+  return makeReceiptDocument({
+    kind: 'credit_note',
+    title: 'Credit note — refund',
+    issued_at: input.at,
+    order_code: input.order_code,
+    customer_email: input.customer_email,
+    seller: input.seller,
+    items: [{ description: 'Refund', details: [], amount: Math.round((input.refund - refundTax) * 100) / 100 }],
+    tax_lines: taxLines,
+    payment_reference: input.refund_id,
+  });
+};
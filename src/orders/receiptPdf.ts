@@ -0,0 +1,145 @@
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, renderPdf, wrapPdfText, type PdfPage, type PdfText } from '../lib/pdf';
+import { TAX_EXEMPTION_TYPES, type TaxRegistrations } from '../pricing/taxes';
+import { getInvoiceNumberLabel, type ReceiptDocument } from './receipts';
+
+// Lays receipts out as Letter pages for receipt-pdf. Numbered receipts print from their document; older ones only
+// have their text, which is printed as is.
+
+const MARGIN = 54;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const TOP = PDF_PAGE_HEIGHT - MARGIN;
+// Room kept at the bottom of each page for the footer.
+const BOTTOM = MARGIN + 24;
+const AMOUNT_COLUMN = 96;
+
+const formatAmount = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+
+const formatRegistrations = (registrations: TaxRegistrations) =>
+  [
+    registrations.GST ? `GST/HST no. ${registrations.GST}` : null,
+    registrations.QST ? `QST no. ${registrations.QST}` : null,
+    registrations.PST ? `PST no. ${registrations.PST}` : null,
+  ].filter((l): l is string => l !== null);
+
+// Writes top to bottom, starting a new page when the next block does not fit.
+const makeLayout = () => {
+  const pages: PdfPage[] = [{ texts: [], rules: [] }];
+  let y = TOP;
+  const page = () => pages[pages.length - 1];
+  const ensure = (height: number) => {
+    if (y - height >= BOTTOM) return;
+    pages.push({ texts: [], rules: [] });
+    y = TOP;
+  };
+  const text = (t: Omit<PdfText, 'y'>, lineHeight = t.size * 1.35) => {
+    ensure(lineHeight);
+    page().texts.push({ ...t, y: y - t.size });
+    y -= lineHeight;
+  };
+  const rule = () => {
+    ensure(8);
+    page().rules.push({ x1: MARGIN, y1: y - 4, x2: RIGHT, y2: y - 4 });
+    y -= 10;
+  };
+  const gap = (height: number) => {
+    y -= height;
+  };
+  const footer = (left: string) =>
+    pages.map((p, i) => {
+      p.texts.push({ text: left, x: MARGIN, y: MARGIN, size: 8, muted: true });
+      p.texts.push({ text: `Page ${i + 1} of ${pages.length}`, x: RIGHT, y: MARGIN, size: 8, muted: true, align: 'right' });
+      return p;
+    });
+  return { text, rule, gap, ensure, footer, getY: () => y, setY: (next: number) => (y = next), page };
+};
+
+export const renderReceiptPdf = (doc: ReceiptDocument, invoiceNumber: string | null) => {
+  const layout = makeLayout();
+  const isCredit = doc.kind === 'credit_note';
+  const descriptionWidth = RIGHT - MARGIN - AMOUNT_COLUMN;
+
+  // Seller on the left, what the document is on the right.
+  const top = layout.getY();
+  const seller = [
+    ...(doc.seller.address ? wrapPdfText(doc.seller.address, 9, 260) : []),
+    ...formatRegistrations(doc.seller.registrations),
+  ];
+  layout.text({ text: doc.seller.name, x: MARGIN, size: 14, font: 'bold' });
+  for (const line of seller) layout.text({ text: line, x: MARGIN, size: 9, muted: true });
+  const leftBottom = layout.getY();
+
+  layout.setY(top);
+  layout.text({ text: isCredit ? 'CREDIT NOTE' : 'INVOICE', x: RIGHT, size: 14, font: 'bold', align: 'right' });
+  if (invoiceNumber) layout.text({ text: `${getInvoiceNumberLabel(doc.kind)} ${invoiceNumber}`, x: RIGHT, size: 10, font: 'bold', align: 'right' });
+  layout.text({ text: `Date: ${doc.issued_at.slice(0, 10)}`, x: RIGHT, size: 9, align: 'right' });
+  if (doc.order_code) layout.text({ text: `Order: ${doc.order_code}`, x: RIGHT, size: 9, align: 'right' });
+  if (doc.payment_reference) {
+    layout.text({ text: `${isCredit ? 'Refund' : 'Payment'} ref.: ${doc.payment_reference}`, x: RIGHT, size: 9, align: 'right' });
+  }
+  layout.setY(Math.min(leftBottom, layout.getY()));
+  layout.gap(18);
+
+  layout.text({ text: 'Bill to', x: MARGIN, size: 9, font: 'bold' });
+  layout.text({ text: doc.customer_email ?? 'Customer', x: MARGIN, size: 10 });
+  for (const line of formatRegistrations(doc.customer_registrations)) layout.text({ text: line, x: MARGIN, size: 9, muted: true });
+  layout.gap(14);
+
+  layout.text({ text: doc.title, x: MARGIN, size: 11, font: 'bold' });
+  layout.gap(4);
+  layout.page().texts.push({ text: 'Amount', x: RIGHT, y: layout.getY() - 9, size: 9, font: 'bold', muted: true, align: 'right' });
+  layout.text({ text: 'Description', x: MARGIN, size: 9, font: 'bold', muted: true });
+  layout.rule();
+
+  for (const item of doc.items) {
+    const description = wrapPdfText(item.description, 10, descriptionWidth);
+    const details = item.details.flatMap((d) => wrapPdfText(d, 8.5, descriptionWidth - 10));
+    // Keep an item's first line and its amount together.
+    layout.ensure(14);
+    layout.page().texts.push({ text: formatAmount(item.amount), x: RIGHT, y: layout.getY() - 10, size: 10, align: 'right' });
+    for (const line of description) layout.text({ text: line, x: MARGIN, size: 10 });
+    for (const line of details) layout.text({ text: line, x: MARGIN + 10, size: 8.5, muted: true });
+    layout.gap(4);
+  }
+  layout.rule();
+
+  const totalsX = RIGHT - 230;
+  const total = (label: string, amount: number, bold = false) => {
+    const size = bold ? 11 : 9.5;
+    layout.ensure(size * 1.5);
+    layout.page().texts.push({ text: formatAmount(amount), x: RIGHT, y: layout.getY() - size, size, font: bold ? 'bold' : 'regular', align: 'right' });
+    layout.text({ text: label, x: totalsX, size, font: bold ? 'bold' : 'regular' }, size * 1.5);
+  };
+  total('Subtotal (before tax)', doc.subtotal);
+  for (const line of doc.tax_lines) total(line.exempt ? `${line.label} (exempt)` : line.label, line.amount);
+  total(isCredit ? 'Total credited (CAD)' : 'Total (CAD)', doc.total, true);
+  layout.gap(14);
+
+  const registrations = doc.tax_lines
+    .filter((l) => l.registration_number && !l.exempt)
+    .map((l) => `${l.code === 'GST' || l.code === 'HST' ? 'GST/HST' : l.code} registration no.: ${l.registration_number}`);
+  const notes = [...new Set(registrations), ...doc.notes];
+  const exemption = doc.exemption ? TAX_EXEMPTION_TYPES[doc.exemption] : null;
+  if (exemption) notes.push(exemption.self_assessed ? 'Reverse charge: tax to be self-assessed by the recipient' : `Tax exemption: ${exemption.label}`);
+  for (const note of notes) {
+    for (const line of wrapPdfText(note, 9, RIGHT - MARGIN)) layout.text({ text: line, x: MARGIN, size: 9, muted: true });
+  }
+
+  const pages = layout.footer([doc.seller.name, invoiceNumber].filter(Boolean).join(' — '));
+  return renderPdf(pages, { title: [isCredit ? 'Credit note' : 'Invoice', invoiceNumber].filter(Boolean).join(' '), author: doc.seller.name });
+};
+
+// Receipts from before numbering: the stored text, one line per line.
+export const renderTextReceiptPdf = (text: string, sellerName: string) => {
+  const layout = makeLayout();
+  const [first = 'Receipt', ...rest] = text.split(/\r?\n/);
+  layout.text({ text: first, x: MARGIN, size: 13, font: 'bold' });
+  layout.gap(6);
+  for (const line of rest) {
+    if (!line.trim()) {
+      layout.gap(8);
+      continue;
+    }
+    for (const wrapped of wrapPdfText(line, 10, RIGHT - MARGIN)) layout.text({ text: wrapped, x: MARGIN, size: 10 });
+  }
+  return renderPdf(layout.footer(sellerName), { title: first, author: sellerName });
+};
@@ -0,0 +1,213 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatTaxReceiptLines, readTaxRegistrations, type TaxExemptionType, type TaxLine, type TaxRegistrations } from '../pricing/taxes';
+
+// Numbered receipts. Every receipt and credit note the functions issue is a receipts row with a sequential invoice
+// number (issue_receipt in schema.sql) and the structured document it was built from: seller and customer tax
+// numbers, line items, the tax breakdown and the payment reference. receipt-pdf renders the document as a PDF, and
+// `text` keeps a plain rendering of it. Older receipts, and the ones customers keep in their browser, only have text.
+
+export type ReceiptKind = 'receipt' | 'credit_note';
+
+export type ReceiptItem = {
+  description: string;
+  // Printed under the description: vehicles, legs, what an order change changed, ...
+  details: string[];
+  // Before tax; discounts are negative.
+  amount: number;
+};
+
+export type ReceiptSeller = {
+  name: string;
+  address: string | null;
+  registrations: TaxRegistrations;
+};
+
+export type ReceiptDocument = {
+  kind: ReceiptKind;
+  // e.g. "Receipt — extra charges", "Credit note — refund".
+  title: string;
+  issued_at: string;
+  order_code: string | null;
+  customer_email: string | null;
+  customer_registrations: TaxRegistrations;
+  seller: ReceiptSeller;
+  items: ReceiptItem[];
+  // A credit note's amounts are what is credited back, so they are positive like a receipt's.
+  subtotal: number;
+  tax_lines: TaxLine[];
+  tax: number;
+  total: number;
+  exemption: TaxExemptionType | null;
+  notes: string[];
+  // Stripe payment intent or refund, or the reference staff recorded for a statement payment.
+  payment_reference: string | null;
+};
+
+export type ReceiptRecord = {
+  id: string;
+  user_id: string;
+  order_code: string | null;
+  text: string;
+  created_at: string;
+  // Null for older text receipts.
+  invoice_number: string | null;
+  kind: ReceiptKind;
+  document: ReceiptDocument | null;
+};
+
+export const RECEIPT_FIELDS = 'id, user_id, order_code, text, created_at, invoice_number, kind, document';
+
+export const DEFAULT_SELLER_NAME = 'EasyDrive Vehicle Transport';
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const readText = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+const readTextList = (v: unknown) => (Array.isArray(v) ? v.filter((l): l is string => typeof l === 'string') : []);
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+// The legal name and address printed on receipts (SELLER_LEGAL_NAME, SELLER_ADDRESS) with the registration numbers.
+export const readReceiptSeller = (env: Record<string, unknown> | null | undefined): ReceiptSeller => {
+  const read = (key: string) => String(env?.[key] ?? env?.[`VITE_${key}`] ?? '').trim();
+  return {
+    name: read('SELLER_LEGAL_NAME') || DEFAULT_SELLER_NAME,
+    address: read('SELLER_ADDRESS') || null,
+    registrations: readTaxRegistrations(env),
+  };
+};
+
+// One line per tax: a statement's orders are taxed separately, its receipt adds them up.
+const mergeTaxLines = (lines: TaxLine[]) => {
+  const merged: TaxLine[] = [];
+  for (const line of lines) {
+    const same = merged.find((l) => l.code === line.code && l.label === line.label && l.rate === line.rate && !!l.exempt === !!line.exempt);
+    if (same) same.amount = roundCents(same.amount + line.amount);
+    else merged.push({ ...line });
+  }
+  return merged;
+};
+
+export const makeReceiptDocument = (input: {
+  kind?: ReceiptKind;
+  title: string;
+  issued_at: string;
+  order_code?: string | null;
+  customer_email?: string | null;
+  customer_registrations?: TaxRegistrations;
+  seller: ReceiptSeller;
+  items: ReceiptItem[];
+  tax_lines: TaxLine[];
+  exemption?: TaxExemptionType | null;
+  notes?: (string | null)[];
+  payment_reference?: string | null;
+}): ReceiptDocument => {
+  const taxLines = mergeTaxLines(input.tax_lines);
+  const subtotal = roundCents(input.items.reduce((sum, item) => sum + item.amount, 0));
+  const tax = roundCents(taxLines.reduce((sum, l) => sum + (l.exempt ? 0 : l.amount), 0));
+  return {
+    kind: input.kind ?? 'receipt',
+    title: input.title,
+    issued_at: input.issued_at,
+    order_code: input.order_code || null,
+    customer_email: input.customer_email || null,
+    customer_registrations: input.customer_registrations ?? {},
+    seller: input.seller,
+    items: input.items.map((item) => ({ ...item, amount: roundCents(item.amount) })),
+    subtotal,
+    tax_lines: taxLines,
+    tax,
+    total: roundCents(subtotal + tax),
+    exemption: input.exemption ?? null,
+    notes: (input.notes ?? []).filter((n): n is string => !!n),
+    payment_reference: input.payment_reference || null,
+  };
+};
+
+const readReceiptItem = (raw: unknown): ReceiptItem | null => {
+  const r = readRecord(raw);
+  if (!r || typeof r.description !== 'string') return null;
+  return { description: r.description, details: readTextList(r.details), amount: num(r.amount) };
+};
+
+export const readReceiptDocument = (raw: unknown): ReceiptDocument | null => {
+  const r = readRecord(raw);
+  if (!r || typeof r.title !== 'string') return null;
+  const seller = readRecord(r.seller);
+  return {
+    kind: r.kind === 'credit_note' ? 'credit_note' : 'receipt',
+    title: r.title,
+    issued_at: String(r.issued_at ?? ''),
+    order_code: readText(r.order_code),
+    customer_email: readText(r.customer_email),
+    customer_registrations: (readRecord(r.customer_registrations) ?? {}) as TaxRegistrations,
+    seller: {
+      name: readText(seller?.name) ?? DEFAULT_SELLER_NAME,
+      address: readText(seller?.address),
+      registrations: (readRecord(seller?.registrations) ?? {}) as TaxRegistrations,
+    },
+    items: (Array.isArray(r.items) ? r.items : []).map(readReceiptItem).filter((item): item is ReceiptItem => item !== null),
+    subtotal: num(r.subtotal),
+    tax_lines: Array.isArray(r.tax_lines) ? (r.tax_lines as TaxLine[]) : [],
+    tax: num(r.tax),
+    total: num(r.total),
+    exemption: (readText(r.exemption) as TaxExemptionType | null) ?? null,
+    notes: readTextList(r.notes),
+    payment_reference: readText(r.payment_reference),
+  };
+};
+
+export const readReceiptRecord = (raw: unknown): ReceiptRecord | null => {
+  const r = readRecord(raw);
+  if (!r || !r.id) return null;
+  return {
+    id: String(r.id),
+    user_id: String(r.user_id ?? ''),
+    order_code: readText(r.order_code),
+    text: String(r.text ?? ''),
+    created_at: String(r.created_at ?? ''),
+    invoice_number: readText(r.invoice_number),
+    kind: r.kind === 'credit_note' ? 'credit_note' : 'receipt',
+    document: readReceiptDocument(r.document),
+  };
+};
+
+export const getInvoiceNumberLabel = (kind: ReceiptKind) => (kind === 'credit_note' ? 'Credit note no.' : 'Invoice no.');
+
+// The plain rendering stored in receipts.text and shown in the app.
+export const formatReceiptText = (doc: ReceiptDocument, invoiceNumber?: string | null) =>
+  [
+    doc.title,
+    invoiceNumber ? `${getInvoiceNumberLabel(doc.kind)}: ${invoiceNumber}` : null,
+    `Created: ${doc.issued_at}`,
+    doc.order_code ? `Order: ${doc.order_code}` : null,
+    doc.customer_email ? `Customer: ${doc.customer_email}` : null,
+    '',
+    ...doc.items.flatMap((item) => [`${item.description}: ${item.amount < 0 ? '-' : ''}${formatCad(Math.abs(item.amount))}`, ...item.details.map((d) => `- ${d}`)]),
+    `Subtotal (before tax): ${formatCad(doc.subtotal)}`,
+    ...formatTaxReceiptLines({ lines: doc.tax_lines, exemption: doc.exemption, customer_registrations: doc.customer_registrations }),
+    `${doc.kind === 'credit_note' ? 'Total credited' : 'Total'}: ${formatCad(doc.total)}`,
+    ...doc.notes,
+    doc.payment_reference ? `${doc.kind === 'credit_note' ? 'Refund' : 'Payment'} reference: ${doc.payment_reference}` : null,
+  ]
+    .filter((l) => l !== null)
+    .join('\n');
+
+// Issues the next number for the document and stores the receipt (service role only).
+export const issueReceipt = async (client: SupabaseClient, input: { user_id: string; order_code: string | null; document: ReceiptDocument }) => {
+  const { data, error } = await client
+    .rpc('issue_receipt', {
+      p_user_id: input.user_id,
+      p_order_code: input.order_code,
+      p_document: input.document,
+      p_text: formatReceiptText(input.document),
+    })
+    .single();
+  if (error) throw error;
+  return readReceiptRecord(data);
+};
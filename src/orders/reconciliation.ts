@@ -0,0 +1,405 @@
+import { getAccessorialsTotal, parseAccessorialIds, readOrderAccessorials } from '../pricing/accessorials';
+import { computeTax, isTaxExemptionType, readTaxProfile, taxPlaceFromFormData, type TaxRegistrations } from '../pricing/taxes';
+import { readOrderAmendments } from './amendments';
+import { getRefundTaxLines, readOrderCancellation } from './cancellation';
+import { readOrderDeposit } from './deposits';
+import { readOrderDispute, readOrderStripeRefunds } from './payments';
+
+// Finance's check of Stripe against the orders table (reconcile-payments). Every charge and refund Stripe made in a
+// date range is matched to its order, by the PaymentIntent the order recorded or the order_id our functions put in
+// the metadata, and compared with what the order says was charged. Paid orders with no Stripe payment and pending
+// orders whose Checkout session is dead are listed as well.
+
+export type ReconciliationIssue = 'no_order' | 'amount' | 'tax' | 'status' | 'no_charge' | 'stale_pending';
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  no_order: 'No matching order',
+  amount: 'Amount differs',
+  tax: 'Tax differs',
+  status: 'Status differs',
+  no_charge: 'No Stripe payment',
+  stale_pending: 'Stuck pending',
+};
+
+export type ReconciliationFinding = {
+  issue: ReconciliationIssue;
+  note: string;
+};
+
+// What a Stripe payment was for (metadata.purpose); the order's own checkout has none.
+export type PaymentPurpose = 'order' | 'accessorials' | 'amendment' | 'balance';
+
+export type ReconciliationRow = {
+  kind: 'charge' | 'refund' | 'order';
+  // Stripe charge, refund or Checkout session; null for a paid order with nothing in Stripe.
+  stripe_id: string | null;
+  payment_intent_id: string | null;
+  created_at: string;
+  purpose: PaymentPurpose | null;
+  order_id: string | null;
+  order_code: string | null;
+  customer_email: string | null;
+  // Stripe's status of the charge, refund or session; amounts in dollars, tax as recorded in the metadata (tax_total).
+  stripe_status: string;
+  stripe_amount: number | null;
+  stripe_refunded: number | null;
+  stripe_tax: number | null;
+  payout_id: string | null;
+  payout_date: string | null;
+  // What the order says was charged or refunded, tax included.
+  expected_amount: number | null;
+  expected_tax: number | null;
+  payment_status: string | null;
+  findings: ReconciliationFinding[];
+};
+
+export type ReconciliationPayout = {
+  id: string;
+  amount: number;
+  status: string;
+  arrival_date: string;
+  // Charges and refunds settled in it.
+  transactions: number;
+};
+
+export type ReconciliationReport = {
+  from: string;
+  to: string;
+  generated_at: string;
+  rows: ReconciliationRow[];
+  payouts: ReconciliationPayout[];
+  // Stripe had more than the report reads: narrow the range.
+  truncated: boolean;
+};
+
+// The order columns the report reads.
+export type ReconciliationOrder = {
+  id: string;
+  order_code: string;
+  customer_email?: string | null;
+  payment_status: string;
+  route_area?: string | null;
+  price_before_tax?: number | null;
+  final_price_before_tax?: number | null;
+  stripe_payment_intent_id?: string | null;
+  accessorials?: unknown;
+  amendments?: unknown;
+  cancellation?: unknown;
+  deposit?: unknown;
+  stripe_dispute?: unknown;
+  stripe_refunds?: unknown;
+  form_data?: unknown;
+};
+
+// The parts of Stripe's charge and refund objects the report compares; amounts in cents, as Stripe gives them.
+export type StripeChargeInput = {
+  id: string;
+  payment_intent_id: string | null;
+  created: number;
+  status: string;
+  amount: number;
+  amount_refunded: number;
+  refunded: boolean;
+  disputed: boolean;
+  metadata: Record<string, unknown>;
+};
+
+export type StripeRefundInput = {
+  id: string;
+  payment_intent_id: string | null;
+  created: number;
+  status: string;
+  amount: number;
+  metadata: Record<string, unknown>;
+};
+
+export type PayoutRef = { id: string; arrival_date: string };
+
+export const RECONCILIATION_ORDER_FIELDS =
+  'id, order_code, customer_email, payment_status, route_area, price_before_tax, final_price_before_tax, stripe_payment_intent_id, stripe_session_id, accessorials, amendments, cancellation, deposit, stripe_dispute, stripe_refunds, form_data, created_at';
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const differs = (a: number, b: number) => Math.abs(a - b) > 0.005;
+
+const formatCad = (n: number) => `$${n.toFixed(2)}`;
+
+const fromUnix = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+export const readPaymentPurpose = (metadata: Record<string, unknown>): PaymentPurpose => {
+  const purpose = metadata.purpose;
+  return purpose === 'accessorials' || purpose === 'amendment' || purpose === 'balance' ? purpose : 'order';
+};
+
+// What the order says a payment should have charged, tax included, and the tax in it; null when the order has no
+// record of it. The tax is worked out the way checkout did: at the order's place of supply, with the exemption
+// checkout applied (metadata.tax_exemption). An order changed by an amendment is compared at its price before the
+// change, which was paid or refunded separately.
+export const getExpectedPayment = (
+  order: ReconciliationOrder,
+  metadata: Record<string, unknown>,
+  registrations: TaxRegistrations
+): { amount: number; tax: number } | null => {
+  const purpose = readPaymentPurpose(metadata);
+  const place = taxPlaceFromFormData(order.form_data, order.route_area);
+  const exemption = String(metadata.tax_exemption ?? '').trim();
+  const profile = isTaxExemptionType(exemption)
+    ? { ...readTaxProfile(null), tax_exemption_type: exemption, tax_exemption_status: 'approved' as const }
+    : null;
+  const chargedIds = parseAccessorialIds(metadata.accessorial_ids);
+  const chargedAccessorials = readOrderAccessorials(order.accessorials).filter((a) => chargedIds.includes(a.id));
+  const deposit = readOrderDeposit(order.deposit);
+
+  if (purpose === 'amendment') {
+    const amendment = readOrderAmendments(order.amendments).find((a) => a.id === String(metadata.amendment_id ?? ''));
+    return amendment ? { amount: amendment.total, tax: amendment.tax } : null;
+  }
+
+  if (purpose === 'balance') {
+    if (!deposit) return null;
+    const tax = roundCents(getRefundTaxLines(deposit.tax_lines, deposit.balance).reduce((sum, l) => sum + l.amount, 0));
+    return { amount: deposit.balance, tax };
+  }
+
+  if (purpose === 'accessorials') {
+    const subtotal = getAccessorialsTotal(chargedAccessorials);
+    if (!(subtotal > 0)) return null;
+    const tax = computeTax(subtotal, place, registrations, profile).tax;
+    return { amount: roundCents(subtotal + tax), tax };
+  }
+
+  const finalPrice = Number(order.final_price_before_tax);
+  const price = Number.isFinite(finalPrice) && finalPrice > 0 ? finalPrice : Number(order.price_before_tax) || 0;
+  const amended = readOrderAmendments(order.amendments).reduce((sum, a) => sum + a.difference, 0);
+  const subtotal = roundCents(price - amended + getAccessorialsTotal(chargedAccessorials));
+  const tax = computeTax(subtotal, place, registrations, profile).tax;
+  // A deposit order's checkout took only the deposit; its tax_total is still the whole order's.
+  return { amount: deposit ? deposit.deposit : roundCents(subtotal + tax), tax };
+};
+
+// Whether the order records the payment the way Stripe reports it: paid, refunded and disputed.
+const getChargeStatusFindings = (order: ReconciliationOrder, charge: StripeChargeInput, purpose: PaymentPurpose): ReconciliationFinding[] => {
+  const findings: ReconciliationFinding[] = [];
+  const status = (note: string) => findings.push({ issue: 'status', note });
+  if (charge.status !== 'succeeded') return findings;
+
+  if (purpose === 'accessorials') {
+    const ids = parseAccessorialIds(charge.metadata.accessorial_ids);
+    const unpaid = readOrderAccessorials(order.accessorials).filter((a) => ids.includes(a.id) && !a.paid_at);
+    if (unpaid.length) status(`Stripe charged extra charges the order still has unpaid (${unpaid.map((a) => a.label).join(', ')})`);
+    return findings;
+  }
+
+  if (purpose === 'amendment') {
+    const amendment = readOrderAmendments(order.amendments).find((a) => a.id === String(charge.metadata.amendment_id ?? ''));
+    if (amendment && amendment.status !== 'paid') status(`Stripe charged an order change the order has as ${amendment.status.replace(/_/g, ' ')}`);
+    return findings;
+  }
+
+  if (purpose === 'balance') {
+    const deposit = readOrderDeposit(order.deposit);
+    if (deposit && deposit.balance_status !== 'paid') status(`Stripe charged the balance but the order has it ${deposit.balance_status}`);
+    return findings;
+  }
+
+  const refunded = roundCents(charge.amount_refunded / 100);
+  if (order.payment_status === 'unpaid' || order.payment_status === 'pending' || order.payment_status === 'failed') {
+    status(`Stripe charged the order but it is ${order.payment_status}`);
+  }
+  if (charge.refunded && order.payment_status !== 'refunded') {
+    status(`Fully refunded in Stripe but the order is ${order.payment_status.replace('_', ' ')}`);
+  }
+  if (!charge.refunded && order.payment_status === 'refunded') {
+    status(`The order is refunded but Stripe refunded ${formatCad(refunded)} of ${formatCad(charge.amount / 100)}`);
+  }
+  if (!(refunded > 0) && order.payment_status === 'partially_refunded') status('The order is partially refunded but Stripe has no refund');
+
+  // Refunds cancel-order and amend-order made are on the order, and so are dashboard refunds stripe-webhook recorded.
+  const cancellation = readOrderCancellation(order.cancellation);
+  const recorded = roundCents(
+    (cancellation?.refund_id ? cancellation.refund : 0) +
+      readOrderAmendments(order.amendments)
+        .filter((a) => a.refund_id)
+        .reduce((sum, a) => sum - a.total, 0) +
+      readOrderStripeRefunds(order.stripe_refunds).reduce((sum, r) => sum + r.amount, 0)
+  );
+  if (recorded > refunded + 0.005) status(`The order records ${formatCad(recorded)} refunded, Stripe ${formatCad(refunded)}`);
+
+  if (charge.disputed && !readOrderDispute(order.stripe_dispute)) status('Disputed in Stripe but not on the order');
+  return findings;
+};
+
+export const makeChargeRow = (
+  charge: StripeChargeInput,
+  order: ReconciliationOrder | null,
+  registrations: TaxRegistrations,
+  payout: PayoutRef | null
+): ReconciliationRow => {
+  const purpose = readPaymentPurpose(charge.metadata);
+  const amount = roundCents(charge.amount / 100);
+  const stripeTax = Number(charge.metadata.tax_total);
+  const hasStripeTax = String(charge.metadata.tax_total ?? '').trim() !== '' && Number.isFinite(stripeTax);
+  const expected = order ? getExpectedPayment(order, charge.metadata, registrations) : null;
+
+  const findings: ReconciliationFinding[] = [];
+  if (!order) {
+    findings.push({ issue: 'no_order', note: 'No order has this payment' });
+  } else if (!expected) {
+    findings.push({ issue: 'amount', note: `The order has no record of this ${purpose === 'order' ? 'payment' : purpose} payment` });
+  } else {
+    if (differs(amount, expected.amount)) {
+      findings.push({ issue: 'amount', note: `Stripe charged ${formatCad(amount)}, the order says ${formatCad(expected.amount)}` });
+    }
+    if (hasStripeTax && differs(stripeTax, expected.tax)) {
+      findings.push({ issue: 'tax', note: `Stripe's tax is ${formatCad(stripeTax)}, the order's ${formatCad(expected.tax)}` });
+    }
+    findings.push(...getChargeStatusFindings(order, charge, purpose));
+  }
+
+  return {
+    kind: 'charge',
+    stripe_id: charge.id,
+    payment_intent_id: charge.payment_intent_id,
+    created_at: fromUnix(charge.created),
+    purpose,
+    order_id: order?.id ?? null,
+    order_code: order?.order_code ?? (String(charge.metadata.order_code ?? '').trim() || null),
+    customer_email: order?.customer_email ?? null,
+    stripe_status: charge.disputed ? 'disputed' : charge.refunded ? 'refunded' : charge.amount_refunded > 0 ? 'partially_refunded' : charge.status,
+    stripe_amount: amount,
+    stripe_refunded: roundCents(charge.amount_refunded / 100),
+    stripe_tax: hasStripeTax ? stripeTax : null,
+    payout_id: payout?.id ?? null,
+    payout_date: payout?.arrival_date ?? null,
+    expected_amount: expected?.amount ?? null,
+    expected_tax: expected?.tax ?? null,
+    payment_status: order?.payment_status ?? null,
+    findings,
+  };
+};
+
+// Refunds cancel-order and amend-order made carry their purpose; the order must have recorded them.
+export const makeRefundRow = (refund: StripeRefundInput, order: ReconciliationOrder | null, payout: PayoutRef | null): ReconciliationRow => {
+  const amount = roundCents(refund.amount / 100);
+  const findings: ReconciliationFinding[] = [];
+  let expected: number | null = null;
+
+  if (!order) {
+    findings.push({ issue: 'no_order', note: 'No order has the refunded payment' });
+  } else if (refund.metadata.purpose === 'cancellation') {
+    const cancellation = readOrderCancellation(order.cancellation);
+    if (cancellation?.refund_id === refund.id) expected = cancellation.refund;
+    else findings.push({ issue: 'status', note: "The order's cancellation does not record this refund" });
+  } else if (refund.metadata.purpose === 'amendment') {
+    const amendment = readOrderAmendments(order.amendments).find((a) => a.refund_id === refund.id);
+    if (amendment) expected = roundCents(-amendment.total);
+    else findings.push({ issue: 'status', note: "The order's changes do not record this refund" });
+  }
+  if (expected !== null && differs(amount, expected)) {
+    findings.push({ issue: 'amount', note: `Stripe refunded ${formatCad(amount)}, the order says ${formatCad(expected)}` });
+  }
+  if (refund.status === 'failed' || refund.status === 'canceled') findings.push({ issue: 'status', note: `The refund ${refund.status} in Stripe` });
+
+  return {
+    kind: 'refund',
+    stripe_id: refund.id,
+    payment_intent_id: refund.payment_intent_id,
+    created_at: fromUnix(refund.created),
+    purpose: null,
+    order_id: order?.id ?? null,
+    order_code: order?.order_code ?? (String(refund.metadata.order_code ?? '').trim() || null),
+    customer_email: order?.customer_email ?? null,
+    stripe_status: refund.status,
+    stripe_amount: amount,
+    stripe_refunded: null,
+    stripe_tax: null,
+    payout_id: payout?.id ?? null,
+    payout_date: payout?.arrival_date ?? null,
+    expected_amount: expected,
+    expected_tax: null,
+    payment_status: order?.payment_status ?? null,
+    findings,
+  };
+};
+
+// A paid order with no payment in Stripe, or a pending one whose Checkout session is dead.
+export const makeOrderRow = (
+  order: ReconciliationOrder & { stripe_session_id?: string | null; created_at?: string | null },
+  finding: ReconciliationFinding,
+  stripe: { id: string | null; status: string }
+): ReconciliationRow => ({
+  kind: 'order',
+  stripe_id: stripe.id,
+  payment_intent_id: order.stripe_payment_intent_id ?? null,
+  created_at: String(order.created_at ?? ''),
+  purpose: 'order',
+  order_id: order.id,
+  order_code: order.order_code,
+  customer_email: order.customer_email ?? null,
+  stripe_status: stripe.status,
+  stripe_amount: null,
+  stripe_refunded: null,
+  stripe_tax: null,
+  payout_id: null,
+  payout_date: null,
+  expected_amount: null,
+  expected_tax: null,
+  payment_status: order.payment_status,
+  findings: [finding],
+});
+
+export const isReconciled = (row: ReconciliationRow) => row.findings.length === 0;
+
+const escapeCsv = (value: unknown) => {
+  const s = String(value ?? '');
+  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+};
+
+export const formatReconciliationCsv = (rows: ReconciliationRow[]) => {
+  const header = [
+    'kind',
+    'created_at',
+    'stripe_id',
+    'payment_intent_id',
+    'purpose',
+    'order_code',
+    'customer_email',
+    'stripe_status',
+    'stripe_amount',
+    'stripe_refunded',
+    'stripe_tax',
+    'expected_amount',
+    'expected_tax',
+    'payment_status',
+    'payout_id',
+    'payout_date',
+    'issues',
+    'notes',
+  ];
+  const lines = [header.join(',')];
+  for (const r of rows) {
+    const data = [
+      r.kind,
+      r.created_at,
+      r.stripe_id,
+      r.payment_intent_id,
+      r.purpose,
+      r.order_code,
+      r.customer_email,
+      r.stripe_status,
+      r.stripe_amount?.toFixed(2),
+      r.stripe_refunded?.toFixed(2),
+      r.stripe_tax?.toFixed(2),
+      r.expected_amount?.toFixed(2),
+      r.expected_tax?.toFixed(2),
+      r.payment_status,
+      r.payout_id,
+      r.payout_date,
+      r.findings.map((f) => RECONCILIATION_ISSUE_LABELS[f.issue]).join('; '),
+      r.findings.map((f) => f.note).join('; '),
+    ];
+    lines.push(data.map(escapeCsv).join(','));
+  }
+  return lines.join('\n');
+};
@@ -1,18 +1,30 @@
 import { requireSupabase } from '../lib/supabaseClient';
-
-export type DbOrderStatus = 'Scheduled' | 'Picked Up' | 'In Transit' | 'Delayed' | 'Out for Delivery' | 'Delivered';
-export type DbPaymentStatus = 'unpaid' | 'pending' | 'paid' | 'failed';
-export type DbOrderStage = 'draft' | 'in_negotiation' | 'pending_payment' | 'order_dispatched' | 'order_completed';
-
+import type { OrderAccessorial } from '../pricing/accessorials';
+import type { CustomerContractRow, DiscountRule, PromoCodeRow } from '../pricing/discounts';
+import type { QuoteTokenPayload } from '../pricing/quoteToken';
+import type { QuoteRequest } from '../pricing/quotes';
+import type { TaxExemptionStatus, TaxExemptionType } from '../pricing/taxes';
+import { readOrderAmendments, type AmendmentChanges, type OrderAmendment } from './amendments';
+import { readOrderCancellation } from './cancellation';
+import { getDepositBalanceDue, readOrderDeposit } from './deposits';
+import { INVOICE_FIELDS, readBillingTerms, readInvoice, type Invoice, type PaymentTerms } from './invoices';
+import { readSavedCard } from './payments';
+import { RECEIPT_FIELDS, readReceiptRecord, type ReceiptRecord } from './receipts';
+import type { ReconciliationReport } from './reconciliation';
+import { getOrderDeletionError, planStageChange, planStatusChange, type OrderStage, type OrderStatus, type PaymentStatus } from './orderStateMachine';
+
+export type DbOrderStatus = OrderStatus;
+export type DbPaymentStatus = PaymentStatus;
+export type DbOrderStage = OrderStage;
+
+// Route, vehicle class and price come from the signed quote; the create-order function fills them in.
 export type CreateOrderInput = {
   order_code: string;
+  quote_token: string;
   customer_name?: string;
   customer_email?: string;
-  route_area?: string;
-  service_type?: string;
-  vehicle_type?: string;
+  // The price shown to the customer; the server rejects the order if the signed quote differs.
   price_before_tax: number;
-  currency?: 'CAD';
   form_data?: unknown;
   documents?: unknown;
 };
@@ -25,13 +37,27 @@ export type DbOrderRow = {
   customer_email: string | null;
   route_area: string | null;
   service_type: string | null;
+  service_level?: string | null;
+  sla_days_min?: number | null;
+  sla_days_max?: number | null;
   vehicle_type: string | null;
   price_before_tax: number;
   final_price_before_tax?: number | null;
+  pricing_version?: number | null;
+  quote_token?: string | null;
+  quote_expires_at?: string | null;
+  promo_code?: string | null;
+  discount_total?: number | null;
+  accessorials?: unknown;
   currency: string;
   status: DbOrderStatus;
   payment_status: DbPaymentStatus;
   order_stage?: DbOrderStage;
+  cancelled_at?: string | null;
+  cancellation?: unknown;
+  amendments?: unknown;
+  stripe_dispute?: unknown;
+  deposit?: unknown;
   form_data?: unknown;
   documents?: unknown;
   created_at: string;
@@ -70,100 +96,117 @@ export const getCurrentUser = async () => {
   return data?.user ?? null;
 };
 
-export const createOrderWithInitialEvent = async (input: CreateOrderInput) => {
-  const supabase = requireSupabase();
-  const user = await getCurrentUser();
-  if (!user) throw new Error('Not authenticated');
+const postCreateOrder = async (input: CreateOrderInput | CreateSavedQuoteInput, orderStage: 'draft' | 'pending_payment') => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
 
-  const now = new Date().toISOString();
-
-  const { data: order, error: orderErr } = await supabase
-    .from('orders')
-    .insert({
-      ...input,
-      user_id: user.id,
-      currency: input.currency ?? 'CAD',
-      status: 'Scheduled',
-      payment_status: 'unpaid',
-      order_stage: 'pending_payment',
-      updated_at: now,
-    })
-    .select('*')
-    .single();
-
-  if (orderErr) throw orderErr;
-
-  const { error: evErr } = await supabase.from('order_events').insert({
-    order_id: order.id,
-    status: 'Scheduled',
-    note: 'Order created',
-    at: now,
+  const res = await fetch('/.netlify/functions/create-order', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...input, order_stage: orderStage, access_token: token }),
   });
-
-  if (evErr) throw evErr;
-
-  return order as DbOrderRow;
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to create order');
+  }
+  const json = (await res.json().catch(() => null)) as { order?: DbOrderRow } | null;
+  if (!json?.order) throw new Error('Failed to create order');
+  return json.order;
 };
 
+export const createOrderWithInitialEvent = async (input: CreateOrderInput) => postCreateOrder(input, 'pending_payment');
+
 export type CreateSavedQuoteInput = {
   order_code: string;
-  route_area?: string;
-  service_type?: string;
-  vehicle_type?: string;
+  quote_token: string;
+  // The price shown to the customer; the server rejects the order if the signed quote differs.
   price_before_tax: number;
-  currency?: 'CAD';
   form_data?: unknown;
   documents?: unknown;
 };
 
-export const createSavedQuoteOrder = async (input: CreateSavedQuoteInput) => {
-  const supabase = requireSupabase();
-  const user = await getCurrentUser();
-  if (!user) throw new Error('Not authenticated');
-
-  const now = new Date().toISOString();
+export const createSavedQuoteOrder = async (input: CreateSavedQuoteInput) => postCreateOrder(input, 'draft');
 
-  const { data: order, error: orderErr } = await supabase
-    .from('orders')
-    .insert({
-      ...input,
-      user_id: user.id,
-      currency: input.currency ?? 'CAD',
-      status: 'Scheduled',
-      payment_status: 'unpaid',
-      order_stage: 'draft',
-      updated_at: now,
-    })
-    .select('*')
-    .single();
-
-  if (orderErr) throw orderErr;
+export type SignedQuote = {
+  quote: QuoteTokenPayload;
+  token: string;
+};
 
-  const { error: evErr } = await supabase.from('order_events').insert({
-    order_id: order.id,
-    status: 'Scheduled',
-    note: 'Quote saved',
-    at: now,
+// Signed-in customers are quoted with their contract rate and, when given, the promo code.
+export const requestSignedQuote = async (request: QuoteRequest, options: { promoCode?: string | null } = {}): Promise<SignedQuote> => {
+  const token = await getAccessToken().catch(() => null);
+  const res = await fetch('/.netlify/functions/create-quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ request, access_token: token || undefined, promo_code: options.promoCode || undefined }),
   });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to get a quote');
+  }
+  const json = (await res.json().catch(() => null)) as Partial<SignedQuote> | null;
+  if (!json?.quote || !json?.token) throw new Error('Failed to get a quote');
+  return { quote: json.quote, token: json.token };
+};
 
-  if (evErr) throw evErr;
+export type RefreshedOrderQuote = {
+  order: DbOrderRow;
+  quote: QuoteTokenPayload;
+  previous_price_before_tax: number | null;
+  price_changed: boolean;
+  // The promo code the order had, when it is no longer valid and was removed from the new quote.
+  promo_removed: string | null;
+};
+
+// Re-prices an unpaid order with the published rules; the new price is what checkout will charge.
+export const refreshOrderQuote = async (orderCode: string): Promise<RefreshedOrderQuote> => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
 
-  return order as DbOrderRow;
+  const res = await fetch('/.netlify/functions/refresh-quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to refresh the quote');
+  }
+  const json = (await res.json().catch(() => null)) as Partial<RefreshedOrderQuote> | null;
+  if (!json?.order || !json?.quote) throw new Error('Failed to refresh the quote');
+  return {
+    order: json.order,
+    quote: json.quote,
+    previous_price_before_tax: json.previous_price_before_tax ?? null,
+    price_changed: Boolean(json.price_changed),
+    promo_removed: json.promo_removed ?? null,
+  };
 };
 
 export type StaffOrderRow = Pick<
   DbOrderRow,
   | 'id'
   | 'order_code'
+  | 'user_id'
   | 'route_area'
   | 'service_type'
+  | 'service_level'
+  | 'sla_days_min'
+  | 'sla_days_max'
   | 'vehicle_type'
   | 'status'
   | 'payment_status'
   | 'price_before_tax'
   | 'final_price_before_tax'
+  | 'promo_code'
+  | 'discount_total'
+  | 'accessorials'
   | 'currency'
   | 'order_stage'
+  | 'cancellation'
+  | 'amendments'
+  | 'stripe_dispute'
+  | 'deposit'
   | 'form_data'
   | 'documents'
   | 'created_at'
@@ -175,7 +218,7 @@ export const listStaffOrders = async () => {
   const { data, error } = await supabase
     .from('orders')
     .select(
-      'id, order_code, route_area, service_type, vehicle_type, status, payment_status, price_before_tax, final_price_before_tax, currency, order_stage, form_data, documents, created_at, updated_at'
+      'id, order_code, user_id, route_area, service_type, service_level, sla_days_min, sla_days_max, vehicle_type, status, payment_status, price_before_tax, final_price_before_tax, promo_code, discount_total, accessorials, currency, order_stage, cancellation, amendments, stripe_dispute, deposit, form_data, documents, created_at, updated_at'
     )
     .order('created_at', { ascending: false });
 
@@ -183,11 +226,31 @@ export const listStaffOrders = async () => {
   return (Array.isArray(data) ? data : []) as StaffOrderRow[];
 };
 
+// Current status, stage and payment of an order, for planning a transition with the state machine.
+const getOrderState = async (orderId: string) => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from('orders')
+    .select('order_code, status, order_stage, payment_status, deposit')
+    .eq('id', orderId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('Order not found');
+  return data as Pick<DbOrderRow, 'order_code' | 'status' | 'order_stage' | 'payment_status' | 'deposit'>;
+};
+
+// Refused transitions throw with the reason; the orders_enforce_state_machine trigger checks them again. Marking an
+// order paid by deposit Delivered charges its balance to the saved card; when that fails the status still changes and
+// the reason is returned as balance_error.
 export const updateOrderStatusAsStaff = async (orderId: string, status: DbOrderStatus, note?: string | null) => {
   const supabase = requireSupabase();
   const at = new Date().toISOString();
 
-  const { error: updateErr } = await supabase.from('orders').update({ status, updated_at: at }).eq('id', orderId);
+  const state = await getOrderState(orderId);
+  const plan = planStatusChange(state, status);
+  if (!plan.ok) throw new Error(plan.error);
+
+  const { error: updateErr } = await supabase.from('orders').update({ ...plan.patch, updated_at: at }).eq('id', orderId);
   if (updateErr) throw updateErr;
 
   const { error: evErr } = await supabase.from('order_events').insert({
@@ -198,7 +261,15 @@ export const updateOrderStatusAsStaff = async (orderId: string, status: DbOrderS
   });
   if (evErr) throw evErr;
 
-  return { at };
+  if (plan.patch.status === 'Delivered' && getDepositBalanceDue(readOrderDeposit(state.deposit))) {
+    try {
+      await chargeOrderBalanceAsStaff(state.order_code);
+    } catch (e) {
+      return { at, balance_error: e instanceof Error ? e.message : 'Failed to charge the balance' };
+    }
+  }
+
+  return { at, balance_error: null };
 };
 
 export const getOrderEventsForStaffOrder = async (orderId: string) => {
@@ -213,6 +284,7 @@ export const getOrderEventsForStaffOrder = async (orderId: string) => {
   return (Array.isArray(data) ? data : []) as DbOrderEventRow[];
 };
 
+// The pickup and drop-off of a paid order are not changed here (the database refuses it): they go through an amendment.
 export const updateOrderFormDataAsStaff = async (orderId: string, formData: unknown) => {
   const supabase = requireSupabase();
   const at = new Date().toISOString();
@@ -221,8 +293,190 @@ export const updateOrderFormDataAsStaff = async (orderId: string, formData: unkn
   return { at };
 };
 
+// Replaces the order's accessorial charges; only staff may change them (orders_guard_price_columns).
+export const updateOrderAccessorialsAsStaff = async (orderId: string, accessorials: OrderAccessorial[]) => {
+  const supabase = requireSupabase();
+  const at = new Date().toISOString();
+  const { error } = await supabase.from('orders').update({ accessorials: accessorials as never, updated_at: at }).eq('id', orderId);
+  if (error) throw error;
+  return { at };
+};
+
+// Checkout for the accessorials staff added after the order was paid; returns the Stripe Checkout URL.
+export const startAccessorialsCheckout = async (orderCode: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/create-accessorials-checkout', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to start checkout');
+  }
+  const json = (await res.json().catch(() => null)) as { url?: unknown } | null;
+  const url = String(json?.url ?? '').trim();
+  if (!url) throw new Error('Missing checkout url');
+  return url;
+};
+
+// Charges the order to the customer's saved card (getMySavedCard). Returns the page to open: the checkout success page
+// once paid, or Stripe Checkout when the bank asks the customer to confirm the payment (3-D Secure).
+export const startSavedCardPayment = async (orderCode: string, input: { quoteToken?: string } = {}) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/create-checkout-session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, access_token: token, quote_token: input.quoteToken, payment_method: 'saved_card' }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to charge the saved card');
+  }
+  const json = (await res.json().catch(() => null)) as { url?: unknown } | null;
+  const url = String(json?.url ?? '').trim();
+  if (!url) throw new Error('Missing checkout url');
+  return url;
+};
+
+// Places the order on the customer's account instead of charging it, for accounts on invoice terms (getMyBillingTerms).
+// The order moves forward as invoiced and is billed on the monthly statement once delivered.
+export const placeOrderOnAccount = async (orderCode: string, input: { quoteToken?: string } = {}) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/create-checkout-session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, access_token: token, quote_token: input.quoteToken, payment_method: 'invoice' }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to bill the order to your account');
+  }
+};
+
+const postChargeBalance = async (orderCode: string, method: 'saved_card' | 'checkout', fallbackError: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/charge-balance', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, access_token: token, method }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || fallbackError);
+  }
+  return (await res.json().catch(() => null)) as { deposit?: unknown; url?: unknown } | null;
+};
+
+// Charges the balance of a delivered order paid by deposit to the customer's saved card. Throws with the bank's
+// message when it fails; the customer is then asked to pay it (startBalanceCheckout).
+export const chargeOrderBalanceAsStaff = async (orderCode: string) => {
+  const json = await postChargeBalance(orderCode, 'saved_card', 'Failed to charge the balance');
+  return readOrderDeposit(json?.deposit);
+};
+
+// Returns the Stripe Checkout URL for the balance of the customer's delivered order.
+export const startBalanceCheckout = async (orderCode: string) => {
+  const json = await postChargeBalance(orderCode, 'checkout', 'Failed to start checkout');
+  const url = String(json?.url ?? '').trim();
+  if (!url) throw new Error('Missing checkout url');
+  return url;
+};
+
+// Cancels the order (the customer's own, or any order for an admin with `asStaff`). A paid order is refunded less the
+// cancellation fee; the result says what was kept and refunded.
+export const cancelOrder = async (orderCode: string, input: { reason?: string; asStaff?: boolean } = {}) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/cancel-order', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_code: orderCode, reason: input.reason || undefined, as_staff: input.asStaff === true, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to cancel the order');
+  }
+  const json = (await res.json().catch(() => null)) as { cancellation?: unknown } | null;
+  const cancellation = readOrderCancellation(json?.cancellation);
+  if (!cancellation) throw new Error('Failed to cancel the order');
+  return cancellation;
+};
+
+const postAmendOrder = async (payload: Record<string, unknown>, fallbackError: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/amend-order', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || fallbackError);
+  }
+  return (await res.json().catch(() => null)) as { amendment?: unknown; url?: unknown } | null;
+};
+
+const readAmendmentResult = (json: { amendment?: unknown } | null, fallbackError: string): OrderAmendment => {
+  const [amendment] = readOrderAmendments(json?.amendment ? [json.amendment] : []);
+  if (!amendment) throw new Error(fallbackError);
+  return amendment;
+};
+
+// Re-quotes the paid order with the changes and returns the balance or refund, without saving anything.
+export const previewOrderAmendment = async (orderCode: string, changes: AmendmentChanges, input: { asStaff?: boolean } = {}) =>
+  readAmendmentResult(
+    await postAmendOrder({ action: 'preview', order_code: orderCode, changes, as_staff: input.asStaff === true }, 'Failed to price the change'),
+    'Failed to price the change'
+  );
+
+// Saves the change; a refund is made right away, a balance is then paid with payAmendmentWithSavedCard or Checkout.
+export const submitOrderAmendment = async (
+  orderCode: string,
+  changes: AmendmentChanges,
+  input: { reason?: string; asStaff?: boolean } = {}
+) =>
+  readAmendmentResult(
+    await postAmendOrder(
+      { action: 'submit', order_code: orderCode, changes, reason: input.reason || undefined, as_staff: input.asStaff === true },
+      'Failed to change the order'
+    ),
+    'Failed to change the order'
+  );
+
+// Returns the Stripe Checkout URL for an amendment's balance.
+export const startAmendmentCheckout = async (orderCode: string, amendmentId: string) => {
+  const json = await postAmendOrder({ action: 'pay', method: 'checkout', order_code: orderCode, amendment_id: amendmentId }, 'Failed to start checkout');
+  const url = String(json?.url ?? '').trim();
+  if (!url) throw new Error('Missing checkout url');
+  return url;
+};
+
+// Charges an amendment's balance to the customer's saved card (by the customer, or an admin with `asStaff`).
+export const payAmendmentWithSavedCard = async (orderCode: string, amendmentId: string, input: { asStaff?: boolean } = {}) =>
+  readAmendmentResult(
+    await postAmendOrder(
+      { action: 'pay', method: 'saved_card', order_code: orderCode, amendment_id: amendmentId, as_staff: input.asStaff === true },
+      'Failed to charge the saved card'
+    ),
+    'Failed to charge the saved card'
+  );
+
 export const deleteOrderAsStaff = async (orderId: string) => {
   const supabase = requireSupabase();
+  const deletionError = getOrderDeletionError(await getOrderState(orderId));
+  if (deletionError) throw new Error(deletionError);
   const { error } = await supabase.from('orders').delete().eq('id', orderId);
   if (error) throw error;
 };
@@ -233,7 +487,9 @@ export const listMyOrders = async () => {
   if (!user?.id) return [];
   const { data, error } = await supabase
     .from('orders')
-    .select('id, order_code, status, payment_status, order_stage, price_before_tax, final_price_before_tax, route_area, form_data, created_at, updated_at')
+    .select(
+      'id, order_code, status, payment_status, order_stage, price_before_tax, final_price_before_tax, pricing_version, quote_expires_at, route_area, accessorials, cancellation, amendments, deposit, form_data, created_at, updated_at'
+    )
     .eq('user_id', user.id)
     .order('created_at', { ascending: false });
 
@@ -241,7 +497,23 @@ export const listMyOrders = async () => {
   return (Array.isArray(data) ? data : []) as Array<
     Pick<
       DbOrderRow,
-      'id' | 'order_code' | 'status' | 'payment_status' | 'order_stage' | 'price_before_tax' | 'final_price_before_tax' | 'route_area' | 'form_data' | 'created_at' | 'updated_at'
+      | 'id'
+      | 'order_code'
+      | 'status'
+      | 'payment_status'
+      | 'order_stage'
+      | 'price_before_tax'
+      | 'final_price_before_tax'
+      | 'pricing_version'
+      | 'quote_expires_at'
+      | 'route_area'
+      | 'accessorials'
+      | 'cancellation'
+      | 'amendments'
+      | 'deposit'
+      | 'form_data'
+      | 'created_at'
+      | 'updated_at'
     >
   >;
 };
@@ -289,6 +561,9 @@ export const createOfferForOrder = async (orderId: string, offerAmount: number,
   const amount = Number(offerAmount);
   if (!Number.isFinite(amount) || amount <= 0) throw new Error('Invalid offer amount');
 
+  const plan = planStageChange(await getOrderState(orderId), 'in_negotiation');
+  if (!plan.ok) throw new Error(plan.error);
+
   const { data, error } = await supabase
     .from('order_offers')
     .insert({
@@ -305,10 +580,12 @@ export const createOfferForOrder = async (orderId: string, offerAmount: number,
 
   try {
     const at = new Date().toISOString();
-    await supabase
-      .from('orders')
-      .update({ order_stage: 'in_negotiation', updated_at: at })
-      .eq('id', orderId);
+    if (plan.patch.order_stage) {
+      await supabase
+        .from('orders')
+        .update({ ...plan.patch, updated_at: at })
+        .eq('id', orderId);
+    }
   } catch {
     // ignore (offer submission can still succeed even if order stage update is blocked by RLS)
   }
@@ -365,9 +642,11 @@ export const getOrderEventsForMyOrder = async (orderId: string) => {
  export const updateOrderStageAsStaff = async (orderId: string, orderStage: DbOrderStage) => {
   const supabase = requireSupabase();
   const at = new Date().toISOString();
+  const plan = planStageChange(await getOrderState(orderId), orderStage);
+  if (!plan.ok) throw new Error(plan.error);
   const { error } = await supabase
     .from('orders')
-    .update({ order_stage: orderStage, updated_at: at })
+    .update({ ...plan.patch, updated_at: at })
     .eq('id', orderId);
   if (error) throw error;
   return { at };
@@ -396,9 +675,286 @@ export const getOrderEventsForMyOrder = async (orderId: string) => {
     payload.final_price_before_tax = input.final_price_before_tax ?? null;
   }
   if (input.order_stage) {
-    payload.order_stage = input.order_stage;
+    const plan = planStageChange(await getOrderState(orderId), input.order_stage);
+    if (!plan.ok) throw new Error(plan.error);
+    Object.assign(payload, plan.patch);
   }
   const { error } = await supabase.from('orders').update(payload).eq('id', orderId);
   if (error) throw error;
   return { at };
  };
+
+export type DbTaxExemptionDocument = {
+  id: string;
+  name: string;
+  mime: string;
+  size: number;
+  storage: {
+    bucket: string;
+    path: string;
+  };
+};
+
+export type DbTaxProfileRow = {
+  user_id: string;
+  gst_registration_number: string | null;
+  qst_registration_number: string | null;
+  tax_exemption_type: TaxExemptionType | null;
+  tax_exemption_status: TaxExemptionStatus;
+  tax_exemption_certificate: string | null;
+  tax_exemption_document: DbTaxExemptionDocument | null;
+  tax_exemption_submitted_at: string | null;
+  tax_exemption_reviewed_at: string | null;
+  tax_exemption_reviewed_by: string | null;
+  tax_exemption_review_note: string | null;
+};
+
+const TAX_PROFILE_FIELDS =
+  'user_id, gst_registration_number, qst_registration_number, tax_exemption_type, tax_exemption_status, tax_exemption_certificate, tax_exemption_document, tax_exemption_submitted_at, tax_exemption_reviewed_at, tax_exemption_reviewed_by, tax_exemption_review_note';
+
+export const getMyTaxProfile = async () => {
+  const supabase = requireSupabase();
+  const user = await getCurrentUser();
+  if (!user?.id) return null;
+  const { data, error } = await supabase.from('billing_profiles').select(TAX_PROFILE_FIELDS).eq('user_id', user.id).maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as DbTaxProfileRow | null;
+};
+
+// Admins only (billing_profiles_select_admin); other staff get an empty list.
+export const listTaxProfilesAsStaff = async () => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.from('billing_profiles').select(TAX_PROFILE_FIELDS);
+  if (error) throw error;
+  return (Array.isArray(data) ? data : []) as DbTaxProfileRow[];
+};
+
+// The card saved at the customer's last checkout, or null; pay with it through startSavedCardPayment.
+export const getMySavedCard = async () => {
+  const supabase = requireSupabase();
+  const user = await getCurrentUser();
+  if (!user?.id) return null;
+  const { data, error } = await supabase
+    .from('billing_profiles')
+    .select('has_saved_payment_method, card_brand, card_last4, card_exp_month, card_exp_year')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return readSavedCard(data);
+};
+
+export type SubmitTaxProfileInput = {
+  gst_registration_number?: string | null;
+  qst_registration_number?: string | null;
+  tax_exemption_type?: TaxExemptionType | null;
+  tax_exemption_certificate?: string | null;
+  // Evidence (exemption certificate, status card, ...); required the first time an exemption is requested.
+  file?: { name: string; type: string; size: number; base64: string } | null;
+};
+
+const postManageTaxProfile = async (payload: Record<string, unknown>, fallbackError: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/manage-tax-profile', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || fallbackError);
+  }
+  return (await res.json().catch(() => null)) as { profile?: DbTaxProfileRow; url?: string } | null;
+};
+
+// Registration numbers apply right away; a new or changed exemption waits for staff approval.
+export const submitMyTaxProfile = async (input: SubmitTaxProfileInput) => {
+  const json = await postManageTaxProfile({ action: 'submit', ...input }, 'Failed to save the tax profile');
+  if (!json?.profile) throw new Error('Failed to save the tax profile');
+  return json.profile;
+};
+
+export const reviewTaxExemptionAsStaff = async (userId: string, decision: 'approved' | 'rejected', note?: string | null) => {
+  const json = await postManageTaxProfile({ action: 'review', user_id: userId, decision, note: note ?? null }, 'Failed to review the exemption');
+  if (!json?.profile) throw new Error('Failed to review the exemption');
+  return json.profile;
+};
+
+export const getTaxExemptionDocumentUrlAsStaff = async (userId: string) => {
+  const json = await postManageTaxProfile({ action: 'document_url', user_id: userId }, 'Failed to open the evidence document');
+  const url = String(json?.url ?? '').trim();
+  if (!url) throw new Error('Failed to open the evidence document');
+  return url;
+};
+
+const postManageDiscounts = async (payload: Record<string, unknown>, fallbackError: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/manage-discounts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || fallbackError);
+  }
+  return (await res.json().catch(() => null)) as Record<string, unknown> | null;
+};
+
+// The signed-in customer's contract rate and, when given, the promo code; throws with the reason a code is refused.
+// The quote step previews these; create-quote applies them again when the order is placed.
+export const checkMyDiscounts = async (promoCode?: string | null) => {
+  const json = await postManageDiscounts({ action: 'check', promo_code: promoCode ?? null }, 'Failed to check the promo code');
+  return (Array.isArray(json?.rules) ? json.rules : []) as DiscountRule[];
+};
+
+export type PromoCodeReportRow = PromoCodeRow & {
+  // Paid orders that used the code and the discount they were given (approved offers excluded).
+  redemptions: number;
+  discount_given: number;
+};
+
+export type StaffDiscounts = {
+  promo_codes: PromoCodeReportRow[];
+  contracts: Array<CustomerContractRow & { email: string | null }>;
+};
+
+export const listDiscountsAsStaff = async (): Promise<StaffDiscounts> => {
+  const json = await postManageDiscounts({ action: 'list' }, 'Failed to load discounts');
+  return {
+    promo_codes: (Array.isArray(json?.promo_codes) ? json.promo_codes : []) as StaffDiscounts['promo_codes'],
+    contracts: (Array.isArray(json?.contracts) ? json.contracts : []) as StaffDiscounts['contracts'],
+  };
+};
+
+export type SavePromoCodeInput = Pick<
+  PromoCodeRow,
+  'code' | 'description' | 'percent_off' | 'amount_off' | 'valid_from' | 'valid_until' | 'max_redemptions' | 'max_per_customer' | 'active'
+>;
+
+export const savePromoCodeAsStaff = async (input: SavePromoCodeInput) => {
+  const json = await postManageDiscounts({ action: 'save_promo_code', ...input }, 'Failed to save the promo code');
+  if (!json?.promo_code) throw new Error('Failed to save the promo code');
+  return json.promo_code as PromoCodeRow;
+};
+
+// A percent of 0 (or null) removes the contract rate.
+export const setCustomerContractAsStaff = async (userId: string, percentOff: number | null, validUntil?: string | null, note?: string | null) => {
+  const json = await postManageDiscounts(
+    { action: 'set_contract', user_id: userId, percent_off: percentOff, valid_until: validUntil ?? null, note: note ?? null },
+    'Failed to save the contract rate'
+  );
+  return (json?.contract ?? null) as CustomerContractRow | null;
+};
+
+// Card unless an admin put the account on invoice terms.
+export const getMyBillingTerms = async () => {
+  const supabase = requireSupabase();
+  const user = await getCurrentUser();
+  if (!user?.id) return readBillingTerms(null);
+  const { data, error } = await supabase.from('billing_profiles').select('payment_terms, net_terms_days').eq('user_id', user.id).maybeSingle();
+  if (error) throw error;
+  return readBillingTerms(data);
+};
+
+// The signed-in customer's statements, newest first (invoices_select_own).
+export const listMyInvoices = async () => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.from('invoices').select(INVOICE_FIELDS).order('period', { ascending: false });
+  if (error) throw error;
+  return (Array.isArray(data) ? data : []).map(readInvoice).filter((i): i is Invoice => i !== null);
+};
+
+// Admins only (invoices_select_admin).
+export const listInvoicesAsStaff = async () => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.from('invoices').select(INVOICE_FIELDS).order('issued_at', { ascending: false }).limit(500);
+  if (error) throw error;
+  return (Array.isArray(data) ? data : []).map(readInvoice).filter((i): i is Invoice => i !== null);
+};
+
+const postManageInvoices = async (payload: Record<string, unknown>, fallbackError: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/manage-invoices', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || fallbackError);
+  }
+  return (await res.json().catch(() => null)) as Record<string, unknown> | null;
+};
+
+export const setBillingTermsAsStaff = async (userId: string, paymentTerms: PaymentTerms, netTermsDays: number) => {
+  const json = await postManageInvoices(
+    { action: 'set_terms', user_id: userId, payment_terms: paymentTerms, net_terms_days: netTermsDays },
+    'Failed to save the payment terms'
+  );
+  return readBillingTerms(json?.terms);
+};
+
+// Issues the statements for a month (the previous one by default) to every account with delivered orders on account
+// that are not billed yet; accounts that already have that month's statement are skipped.
+export const issueStatementsAsStaff = async (period?: string | null, userId?: string | null) => {
+  const json = await postManageInvoices({ action: 'issue', period: period ?? null, user_id: userId ?? null }, 'Failed to issue the statements');
+  return (Array.isArray(json?.invoices) ? json.invoices : []).map(readInvoice).filter((i): i is Invoice => i !== null);
+};
+
+export const markInvoicePaidAsStaff = async (invoiceId: string, reference?: string | null) => {
+  const json = await postManageInvoices({ action: 'mark_paid', invoice_id: invoiceId, reference: reference ?? null }, 'Failed to mark the invoice paid');
+  const invoice = readInvoice(json?.invoice);
+  if (!invoice) throw new Error('Failed to mark the invoice paid');
+  return invoice;
+};
+
+// Matches Stripe's charges, refunds and payouts of a date range (YYYY-MM-DD, inclusive) to orders. Admin only.
+export const reconcilePaymentsAsStaff = async (from: string, to: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/reconcile-payments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, to, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to reconcile the payments');
+  }
+  const json = (await res.json().catch(() => null)) as { report?: ReconciliationReport } | null;
+  if (!json?.report || !Array.isArray(json.report.rows)) throw new Error('Failed to reconcile the payments');
+  return json.report;
+};
+
+// An order's receipts and credit notes, oldest first (receipts_select_staff).
+export const listOrderReceiptsAsStaff = async (orderCode: string) => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.from('receipts').select(RECEIPT_FIELDS).eq('order_code', orderCode).order('created_at', { ascending: true });
+  if (error) throw error;
+  return (Array.isArray(data) ? data : []).map(readReceiptRecord).filter((r): r is ReceiptRecord => r !== null);
+};
+
+// The PDF of one of the customer's receipts, or of any receipt for staff.
+export const getReceiptPdf = async (receiptId: string) => {
+  const token = await getAccessToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch('/.netlify/functions/receipt-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ receipt_id: receiptId, access_token: token }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || 'Failed to download the receipt');
+  }
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? 'receipt.pdf';
+  return { blob: await res.blob(), filename };
+};
@@ -0,0 +1,126 @@
+import {
+  getAccessorialOption,
+  getAccessorialPrice,
+  getActivePricingRules,
+  isAccessorialCode,
+  type AccessorialCode,
+  type AccessorialUnit,
+  type PricingRules,
+} from './pricingTable';
+
+// Accessorials staff attach to an order (winching, waiting time, storage days, ...), kept in orders.accessorials.
+// Their price is fixed from the published catalogue when they are added. Unpaid ones are charged with the order's
+// checkout, or, once the order is paid, through a separate checkout for the extra charges
+// (create-accessorials-checkout). The quoted loading fee is part of the order price and is not repeated here.
+
+export type OrderAccessorial = {
+  id: string;
+  code: AccessorialCode;
+  label: string;
+  unit: AccessorialUnit;
+  unit_price: number;
+  quantity: number;
+  amount: number;
+  note: string | null;
+  added_at: string;
+  added_by: string | null;
+  // Set by the Stripe webhook (or local checkout) once the charge was collected.
+  paid_at: string | null;
+};
+
+// Stripe metadata values are capped at 500 characters, so ids are kept short.
+export const MAX_ORDER_ACCESSORIALS = 20;
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const UNIT_LABELS: Record<AccessorialUnit, [string, string]> = {
+  vehicle: ['vehicle', 'vehicles'],
+  hour: ['hour', 'hours'],
+  day: ['day', 'days'],
+  order: ['', ''],
+};
+
+export const formatAccessorialUnit = (unit: AccessorialUnit) => (unit === 'order' ? 'per order' : `per ${UNIT_LABELS[unit][0]}`);
+
+export const formatAccessorialQuantity = (a: Pick<OrderAccessorial, 'unit' | 'quantity'>) =>
+  a.unit === 'order' ? (a.quantity > 1 ? `× ${a.quantity}` : '') : `× ${a.quantity} ${UNIT_LABELS[a.unit][a.quantity === 1 ? 0 : 1]}`;
+
+export const formatAccessorialLine = (a: OrderAccessorial) =>
+  `${[a.label, formatAccessorialQuantity(a)].filter(Boolean).join(' ')}: $${a.amount.toFixed(2)}`;
+
+const makeAccessorialId = () => `acc_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const makeOrderAccessorial = (
+  code: AccessorialCode,
+  quantity: number,
+  options: { note?: string | null; addedBy?: string | null; rules?: PricingRules; now?: Date } = {}
+): OrderAccessorial => {
+  const option = getAccessorialOption(code);
+  const qty = Number.isFinite(quantity) && quantity > 0 ? Math.round(quantity * 100) / 100 : 1;
+  const unitPrice = getAccessorialPrice(code, options.rules ?? getActivePricingRules());
+  return {
+    id: makeAccessorialId(),
+    code,
+    label: option?.label ?? code,
+    unit: option?.unit ?? 'order',
+    unit_price: unitPrice,
+    quantity: qty,
+    amount: roundCents(unitPrice * qty),
+    note: String(options.note ?? '').trim() || null,
+    added_at: (options.now ?? new Date()).toISOString(),
+    added_by: String(options.addedBy ?? '').trim() || null,
+    paid_at: null,
+  };
+};
+
+const readOrderAccessorial = (raw: unknown): OrderAccessorial | null => {
+  const r = readRecord(raw);
+  if (!r || !isAccessorialCode(r.code)) return null;
+  const id = String(r.id ?? '').trim();
+  const quantity = Number(r.quantity);
+  const unitPrice = Number(r.unit_price);
+  if (!id || !Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(unitPrice) || unitPrice < 0) return null;
+  const option = getAccessorialOption(r.code);
+  return {
+    id,
+    code: r.code,
+    label: String(r.label ?? '').trim() || option?.label || r.code,
+    unit: option?.unit ?? 'order',
+    unit_price: unitPrice,
+    quantity,
+    amount: roundCents(unitPrice * quantity),
+    note: typeof r.note === 'string' && r.note.trim() ? r.note.trim() : null,
+    added_at: String(r.added_at ?? ''),
+    added_by: typeof r.added_by === 'string' && r.added_by ? r.added_by : null,
+    paid_at: typeof r.paid_at === 'string' && r.paid_at ? r.paid_at : null,
+  };
+};
+
+// Reads orders.accessorials (or a local order's copy); anything malformed is dropped.
+export const readOrderAccessorials = (raw: unknown): OrderAccessorial[] =>
+  Array.isArray(raw) ? (raw.map(readOrderAccessorial).filter(Boolean) as OrderAccessorial[]) : [];
+
+export const getUnpaidAccessorials = (list: OrderAccessorial[]) => list.filter((a) => !a.paid_at);
+
+export const getAccessorialsTotal = (list: OrderAccessorial[]) => roundCents(list.reduce((sum, a) => sum + a.amount, 0));
+
+export const markAccessorialsPaid = (list: OrderAccessorial[], ids: string[], paidAt: string): OrderAccessorial[] =>
+  list.map((a) => (!a.paid_at && ids.includes(a.id) ? { ...a, paid_at: paidAt } : a));
+
+// Checkout metadata carries the ids that were charged, so the webhook marks exactly those as paid.
+export const formatAccessorialIds = (list: OrderAccessorial[]) => list.map((a) => a.id).join(',');
+
+export const parseAccessorialIds = (raw: unknown) =>
+  String(raw ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+// The quoted loading fee (form_data.vehicle_loading_fee), shown next to the attached accessorials.
+export const readQuotedLoadingFee = (formData: unknown) => {
+  const n = Number(readRecord(formData)?.vehicle_loading_fee);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
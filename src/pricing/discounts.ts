@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Quote } from './quotes';
+
+// Promo codes and per-customer contract rates. Both come off the transport price (never the loading fees), after the
+// multi-car and round-trip discounts and the service-level surcharge: the contract rate first, then the promo code.
+// Codes and contracts are only readable by Netlify functions, so the server decides which discounts a quote gets.
+
+export type DiscountKind = 'contract' | 'promo';
+
+export type DiscountRule = {
+  kind: DiscountKind;
+  // The promo code; empty for contract rates.
+  code: string;
+  label: string;
+  // One of the two is set: a percentage of the remaining transport price, or a fixed amount capped at it.
+  percent_off: number;
+  amount_off: number;
+};
+
+export type QuoteDiscount = DiscountRule & { amount: number };
+
+export type PromoCodeRow = {
+  code: string;
+  description: string | null;
+  percent_off: number | null;
+  amount_off: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  // Paid orders that may use the code, in total and per customer; null is unlimited.
+  max_redemptions: number | null;
+  max_per_customer: number | null;
+  active: boolean;
+  created_at: string;
+};
+
+export type CustomerContractRow = {
+  user_id: string;
+  percent_off: number;
+  valid_until: string | null;
+  note: string | null;
+  updated_at: string;
+};
+
+// Paid orders that used a promo code: all customers, and the one asking.
+export type PromoCodeUsage = { total: number; customer: number };
+
+export type DiscountLookup = {
+  rules: DiscountRule[];
+  // Why the requested promo code was not applied; the contract rate (if any) still is.
+  promo_error: string | null;
+};
+
+export const PROMO_CODE_FIELDS = 'code, description, percent_off, amount_off, valid_from, valid_until, max_redemptions, max_per_customer, active, created_at';
+export const CUSTOMER_CONTRACT_FIELDS = 'user_id, percent_off, valid_until, note, updated_at';
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readPositive = (v: unknown) => {
+  const n = Number(v);
+  return v !== null && v !== undefined && v !== '' && Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+// Codes are matched case-insensitively and without spaces.
+export const normalizePromoCode = (v: unknown) =>
+  String(v ?? '')
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, '');
+
+export const formatDiscountAmount = (rule: Pick<DiscountRule, 'percent_off' | 'amount_off'>) =>
+  rule.percent_off > 0 ? `${rule.percent_off}%` : `$${rule.amount_off.toFixed(2)}`;
+
+export const promoDiscountRule = (row: Pick<PromoCodeRow, 'code' | 'percent_off' | 'amount_off'>): DiscountRule => {
+  const percent = Math.min(100, readPositive(row.percent_off));
+  const rule = { percent_off: percent, amount_off: percent > 0 ? 0 : readPositive(row.amount_off) };
+  return { kind: 'promo', code: normalizePromoCode(row.code), label: `Promo ${normalizePromoCode(row.code)} (${formatDiscountAmount(rule)})`, ...rule };
+};
+
+export const contractDiscountRule = (row: Pick<CustomerContractRow, 'percent_off'>): DiscountRule => {
+  const percent = Math.min(100, readPositive(row.percent_off));
+  return { kind: 'contract', code: '', label: `Contract rate (${percent}%)`, percent_off: percent, amount_off: 0 };
+};
+
+// Returns why the code cannot be used right now, or null when it can.
+export const getPromoCodeError = (row: PromoCodeRow | null, usage: PromoCodeUsage, now = new Date()): string | null => {
+  if (!row || !row.active) return 'This promo code is not valid.';
+  if (!readPositive(row.percent_off) && !readPositive(row.amount_off)) return 'This promo code is not valid.';
+  if (row.valid_from && Date.parse(row.valid_from) > now.getTime()) return 'This promo code is not active yet.';
+  if (row.valid_until && Date.parse(row.valid_until) <= now.getTime()) return 'This promo code has expired.';
+  if (row.max_redemptions && usage.total >= row.max_redemptions) return 'This promo code has been fully redeemed.';
+  if (row.max_per_customer && usage.customer >= row.max_per_customer) return 'You have already used this promo code.';
+  return null;
+};
+
+export const isContractActive = (row: CustomerContractRow | null, now = new Date()) =>
+  Boolean(row && readPositive(row.percent_off) > 0 && (!row.valid_until || Date.parse(row.valid_until) > now.getTime()));
+
+// Contract rate first, then the promo code on what is left; neither takes the transport price below zero.
+export const computeDiscounts = (transportPrice: number, rules: DiscountRule[]): QuoteDiscount[] => {
+  let remaining = Math.max(0, roundCents(transportPrice));
+  const ordered = [...rules].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'contract' ? -1 : 1));
+  const out: QuoteDiscount[] = [];
+  for (const rule of ordered) {
+    const raw = rule.percent_off > 0 ? (remaining * rule.percent_off) / 100 : rule.amount_off;
+    const amount = roundCents(Math.min(remaining, Math.max(0, raw)));
+    if (!(amount > 0)) continue;
+    out.push({ ...rule, amount });
+    remaining = roundCents(remaining - amount);
+  }
+  return out;
+};
+
+export const getDiscountTotal = (discounts: QuoteDiscount[]) => roundCents(discounts.reduce((sum, d) => sum + d.amount, 0));
+
+// price_before_tax becomes the discounted amount; the vehicle and leg lines keep their prices before the discount.
+// customerId ties the signed quote to the customer the discounts were looked up for.
+export const applyQuoteDiscounts = (quote: Quote, rules: DiscountRule[], customerId: string | null): Quote => {
+  const discounts = computeDiscounts(quote.transport_price, rules);
+  if (!discounts.length) return quote;
+  const total = getDiscountTotal(discounts);
+  return {
+    ...quote,
+    discounts,
+    discount_total: total,
+    promo_code: discounts.find((d) => d.kind === 'promo')?.code ?? null,
+    customer_id: customerId,
+    price_before_tax: roundCents(quote.price_before_tax - total),
+  };
+};
+
+const readQuoteDiscount = (raw: unknown): QuoteDiscount | null => {
+  const r = readRecord(raw);
+  if (!r) return null;
+  const amount = readPositive(r.amount);
+  if (!amount) return null;
+  return {
+    kind: r.kind === 'contract' ? 'contract' : 'promo',
+    code: normalizePromoCode(r.code),
+    label: String(r.label ?? '').trim() || 'Discount',
+    percent_off: readPositive(r.percent_off),
+    amount_off: readPositive(r.amount_off),
+    amount,
+  };
+};
+
+// Discounts the order was quoted with (saved on the form by applyQuoteToFormData); empty for older orders.
+export const readOrderDiscounts = (formData: unknown): QuoteDiscount[] => {
+  const raw = readRecord(formData)?.discounts;
+  return Array.isArray(raw) ? (raw.map(readQuoteDiscount).filter(Boolean) as QuoteDiscount[]) : [];
+};
+
+export const fetchPromoCodeUsage = async (client: SupabaseClient, code: string, userId: string | null): Promise<PromoCodeUsage> => {
+  const { count: total, error } = await client
+    .from('orders')
+    .select('id', { count: 'exact', head: true })
+    .eq('promo_code', code)
+    .in('payment_status', ['paid', 'invoiced']);
+  if (error) throw error;
+  if (!userId) return { total: total ?? 0, customer: 0 };
+
+  const { count: customer, error: customerErr } = await client
+    .from('orders')
+    .select('id', { count: 'exact', head: true })
+    .eq('promo_code', code)
+    .in('payment_status', ['paid', 'invoiced'])
+    .eq('user_id', userId);
+  if (customerErr) throw customerErr;
+  return { total: total ?? 0, customer: customer ?? 0 };
+};
+
+// Server-side only (service role client): the customer's contract rate and the promo code, checked against its
+// validity window and usage limits. Promo codes need a signed-in customer for the per-customer limit.
+export const fetchDiscountRules = async (
+  client: SupabaseClient,
+  options: { userId: string | null; promoCode?: string | null; now?: Date }
+): Promise<DiscountLookup> => {
+  const now = options.now ?? new Date();
+  const rules: DiscountRule[] = [];
+
+  if (options.userId) {
+    const { data: contract, error } = await client.from('customer_contracts').select(CUSTOMER_CONTRACT_FIELDS).eq('user_id', options.userId).maybeSingle();
+    if (error) throw error;
+    if (isContractActive(contract as CustomerContractRow | null, now)) rules.push(contractDiscountRule(contract as CustomerContractRow));
+  }
+
+  const code = normalizePromoCode(options.promoCode);
+  if (!code) return { rules, promo_error: null };
+  if (!options.userId) return { rules, promo_error: 'Sign in to use a promo code.' };
+
+  const { data: promo, error: promoErr } = await client.from('promo_codes').select(PROMO_CODE_FIELDS).eq('code', code).maybeSingle();
+  if (promoErr) throw promoErr;
+  const usage = promo ? await fetchPromoCodeUsage(client, code, options.userId) : { total: 0, customer: 0 };
+  const promoError = getPromoCodeError(promo as PromoCodeRow | null, usage, now);
+  if (promoError) return { rules, promo_error: promoError };
+
+  rules.push(promoDiscountRule(promo as PromoCodeRow));
+  return { rules, promo_error: null };
+};
@@ -0,0 +1,173 @@
+import { normalizeServiceType } from './pricingTable';
+
+// Round trips and multi-leg moves keep one entry per leg in form_data.legs. The first leg is mirrored into
+// form_data.pickup_location / dropoff_location, which is where one-way orders (and older code) keep it.
+// Each leg is priced, dated and tracked on its own.
+
+export const MAX_ORDER_LEGS = 6;
+
+export const LEG_STATUSES = ['Scheduled', 'Picked Up', 'In Transit', 'Delayed', 'Out for Delivery', 'Delivered'] as const;
+
+export type LegStatus = (typeof LEG_STATUSES)[number];
+
+export type OrderLegLocation = {
+  name: string;
+  phone: string;
+  address: string;
+  city: string;
+  province: string;
+  postal_code: string;
+  lat: string;
+  lng: string;
+};
+
+export type OrderLegStatusEvent = {
+  status: LegStatus;
+  at: string;
+  note?: string;
+};
+
+export type OrderLeg = {
+  id: string;
+  pickup_location: OrderLegLocation;
+  dropoff_location: OrderLegLocation;
+  pickup_date: string;
+  delivery_date: string;
+  status: LegStatus;
+  status_events: OrderLegStatusEvent[];
+  // Written from the signed quote when the order is created or re-quoted.
+  route_area?: string;
+  distance_km?: number | null;
+  price_before_tax?: number;
+};
+
+const LEG_LOCATION_FIELDS = ['name', 'phone', 'address', 'city', 'province', 'postal_code', 'lat', 'lng'] as const;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const readText = (v: unknown) => (typeof v === 'string' ? v : v == null ? '' : String(v)).trim();
+
+const readAmount = (v: unknown) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return v !== null && v !== '' && Number.isFinite(n) ? n : undefined;
+};
+
+export const isLegStatus = (value: unknown): value is LegStatus => LEG_STATUSES.includes(value as LegStatus);
+
+export const makeOrderLegId = () => `leg_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const makeEmptyLegLocation = (): OrderLegLocation => ({
+  name: '',
+  phone: '',
+  address: '',
+  city: '',
+  province: '',
+  postal_code: '',
+  lat: '',
+  lng: '',
+});
+
+const readLegLocation = (raw: unknown): OrderLegLocation => {
+  const r = readRecord(raw) ?? {};
+  return Object.fromEntries(LEG_LOCATION_FIELDS.map((key) => [key, readText(r[key])])) as OrderLegLocation;
+};
+
+// A new leg starts where the previous one ended.
+export const makeEmptyOrderLeg = (from?: OrderLegLocation | null): OrderLeg => ({
+  id: makeOrderLegId(),
+  pickup_location: from ? { ...from } : makeEmptyLegLocation(),
+  dropoff_location: makeEmptyLegLocation(),
+  pickup_date: '',
+  delivery_date: '',
+  status: 'Scheduled',
+  status_events: [],
+});
+
+export const makeReturnLeg = (leg: OrderLeg, id = makeOrderLegId()): OrderLeg => ({
+  ...makeEmptyOrderLeg(),
+  id,
+  pickup_location: { ...leg.dropoff_location },
+  dropoff_location: { ...leg.pickup_location },
+});
+
+const readStatusEvents = (raw: unknown): OrderLegStatusEvent[] =>
+  (Array.isArray(raw) ? raw : [])
+    .map(readRecord)
+    .filter((e): e is Record<string, unknown> => !!e && isLegStatus(e.status) && !!readText(e.at))
+    .map((e) => ({ status: e.status as LegStatus, at: readText(e.at), ...(readText(e.note) ? { note: readText(e.note) } : {}) }));
+
+const readOrderLeg = (raw: Record<string, unknown>, index: number): OrderLeg => {
+  const distance = readAmount(raw.distance_km);
+  return {
+    id: readText(raw.id) || `leg_${index + 1}`,
+    pickup_location: readLegLocation(raw.pickup_location),
+    dropoff_location: readLegLocation(raw.dropoff_location),
+    pickup_date: readText(raw.pickup_date),
+    delivery_date: readText(raw.delivery_date),
+    status: isLegStatus(raw.status) ? raw.status : 'Scheduled',
+    status_events: readStatusEvents(raw.status_events),
+    route_area: readText(raw.route_area) || undefined,
+    distance_km: distance === undefined ? undefined : distance,
+    price_before_tax: readAmount(raw.price_before_tax),
+  };
+};
+
+// Always returns at least one leg: the first one comes from the order's pickup and drop-off.
+// One-way orders have exactly one leg; a round trip's return leg is always the first leg reversed
+// (its saved id, dates and status are kept).
+export const readOrderLegs = (formData: unknown): OrderLeg[] => {
+  const form = readRecord(formData) ?? {};
+  const service = readRecord(form.service) ?? {};
+  const serviceType = normalizeServiceType(service.service_type);
+  const list = (Array.isArray(form.legs) ? form.legs : []).map(readRecord).filter(Boolean) as Record<string, unknown>[];
+  const pickup = readRecord(form.pickup_location) ?? {};
+  const dropoff = readRecord(form.dropoff_location) ?? {};
+  const savedFirst = readRecord(list[0]) ?? {};
+
+  const first = readOrderLeg(
+    {
+      ...savedFirst,
+      pickup_location: { ...(readRecord(savedFirst.pickup_location) ?? {}), ...pickup },
+      dropoff_location: { ...(readRecord(savedFirst.dropoff_location) ?? {}), ...dropoff },
+    },
+    0
+  );
+
+  if (serviceType === 'pickup_one_way' || serviceType === 'delivery_one_way') return [first];
+
+  const rest = list.slice(1).map((leg, i) => readOrderLeg(leg, i + 1));
+  if (serviceType === 'round_trip') {
+    const back = makeReturnLeg(first, rest[0]?.id ?? 'leg_2');
+    return [first, rest[0] ? { ...rest[0], pickup_location: back.pickup_location, dropoff_location: back.dropoff_location } : back];
+  }
+  return [first, ...rest].slice(0, MAX_ORDER_LEGS);
+};
+
+export const withOrderLegs = <T extends object>(formData: T, legs: OrderLeg[]): T => {
+  const form = formData as Record<string, unknown>;
+  const list = legs.slice(0, MAX_ORDER_LEGS);
+  const first = list[0];
+  if (!first) return formData;
+  return {
+    ...form,
+    pickup_location: { ...(readRecord(form.pickup_location) ?? {}), ...first.pickup_location },
+    dropoff_location: { ...(readRecord(form.dropoff_location) ?? {}), ...first.dropoff_location },
+    legs: list,
+  } as T;
+};
+
+export const getOrderLegCount = (formData: unknown) => readOrderLegs(formData).length;
+
+const placeLabel = (location: OrderLegLocation) => location.city || location.address || '?';
+
+export const formatOrderLegLabel = (leg: Pick<OrderLeg, 'pickup_location' | 'dropoff_location'>, index: number) =>
+  `Leg ${index + 1}: ${placeLabel(leg.pickup_location)} → ${placeLabel(leg.dropoff_location)}`;
+
+// Newest event first, like order status timelines.
+export const setOrderLegStatus = (legs: OrderLeg[], legId: string, status: LegStatus, note?: string, at = new Date().toISOString()): OrderLeg[] =>
+  legs.map((leg) =>
+    leg.id === legId
+      ? { ...leg, status, status_events: [{ status, at, ...(note ? { note } : {}) }, ...leg.status_events] }
+      : leg
+  );
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_PRICING_RULES, normalizePricingRules, setActivePricingRules, type PricingRules } from './pricingTable';
+
+// Shared read path for published pricing. Used by the browser (anon client) and by
+// Netlify functions (service role client), so it must not touch import.meta.env.
+
+export const PRICING_RULES_CHANGE_EVENT = 'ed_pricing_rules_change';
+
+const LOCAL_PRICING_RULES_KEY = 'ed_pricing_rules_local_v1';
+
+export type PricingRulesVersionRow = {
+  version: number;
+  rules: Pick<
+    PricingRules,
+    | 'city_prices'
+    | 'lane_prices'
+    | 'distance_rate_per_km'
+    | 'distance_bands'
+    | 'distance_base_fee'
+    | 'distance_minimum_charge'
+    | 'vehicle_multipliers'
+    | 'multi_vehicle_discount'
+    | 'round_trip_discount_percent'
+    | 'service_level_modifiers'
+    | 'sla_windows'
+    | 'accessorial_prices'
+    | 'cancellation_fees'
+    | 'deposit_rules'
+  >;
+  note: string | null;
+  created_by: string | null;
+  published_at: string;
+};
+
+export const toPricingRulesPayload = (rules: PricingRules): PricingRulesVersionRow['rules'] => ({
+  city_prices: { ...rules.city_prices },
+  lane_prices: rules.lane_prices.map((lane) => ({ ...lane })),
+  distance_rate_per_km: rules.distance_rate_per_km,
+  distance_bands: rules.distance_bands.map((band) => ({ ...band })),
+  distance_base_fee: rules.distance_base_fee,
+  distance_minimum_charge: rules.distance_minimum_charge,
+  vehicle_multipliers: { ...rules.vehicle_multipliers },
+  multi_vehicle_discount: { ...rules.multi_vehicle_discount },
+  round_trip_discount_percent: rules.round_trip_discount_percent,
+  service_level_modifiers: { ...rules.service_level_modifiers },
+  sla_windows: rules.sla_windows.map((w) => ({ ...w })),
+  accessorial_prices: { ...rules.accessorial_prices },
+  cancellation_fees: { ...rules.cancellation_fees },
+  deposit_rules: rules.deposit_rules.map((rule) => ({ ...rule })),
+});
+
+export const fetchPublishedPricingRules = async (client: SupabaseClient): Promise<PricingRules> => {
+  const { data, error } = await client
+    .from('pricing_rules')
+    .select('version, rules, published_at')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? normalizePricingRules(data) : DEFAULT_PRICING_RULES;
+};
+
+// The rules an order was priced with (its pricing_version), so a change to it is priced the same way. Orders without a
+// version, or with one that is gone, use the published rules.
+export const fetchPricingRulesVersion = async (client: SupabaseClient, version: unknown): Promise<PricingRules> => {
+  const v = Number(version);
+  if (!Number.isInteger(v) || v <= 0) return fetchPublishedPricingRules(client);
+  const { data, error } = await client.from('pricing_rules').select('version, rules, published_at').eq('version', v).maybeSingle();
+
+  if (error) throw error;
+  return data ? normalizePricingRules(data) : fetchPublishedPricingRules(client);
+};
+
+const readLocalPricingRuleVersions = (): PricingRulesVersionRow[] => {
+  try {
+    if (typeof window === 'undefined') return [];
+    const raw = window.localStorage.getItem(LOCAL_PRICING_RULES_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as unknown[])
+      .map((it) => {
+        if (!it || typeof it !== 'object') return null;
+        const r = it as Record<string, unknown>;
+        const normalized = normalizePricingRules(r);
+        if (!normalized.version) return null;
+        return {
+          version: normalized.version,
+          rules: toPricingRulesPayload(normalized),
+          note: typeof r.note === 'string' ? r.note : null,
+          created_by: typeof r.created_by === 'string' ? r.created_by : null,
+          published_at: normalized.published_at ?? new Date().toISOString(),
+        } satisfies PricingRulesVersionRow;
+      })
+      .filter(Boolean) as PricingRulesVersionRow[];
+  } catch {
+    return [];
+  }
+};
+
+export const listLocalPricingRuleVersions = (): PricingRulesVersionRow[] =>
+  readLocalPricingRuleVersions().sort((a, b) => b.version - a.version);
+
+export const getLocalPricingRulesVersion = (version: unknown): PricingRules | null => {
+  const row = listLocalPricingRuleVersions().find((r) => r.version === Number(version)) ?? null;
+  return row ? normalizePricingRules(row) : null;
+};
+
+export const getLocalPublishedPricingRules = (): PricingRules => {
+  const latest = listLocalPricingRuleVersions()[0] ?? null;
+  return latest ? normalizePricingRules(latest) : DEFAULT_PRICING_RULES;
+};
+
+export const publishLocalPricingRules = (
+  rules: PricingRulesVersionRow['rules'],
+  note?: string | null,
+  createdBy?: string | null
+): PricingRulesVersionRow => {
+  const existing = readLocalPricingRuleVersions();
+  const nextVersion = existing.reduce((max, row) => Math.max(max, row.version), 0) + 1;
+  const row: PricingRulesVersionRow = {
+    version: nextVersion,
+    rules: toPricingRulesPayload(normalizePricingRules({ rules })),
+    note: String(note ?? '').trim() || null,
+    created_by: String(createdBy ?? '').trim() || null,
+    published_at: new Date().toISOString(),
+  };
+  try {
+    window.localStorage.setItem(LOCAL_PRICING_RULES_KEY, JSON.stringify([row, ...existing]));
+  } catch {
+    // ignore
+  }
+  return row;
+};
+
+export const applyPublishedPricingRules = (rules: PricingRules) => {
+  setActivePricingRules(rules);
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new Event(PRICING_RULES_CHANGE_EVENT));
+  } catch {
+    // ignore
+  }
+};
+
+export const loadPublishedPricingRules = async (client: SupabaseClient | null, options?: { local?: boolean }) => {
+  if (options?.local || !client) {
+    const rules = getLocalPublishedPricingRules();
+    applyPublishedPricingRules(rules);
+    return rules;
+  }
+
+  try {
+    const rules = await fetchPublishedPricingRules(client);
+    applyPublishedPricingRules(rules);
+    return rules;
+  } catch {
+    return DEFAULT_PRICING_RULES;
+  }
+};
@@ -0,0 +1,166 @@
+import { applyVehicleClassPrice, getNorthlineCost, type PricingRules } from './pricingTable';
+import { computeQuote, quoteRequestFromFormData, readSavedQuoteDistances, type Quote } from './quotes';
+
+// "What-if" pricing: re-prices past orders with the published rules and with candidate rules, so staff can see
+// what a price change would have done to revenue and margin before publishing it. Nothing here is saved.
+
+export type PricingScenario = {
+  rules: PricingRules;
+  // EDC's markup per vehicle and leg. Northline's cost is the published retail price less this markup, in both
+  // scenarios: a new retail price changes what the customer pays, not what Northline charges.
+  markup: number;
+};
+
+// StaffOrderRow and (mapped) local orders both fit this shape.
+export type SimulationOrderInput = {
+  order_code: string;
+  route_area: string | null;
+  order_stage?: string | null;
+  price_before_tax: number | null;
+  final_price_before_tax?: number | null;
+  form_data?: unknown;
+  created_at: string;
+};
+
+export type SimulatedPrice = {
+  revenue: number;
+  northline_cost: number;
+  margin: number;
+};
+
+export type SimulatedOrder = {
+  order_code: string;
+  route: string;
+  created_at: string;
+  // What the order was priced at: the approved offer when there is one, otherwise the quote.
+  charged: number;
+  negotiated: number | null;
+  current: SimulatedPrice;
+  candidate: SimulatedPrice;
+};
+
+export type SimulationTotals = {
+  orders: number;
+  charged: number;
+  current: SimulatedPrice;
+  candidate: SimulatedPrice;
+  negotiated_orders: number;
+  negotiated_revenue: number;
+  // Candidate price of the negotiated orders; compare with negotiated_revenue.
+  candidate_negotiated_revenue: number;
+};
+
+export type RouteSimulation = SimulationTotals & { route: string };
+
+export type PricingSimulation = {
+  since: string;
+  // Orders in the window that could not be re-priced (no saved distance for a route outside the lanes, etc.).
+  skipped: string[];
+  orders: SimulatedOrder[];
+  totals: SimulationTotals;
+  routes: RouteSimulation[];
+};
+
+export const SIMULATION_MONTH_OPTIONS = [1, 3, 6, 12] as const;
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+const readAmount = (v: unknown) => {
+  const n = Number(v);
+  return v !== null && v !== undefined && v !== '' && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// Every leg of every vehicle pays Northline its published class price less the markup, before any discount.
+const priceScenario = (quote: Quote, published: Quote, publishedRules: PricingRules, markup: number): SimulatedPrice => {
+  const cost = published.legs.reduce(
+    (sum, leg) =>
+      sum + published.vehicles.reduce((legSum, v) => legSum + getNorthlineCost(applyVehicleClassPrice(leg.base_price, v.vehicle_type, publishedRules), markup), 0),
+    0
+  );
+  return { revenue: quote.price_before_tax, northline_cost: roundCents(cost), margin: roundCents(quote.price_before_tax - cost) };
+};
+
+const emptyTotals = (): SimulationTotals => ({
+  orders: 0,
+  charged: 0,
+  current: { revenue: 0, northline_cost: 0, margin: 0 },
+  candidate: { revenue: 0, northline_cost: 0, margin: 0 },
+  negotiated_orders: 0,
+  negotiated_revenue: 0,
+  candidate_negotiated_revenue: 0,
+});
+
+const addPrice = (a: SimulatedPrice, b: SimulatedPrice): SimulatedPrice => ({
+  revenue: roundCents(a.revenue + b.revenue),
+  northline_cost: roundCents(a.northline_cost + b.northline_cost),
+  margin: roundCents(a.margin + b.margin),
+});
+
+const addOrder = (totals: SimulationTotals, order: SimulatedOrder): SimulationTotals => ({
+  orders: totals.orders + 1,
+  charged: roundCents(totals.charged + order.charged),
+  current: addPrice(totals.current, order.current),
+  candidate: addPrice(totals.candidate, order.candidate),
+  negotiated_orders: totals.negotiated_orders + (order.negotiated === null ? 0 : 1),
+  negotiated_revenue: roundCents(totals.negotiated_revenue + (order.negotiated ?? 0)),
+  candidate_negotiated_revenue: roundCents(totals.candidate_negotiated_revenue + (order.negotiated === null ? 0 : order.candidate.revenue)),
+});
+
+export const getSimulationStart = (months: number, now = new Date()) => {
+  const since = new Date(now);
+  since.setMonth(since.getMonth() - months);
+  return since;
+};
+
+// Re-prices the orders created in the last `months` months (saved quotes excluded) with both scenarios, from the
+// addresses, vehicles, legs, service level and distances saved on each order. Routes are sorted by the largest
+// revenue change first.
+export const simulatePricing = (
+  orders: SimulationOrderInput[],
+  current: PricingScenario,
+  candidate: PricingScenario,
+  options: { months: number; now?: Date }
+): PricingSimulation => {
+  const since = getSimulationStart(options.months, options.now);
+  const simulated: SimulatedOrder[] = [];
+  const skipped: string[] = [];
+
+  for (const order of orders) {
+    const created = new Date(order.created_at);
+    if (!Number.isFinite(created.getTime()) || created < since) continue;
+    if (order.order_stage === 'draft') continue;
+
+    const request = quoteRequestFromFormData(order.form_data);
+    const distances = readSavedQuoteDistances(order.form_data);
+    const currentQuote = request.pickup.address && request.dropoff.address ? computeQuote(request, { ...distances, rules: current.rules }) : null;
+    const candidateQuote = currentQuote ? computeQuote(request, { ...distances, rules: candidate.rules }) : null;
+    if (!currentQuote || !candidateQuote) {
+      skipped.push(order.order_code);
+      continue;
+    }
+
+    const negotiated = readAmount(order.final_price_before_tax);
+    simulated.push({
+      order_code: order.order_code,
+      route: String(order.route_area ?? '').trim() || currentQuote.route_area || 'Unknown route',
+      created_at: order.created_at,
+      charged: negotiated ?? readAmount(order.price_before_tax) ?? 0,
+      negotiated,
+      current: priceScenario(currentQuote, currentQuote, current.rules, current.markup),
+      candidate: priceScenario(candidateQuote, currentQuote, current.rules, candidate.markup),
+    });
+  }
+
+  const byRoute = new Map<string, SimulationTotals>();
+  for (const order of simulated) byRoute.set(order.route, addOrder(byRoute.get(order.route) ?? emptyTotals(), order));
+
+  return {
+    since: since.toISOString(),
+    skipped,
+    orders: simulated,
+    totals: simulated.reduce(addOrder, emptyTotals()),
+    routes: Array.from(byRoute.entries())
+      .map(([route, totals]) => ({ route, ...totals }))
+      .sort((a, b) => Math.abs(b.candidate.revenue - b.current.revenue) - Math.abs(a.candidate.revenue - a.current.revenue)),
+  };
+};
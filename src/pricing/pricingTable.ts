@@ -1,99 +1,580 @@
-export type ServiceType = 'pickup_one_way' | 'delivery_one_way';
-export type VehicleType = 'standard';
+import { matchesServiceAreaName, resolveServiceArea, type ServiceAreaInput, type ServiceAreaMatch } from './serviceAreas';
+
+export type ServiceType = 'pickup_one_way' | 'delivery_one_way' | 'round_trip' | 'multi_leg';
+export type ServiceLevel = 'standard' | 'expedited' | 'enclosed' | 'guaranteed_date';
+export type VehicleType = 'standard' | 'suv' | 'pickup' | 'van' | 'oversized';
+
+export type VehicleClass = {
+  type: VehicleType;
+  label: string;
+  description: string;
+  multiplier: number;
+};
+
+// Multipliers reflect how much truck space each class takes compared with a car.
+export const VEHICLE_CLASSES: VehicleClass[] = [
+  { type: 'standard', label: 'Standard', description: 'Cars, hatchbacks, small crossovers', multiplier: 1 },
+  { type: 'suv', label: 'SUV', description: 'Mid and full-size SUVs, minivans', multiplier: 1.15 },
+  { type: 'pickup', label: 'Pickup', description: 'Half-ton and three-quarter-ton pickups', multiplier: 1.25 },
+  { type: 'van', label: 'Van', description: 'Cargo and passenger vans', multiplier: 1.3 },
+  { type: 'oversized', label: 'Oversized', description: 'Dually trucks, cutaways, GVWR class 3 and up', multiplier: 1.6 },
+];
+
+export const VEHICLE_TYPES: VehicleType[] = VEHICLE_CLASSES.map((c) => c.type);
+
+export const isVehicleType = (value: unknown): value is VehicleType => VEHICLE_TYPES.includes(value as VehicleType);
+
+export const normalizeVehicleType = (value: unknown): VehicleType => {
+  const v = String(value ?? '').trim().toLowerCase();
+  return isVehicleType(v) ? v : 'standard';
+};
+
+export const getVehicleClass = (type: unknown): VehicleClass =>
+  VEHICLE_CLASSES.find((c) => c.type === normalizeVehicleType(type)) ?? VEHICLE_CLASSES[0];
+
+export type ServiceTypeOption = {
+  type: ServiceType;
+  label: string;
+  description: string;
+};
+
+// Round trips and multi-leg moves are priced leg by leg; see src/pricing/legs.ts.
+export const SERVICE_TYPES: ServiceTypeOption[] = [
+  { type: 'pickup_one_way', label: 'Pickup (one-way)', description: 'We pick the vehicle up and deliver it to you' },
+  { type: 'delivery_one_way', label: 'Delivery (one-way)', description: 'We deliver your vehicle to a customer or another site' },
+  { type: 'round_trip', label: 'Round trip', description: 'There and back, e.g. to a body shop and back to the dealership' },
+  { type: 'multi_leg', label: 'Multi-leg', description: 'Several stops, e.g. auction → reconditioning → dealer' },
+];
+
+export const isServiceType = (value: unknown): value is ServiceType => SERVICE_TYPES.some((s) => s.type === value);
+
+export const normalizeServiceType = (value: unknown): ServiceType => {
+  const v = String(value ?? '').trim().toLowerCase();
+  return isServiceType(v) ? v : 'pickup_one_way';
+};
+
+export const getServiceTypeLabel = (type: unknown): string =>
+  (SERVICE_TYPES.find((s) => s.type === normalizeServiceType(type)) ?? SERVICE_TYPES[0]).label;
+
+export const isMultiLegServiceType = (type: unknown) => {
+  const t = normalizeServiceType(type);
+  return t === 'round_trip' || t === 'multi_leg';
+};
+
+export type FulfillmentDays = { days_min: number; days_max: number };
+
+// percent is taken on each vehicle's transport price after discounts; flat is added per vehicle and leg.
+export type ServiceLevelModifier = { percent: number; flat: number };
+
+export type ServiceLevelOption = {
+  level: ServiceLevel;
+  label: string;
+  description: string;
+  modifier: ServiceLevelModifier;
+  // Delivery window for a route whose SLA is not published for this level, from the route's standard window.
+  sla: (standard: FulfillmentDays) => FulfillmentDays;
+};
+
+export const SERVICE_LEVELS: ServiceLevelOption[] = [
+  {
+    level: 'standard',
+    label: 'Standard',
+    description: 'Open carrier, delivered within the usual window for the route',
+    modifier: { percent: 0, flat: 0 },
+    sla: (standard) => standard,
+  },
+  {
+    level: 'expedited',
+    label: 'Expedited',
+    description: 'First available truck, about half the usual delivery window',
+    modifier: { percent: 25, flat: 0 },
+    sla: (standard) => ({ days_min: 1, days_max: Math.max(1, Math.ceil(standard.days_max / 2)) }),
+  },
+  {
+    level: 'enclosed',
+    label: 'Enclosed trailer',
+    description: 'Covered transport for exotics, classics and high-value vehicles',
+    modifier: { percent: 0, flat: 200 },
+    // Enclosed trailers run less often than open carriers.
+    sla: (standard) => ({ days_min: standard.days_min + 1, days_max: standard.days_max + 2 }),
+  },
+  {
+    level: 'guaranteed_date',
+    label: 'Guaranteed date',
+    description: 'Delivered by a committed date instead of within a window',
+    modifier: { percent: 15, flat: 0 },
+    sla: (standard) => ({ days_min: standard.days_max, days_max: standard.days_max }),
+  },
+];
+
+export const isServiceLevel = (value: unknown): value is ServiceLevel => SERVICE_LEVELS.some((s) => s.level === value);
+
+export const normalizeServiceLevel = (value: unknown): ServiceLevel => {
+  const v = String(value ?? '').trim().toLowerCase();
+  return isServiceLevel(v) ? v : 'standard';
+};
+
+export const getServiceLevel = (level: unknown): ServiceLevelOption =>
+  SERVICE_LEVELS.find((s) => s.level === normalizeServiceLevel(level)) ?? SERVICE_LEVELS[0];
+
+export const getServiceLevelLabel = (level: unknown): string => getServiceLevel(level).label;
+
+export type AccessorialCode = 'loading' | 'winching' | 'waiting_time' | 'storage' | 'extra_keys' | 'residential_delivery';
+
+// What one unit of an accessorial is; the charge is the unit price times the quantity.
+export type AccessorialUnit = 'vehicle' | 'hour' | 'day' | 'order';
+
+export type AccessorialOption = {
+  code: AccessorialCode;
+  label: string;
+  description: string;
+  unit: AccessorialUnit;
+  price: number;
+};
+
+// Extra charges on top of the transport price. The loading fee is quoted automatically for every vehicle that does
+// not run or drive; staff attach the others to an order (see src/pricing/accessorials.ts).
+export const ACCESSORIALS: AccessorialOption[] = [
+  { code: 'loading', label: 'Loading fee', description: 'Vehicle that does not run or drive, loaded by winch or forklift', unit: 'vehicle', price: 50 },
+  { code: 'winching', label: 'Winching', description: 'Recovering a vehicle that is stuck, off-road or in a tight spot', unit: 'vehicle', price: 85 },
+  { code: 'waiting_time', label: 'Waiting time', description: 'Driver kept waiting at pickup or delivery past the first 30 minutes', unit: 'hour', price: 60 },
+  { code: 'storage', label: 'Storage', description: 'Vehicle held at the yard when delivery cannot be completed', unit: 'day', price: 35 },
+  { code: 'extra_keys', label: 'Extra keys', description: 'Additional key sets or fobs carried and signed for separately', unit: 'order', price: 15 },
+  { code: 'residential_delivery', label: 'Residential delivery', description: 'Pickup or delivery at a home address instead of a business', unit: 'order', price: 45 },
+];
+
+export const ACCESSORIAL_CODES: AccessorialCode[] = ACCESSORIALS.map((a) => a.code);
+
+export const isAccessorialCode = (value: unknown): value is AccessorialCode => ACCESSORIAL_CODES.includes(value as AccessorialCode);
+
+export const getAccessorialOption = (code: unknown): AccessorialOption | null => ACCESSORIALS.find((a) => a.code === code) ?? null;
+
+// Cancellation fees apply once an order is paid: before pickup (still awaiting dispatch) and after it. The fee is a
+// percent of the amount paid plus a flat amount, capped at the amount paid; the rest is refunded (src/orders/cancellation.ts).
+export type CancellationFeeStage = 'pending_payment' | 'order_dispatched';
+
+export type CancellationFee = {
+  percent: number;
+  flat: number;
+};
+
+export type CancellationFeeOption = {
+  stage: CancellationFeeStage;
+  label: string;
+  description: string;
+  fee: CancellationFee;
+};
+
+export const CANCELLATION_FEES: CancellationFeeOption[] = [
+  { stage: 'pending_payment', label: 'Before pickup', description: 'Paid, vehicle not picked up yet', fee: { percent: 0, flat: 0 } },
+  { stage: 'order_dispatched', label: 'After pickup', description: 'Vehicle picked up or on its way', fee: { percent: 50, flat: 0 } },
+];
+
+export const isCancellationFeeStage = (value: unknown): value is CancellationFeeStage => CANCELLATION_FEES.some((f) => f.stage === value);
+
+// Routes that take a deposit at booking instead of the full price: a percent of the order total (tax included) plus a
+// flat amount. The balance is charged to the saved card when the order is delivered (src/orders/deposits.ts). route is
+// a lane or a service area, as in a quote's route_area.
+export type DepositRule = {
+  route: string;
+  percent: number;
+  flat: number;
+};
 
 export const QUOTE_MARKUP = 35;
 
 export const DEFAULT_DISTANCE_RATE_PER_KM = 1.12;
 
-const PRICING_OVERRIDES_KEY = 'ed_pricing_overrides';
-const DISTANCE_RATE_KEY = 'ed_pricing_distance_rate';
-const STAFF_SESSION_KEY = 'ed_staff_session';
-
-const isStaffAdminSession = () => {
-  try {
-    if (typeof window === 'undefined') return false;
-    const rawSession = window.localStorage.getItem(STAFF_SESSION_KEY);
-    const parsed = rawSession ? (JSON.parse(rawSession) as unknown) : null;
-    const obj = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
-    const role = String(obj?.role ?? '').trim().toLowerCase();
-    return role === 'admin';
-  } catch {
-    return false;
+export const DEFAULT_DISTANCE_MINIMUM_CHARGE = 150;
+
+// The kilometres up to `up_to_km` (from the previous band's limit) are charged at `rate_per_km`. Kilometres past the
+// last band are charged at distance_rate_per_km.
+export type DistanceBand = {
+  up_to_km: number;
+  rate_per_km: number;
+};
+
+export type PricingLane = {
+  pickup_area: string;
+  dropoff_area: string;
+  total_price: number;
+};
+
+export type PricingRules = {
+  version: number;
+  published_at: string | null;
+  city_prices: Record<string, number>;
+  lane_prices: PricingLane[];
+  distance_rate_per_km: number;
+  // Tiered per-km rates for routes priced by distance, sorted by up_to_km. Empty: every km at distance_rate_per_km.
+  distance_bands: DistanceBand[];
+  // Added to every distance-based price, which is then raised to the minimum charge.
+  distance_base_fee: number;
+  distance_minimum_charge: number;
+  // Only classes whose multiplier differs from VEHICLE_CLASSES are stored.
+  vehicle_multipliers: Partial<Record<VehicleType, number>>;
+  multi_vehicle_discount: MultiVehicleDiscount;
+  // Percent off the transport price of both legs of a round trip. 0 turns it off.
+  round_trip_discount_percent: number;
+  // Only levels whose modifier differs from SERVICE_LEVELS are stored.
+  service_level_modifiers: Partial<Record<ServiceLevel, ServiceLevelModifier>>;
+  // Published delivery windows; routes and levels without one fall back to getFulfillmentDaysForRoute's defaults.
+  sla_windows: SlaWindow[];
+  // Only accessorials whose price differs from ACCESSORIALS are stored.
+  accessorial_prices: Partial<Record<AccessorialCode, number>>;
+  // Only stages whose fee differs from CANCELLATION_FEES are stored.
+  cancellation_fees: Partial<Record<CancellationFeeStage, CancellationFee>>;
+  // Routes without a rule are paid in full at booking.
+  deposit_rules: DepositRule[];
+};
+
+// route is a lane ("Montreal → Ottawa") or a service area, as in a quote's route_area.
+export type SlaWindow = FulfillmentDays & {
+  route: string;
+  service_level: ServiceLevel;
+};
+
+// Percent off the transport price of every vehicle once an order has at least `min_vehicles`. 0 turns it off.
+export type MultiVehicleDiscount = {
+  min_vehicles: number;
+  percent: number;
+};
+
+export const DEFAULT_MULTI_VEHICLE_DISCOUNT: MultiVehicleDiscount = { min_vehicles: 3, percent: 0 };
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  version: 0,
+  published_at: null,
+  city_prices: {},
+  lane_prices: [],
+  distance_rate_per_km: DEFAULT_DISTANCE_RATE_PER_KM,
+  distance_bands: [],
+  distance_base_fee: 0,
+  distance_minimum_charge: DEFAULT_DISTANCE_MINIMUM_CHARGE,
+  vehicle_multipliers: {},
+  multi_vehicle_discount: DEFAULT_MULTI_VEHICLE_DISCOUNT,
+  round_trip_discount_percent: 0,
+  service_level_modifiers: {},
+  sla_windows: [],
+  accessorial_prices: {},
+  cancellation_fees: {},
+  deposit_rules: [],
+};
+
+const normalizeCityPrices = (raw: unknown): Record<string, number> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const out: Record<string, number> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    const city = String(k ?? '').trim();
+    const num = typeof v === 'number' ? v : Number(v);
+    if (!city) continue;
+    if (!Number.isFinite(num) || num <= 0) continue;
+    out[city] = num;
   }
+  return out;
+};
+
+const normalizeLanePrices = (raw: unknown): PricingLane[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: PricingLane[] = [];
+  for (const it of raw as unknown[]) {
+    if (!it || typeof it !== 'object') continue;
+    const r = it as Record<string, unknown>;
+    const pickup_area = String(r.pickup_area ?? '').trim();
+    const dropoff_area = String(r.dropoff_area ?? '').trim();
+    const total_price = typeof r.total_price === 'number' ? r.total_price : Number(r.total_price);
+    if (!pickup_area || !dropoff_area) continue;
+    if (!Number.isFinite(total_price) || total_price <= 0) continue;
+    const key = `${pickup_area}\u0000${dropoff_area}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ pickup_area, dropoff_area, total_price });
+  }
+  return out;
+};
+
+const normalizeDistanceBands = (raw: unknown): DistanceBand[] => {
+  if (!Array.isArray(raw)) return [];
+  const out: DistanceBand[] = [];
+  for (const it of raw as unknown[]) {
+    if (!it || typeof it !== 'object') continue;
+    const r = it as Record<string, unknown>;
+    const up_to_km = Number(r.up_to_km);
+    const rate_per_km = Number(r.rate_per_km);
+    if (!Number.isFinite(up_to_km) || up_to_km <= 0) continue;
+    if (!Number.isFinite(rate_per_km) || rate_per_km < 0) continue;
+    out.push({ up_to_km, rate_per_km });
+  }
+  return out.sort((a, b) => a.up_to_km - b.up_to_km).filter((band, i, list) => i === 0 || band.up_to_km > list[i - 1].up_to_km);
+};
+
+const normalizeVehicleMultipliers = (raw: unknown): Partial<Record<VehicleType, number>> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const out: Partial<Record<VehicleType, number>> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    const num = typeof v === 'number' ? v : Number(v);
+    if (!isVehicleType(k)) continue;
+    if (!Number.isFinite(num) || num <= 0) continue;
+    out[k] = num;
+  }
+  return out;
+};
+
+const normalizeMultiVehicleDiscount = (raw: unknown): MultiVehicleDiscount => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_MULTI_VEHICLE_DISCOUNT;
+  const r = raw as Record<string, unknown>;
+  const min = Number(r.min_vehicles);
+  const percent = Number(r.percent);
+  return {
+    min_vehicles: Number.isInteger(min) && min >= 2 ? min : DEFAULT_MULTI_VEHICLE_DISCOUNT.min_vehicles,
+    percent: Number.isFinite(percent) && percent > 0 && percent < 100 ? percent : 0,
+  };
 };
 
-export const getDistanceRatePerKm = (): number => {
-  try {
-    if (typeof window === 'undefined') return DEFAULT_DISTANCE_RATE_PER_KM;
-    const raw = window.localStorage.getItem(DISTANCE_RATE_KEY);
-    const parsed = raw ? Number(raw) : NaN;
-    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DISTANCE_RATE_PER_KM;
-  } catch {
-    return DEFAULT_DISTANCE_RATE_PER_KM;
+const normalizeServiceLevelModifiers = (raw: unknown): Partial<Record<ServiceLevel, ServiceLevelModifier>> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const out: Partial<Record<ServiceLevel, ServiceLevelModifier>> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isServiceLevel(k) || k === 'standard') continue;
+    if (!v || typeof v !== 'object' || Array.isArray(v)) continue;
+    const r = v as Record<string, unknown>;
+    const percent = Number(r.percent);
+    const flat = Number(r.flat);
+    out[k] = {
+      percent: Number.isFinite(percent) && percent > 0 && percent <= 200 ? percent : 0,
+      flat: Number.isFinite(flat) && flat > 0 ? Math.round(flat * 100) / 100 : 0,
+    };
   }
+  return out;
 };
 
-export const setDistanceRatePerKm = (next: number) => {
-  try {
-    if (typeof window === 'undefined') return;
-    if (!isStaffAdminSession()) return;
-    if (!Number.isFinite(next) || next <= 0) return;
-    window.localStorage.setItem(DISTANCE_RATE_KEY, String(next));
-  } catch {
-    // ignore
+const normalizeAccessorialPrices = (raw: unknown): Partial<Record<AccessorialCode, number>> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const out: Partial<Record<AccessorialCode, number>> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    const num = typeof v === 'number' ? v : Number(v);
+    if (!isAccessorialCode(k)) continue;
+    if (!Number.isFinite(num) || num < 0) continue;
+    out[k] = Math.round(num * 100) / 100;
   }
+  return out;
 };
 
-export const clearDistanceRatePerKm = () => {
-  try {
-    if (typeof window === 'undefined') return;
-    if (!isStaffAdminSession()) return;
-    window.localStorage.removeItem(DISTANCE_RATE_KEY);
-  } catch {
-    // ignore
+const normalizeCancellationFees = (raw: unknown): Partial<Record<CancellationFeeStage, CancellationFee>> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const out: Partial<Record<CancellationFeeStage, CancellationFee>> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isCancellationFeeStage(k)) continue;
+    if (!v || typeof v !== 'object' || Array.isArray(v)) continue;
+    const r = v as Record<string, unknown>;
+    const percent = Number(r.percent);
+    const flat = Number(r.flat);
+    out[k] = {
+      percent: Number.isFinite(percent) && percent > 0 ? Math.min(percent, 100) : 0,
+      flat: Number.isFinite(flat) && flat > 0 ? Math.round(flat * 100) / 100 : 0,
+    };
   }
+  return out;
 };
 
-export const getPricingOverrides = (): Record<string, number> => {
-  try {
-    if (typeof window === 'undefined') return {};
-
-    if (!isStaffAdminSession()) return {};
-
-    const raw = window.localStorage.getItem(PRICING_OVERRIDES_KEY);
-    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
-    if (!parsed || typeof parsed !== 'object') return {};
-    const obj = parsed as Record<string, unknown>;
-    const out: Record<string, number> = {};
-    for (const [k, v] of Object.entries(obj)) {
-      const city = String(k ?? '').trim();
-      const num = typeof v === 'number' ? v : Number(v);
-      if (!city) continue;
-      if (!Number.isFinite(num)) continue;
-      out[city] = num;
-    }
-    return out;
-  } catch {
-    return {};
+const normalizeDepositRules = (raw: unknown): DepositRule[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: DepositRule[] = [];
+  for (const it of raw as unknown[]) {
+    if (!it || typeof it !== 'object') continue;
+    const r = it as Record<string, unknown>;
+    const route = String(r.route ?? '').trim();
+    const percent = Number(r.percent);
+    const flat = Number(r.flat);
+    const rule = {
+      route,
+      percent: Number.isFinite(percent) && percent > 0 && percent < 100 ? percent : 0,
+      flat: Number.isFinite(flat) && flat > 0 ? Math.round(flat * 100) / 100 : 0,
+    };
+    if (!route || (!rule.percent && !rule.flat) || seen.has(route)) continue;
+    seen.add(route);
+    out.push(rule);
   }
+  return out;
 };
 
-export const setPricingOverrides = (next: Record<string, number>) => {
-  try {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(PRICING_OVERRIDES_KEY, JSON.stringify(next));
-  } catch {
-    // ignore
+const normalizeSlaWindows = (raw: unknown): SlaWindow[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: SlaWindow[] = [];
+  for (const it of raw as unknown[]) {
+    if (!it || typeof it !== 'object') continue;
+    const r = it as Record<string, unknown>;
+    const route = String(r.route ?? '').trim();
+    const days_min = Number(r.days_min);
+    const days_max = Number(r.days_max);
+    if (!route || !isServiceLevel(r.service_level)) continue;
+    if (!Number.isInteger(days_min) || !Number.isInteger(days_max) || days_min < 1 || days_max < days_min) continue;
+    const key = `${route}\u0000${r.service_level}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ route, service_level: r.service_level, days_min, days_max });
   }
+  return out;
+};
+
+export const normalizePricingRules = (raw: unknown): PricingRules => {
+  if (!raw || typeof raw !== 'object') return DEFAULT_PRICING_RULES;
+  const obj = raw as Record<string, unknown>;
+  const rules = obj.rules && typeof obj.rules === 'object' ? (obj.rules as Record<string, unknown>) : obj;
+  const versionRaw = Number(obj.version);
+  const rateRaw = Number(rules.distance_rate_per_km);
+  const roundTripRaw = Number(rules.round_trip_discount_percent);
+  const baseFeeRaw = Number(rules.distance_base_fee);
+  const minimumRaw = rules.distance_minimum_charge == null ? NaN : Number(rules.distance_minimum_charge);
+  return {
+    version: Number.isInteger(versionRaw) && versionRaw > 0 ? versionRaw : 0,
+    published_at: typeof obj.published_at === 'string' ? obj.published_at : null,
+    city_prices: normalizeCityPrices(rules.city_prices),
+    lane_prices: normalizeLanePrices(rules.lane_prices),
+    distance_rate_per_km: Number.isFinite(rateRaw) && rateRaw > 0 ? rateRaw : DEFAULT_DISTANCE_RATE_PER_KM,
+    distance_bands: normalizeDistanceBands(rules.distance_bands),
+    distance_base_fee: Number.isFinite(baseFeeRaw) && baseFeeRaw > 0 ? baseFeeRaw : 0,
+    distance_minimum_charge: Number.isFinite(minimumRaw) && minimumRaw >= 0 ? minimumRaw : DEFAULT_DISTANCE_MINIMUM_CHARGE,
+    vehicle_multipliers: normalizeVehicleMultipliers(rules.vehicle_multipliers),
+    multi_vehicle_discount: normalizeMultiVehicleDiscount(rules.multi_vehicle_discount),
+    round_trip_discount_percent: Number.isFinite(roundTripRaw) && roundTripRaw > 0 && roundTripRaw < 100 ? roundTripRaw : 0,
+    service_level_modifiers: normalizeServiceLevelModifiers(rules.service_level_modifiers),
+    sla_windows: normalizeSlaWindows(rules.sla_windows),
+    accessorial_prices: normalizeAccessorialPrices(rules.accessorial_prices),
+    cancellation_fees: normalizeCancellationFees(rules.cancellation_fees),
+    deposit_rules: normalizeDepositRules(rules.deposit_rules),
+  };
+};
+
+let activePricingRules: PricingRules = DEFAULT_PRICING_RULES;
+
+export const getActivePricingRules = (): PricingRules => activePricingRules;
+
+export const setActivePricingRules = (rules: PricingRules) => {
+  activePricingRules = normalizePricingRules(rules);
 };
 
-export const clearPricingOverrides = () => {
-  try {
-    if (typeof window === 'undefined') return;
-    window.localStorage.removeItem(PRICING_OVERRIDES_KEY);
-  } catch {
-    // ignore
+export const getDistanceRatePerKm = (rules: PricingRules = activePricingRules): number => rules.distance_rate_per_km;
+
+export type DistancePriceBand = {
+  from_km: number;
+  // null for the kilometres past the last band.
+  to_km: number | null;
+  km: number;
+  rate_per_km: number;
+  amount: number;
+};
+
+export type DistancePriceBreakdown = {
+  distance_km: number;
+  base_fee: number;
+  // Only the bands the distance reaches.
+  bands: DistancePriceBand[];
+  minimum_charge: number;
+  minimum_applied: boolean;
+  // Route price for a standard car, in whole dollars.
+  total: number;
+};
+
+// How a route outside the lanes is priced: the base fee plus every km at its band's rate, raised to the minimum charge.
+export const getDistancePriceBreakdown = (distanceKm: number, rules: PricingRules = activePricingRules): DistancePriceBreakdown => {
+  const distance = Number.isFinite(distanceKm) && distanceKm > 0 ? distanceKm : 0;
+  const bands: DistancePriceBand[] = [];
+  let from = 0;
+  for (const band of [...rules.distance_bands, { up_to_km: Infinity, rate_per_km: rules.distance_rate_per_km }]) {
+    if (from >= distance) break;
+    const to = Math.min(distance, band.up_to_km);
+    const km = to - from;
+    bands.push({
+      from_km: from,
+      to_km: Number.isFinite(band.up_to_km) ? band.up_to_km : null,
+      km,
+      rate_per_km: band.rate_per_km,
+      amount: Math.round(km * band.rate_per_km * 100) / 100,
+    });
+    from = band.up_to_km;
   }
+  const subtotal = rules.distance_base_fee + bands.reduce((sum, b) => sum + b.km * b.rate_per_km, 0);
+  return {
+    distance_km: distance,
+    base_fee: rules.distance_base_fee,
+    bands,
+    minimum_charge: rules.distance_minimum_charge,
+    minimum_applied: subtotal < rules.distance_minimum_charge,
+    total: Math.round(Math.max(subtotal, rules.distance_minimum_charge)),
+  };
+};
+
+export const getDistancePrice = (distanceKm: number, rules: PricingRules = activePricingRules): number =>
+  getDistancePriceBreakdown(distanceKm, rules).total;
+
+export const formatDistanceBand = (band: Pick<DistancePriceBand, 'from_km' | 'to_km'>) =>
+  band.to_km === null ? `${band.from_km}+ km` : `${band.from_km}–${band.to_km} km`;
+
+export const getPricingOverrides = (rules: PricingRules = activePricingRules): Record<string, number> => rules.city_prices;
+
+export const getVehicleClassMultiplier = (type: unknown, rules: PricingRules = activePricingRules): number => {
+  const vehicleClass = getVehicleClass(type);
+  const override = rules.vehicle_multipliers[vehicleClass.type];
+  return Number.isFinite(override) ? (override as number) : vehicleClass.multiplier;
+};
+
+export const getMultiVehicleDiscountPercent = (vehicleCount: number, rules: PricingRules = activePricingRules): number => {
+  const { min_vehicles, percent } = rules.multi_vehicle_discount;
+  return vehicleCount >= min_vehicles ? percent : 0;
+};
+
+export const getRoundTripDiscountPercent = (serviceType: unknown, rules: PricingRules = activePricingRules): number =>
+  normalizeServiceType(serviceType) === 'round_trip' ? rules.round_trip_discount_percent : 0;
+
+export const getServiceLevelModifier = (level: unknown, rules: PricingRules = activePricingRules): ServiceLevelModifier => {
+  const option = getServiceLevel(level);
+  return rules.service_level_modifiers[option.level] ?? option.modifier;
+};
+
+export const getAccessorialPrice = (code: AccessorialCode, rules: PricingRules = activePricingRules): number => {
+  const override = rules.accessorial_prices[code];
+  return Number.isFinite(override) ? (override as number) : getAccessorialOption(code)?.price ?? 0;
+};
+
+export const getCancellationFee = (stage: CancellationFeeStage, rules: PricingRules = activePricingRules): CancellationFee =>
+  rules.cancellation_fees[stage] ?? CANCELLATION_FEES.find((f) => f.stage === stage)?.fee ?? { percent: 0, flat: 0 };
+
+export const formatCancellationFee = (fee: CancellationFee): string =>
+  [fee.percent > 0 ? `${fee.percent}% of the amount paid` : '', fee.flat > 0 ? `$${fee.flat.toFixed(2)}` : '']
+    .filter(Boolean)
+    .join(' + ') || 'No fee';
+
+// Like SLA windows, a lane's deposit rule also covers its return trip unless that direction has its own.
+export const getDepositRule = (route: string | null | undefined, rules: PricingRules = activePricingRules): DepositRule | null => {
+  const r = String(route ?? '').trim();
+  if (!r) return null;
+  const exact = rules.deposit_rules.find((rule) => rule.route === r);
+  if (exact) return exact;
+  const lane = parseLaneRoute(r);
+  if (!lane) return null;
+  const reverse = makeLaneRoute(lane.dropoff_area, lane.pickup_area);
+  return rules.deposit_rules.find((rule) => rule.route === reverse) ?? null;
+};
+
+export const formatDepositRule = (rule: Pick<DepositRule, 'percent' | 'flat'>): string =>
+  [rule.percent > 0 ? `${rule.percent}% of the total` : '', rule.flat > 0 ? `$${rule.flat.toFixed(2)}` : '']
+    .filter(Boolean)
+    .join(' + ') || 'Paid in full';
+
+export const formatServiceLevelModifier = (modifier: ServiceLevelModifier): string =>
+  [modifier.percent > 0 ? `+${modifier.percent}%` : '', modifier.flat > 0 ? `+$${modifier.flat.toFixed(2)} per vehicle` : '']
+    .filter(Boolean)
+    .join(' ') || 'Included';
+
+// Route prices are published for a standard car; other classes are scaled and rounded to whole dollars.
+export const applyVehicleClassPrice = (standardPrice: number, type: unknown, rules: PricingRules = activePricingRules): number => {
+  const base = Number(standardPrice);
+  if (!Number.isFinite(base)) return 0;
+  return Math.round(base * getVehicleClassMultiplier(type, rules));
 };
 
 export type PricingRow = {
@@ -105,37 +586,25 @@ export type PricingRow = {
   days_max: number;
 };
 
+// Service area boundaries (FSAs, coordinates, name patterns) live in serviceAreas.ts.
 export const OFFICIAL_CITY_TOTAL_PRICES: Array<{ city: string; total_price: number; match: (addr: string) => boolean }> = [
-  {
-    city: 'Toronto (Oshawa Region)',
-    total_price: 385,
-    match: (addr) => /\boshawa\b/i.test(addr) || /\bajax\b/i.test(addr) || /\bwhitby\b/i.test(addr) || /\bpickering\b/i.test(addr),
-  },
-  {
-    city: 'Toronto (Downtown / Brampton / Mississauga)',
-    total_price: 435,
-    match: (addr) =>
-      /\btoronto\b/i.test(addr) || /\bdowntown\b/i.test(addr) || /\bbrampton\b/i.test(addr) || /\bmississauga\b/i.test(addr),
-  },
-  { city: 'Hamilton', total_price: 535, match: (addr) => /\bhamilton\b/i.test(addr) },
-  { city: 'Niagara Falls', total_price: 585, match: (addr) => /\bniagara\s*falls\b/i.test(addr) },
-  { city: 'Windsor', total_price: 635, match: (addr) => /\bwindsor\b/i.test(addr) },
-  { city: 'London, Ontario', total_price: 585, match: (addr) => /\blondon\b/i.test(addr) },
-  { city: 'Kingston', total_price: 235, match: (addr) => /\bkingston\b/i.test(addr) },
-  { city: 'Belleville', total_price: 285, match: (addr) => /\bbelleville\b/i.test(addr) },
-  { city: 'Cornwall', total_price: 205, match: (addr) => /\bcornwall\b/i.test(addr) },
-  { city: 'Peterborough', total_price: 385, match: (addr) => /\bpeterborough\b/i.test(addr) },
-  { city: 'Barrie', total_price: 435, match: (addr) => /\bbarrie\b/i.test(addr) },
-  { city: 'North Bay', total_price: 435, match: (addr) => /\bnorth\s*bay\b/i.test(addr) },
-  { city: 'Timmins', total_price: 685, match: (addr) => /\btimmins\b/i.test(addr) },
-  {
-    city: 'Montreal (Trois-Rivières Region)',
-    total_price: 335,
-    match: (addr) => /\btrois[-\s]*rivi(e|è)res\b/i.test(addr) || /\btrois\s*rivieres\b/i.test(addr),
-  },
-  { city: 'Montreal', total_price: 285, match: (addr) => /\bmontreal\b/i.test(addr) || /\bmontr(e|é)al\b/i.test(addr) },
-  { city: 'Ottawa', total_price: 285, match: (addr) => /\bottawa\b/i.test(addr) },
-  { city: 'Quebec City', total_price: 435, match: (addr) => /\bqu(e|é)bec\s*city\b/i.test(addr) || /\bville\s*de\s*qu(e|é)bec\b/i.test(addr) },
+  { city: 'Toronto (Oshawa Region)', total_price: 385, match: (addr) => matchesServiceAreaName('Toronto (Oshawa Region)', addr) },
+  { city: 'Toronto (Downtown / Brampton / Mississauga)', total_price: 435, match: (addr) => matchesServiceAreaName('Toronto (Downtown / Brampton / Mississauga)', addr) },
+  { city: 'Hamilton', total_price: 535, match: (addr) => matchesServiceAreaName('Hamilton', addr) },
+  { city: 'Niagara Falls', total_price: 585, match: (addr) => matchesServiceAreaName('Niagara Falls', addr) },
+  { city: 'Windsor', total_price: 635, match: (addr) => matchesServiceAreaName('Windsor', addr) },
+  { city: 'London, Ontario', total_price: 585, match: (addr) => matchesServiceAreaName('London, Ontario', addr) },
+  { city: 'Kingston', total_price: 235, match: (addr) => matchesServiceAreaName('Kingston', addr) },
+  { city: 'Belleville', total_price: 285, match: (addr) => matchesServiceAreaName('Belleville', addr) },
+  { city: 'Cornwall', total_price: 205, match: (addr) => matchesServiceAreaName('Cornwall', addr) },
+  { city: 'Peterborough', total_price: 385, match: (addr) => matchesServiceAreaName('Peterborough', addr) },
+  { city: 'Barrie', total_price: 435, match: (addr) => matchesServiceAreaName('Barrie', addr) },
+  { city: 'North Bay', total_price: 435, match: (addr) => matchesServiceAreaName('North Bay', addr) },
+  { city: 'Timmins', total_price: 685, match: (addr) => matchesServiceAreaName('Timmins', addr) },
+  { city: 'Montreal (Trois-Rivières Region)', total_price: 335, match: (addr) => matchesServiceAreaName('Montreal (Trois-Rivières Region)', addr) },
+  { city: 'Montreal', total_price: 285, match: (addr) => matchesServiceAreaName('Montreal', addr) },
+  { city: 'Ottawa', total_price: 285, match: (addr) => matchesServiceAreaName('Ottawa', addr) },
+  { city: 'Quebec City', total_price: 435, match: (addr) => matchesServiceAreaName('Quebec City', addr) },
 ];
 
 export const SERVICE_AREAS = Array.from(new Set(OFFICIAL_CITY_TOTAL_PRICES.map((x) => x.city)));
@@ -160,60 +629,220 @@ export const SERVICE_AREA_GEOCODE_QUERY: Record<string, string> = {
   'Quebec City': 'Quebec City, QC, Canada',
 };
 
-export const getOfficialCityPriceForServiceArea = (serviceArea: string | null | undefined) => {
+export const getOfficialCityPriceForServiceArea = (serviceArea: string | null | undefined, rules: PricingRules = activePricingRules) => {
   const area = String(serviceArea ?? '').trim();
   if (!area) return null;
   const found = OFFICIAL_CITY_TOTAL_PRICES.find((item) => item.city === area);
   if (!found) return null;
-  const overrides = getPricingOverrides();
+  const overrides = getPricingOverrides(rules);
   const override = overrides[found.city];
   const price = Number.isFinite(override) ? override : found.total_price;
   return { city: found.city, total_price: price };
 };
 
-export const getOfficialCityPriceForAddress = (address: string | null | undefined) => {
-  const addr = String(address ?? '').trim();
-  if (!addr) return null;
-  const overrides = getPricingOverrides();
-  for (const item of OFFICIAL_CITY_TOTAL_PRICES) {
-    if (item.match(addr)) {
-      const override = overrides[item.city];
-      const price = Number.isFinite(override) ? override : item.total_price;
-      return { city: item.city, total_price: price };
-    }
+export const getOfficialCityPriceForAddress = (
+  location: string | ServiceAreaInput | null | undefined,
+  rules: PricingRules = activePricingRules
+) => getOfficialCityPriceForServiceArea(getServiceAreaForAddress(location), rules);
+
+export const LANE_ROUTE_SEPARATOR = ' → ';
+
+export const makeLaneRoute = (pickupArea: string, dropoffArea: string) => `${pickupArea}${LANE_ROUTE_SEPARATOR}${dropoffArea}`;
+
+export const parseLaneRoute = (route: string | null | undefined): { pickup_area: string; dropoff_area: string } | null => {
+  const r = String(route ?? '').trim();
+  const idx = r.indexOf(LANE_ROUTE_SEPARATOR);
+  if (idx < 0) return null;
+  const pickup_area = r.slice(0, idx).trim();
+  const dropoff_area = r.slice(idx + LANE_ROUTE_SEPARATOR.length).trim();
+  if (!pickup_area || !dropoff_area) return null;
+  return { pickup_area, dropoff_area };
+};
+
+const toServiceAreaInput = (location: string | ServiceAreaInput | null | undefined): ServiceAreaInput =>
+  typeof location === 'string' ? { address: location } : location ?? {};
+
+export const getServiceAreaMatch = (location: string | ServiceAreaInput | null | undefined): ServiceAreaMatch =>
+  resolveServiceArea(toServiceAreaInput(location));
+
+export const getServiceAreaForAddress = (location: string | ServiceAreaInput | null | undefined): string | null =>
+  getServiceAreaMatch(location).area;
+
+// Lanes are priced per direction; a lane without its own reverse entry is also used for the return trip.
+export const getLanePrice = (
+  pickupArea: string | null | undefined,
+  dropoffArea: string | null | undefined,
+  rules: PricingRules = activePricingRules
+): PricingLane | null => {
+  const from = String(pickupArea ?? '').trim();
+  const to = String(dropoffArea ?? '').trim();
+  if (!from || !to) return null;
+  const exact = rules.lane_prices.find((lane) => lane.pickup_area === from && lane.dropoff_area === to);
+  if (exact) return exact;
+  const reverse = rules.lane_prices.find((lane) => lane.pickup_area === to && lane.dropoff_area === from);
+  return reverse ? { pickup_area: from, dropoff_area: to, total_price: reverse.total_price } : null;
+};
+
+export type ResolvedRoutePrice = {
+  route: string;
+  total_price: number;
+  source: 'lane' | 'city';
+  pickup_area: string | null;
+  dropoff_area: string | null;
+};
+
+export const resolveRoutePrice = (
+  input: { pickup_area?: string | null; dropoff_area?: string | null },
+  rules: PricingRules = activePricingRules
+): ResolvedRoutePrice | null => {
+  const pickup_area = String(input.pickup_area ?? '').trim() || null;
+  const dropoff_area = String(input.dropoff_area ?? '').trim() || null;
+
+  const lane = getLanePrice(pickup_area, dropoff_area, rules);
+  if (lane && pickup_area && dropoff_area) {
+    return { route: makeLaneRoute(pickup_area, dropoff_area), total_price: lane.total_price, source: 'lane', pickup_area, dropoff_area };
   }
-  return null;
+
+  const city = getOfficialCityPriceForServiceArea(dropoff_area, rules) ?? getOfficialCityPriceForServiceArea(pickup_area, rules);
+  if (!city) return null;
+  return { route: city.city, total_price: city.total_price, source: 'city', pickup_area, dropoff_area };
 };
 
-export const getFulfillmentDaysForRoute = (route: string | null | undefined) => {
-  const r = String(route ?? '').trim().toLowerCase();
-  const isMontreal = r.includes('montreal');
-  return isMontreal ? { days_min: 1, days_max: 2 } : { days_min: 3, days_max: 8 };
+export type ResolvedAddressRoutePrice = ResolvedRoutePrice & {
+  pickup_match: ServiceAreaMatch;
+  dropoff_match: ServiceAreaMatch;
 };
 
-export const PRICING_TABLE: PricingRow[] = OFFICIAL_CITY_TOTAL_PRICES.map((item) => {
-  const days = getFulfillmentDaysForRoute(item.city);
-  return {
-    route: item.city,
-    vehicle_type: 'standard',
-    northline_cost: Math.max(0, item.total_price - QUOTE_MARKUP),
-    retail_price: item.total_price,
-    days_min: days.days_min,
-    days_max: days.days_max,
-  };
+export const resolveRoutePriceForAddresses = (
+  pickup: string | ServiceAreaInput | null | undefined,
+  dropoff: string | ServiceAreaInput | null | undefined,
+  rules: PricingRules = activePricingRules
+): ResolvedAddressRoutePrice | null => {
+  const pickup_match = getServiceAreaMatch(pickup);
+  const dropoff_match = getServiceAreaMatch(dropoff);
+  const resolved = resolveRoutePrice({ pickup_area: pickup_match.area, dropoff_area: dropoff_match.area }, rules);
+  return resolved ? { ...resolved, pickup_match, dropoff_match } : null;
+};
+
+// Like lane prices, a lane's window is also used for the return trip unless that direction has its own.
+const findSlaWindow = (route: string, level: ServiceLevel, rules: PricingRules): SlaWindow | null => {
+  const forLevel = rules.sla_windows.filter((w) => w.service_level === level);
+  const exact = forLevel.find((w) => w.route === route);
+  if (exact) return exact;
+  const lane = parseLaneRoute(route);
+  if (!lane) return null;
+  const reverse = makeLaneRoute(lane.dropoff_area, lane.pickup_area);
+  return forLevel.find((w) => w.route === reverse) ?? null;
+};
+
+// Routes without a published standard window: the Montreal areas deliver in 1–2 business days, everything else in 3–8.
+const getDefaultFulfillmentDays = (route: string): FulfillmentDays =>
+  route.toLowerCase().includes('montreal') ? { days_min: 1, days_max: 2 } : { days_min: 3, days_max: 8 };
+
+// Business days from pickup to delivery. A published window for the route and level wins; otherwise the level's
+// window is derived from the route's standard one.
+export const getFulfillmentDaysForRoute = (
+  route: string | null | undefined,
+  level: unknown = 'standard',
+  rules: PricingRules = activePricingRules
+): FulfillmentDays => {
+  const r = String(route ?? '').trim();
+  const option = getServiceLevel(level);
+  const published = findSlaWindow(r, option.level, rules);
+  if (published) return { days_min: published.days_min, days_max: published.days_max };
+  const standard = findSlaWindow(r, 'standard', rules) ?? getDefaultFulfillmentDays(r);
+  return option.sla({ days_min: standard.days_min, days_max: standard.days_max });
+};
+
+export const formatFulfillmentDays = ({ days_min, days_max }: FulfillmentDays): string =>
+  days_min === days_max ? `${days_max} business day${days_max === 1 ? '' : 's'}` : `${days_min}–${days_max} business days`;
+
+// Northline (the carrier) is paid the retail price less EDC's markup, per vehicle and route.
+export const getNorthlineCost = (retailPrice: number, markup: number = QUOTE_MARKUP): number => Math.max(0, retailPrice - markup);
+
+export const PRICING_TABLE: PricingRow[] = OFFICIAL_CITY_TOTAL_PRICES.flatMap((item) => {
+  const days = getFulfillmentDaysForRoute(item.city, 'standard', DEFAULT_PRICING_RULES);
+  return VEHICLE_CLASSES.map((vehicleClass) => {
+    const retail = applyVehicleClassPrice(item.total_price, vehicleClass.type, DEFAULT_PRICING_RULES);
+    return {
+      route: item.city,
+      vehicle_type: vehicleClass.type,
+      northline_cost: getNorthlineCost(retail),
+      retail_price: retail,
+      days_min: days.days_min,
+      days_max: days.days_max,
+    };
+  });
 });
 
-export const getPricingRow = (route: string | null | undefined, vehicleType: VehicleType = 'standard'): PricingRow | null => {
+export const getPricingRow = (
+  route: string | null | undefined,
+  vehicleType: VehicleType = 'standard',
+  rules: PricingRules = activePricingRules
+): PricingRow | null => {
   const r = String(route ?? '').trim();
   if (!r) return null;
+
+  const lane = parseLaneRoute(r);
+  if (lane) {
+    const resolved = resolveRoutePrice(lane, rules);
+    if (!resolved) return null;
+    if (resolved.source === 'city') return getPricingRow(resolved.route, vehicleType, rules);
+    const days = getFulfillmentDaysForRoute(resolved.route, 'standard', rules);
+    const retail = applyVehicleClassPrice(resolved.total_price, vehicleType, rules);
+    return {
+      route: resolved.route,
+      vehicle_type: vehicleType,
+      northline_cost: getNorthlineCost(retail),
+      retail_price: retail,
+      days_min: days.days_min,
+      days_max: days.days_max,
+    };
+  }
+
   const base = PRICING_TABLE.find((row) => row.route === r && row.vehicle_type === vehicleType) ?? null;
   if (!base) return null;
-  const overrides = getPricingOverrides();
-  const override = overrides[base.route];
-  if (!Number.isFinite(override)) return base;
+  // PRICING_TABLE is built from the defaults; published rules may change the city price or the class multiplier.
+  const city = getOfficialCityPriceForServiceArea(base.route, rules);
+  if (!city) return base;
+  const retail = applyVehicleClassPrice(city.total_price, vehicleType, rules);
   return {
     ...base,
-    retail_price: override,
-    northline_cost: Math.max(0, override - QUOTE_MARKUP),
+    retail_price: retail,
+    northline_cost: getNorthlineCost(retail),
   };
 };
+
+type VinDecodeLike = {
+  body_class?: string | null;
+  vehicle_type?: string | null;
+  gvwr?: string | null;
+  model?: string | null;
+};
+
+// GVWR strings from NHTSA look like "Class 2E: 6,001 - 7,000 lb (2,722 - 3,175 kg)".
+const parseGvwrClass = (gvwr: string): number | null => {
+  const m = gvwr.match(/\bclass\s*(\d)/i);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const inferVehicleTypeFromDecode = (decoded: VinDecodeLike | null | undefined): VehicleType | null => {
+  if (!decoded) return null;
+  const body = String(decoded.body_class ?? '').toLowerCase();
+  const kind = String(decoded.vehicle_type ?? '').toLowerCase();
+  const model = String(decoded.model ?? '').toLowerCase();
+  const gvwrClass = parseGvwrClass(String(decoded.gvwr ?? ''));
+  if (!body && !kind && gvwrClass === null) return null;
+
+  if (gvwrClass !== null && gvwrClass >= 3) return 'oversized';
+  if (/\bincomplete\b|\bbus\b|\bcutaway\b|\bchassis\b/.test(body) || /\bbus\b|incomplete/.test(kind)) return 'oversized';
+  if (/\bdually\b|\bdrw\b/.test(model)) return 'oversized';
+  if (/pickup/.test(body)) return 'pickup';
+  if (/minivan/.test(body)) return 'suv';
+  if (/\bvan\b/.test(body)) return 'van';
+  if (/sport utility|\bsuv\b|\bcuv\b|crossover|multi-?purpose|\bmpv\b/.test(body)) return 'suv';
+  if (/\btruck\b/.test(kind) && !body) return 'pickup';
+  return 'standard';
+};
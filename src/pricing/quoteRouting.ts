@@ -0,0 +1,105 @@
+import { resolveRoutePriceForAddresses, type PricingRules } from './pricingTable';
+import { computeQuote, type Quote, type QuoteLocation, type QuoteRequest } from './quotes';
+
+// Server-side pricing for routes that need a distance: create-quote and refresh-quote both price through here.
+
+export type PricedQuoteResult = { ok: true; quote: Quote } | { ok: false; error: string };
+
+type Coords = { lat: number; lng: number };
+
+// How far sent coordinates may be from the geocoded address and still be used.
+const MAX_COORDS_DRIFT_KM = 5;
+
+const readCoords = (location: QuoteLocation): Coords | null => {
+  const latText = String(location?.lat ?? '').trim();
+  const lngText = String(location?.lng ?? '').trim();
+  if (!latText || !lngText) return null;
+  const lat = Number(latText);
+  const lng = Number(lngText);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  if (lat === 0 && lng === 0) return null;
+  return { lat, lng };
+};
+
+const geocodeAddress = async (address: string): Promise<Coords | null> => {
+  const q = String(address ?? '').trim();
+  if (!q) return null;
+  const url = `https://geocode.arcgis.com/arcgis/rest/services/World/GeocodeServer/findAddressCandidates?f=pjson&maxLocations=1&sourceCountry=CAN&singleLine=${encodeURIComponent(q)}`;
+  const res = await fetch(url);
+  if (!res.ok) return null;
+  const data = (await res.json().catch(() => null)) as { candidates?: Array<{ location?: { x?: unknown; y?: unknown } }> } | null;
+  const candidate = Array.isArray(data?.candidates) ? data?.candidates[0] : null;
+  const lat = Number(candidate?.location?.y);
+  const lng = Number(candidate?.location?.x);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat, lng };
+};
+
+const getStraightLineKm = (from: Coords, to: Coords) => {
+  const R = 6371;
+  const dLat = ((to.lat - from.lat) * Math.PI) / 180;
+  const dLng = ((to.lng - from.lng) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((from.lat * Math.PI) / 180) * Math.cos((to.lat * Math.PI) / 180) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Same order as the quote screen: OSRM road distance, then straight line.
+const getDistanceKm = async (from: Coords, to: Coords) => {
+  try {
+    const url = `https://router.project-osrm.org/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`;
+    const res = await fetch(url);
+    if (res.ok) {
+      const data = (await res.json().catch(() => null)) as { routes?: Array<{ distance?: unknown }> } | null;
+      const meters = Number(data?.routes?.[0]?.distance);
+      if (Number.isFinite(meters)) return meters / 1000;
+    }
+  } catch {
+    // fall through
+  }
+
+  return getStraightLineKm(from, to);
+};
+
+// Where an address is, for pricing. The caller's coordinates (a point picked on the map) are only used when they
+// are near where the address geocodes; otherwise anyone could send coordinates that shorten the route. An address
+// that cannot be geocoded is not priced.
+const locateAddress = async (location: QuoteLocation): Promise<Coords | null> => {
+  const geocoded = await geocodeAddress(location.address).catch(() => null);
+  if (!geocoded) return null;
+  const sent = readCoords(location);
+  return sent && getStraightLineKm(sent, geocoded) <= MAX_COORDS_DRIFT_KM ? sent : geocoded;
+};
+
+export const priceQuoteRequest = async (request: QuoteRequest, rules: PricingRules): Promise<PricedQuoteResult> => {
+  const official = computeQuote(request, { rules });
+  if (official) return { ok: true, quote: official };
+
+  // Outside the service areas the price is distance-based, so both ends of every such leg have to be located.
+  // A round trip's return leg is the same road distance as the first leg.
+  const legDistancesKm: Array<number | null> = [];
+  for (let i = 0; i < request.legs.length; i += 1) {
+    const leg = request.legs[i];
+    if (resolveRoutePriceForAddresses(leg.pickup, leg.dropoff, rules)) {
+      legDistancesKm.push(null);
+      continue;
+    }
+    if (i > 0 && request.service_type === 'round_trip' && legDistancesKm[0] != null) {
+      legDistancesKm.push(legDistancesKm[0]);
+      continue;
+    }
+    const from = await locateAddress(leg.pickup);
+    const to = await locateAddress(leg.dropoff);
+    if (!from || !to) {
+      const which = request.legs.length > 1 ? ` of leg ${i + 1}` : '';
+      return { ok: false, error: `Unable to locate both addresses${which}. Please verify the addresses and try again.` };
+    }
+    legDistancesKm.push(await getDistanceKm(from, to));
+  }
+
+  const quote = computeQuote(request, { rules, distanceKm: legDistancesKm[0], legDistancesKm });
+  if (!quote) return { ok: false, error: 'Unable to price this route' };
+  return { ok: true, quote };
+};
@@ -0,0 +1,86 @@
+import { QUOTE_VALIDITY_MS, type Quote } from './quotes';
+
+// Signed quote tokens: "<base64url(payload)>.<base64url(HMAC-SHA256)>".
+// Only Netlify functions hold the secret; the browser treats the token as opaque.
+// Uses Web Crypto so the module needs no Node-only imports.
+
+// A token lives exactly as long as the price it carries.
+export const QUOTE_TOKEN_TTL_MS = QUOTE_VALIDITY_MS;
+
+export type QuoteTokenPayload = Quote & {
+  v: 1;
+  quote_id: string;
+  issued_at: string;
+  expires_at: string;
+};
+
+export type QuoteTokenResult = { ok: true; quote: QuoteTokenPayload } | { ok: false; error: string };
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(padded);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) out[i] = binary.charCodeAt(i);
+  return out;
+};
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const signQuoteToken = async (quote: Quote, secret: string, now = new Date()): Promise<{ token: string; payload: QuoteTokenPayload }> => {
+  const payload: QuoteTokenPayload = {
+    ...quote,
+    v: 1,
+    quote_id: crypto.randomUUID(),
+    issued_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + QUOTE_TOKEN_TTL_MS).toISOString(),
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importKey(secret);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return { token: `${body}.${toBase64Url(signature)}`, payload };
+};
+
+export const verifyQuoteToken = async (
+  token: unknown,
+  secret: string,
+  options: { now?: Date; allowExpired?: boolean } = {}
+): Promise<QuoteTokenResult> => {
+  const raw = String(token ?? '').trim();
+  const [body, signature, extra] = raw.split('.');
+  if (!body || !signature || extra !== undefined) return { ok: false, error: 'Missing or malformed quote token' };
+
+  let valid = false;
+  try {
+    const key = await importKey(secret);
+    valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body));
+  } catch {
+    valid = false;
+  }
+  if (!valid) return { ok: false, error: 'Quote token signature is invalid' };
+
+  let payload: QuoteTokenPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as QuoteTokenPayload;
+  } catch {
+    return { ok: false, error: 'Quote token payload is unreadable' };
+  }
+  if (!payload || payload.v !== 1 || !Number.isFinite(payload.price_before_tax)) {
+    return { ok: false, error: 'Quote token payload is invalid' };
+  }
+
+  const now = options.now ?? new Date();
+  if (!options.allowExpired && Date.parse(payload.expires_at) <= now.getTime()) {
+    return { ok: false, error: 'Quote has expired. Please refresh the quote.' };
+  }
+
+  return { ok: true, quote: payload };
+};
@@ -0,0 +1,597 @@
+import {
+  applyVehicleClassPrice,
+  getAccessorialPrice,
+  getActivePricingRules,
+  getDistancePrice,
+  getFulfillmentDaysForRoute,
+  getMultiVehicleDiscountPercent,
+  getRoundTripDiscountPercent,
+  getServiceLevelModifier,
+  normalizeServiceLevel,
+  normalizeServiceType,
+  normalizeVehicleType,
+  resolveRoutePriceForAddresses,
+  type PricingRules,
+  type ServiceLevel,
+  type ServiceType,
+  type VehicleType,
+} from './pricingTable';
+import type { QuoteDiscount } from './discounts';
+import type { ServiceAreaInput } from './serviceAreas';
+import type { TaxPlaceInput } from './taxes';
+import { MAX_ORDER_LEGS, readOrderLegs, withOrderLegs } from './legs';
+import { MAX_ORDER_VEHICLES, makeEmptyOrderVehicle, normalizeVehicleCondition, readOrderVehicles, withOrderVehicles } from './vehicles';
+
+// Shared by the browser preview and the create-quote function, so the two cannot drift apart.
+// The function's result is the one that gets signed and charged.
+
+export type VehicleCondition = 'runs_and_drives' | 'does_not_run_or_drive';
+
+// How long a quoted price is honoured. Saved quotes and unpaid orders must be re-priced after this.
+export const QUOTE_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type QuoteLocation = ServiceAreaInput & { address: string; city: string };
+
+export type QuoteVehicleInput = {
+  id: string;
+  vin: string;
+  vehicle_type: VehicleType;
+  vehicle_condition: VehicleCondition;
+};
+
+export type QuoteLegInput = {
+  id: string;
+  pickup: QuoteLocation;
+  dropoff: QuoteLocation;
+};
+
+export type QuoteRequest = {
+  // The first leg; kept for one-way callers.
+  pickup: QuoteLocation;
+  dropoff: QuoteLocation;
+  service_type: ServiceType;
+  // Every leg, first one included. Round trips have two; one-way orders one.
+  legs: QuoteLegInput[];
+  service_level: ServiceLevel;
+  // The first vehicle; kept for single-vehicle callers.
+  vehicle_type: VehicleType;
+  vehicle_condition: VehicleCondition;
+  // Every vehicle on the order, first one included.
+  vehicles: QuoteVehicleInput[];
+};
+
+// One priced vehicle. transport_price is before the multi-car (discount) and round-trip discounts and the
+// service-level surcharge; price_before_tax is after them. On multi-leg quotes the amounts are summed over the legs.
+export type QuoteVehicleLine = QuoteVehicleInput & {
+  transport_price: number;
+  loading_fee: number;
+  discount: number;
+  round_trip_discount?: number;
+  service_level_fee?: number;
+  price_before_tax: number;
+};
+
+// One priced leg, over all vehicles. transport_price is after both discounts and includes the service-level surcharge.
+export type QuoteLegLine = {
+  id: string;
+  pickup_address: string;
+  dropoff_address: string;
+  route_area: string;
+  pricing_status: 'official' | 'estimated';
+  distance_km: number | null;
+  base_price: number;
+  transport_price: number;
+  loading_fee: number;
+  multi_vehicle_discount: number;
+  round_trip_discount: number;
+  service_level_fee?: number;
+  price_before_tax: number;
+};
+
+export type Quote = {
+  route_area: string;
+  pricing_status: 'official' | 'estimated';
+  pricing_version: number;
+  service_type: ServiceType;
+  vehicle_type: VehicleType;
+  vehicle_condition: VehicleCondition;
+  // First leg: its distance and its route price for a standard car, before the vehicle class is applied.
+  distance_km: number | null;
+  base_price: number;
+  // Totals over all vehicles and legs; transport_price is after the multi-car and round-trip discounts and includes
+  // the service-level surcharge, so price_before_tax = transport_price + loading_fee - discount_total.
+  transport_price: number;
+  loading_fee: number;
+  price_before_tax: number;
+  vehicles: QuoteVehicleLine[];
+  legs: QuoteLegLine[];
+  multi_vehicle_discount: number;
+  multi_vehicle_discount_percent: number;
+  round_trip_discount: number;
+  round_trip_discount_percent: number;
+  service_level: ServiceLevel;
+  service_level_fee: number;
+  // Business days from pickup to delivery promised for the service level; the slowest leg on multi-leg quotes.
+  sla_days_min: number;
+  sla_days_max: number;
+  pickup_address: string;
+  dropoff_address: string;
+  // Promo code and contract rate discounts (see discounts.ts), only on quotes signed for a signed-in customer.
+  discounts?: QuoteDiscount[];
+  discount_total?: number;
+  promo_code?: string | null;
+  customer_id?: string | null;
+};
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const readText = (v: unknown) => (typeof v === 'string' ? v : v == null ? '' : String(v)).trim();
+
+const normalizeLocation = (raw: unknown): QuoteLocation => {
+  const r = readRecord(raw) ?? {};
+  return {
+    address: readText(r.address),
+    city: readText(r.city),
+    postal_code: readText(r.postal_code) || null,
+    lat: readText(r.lat) || null,
+    lng: readText(r.lng) || null,
+  };
+};
+
+const normalizeQuoteVehicle = (raw: unknown, index: number): QuoteVehicleInput => {
+  const r = readRecord(raw) ?? {};
+  return {
+    id: readText(r.id) || `vehicle_${index + 1}`,
+    vin: readText(r.vin).toUpperCase(),
+    vehicle_type: normalizeVehicleType(r.vehicle_type),
+    vehicle_condition: normalizeVehicleCondition(r.vehicle_condition),
+  };
+};
+
+const normalizeQuoteLeg = (raw: unknown, index: number): QuoteLegInput => {
+  const r = readRecord(raw) ?? {};
+  return { id: readText(r.id) || `leg_${index + 1}`, pickup: normalizeLocation(r.pickup), dropoff: normalizeLocation(r.dropoff) };
+};
+
+export const normalizeQuoteRequest = (raw: unknown): QuoteRequest => {
+  const r = readRecord(raw) ?? {};
+  const listed = Array.isArray(r.vehicles) ? r.vehicles.slice(0, MAX_ORDER_VEHICLES).map(normalizeQuoteVehicle) : [];
+  // Single-vehicle requests (and older clients) only send vehicle_type / vehicle_condition.
+  const vehicles = listed.length ? listed : [normalizeQuoteVehicle({ vehicle_type: r.vehicle_type, vehicle_condition: r.vehicle_condition }, 0)];
+  const serviceType = normalizeServiceType(r.service_type);
+  const pickup = normalizeLocation(r.pickup);
+  const dropoff = normalizeLocation(r.dropoff);
+  // pickup / dropoff are always the first leg; one-way requests (and older clients) send no legs.
+  const listedLegs = Array.isArray(r.legs) ? r.legs.slice(0, MAX_ORDER_LEGS).map(normalizeQuoteLeg) : [];
+  const first: QuoteLegInput = { id: listedLegs[0]?.id ?? 'leg_1', pickup, dropoff };
+  const legs =
+    serviceType === 'round_trip'
+      ? [first, { id: listedLegs[1]?.id ?? 'leg_2', pickup: dropoff, dropoff: pickup }]
+      : serviceType === 'multi_leg'
+        ? [first, ...listedLegs.slice(1)]
+        : [first];
+  return {
+    pickup,
+    dropoff,
+    service_type: serviceType,
+    legs,
+    service_level: normalizeServiceLevel(r.service_level),
+    vehicle_type: vehicles[0].vehicle_type,
+    vehicle_condition: vehicles[0].vehicle_condition,
+    vehicles,
+  };
+};
+
+// Builds a request from the order form shape the quote screens keep in state and in saved drafts.
+export const quoteRequestFromFormData = (formData: unknown, pickupCoords?: { lat: number; lng: number } | null): QuoteRequest => {
+  const form = readRecord(formData) ?? {};
+  const pickup = readRecord(form.pickup_location) ?? {};
+  const dropoff = readRecord(form.dropoff_location) ?? {};
+  const service = readRecord(form.service) ?? {};
+  return normalizeQuoteRequest({
+    pickup: { ...pickup, lat: pickupCoords?.lat ?? pickup.lat, lng: pickupCoords?.lng ?? pickup.lng },
+    dropoff,
+    service_type: service.service_type,
+    service_level: service.service_level,
+    legs: readOrderLegs(form).map((leg) => ({ id: leg.id, pickup: leg.pickup_location, dropoff: leg.dropoff_location })),
+    vehicles: readOrderVehicles(form),
+  });
+};
+
+// Addresses are compared loosely: the order must be for the same places the quote was priced for.
+export const normalizeQuoteAddress = (address: unknown) =>
+  readText(address)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+export type PricedQuoteVehicles = {
+  lines: QuoteVehicleLine[];
+  transport_price: number;
+  loading_fee: number;
+  discount: number;
+  discount_percent: number;
+  round_trip_discount: number;
+  service_level_fee: number;
+  price_before_tax: number;
+};
+
+// Each vehicle pays the route price for its class plus its own loading fee. The multi-car discount is
+// taken off each vehicle's transport price (never the loading fee), then the round-trip discount off what is left.
+// The service-level surcharge is a percent of the discounted transport price plus a flat amount per vehicle.
+export const priceQuoteVehicles = (
+  basePrice: number,
+  vehicles: Array<Pick<QuoteVehicleInput, 'vehicle_type' | 'vehicle_condition'> & Partial<QuoteVehicleInput>>,
+  rules: PricingRules = getActivePricingRules(),
+  roundTripDiscountPercent = 0,
+  serviceLevel: ServiceLevel = 'standard'
+): PricedQuoteVehicles => {
+  const list = vehicles.length ? vehicles : [{ vehicle_type: 'standard' as VehicleType, vehicle_condition: 'runs_and_drives' as VehicleCondition }];
+  const percent = getMultiVehicleDiscountPercent(list.length, rules);
+  const modifier = getServiceLevelModifier(serviceLevel, rules);
+  const lines = list.map((v, i) => {
+    const transport = applyVehicleClassPrice(basePrice, v.vehicle_type, rules);
+    const loadingFee = v.vehicle_condition === 'does_not_run_or_drive' ? getAccessorialPrice('loading', rules) : 0;
+    const discount = percent ? roundCents((transport * percent) / 100) : 0;
+    const roundTrip = roundTripDiscountPercent ? roundCents(((transport - discount) * roundTripDiscountPercent) / 100) : 0;
+    const levelFee = roundCents(((transport - discount - roundTrip) * modifier.percent) / 100 + modifier.flat);
+    return {
+      id: v.id || `vehicle_${i + 1}`,
+      vin: v.vin ?? '',
+      vehicle_type: v.vehicle_type,
+      vehicle_condition: v.vehicle_condition,
+      transport_price: transport,
+      loading_fee: loadingFee,
+      discount,
+      round_trip_discount: roundTrip,
+      service_level_fee: levelFee,
+      price_before_tax: roundCents(transport - discount - roundTrip + levelFee + loadingFee),
+    };
+  });
+  const transportGross = lines.reduce((sum, l) => sum + l.transport_price, 0);
+  const discount = roundCents(lines.reduce((sum, l) => sum + l.discount, 0));
+  const roundTrip = roundCents(lines.reduce((sum, l) => sum + l.round_trip_discount, 0));
+  const levelFee = roundCents(lines.reduce((sum, l) => sum + l.service_level_fee, 0));
+  const loadingFee = lines.reduce((sum, l) => sum + l.loading_fee, 0);
+  return {
+    lines,
+    transport_price: roundCents(transportGross - discount - roundTrip + levelFee),
+    loading_fee: loadingFee,
+    discount,
+    discount_percent: percent,
+    round_trip_discount: roundTrip,
+    service_level_fee: levelFee,
+    price_before_tax: roundCents(transportGross - discount - roundTrip + levelFee + loadingFee),
+  };
+};
+
+export type QuoteLegBase = Pick<QuoteLegLine, 'id' | 'pickup_address' | 'dropoff_address' | 'route_area' | 'pricing_status' | 'distance_km' | 'base_price'>;
+
+export type PricedQuoteLegs = {
+  legs: QuoteLegLine[];
+  vehicles: QuoteVehicleLine[];
+  transport_price: number;
+  loading_fee: number;
+  multi_vehicle_discount: number;
+  multi_vehicle_discount_percent: number;
+  round_trip_discount: number;
+  round_trip_discount_percent: number;
+  service_level: ServiceLevel;
+  service_level_fee: number;
+  price_before_tax: number;
+};
+
+// Every leg is priced like a one-way move from its own route price (vehicles, loading fees, multi-car discount,
+// service-level surcharge); round trips also get the round-trip discount on both legs. Vehicle lines are summed over the legs.
+export const priceQuoteLegs = (
+  legs: QuoteLegBase[],
+  vehicles: Array<Pick<QuoteVehicleInput, 'vehicle_type' | 'vehicle_condition'> & Partial<QuoteVehicleInput>>,
+  serviceType: ServiceType,
+  rules: PricingRules = getActivePricingRules(),
+  serviceLevel: ServiceLevel = 'standard'
+): PricedQuoteLegs => {
+  const roundTripPercent = getRoundTripDiscountPercent(serviceType, rules);
+  const priced = legs.map((leg) => ({ leg, priced: priceQuoteVehicles(leg.base_price, vehicles, rules, roundTripPercent, serviceLevel) }));
+  const legLines: QuoteLegLine[] = priced.map(({ leg, priced: p }) => ({
+    ...leg,
+    transport_price: p.transport_price,
+    loading_fee: p.loading_fee,
+    multi_vehicle_discount: p.discount,
+    round_trip_discount: p.round_trip_discount,
+    service_level_fee: p.service_level_fee,
+    price_before_tax: p.price_before_tax,
+  }));
+  const vehicleLines: QuoteVehicleLine[] = (priced[0]?.priced.lines ?? []).map((first, i) => {
+    const sum = (key: 'transport_price' | 'loading_fee' | 'discount' | 'round_trip_discount' | 'service_level_fee' | 'price_before_tax') =>
+      roundCents(priced.reduce((total, p) => total + (p.priced.lines[i]?.[key] ?? 0), 0));
+    return {
+      ...first,
+      transport_price: sum('transport_price'),
+      loading_fee: sum('loading_fee'),
+      discount: sum('discount'),
+      round_trip_discount: sum('round_trip_discount'),
+      service_level_fee: sum('service_level_fee'),
+      price_before_tax: sum('price_before_tax'),
+    };
+  });
+  const total = (key: 'transport_price' | 'loading_fee' | 'multi_vehicle_discount' | 'round_trip_discount' | 'service_level_fee' | 'price_before_tax') =>
+    roundCents(legLines.reduce((sum, l) => sum + (l[key] ?? 0), 0));
+  return {
+    legs: legLines,
+    vehicles: vehicleLines,
+    transport_price: total('transport_price'),
+    loading_fee: total('loading_fee'),
+    multi_vehicle_discount: total('multi_vehicle_discount'),
+    multi_vehicle_discount_percent: priced[0]?.priced.discount_percent ?? 0,
+    round_trip_discount: total('round_trip_discount'),
+    round_trip_discount_percent: roundTripPercent,
+    service_level: serviceLevel,
+    service_level_fee: total('service_level_fee'),
+    price_before_tax: total('price_before_tax'),
+  };
+};
+
+// Quotes signed before multi-vehicle orders have no vehicle lines; they priced exactly one vehicle.
+export const getQuoteVehicleLines = (quote: Quote): QuoteVehicleLine[] =>
+  Array.isArray(quote.vehicles) && quote.vehicles.length
+    ? quote.vehicles
+    : [
+        {
+          id: 'vehicle_1',
+          vin: '',
+          vehicle_type: quote.vehicle_type,
+          vehicle_condition: quote.vehicle_condition,
+          transport_price: quote.transport_price,
+          loading_fee: quote.loading_fee,
+          discount: 0,
+          price_before_tax: quote.price_before_tax,
+        },
+      ];
+
+// Quotes signed before multi-leg orders have no leg lines; they priced exactly one leg.
+export const getQuoteLegLines = (quote: Quote): QuoteLegLine[] =>
+  Array.isArray(quote.legs) && quote.legs.length
+    ? quote.legs
+    : [
+        {
+          id: 'leg_1',
+          pickup_address: quote.pickup_address,
+          dropoff_address: quote.dropoff_address,
+          route_area: quote.route_area,
+          pricing_status: quote.pricing_status,
+          distance_km: quote.distance_km,
+          base_price: quote.base_price,
+          transport_price: quote.transport_price,
+          loading_fee: quote.loading_fee,
+          multi_vehicle_discount: quote.multi_vehicle_discount ?? 0,
+          round_trip_discount: 0,
+          price_before_tax: quote.price_before_tax,
+        },
+      ];
+
+// The order's legs must be the ones the quote priced: same count and the same addresses, in order.
+export const findQuoteLegMismatch = (quote: Quote, formData: unknown): string | null => {
+  const lines = getQuoteLegLines(quote);
+  const legs = readOrderLegs(formData);
+  if (lines.length !== legs.length) {
+    return `This quote is for ${lines.length} leg${lines.length === 1 ? '' : 's'} but the order has ${legs.length}. Please refresh the quote.`;
+  }
+  for (let i = 0; i < lines.length; i += 1) {
+    if (
+      normalizeQuoteAddress(lines[i].pickup_address) !== normalizeQuoteAddress(legs[i].pickup_location.address) ||
+      normalizeQuoteAddress(lines[i].dropoff_address) !== normalizeQuoteAddress(legs[i].dropoff_location.address)
+    ) {
+      return i === 0
+        ? 'The pickup or drop-off address changed after this quote was issued. Please refresh the quote.'
+        : `The addresses of leg ${i + 1} changed after this quote was issued. Please refresh the quote.`;
+    }
+  }
+  return null;
+};
+
+// The order's vehicles must be the ones the quote priced: same count, and the same VIN wherever both have one.
+export const findQuoteVehicleMismatch = (quote: Quote, formData: unknown): string | null => {
+  const lines = getQuoteVehicleLines(quote);
+  const vehicles = readOrderVehicles(formData);
+  if (lines.length !== vehicles.length) {
+    return `This quote is for ${lines.length} vehicle${lines.length === 1 ? '' : 's'} but the order lists ${vehicles.length}. Please refresh the quote.`;
+  }
+  for (let i = 0; i < lines.length; i += 1) {
+    if (lines[i].vin && vehicles[i].vin && lines[i].vin !== vehicles[i].vin) {
+      return `Vehicle ${i + 1} changed after this quote was issued. Please refresh the quote.`;
+    }
+  }
+  return null;
+};
+
+// A request for the same legs, vehicles and service level as a signed quote, to re-price it (refresh-quote). Only the
+// quoted addresses are used: cities, postal codes and coordinates edited on the order since are not.
+export const quoteRequestFromQuote = (quote: Quote): QuoteRequest => {
+  const legs = getQuoteLegLines(quote);
+  return normalizeQuoteRequest({
+    pickup: { address: legs[0].pickup_address },
+    dropoff: { address: legs[0].dropoff_address },
+    service_type: quote.service_type,
+    service_level: quote.service_level,
+    legs: legs.map((leg) => ({ id: leg.id, pickup: { address: leg.pickup_address }, dropoff: { address: leg.dropoff_address } })),
+    vehicles: getQuoteVehicleLines(quote).map((line) => ({
+      id: line.id,
+      vin: line.vin,
+      vehicle_type: line.vehicle_type,
+      vehicle_condition: line.vehicle_condition,
+    })),
+  });
+};
+
+// Where tax on a quoted order is due: the first leg's addresses as the quote signed them.
+export const taxPlaceFromQuote = (quote: Quote): TaxPlaceInput => {
+  const first = getQuoteLegLines(quote)[0];
+  return { pickup: { address: first.pickup_address }, dropoff: { address: first.dropoff_address }, route_area: quote.route_area };
+};
+
+// Writes the signed prices onto the order form: each vehicle's class, condition and line price, each leg's
+// price (multi-leg orders only), the loading fee total, the service level with its delivery window, and the discounts.
+export const applyQuoteToFormData = <T extends object>(formData: T, quote: Quote): T => {
+  const vehicles = readOrderVehicles(formData);
+  const priced = getQuoteVehicleLines(quote).map((line, i) => ({
+    ...(vehicles[i] ?? { ...makeEmptyOrderVehicle(), id: line.id }),
+    vehicle_type: line.vehicle_type,
+    vehicle_condition: line.vehicle_condition,
+    transport_price: line.transport_price,
+    loading_fee: line.loading_fee,
+    discount: line.discount,
+    service_level_fee: line.service_level_fee,
+    price_before_tax: line.price_before_tax,
+  }));
+  const withPrices = withOrderVehicles(formData, priced) as Record<string, unknown>;
+  const withVehicles = {
+    ...withPrices,
+    service: {
+      ...(readRecord(withPrices.service) ?? {}),
+      service_level: normalizeServiceLevel(quote.service_level),
+      sla_days_min: quote.sla_days_min,
+      sla_days_max: quote.sla_days_max,
+    },
+    vehicle_loading_fee: quote.loading_fee,
+    discounts: quote.discounts ?? [],
+  } as T;
+  const legLines = getQuoteLegLines(quote);
+  if (legLines.length < 2) return withVehicles;
+  const legs = readOrderLegs(withVehicles).map((leg, i) => ({
+    ...leg,
+    route_area: legLines[i]?.route_area ?? leg.route_area,
+    distance_km: legLines[i]?.distance_km ?? null,
+    price_before_tax: legLines[i]?.price_before_tax ?? leg.price_before_tax,
+  }));
+  return withOrderLegs(withVehicles, legs);
+};
+
+// The service level and delivery window the order was quoted with. Orders quoted before service levels were
+// standard and have no window.
+export const readOrderServiceLevel = (
+  formData: unknown
+): { service_level: ServiceLevel; days_min: number | null; days_max: number | null } => {
+  const service = readRecord(readRecord(formData)?.service) ?? {};
+  const readDays = (v: unknown) => (typeof v === 'number' && Number.isInteger(v) && v > 0 ? v : null);
+  return {
+    service_level: normalizeServiceLevel(service.service_level),
+    days_min: readDays(service.sla_days_min),
+    days_max: readDays(service.sla_days_max),
+  };
+};
+
+// Distances saved with the order's estimate, for re-pricing routes outside the lanes without geocoding again.
+// Legs after the first keep their own distance in the estimate, or on the leg once a quote was applied.
+export const readSavedQuoteDistances = (formData: unknown): { distanceKm: number | null; legDistancesKm: Array<number | null> } => {
+  const form = readRecord(formData) ?? {};
+  const estimate = readRecord(form.costEstimate) ?? {};
+  const readKm = (v: unknown) => {
+    const n = Number(v);
+    return v !== null && v !== '' && Number.isFinite(n) && n > 0 ? n : null;
+  };
+  const extraLegs = Array.isArray(estimate.extraLegs) ? estimate.extraLegs.map(readRecord) : [];
+  const legs = Array.isArray(form.legs) ? form.legs.slice(1).map(readRecord) : [];
+  const count = Math.max(extraLegs.length, legs.length);
+  return {
+    distanceKm: readKm(estimate.distance),
+    legDistancesKm: [null, ...Array.from({ length: count }, (_, i) => readKm(extraLegs[i]?.distance) ?? readKm(legs[i]?.distance_km))],
+  };
+};
+
+// Prices one leg's route for a standard car: the official lane price, or the distance estimate when outside the lanes.
+const priceQuoteLegRoute = (leg: QuoteLegInput, distanceKm: number | null, rules: PricingRules): QuoteLegBase | null => {
+  const resolved = resolveRoutePriceForAddresses(leg.pickup, leg.dropoff, rules);
+  if (!resolved && distanceKm === null) return null;
+  return {
+    id: leg.id,
+    pickup_address: leg.pickup.address,
+    dropoff_address: leg.dropoff.address,
+    // Same label the quote screen falls back to for routes outside the service areas.
+    route_area: resolved ? resolved.route : leg.dropoff.city || leg.pickup.city,
+    pricing_status: resolved ? 'official' : 'estimated',
+    distance_km: distanceKm,
+    base_price: resolved ? resolved.total_price : getDistancePrice(distanceKm as number, rules),
+  };
+};
+
+// legDistancesKm holds one driving distance per leg; a round trip's return leg falls back to distanceKm.
+export const computeQuote = (
+  request: QuoteRequest,
+  options: { distanceKm?: number | null; legDistancesKm?: Array<number | null>; rules?: PricingRules } = {}
+): Quote | null => {
+  const rules = options.rules ?? getActivePricingRules();
+  const readKm = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? Math.round(v) : null);
+  const distanceKm = readKm(options.distanceKm);
+  const legs = request.legs.length ? request.legs : [{ id: 'leg_1', pickup: request.pickup, dropoff: request.dropoff }];
+
+  const bases: QuoteLegBase[] = [];
+  for (let i = 0; i < legs.length; i += 1) {
+    const km = readKm(options.legDistancesKm?.[i]) ?? (i === 0 || request.service_type === 'round_trip' ? distanceKm : null);
+    const base = priceQuoteLegRoute(legs[i], km, rules);
+    if (!base) return null;
+    bases.push(base);
+  }
+
+  const priced = priceQuoteLegs(bases, request.vehicles, request.service_type, rules, request.service_level);
+  const first = bases[0];
+  const sla = bases.map((b) => getFulfillmentDaysForRoute(b.route_area, request.service_level, rules));
+
+  return {
+    route_area: first.route_area,
+    pricing_status: bases.every((b) => b.pricing_status === 'official') ? 'official' : 'estimated',
+    pricing_version: rules.version,
+    service_type: request.service_type,
+    vehicle_type: request.vehicle_type,
+    vehicle_condition: request.vehicle_condition,
+    distance_km: first.distance_km,
+    base_price: first.base_price,
+    transport_price: priced.transport_price,
+    loading_fee: priced.loading_fee,
+    price_before_tax: priced.price_before_tax,
+    vehicles: priced.vehicles,
+    legs: priced.legs,
+    multi_vehicle_discount: priced.multi_vehicle_discount,
+    multi_vehicle_discount_percent: priced.multi_vehicle_discount_percent,
+    round_trip_discount: priced.round_trip_discount,
+    round_trip_discount_percent: priced.round_trip_discount_percent,
+    service_level: request.service_level,
+    service_level_fee: priced.service_level_fee,
+    sla_days_min: Math.max(...sla.map((d) => d.days_min)),
+    sla_days_max: Math.max(...sla.map((d) => d.days_max)),
+    pickup_address: request.pickup.address,
+    dropoff_address: request.dropoff.address,
+  };
+};
+
+export const getQuoteExpiresAt = (quotedAt: string | Date = new Date()) => {
+  const start = quotedAt instanceof Date ? quotedAt.getTime() : Date.parse(quotedAt);
+  return new Date((Number.isFinite(start) ? start : Date.now()) + QUOTE_VALIDITY_MS).toISOString();
+};
+
+// Returns null when the expiry is unknown (quotes saved before expiry was tracked).
+export const getQuoteTimeLeftMs = (expiresAt: unknown, now = new Date()): number | null => {
+  const end = Date.parse(readText(expiresAt));
+  if (!Number.isFinite(end)) return null;
+  return end - now.getTime();
+};
+
+export const isQuoteExpired = (expiresAt: unknown, now = new Date()) => {
+  const left = getQuoteTimeLeftMs(expiresAt, now);
+  return left !== null && left <= 0;
+};
+
+export const formatQuoteValidity = (expiresAt: unknown, now = new Date()) => {
+  const left = getQuoteTimeLeftMs(expiresAt, now);
+  if (left === null) return '';
+  if (left <= 0) return 'Quote expired';
+  const minutes = Math.ceil(left / 60000);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return `Quote valid for ${days}d ${hours}h`;
+  if (hours > 0) return `Quote valid for ${hours}h ${mins}m`;
+  return `Quote valid for ${mins}m`;
+};
@@ -0,0 +1,284 @@
+import { extractPostalCodeFromAddress, getForwardSortationArea, inferProvinceFromPostal, normalizePostalCode } from '../lib/postalCodes';
+
+export type ServiceAreaDefinition = {
+  area: string;
+  province: 'ON' | 'QC';
+  // FSA prefixes; "M" covers every Toronto FSA, "K1" every K1x FSA, "L1G" a single FSA.
+  fsa_prefixes: string[];
+  center: { lat: number; lng: number };
+  radius_km: number;
+  name_patterns: RegExp[];
+};
+
+// Order matters for name matching: the more specific region must come before the city it sits next to.
+export const SERVICE_AREA_DEFINITIONS: ServiceAreaDefinition[] = [
+  {
+    area: 'Toronto (Oshawa Region)',
+    province: 'ON',
+    fsa_prefixes: ['L1G', 'L1H', 'L1J', 'L1K', 'L1L', 'L1M', 'L1N', 'L1P', 'L1R', 'L1S', 'L1T', 'L1V', 'L1W', 'L1X', 'L1Y', 'L1Z'],
+    center: { lat: 43.8971, lng: -78.8658 },
+    radius_km: 25,
+    name_patterns: [/\boshawa\b/i, /\bajax\b/i, /\bwhitby\b/i, /\bpickering\b/i],
+  },
+  {
+    area: 'Toronto (Downtown / Brampton / Mississauga)',
+    province: 'ON',
+    fsa_prefixes: [
+      'M',
+      'L4T', 'L4V', 'L4W', 'L4X', 'L4Y', 'L4Z', 'L5A', 'L5B', 'L5C', 'L5E', 'L5G', 'L5H', 'L5J', 'L5K', 'L5L', 'L5M', 'L5N', 'L5R', 'L5S', 'L5T', 'L5V', 'L5W',
+      'L6P', 'L6R', 'L6S', 'L6T', 'L6V', 'L6W', 'L6X', 'L6Y', 'L6Z', 'L7A',
+    ],
+    center: { lat: 43.6532, lng: -79.3832 },
+    radius_km: 40,
+    name_patterns: [/\btoronto\b/i, /\bdowntown\b/i, /\bbrampton\b/i, /\bmississauga\b/i],
+  },
+  {
+    area: 'Hamilton',
+    province: 'ON',
+    fsa_prefixes: ['L8E', 'L8G', 'L8H', 'L8J', 'L8K', 'L8L', 'L8M', 'L8N', 'L8P', 'L8R', 'L8S', 'L8T', 'L8V', 'L8W', 'L9A', 'L9B', 'L9C', 'L9G', 'L9H', 'L9K'],
+    center: { lat: 43.2557, lng: -79.8711 },
+    radius_km: 20,
+    name_patterns: [/\bhamilton\b/i],
+  },
+  {
+    area: 'Niagara Falls',
+    province: 'ON',
+    fsa_prefixes: ['L2E', 'L2G', 'L2H', 'L2J'],
+    center: { lat: 43.0896, lng: -79.0849 },
+    radius_km: 15,
+    name_patterns: [/\bniagara\s*falls\b/i],
+  },
+  {
+    area: 'Windsor',
+    province: 'ON',
+    fsa_prefixes: ['N8P', 'N8R', 'N8S', 'N8T', 'N8W', 'N8X', 'N8Y', 'N9A', 'N9B', 'N9C', 'N9E', 'N9G', 'N9H', 'N9J'],
+    center: { lat: 42.3149, lng: -83.0364 },
+    radius_km: 20,
+    name_patterns: [/\bwindsor\b/i],
+  },
+  {
+    area: 'London, Ontario',
+    province: 'ON',
+    fsa_prefixes: ['N5V', 'N5W', 'N5X', 'N5Y', 'N5Z', 'N6A', 'N6B', 'N6C', 'N6E', 'N6G', 'N6H', 'N6J', 'N6K', 'N6L', 'N6M', 'N6N', 'N6P'],
+    center: { lat: 42.9849, lng: -81.2453 },
+    radius_km: 20,
+    name_patterns: [/\blondon\b/i],
+  },
+  {
+    area: 'Kingston',
+    province: 'ON',
+    fsa_prefixes: ['K7K', 'K7L', 'K7M', 'K7N', 'K7P'],
+    center: { lat: 44.2312, lng: -76.486 },
+    radius_km: 20,
+    name_patterns: [/\bkingston\b/i],
+  },
+  {
+    area: 'Belleville',
+    province: 'ON',
+    fsa_prefixes: ['K8N', 'K8P', 'K8R'],
+    center: { lat: 44.1628, lng: -77.3832 },
+    radius_km: 15,
+    name_patterns: [/\bbelleville\b/i],
+  },
+  {
+    area: 'Cornwall',
+    province: 'ON',
+    fsa_prefixes: ['K6H', 'K6J', 'K6K'],
+    center: { lat: 45.0213, lng: -74.7303 },
+    radius_km: 15,
+    name_patterns: [/\bcornwall\b/i],
+  },
+  {
+    area: 'Peterborough',
+    province: 'ON',
+    fsa_prefixes: ['K9H', 'K9J', 'K9K', 'K9L'],
+    center: { lat: 44.3091, lng: -78.3197 },
+    radius_km: 15,
+    name_patterns: [/\bpeterborough\b/i],
+  },
+  {
+    area: 'Barrie',
+    province: 'ON',
+    fsa_prefixes: ['L4M', 'L4N', 'L9J'],
+    center: { lat: 44.3894, lng: -79.6903 },
+    radius_km: 15,
+    name_patterns: [/\bbarrie\b/i],
+  },
+  {
+    area: 'North Bay',
+    province: 'ON',
+    fsa_prefixes: ['P1A', 'P1B', 'P1C'],
+    center: { lat: 46.3091, lng: -79.4608 },
+    radius_km: 15,
+    name_patterns: [/\bnorth\s*bay\b/i],
+  },
+  {
+    area: 'Timmins',
+    province: 'ON',
+    fsa_prefixes: ['P4N', 'P4P', 'P4R'],
+    center: { lat: 48.4758, lng: -81.3305 },
+    radius_km: 20,
+    name_patterns: [/\btimmins\b/i],
+  },
+  {
+    area: 'Montreal (Trois-Rivières Region)',
+    province: 'QC',
+    fsa_prefixes: ['G8T', 'G8V', 'G8W', 'G8Y', 'G8Z', 'G9A', 'G9B', 'G9C'],
+    center: { lat: 46.343, lng: -72.543 },
+    radius_km: 20,
+    name_patterns: [/\btrois[-\s]*rivi(e|è)res\b/i, /\btrois\s*rivieres\b/i],
+  },
+  {
+    area: 'Montreal',
+    province: 'QC',
+    fsa_prefixes: ['H'],
+    center: { lat: 45.5019, lng: -73.5674 },
+    radius_km: 35,
+    name_patterns: [/\bmontreal\b/i, /\bmontr(e|é)al\b/i],
+  },
+  {
+    area: 'Ottawa',
+    province: 'ON',
+    fsa_prefixes: ['K1', 'K2', 'K4A'],
+    center: { lat: 45.4215, lng: -75.6972 },
+    radius_km: 30,
+    name_patterns: [/\bottawa\b/i],
+  },
+  {
+    area: 'Quebec City',
+    province: 'QC',
+    fsa_prefixes: ['G1', 'G2'],
+    center: { lat: 46.8139, lng: -71.208 },
+    radius_km: 25,
+    name_patterns: [/\bqu(e|é)bec\s*city\b/i, /\bville\s*de\s*qu(e|é)bec\b/i],
+  },
+];
+
+export type ServiceAreaConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export type ServiceAreaMatch = {
+  area: string | null;
+  confidence: ServiceAreaConfidence;
+  method: 'postal_code' | 'coordinates' | 'city_name' | 'none';
+  reason: string;
+  fsa: string | null;
+  province: string | null;
+  distance_km?: number;
+};
+
+export type ServiceAreaInput = {
+  address?: string | null;
+  postal_code?: string | null;
+  lat?: number | string | null;
+  lng?: number | string | null;
+};
+
+export const matchesServiceAreaName = (area: string, address: string) => {
+  const def = SERVICE_AREA_DEFINITIONS.find((d) => d.area === area);
+  if (!def) return false;
+  return def.name_patterns.some((re) => re.test(address));
+};
+
+export const getServiceAreaForFsa = (fsa: string): ServiceAreaDefinition | null => {
+  const code = String(fsa ?? '').trim().toUpperCase();
+  if (!code) return null;
+  let best: ServiceAreaDefinition | null = null;
+  let bestLength = 0;
+  for (const def of SERVICE_AREA_DEFINITIONS) {
+    for (const prefix of def.fsa_prefixes) {
+      if (code.startsWith(prefix) && prefix.length > bestLength) {
+        best = def;
+        bestLength = prefix.length;
+      }
+    }
+  }
+  return best;
+};
+
+const distanceKm = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => {
+  const R = 6371;
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const readCoords = (input: ServiceAreaInput) => {
+  const latRaw = String(input.lat ?? '').trim();
+  const lngRaw = String(input.lng ?? '').trim();
+  if (!latRaw || !lngRaw) return null;
+  const lat = Number(latRaw);
+  const lng = Number(lngRaw);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  if (lat === 0 && lng === 0) return null;
+  return { lat, lng };
+};
+
+// The street line comes first in an address, so "London Road, Kingston" must be matched on "Kingston".
+const matchByCityName = (address: string): ServiceAreaDefinition | null => {
+  const segments = address
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const candidates = segments.length > 1 ? segments.slice(1).reverse() : segments;
+  for (const segment of candidates) {
+    const found = SERVICE_AREA_DEFINITIONS.find((def) => def.name_patterns.some((re) => re.test(segment)));
+    if (found) return found;
+  }
+  return null;
+};
+
+export const resolveServiceArea = (input: ServiceAreaInput): ServiceAreaMatch => {
+  const address = String(input.address ?? '').trim();
+  const postal = normalizePostalCode(String(input.postal_code ?? '').trim()) || extractPostalCodeFromAddress(address);
+  const fsa = getForwardSortationArea(postal) || null;
+  const province = fsa ? inferProvinceFromPostal(postal) || null : null;
+
+  if (fsa) {
+    const def = getServiceAreaForFsa(fsa);
+    if (def) {
+      return { area: def.area, confidence: 'high', method: 'postal_code', reason: `Postal code ${fsa} is in ${def.area}`, fsa, province };
+    }
+    return { area: null, confidence: 'high', method: 'postal_code', reason: `Postal code ${fsa} is outside our service areas`, fsa, province };
+  }
+
+  const coords = readCoords(input);
+  if (coords) {
+    let nearest: { def: ServiceAreaDefinition; km: number } | null = null;
+    for (const def of SERVICE_AREA_DEFINITIONS) {
+      const km = distanceKm(coords, def.center);
+      if (km <= def.radius_km && (!nearest || km < nearest.km)) nearest = { def, km };
+    }
+    if (nearest) {
+      const km = Math.round(nearest.km);
+      return {
+        area: nearest.def.area,
+        confidence: 'medium',
+        method: 'coordinates',
+        reason: `Location is ${km} km from ${nearest.def.area}`,
+        fsa: null,
+        province: nearest.def.province,
+        distance_km: km,
+      };
+    }
+  }
+
+  if (address) {
+    const def = matchByCityName(address);
+    if (def) {
+      return {
+        area: def.area,
+        confidence: 'low',
+        method: 'city_name',
+        reason: `Matched by city name (${def.area}); add a postal code to confirm`,
+        fsa: null,
+        province: def.province,
+      };
+    }
+  }
+
+  return { area: null, confidence: 'none', method: 'none', reason: 'No postal code, location or known city found', fsa: null, province: null };
+};
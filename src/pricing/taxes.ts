@@ -0,0 +1,365 @@
+import { extractPostalCodeFromAddress, inferProvinceFromPostal } from '../lib/postalCodes';
+import { parseLaneRoute } from './pricingTable';
+import { SERVICE_AREA_DEFINITIONS, resolveServiceArea, type ServiceAreaInput } from './serviceAreas';
+
+// Sales tax for every province, shared by the quote screens, localOrders, create-checkout-session and stripe-webhook.
+// Transport is taxed where the vehicle is delivered (place of supply), falling back to the pickup province.
+
+export type ProvinceCode = 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT';
+
+export type TaxCode = 'GST' | 'HST' | 'PST' | 'QST';
+
+export type ProvinceTaxRates = {
+  name: string;
+  // HST replaces GST where it applies.
+  hst?: number;
+  pst?: number;
+  qst?: number;
+  // BC, SK and MB do not charge their PST on freight transportation services.
+  pst_exempt_transport?: boolean;
+};
+
+export const GST_RATE = 0.05;
+
+export const PROVINCE_TAX_RATES: Record<ProvinceCode, ProvinceTaxRates> = {
+  AB: { name: 'Alberta' },
+  BC: { name: 'British Columbia', pst: 0.07, pst_exempt_transport: true },
+  MB: { name: 'Manitoba', pst: 0.07, pst_exempt_transport: true },
+  NB: { name: 'New Brunswick', hst: 0.15 },
+  NL: { name: 'Newfoundland and Labrador', hst: 0.15 },
+  NS: { name: 'Nova Scotia', hst: 0.14 },
+  NT: { name: 'Northwest Territories' },
+  NU: { name: 'Nunavut' },
+  ON: { name: 'Ontario', hst: 0.13 },
+  PE: { name: 'Prince Edward Island', hst: 0.15 },
+  QC: { name: 'Quebec', qst: 0.09975 },
+  SK: { name: 'Saskatchewan', pst: 0.06, pst_exempt_transport: true },
+  YT: { name: 'Yukon' },
+};
+
+export const PROVINCE_CODES = Object.keys(PROVINCE_TAX_RATES) as ProvinceCode[];
+
+// Used when neither end of the route can be placed in a province (the business is Ontario-based).
+export const DEFAULT_TAX_PROVINCE: ProvinceCode = 'ON';
+
+export type TaxRegistrations = Partial<Record<TaxCode, string>>;
+
+export type TaxLine = {
+  code: TaxCode;
+  label: string;
+  rate: number;
+  amount: number;
+  registration_number: string | null;
+  // Set when an approved exemption removed this tax; the amount is then 0.
+  exempt?: boolean;
+};
+
+export type TaxProvinceSource = 'dropoff' | 'pickup' | 'route' | 'default';
+
+export type TaxBreakdown = {
+  province: ProvinceCode;
+  province_source: TaxProvinceSource;
+  lines: TaxLine[];
+  rate: number;
+  tax: number;
+  // Short label kept for receipts and exports, e.g. "QC (GST+QST)".
+  note: string;
+  exemption: TaxExemptionType | null;
+  // The customer's own GST/HST and QST numbers, printed on receipts for their input tax credits.
+  customer_registrations: TaxRegistrations;
+};
+
+// Dealer tax profiles (billing_profiles). An exemption only applies once staff approve the evidence.
+export type TaxExemptionType = 'first_nations' | 'diplomatic' | 'provincial_exempt' | 'reverse_charge';
+
+export type TaxExemptionStatus = 'none' | 'pending' | 'approved' | 'rejected';
+
+export type TaxExemptionDefinition = {
+  label: string;
+  description: string;
+  // The taxes this exemption removes.
+  exempt_codes: TaxCode[];
+  // Reverse charge: no tax is collected, the recipient self-assesses it.
+  self_assessed?: boolean;
+};
+
+export const TAX_EXEMPTION_TYPES: Record<TaxExemptionType, TaxExemptionDefinition> = {
+  first_nations: {
+    label: 'First Nations (Indian Act s.87)',
+    description: 'Status card holder or band with delivery on reserve.',
+    exempt_codes: ['GST', 'HST', 'QST', 'PST'],
+  },
+  diplomatic: {
+    label: 'Diplomatic / consular',
+    description: 'Foreign mission or diplomat with a Global Affairs Canada exemption card.',
+    exempt_codes: ['GST', 'HST', 'QST', 'PST'],
+  },
+  provincial_exempt: {
+    label: 'Provincial sales tax exempt',
+    description: 'QST/PST exemption certificate; GST/HST is still charged.',
+    exempt_codes: ['QST', 'PST'],
+  },
+  reverse_charge: {
+    label: 'Reverse charge (non-resident / self-assessed)',
+    description: 'Registered business that self-assesses the tax on this supply.',
+    exempt_codes: ['GST', 'HST', 'QST', 'PST'],
+    self_assessed: true,
+  },
+};
+
+export const TAX_EXEMPTION_TYPE_OPTIONS = Object.keys(TAX_EXEMPTION_TYPES) as TaxExemptionType[];
+
+export type TaxProfile = {
+  tax_exemption_type: TaxExemptionType | null;
+  tax_exemption_status: TaxExemptionStatus;
+  gst_registration_number: string | null;
+  qst_registration_number: string | null;
+};
+
+export const isTaxExemptionType = (value: unknown): value is TaxExemptionType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TAX_EXEMPTION_TYPES, value);
+
+export const normalizeTaxExemptionStatus = (value: unknown): TaxExemptionStatus => {
+  const v = String(value ?? '').trim();
+  return v === 'pending' || v === 'approved' || v === 'rejected' ? v : 'none';
+};
+
+// Reads the tax columns of a billing_profiles row (or a local profile).
+export const readTaxProfile = (row: unknown): TaxProfile => {
+  const r = row && typeof row === 'object' && !Array.isArray(row) ? (row as Record<string, unknown>) : {};
+  return {
+    tax_exemption_type: isTaxExemptionType(r.tax_exemption_type) ? r.tax_exemption_type : null,
+    tax_exemption_status: normalizeTaxExemptionStatus(r.tax_exemption_status),
+    gst_registration_number: String(r.gst_registration_number ?? '').trim() || null,
+    qst_registration_number: String(r.qst_registration_number ?? '').trim() || null,
+  };
+};
+
+// GST/HST numbers are a 9-digit business number plus an RT program account (123456789RT0001);
+// QST numbers are 10 digits plus TQ0001. Spaces and dashes are dropped before checking.
+export const normalizeRegistrationNumber = (value: unknown) =>
+  String(value ?? '')
+    .toUpperCase()
+    .replace(/[\s-]+/g, '');
+
+export const isValidGstRegistrationNumber = (value: unknown) => /^\d{9}RT\d{4}$/.test(normalizeRegistrationNumber(value));
+
+export const isValidQstRegistrationNumber = (value: unknown) => /^\d{10}TQ\d{4}$/.test(normalizeRegistrationNumber(value));
+
+// Pending and rejected requests are charged normal tax.
+export const getApprovedTaxExemption = (profile: TaxProfile | null | undefined): TaxExemptionType | null =>
+  profile && profile.tax_exemption_status === 'approved' ? profile.tax_exemption_type : null;
+
+export const getCustomerTaxRegistrations = (profile: TaxProfile | null | undefined): TaxRegistrations => {
+  const registrations: TaxRegistrations = {};
+  if (profile?.gst_registration_number) registrations.GST = profile.gst_registration_number;
+  if (profile?.qst_registration_number) registrations.QST = profile.qst_registration_number;
+  return registrations;
+};
+
+export type TaxLocation = ServiceAreaInput & { province?: string | null };
+
+export type TaxPlaceInput = {
+  pickup?: TaxLocation | null;
+  dropoff?: TaxLocation | null;
+  route_area?: string | null;
+};
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+export const isProvinceCode = (value: unknown): value is ProvinceCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVINCE_TAX_RATES, value);
+
+const PROVINCE_NAME_PATTERNS: Array<[ProvinceCode, RegExp]> = [
+  ['AB', /\balberta\b/i],
+  ['BC', /\bbritish columbia\b/i],
+  ['MB', /\bmanitoba\b/i],
+  ['NB', /\bnew brunswick\b/i],
+  ['NL', /\bnewfoundland\b/i],
+  ['NS', /\bnova scotia\b/i],
+  ['NT', /\bnorthwest territories\b/i],
+  ['NU', /\bnunavut\b/i],
+  ['ON', /\bontario\b/i],
+  ['PE', /\bprince edward island\b/i],
+  ['QC', /\bqu[eé]bec\b/i],
+  ['SK', /\bsaskatchewan\b/i],
+  ['YT', /\byukon\b/i],
+];
+
+export const normalizeProvinceCode = (value: unknown): ProvinceCode | null => {
+  const raw = String(value ?? '').trim();
+  if (!raw) return null;
+  const upper = raw.toUpperCase();
+  if (isProvinceCode(upper)) return upper;
+  if (upper === 'PQ') return 'QC';
+  for (const [code, pattern] of PROVINCE_NAME_PATTERNS) {
+    if (pattern.test(raw)) return code;
+  }
+  return null;
+};
+
+// A trailing ", QC H2X 1Y4" style province code in a one-line address.
+const readProvinceFromAddress = (address: string): ProvinceCode | null => {
+  const segments = address.split(',').map((s) => s.trim()).filter(Boolean).slice(1).reverse();
+  for (const segment of segments) {
+    for (const token of segment.split(/\s+/)) {
+      const code = token.toUpperCase().replace(/[^A-Z]/g, '');
+      if (code.length === 2 && isProvinceCode(code)) return code;
+    }
+    const named = normalizeProvinceCode(segment);
+    if (named) return named;
+  }
+  return null;
+};
+
+const getServiceAreaProvince = (area: string | null | undefined): ProvinceCode | null => {
+  const a = String(area ?? '').trim();
+  if (!a) return null;
+  const def = SERVICE_AREA_DEFINITIONS.find((d) => d.area.toLowerCase() === a.toLowerCase());
+  return def ? def.province : null;
+};
+
+// Postal code, then explicit province, then the address text, then the service area the address resolves to. A
+// province that contradicts the postal code is ignored.
+export const resolveProvince = (location: TaxLocation | null | undefined): ProvinceCode | null => {
+  if (!location) return null;
+  const address = String(location.address ?? '').trim();
+  const postal = String(location.postal_code ?? '').trim() || extractPostalCodeFromAddress(address);
+  const fromPostal = normalizeProvinceCode(inferProvinceFromPostal(postal));
+  if (fromPostal) return fromPostal;
+
+  const explicit = normalizeProvinceCode(location.province);
+  if (explicit) return explicit;
+
+  if (address) {
+    const fromAddress = readProvinceFromAddress(address);
+    if (fromAddress) return fromAddress;
+  }
+
+  const match = resolveServiceArea(location);
+  return normalizeProvinceCode(match.province) ?? getServiceAreaProvince(match.area);
+};
+
+// Orders saved before addresses carried a province only have the route label ("Toronto → Montreal" or a city).
+const resolveRouteProvince = (routeArea: string | null | undefined): ProvinceCode | null => {
+  const route = String(routeArea ?? '').trim();
+  if (!route) return null;
+  const lane = parseLaneRoute(route);
+  const area = lane ? lane.dropoff_area : route;
+  return getServiceAreaProvince(area) ?? resolveProvince({ address: `, ${area}` });
+};
+
+export const resolveTaxProvince = (place: TaxPlaceInput): { province: ProvinceCode; source: TaxProvinceSource } => {
+  const dropoff = resolveProvince(place.dropoff);
+  if (dropoff) return { province: dropoff, source: 'dropoff' };
+  const pickup = resolveProvince(place.pickup);
+  if (pickup) return { province: pickup, source: 'pickup' };
+  const route = resolveRouteProvince(place.route_area);
+  if (route) return { province: route, source: 'route' };
+  return { province: DEFAULT_TAX_PROVINCE, source: 'default' };
+};
+
+// Reads the pickup/drop-off addresses from an order's form_data (or a saved quote form). Only the address lines: they
+// are what the quote priced (checkout compares them) and what a paid order locks (orders_guard_price_columns). The
+// separate province, postal code and coordinates stay editable by the customer, so they do not decide the tax.
+export const taxPlaceFromFormData = (formData: unknown, routeArea?: string | null): TaxPlaceInput => {
+  const form = formData && typeof formData === 'object' && !Array.isArray(formData) ? (formData as Record<string, unknown>) : {};
+  const readLocation = (value: unknown): TaxLocation | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const address = String((value as Record<string, unknown>).address ?? '').trim();
+    return address ? { address } : null;
+  };
+  return {
+    pickup: readLocation(form.pickup_location),
+    dropoff: readLocation(form.dropoff_location),
+    route_area: routeArea ?? null,
+  };
+};
+
+export const getTaxComponents = (province: ProvinceCode): Array<{ code: TaxCode; rate: number }> => {
+  const rates = PROVINCE_TAX_RATES[province];
+  const components: Array<{ code: TaxCode; rate: number }> = [];
+  if (rates.hst) components.push({ code: 'HST', rate: rates.hst });
+  else components.push({ code: 'GST', rate: GST_RATE });
+  if (rates.qst) components.push({ code: 'QST', rate: rates.qst });
+  if (rates.pst && !rates.pst_exempt_transport) components.push({ code: 'PST', rate: rates.pst });
+  return components;
+};
+
+const formatRatePercent = (rate: number) => `${Number((rate * 100).toFixed(3))}%`;
+
+export const computeTax = (
+  subtotal: number,
+  place: TaxPlaceInput,
+  registrations: TaxRegistrations = {},
+  profile: TaxProfile | null = null
+): TaxBreakdown => {
+  const sub = Number(subtotal);
+  const safeSubtotal = Number.isFinite(sub) && sub > 0 ? roundCents(sub) : 0;
+  const { province, source } = resolveTaxProvince(place);
+  const exemption = getApprovedTaxExemption(profile);
+  const exemptCodes = exemption ? TAX_EXEMPTION_TYPES[exemption].exempt_codes : [];
+
+  // Each tax is rounded on its own: GST and QST are separate taxes and appear as separate lines.
+  const lines: TaxLine[] = getTaxComponents(province).map(({ code, rate }) => {
+    const exempt = exemptCodes.includes(code);
+    return {
+      code,
+      label: `${code} (${province}) ${formatRatePercent(rate)}${exempt ? ' — exempt' : ''}`,
+      rate: exempt ? 0 : rate,
+      amount: exempt ? 0 : roundCents(safeSubtotal * rate),
+      // HST is registered under the GST number.
+      registration_number: String(registrations[code === 'HST' ? 'GST' : code] ?? '').trim() || null,
+      ...(exempt ? { exempt: true } : {}),
+    };
+  });
+
+  const codes = lines.map((l) => l.code).join('+');
+  return {
+    province,
+    province_source: source,
+    lines,
+    rate: Math.round(lines.reduce((sum, l) => sum + l.rate, 0) * 100000) / 100000,
+    tax: roundCents(lines.reduce((sum, l) => sum + l.amount, 0)),
+    note: exemption ? `${province} (${codes}, ${exemption})` : `${province} (${codes})`,
+    exemption,
+    customer_registrations: getCustomerTaxRegistrations(profile),
+  };
+};
+
+// GST and HST share one business number; QST and PST have their own. Accepts process.env or import.meta.env.
+export const readTaxRegistrations = (env: Record<string, unknown> | null | undefined): TaxRegistrations => {
+  const read = (key: string) => String(env?.[key] ?? env?.[`VITE_${key}`] ?? '').trim();
+  const registrations: TaxRegistrations = {};
+  const gst = read('GST_HST_REGISTRATION_NUMBER');
+  const qst = read('QST_REGISTRATION_NUMBER');
+  const pst = read('PST_REGISTRATION_NUMBER');
+  if (gst) registrations.GST = gst;
+  if (qst) registrations.QST = qst;
+  if (pst) registrations.PST = pst;
+  return registrations;
+};
+
+// Receipt lines: one per tax, then the registration numbers for the taxes that were charged,
+// then the exemption wording and the customer's own registration numbers.
+export const formatTaxReceiptLines = (
+  breakdown: Pick<TaxBreakdown, 'lines'> & Partial<Pick<TaxBreakdown, 'exemption' | 'customer_registrations'>>
+): string[] => {
+  const lines = breakdown.lines.map((l) => `${l.label}: $${l.amount.toFixed(2)}`);
+  const seen = new Set<string>();
+  for (const l of breakdown.lines) {
+    if (!l.registration_number || l.exempt) continue;
+    const label = l.code === 'GST' || l.code === 'HST' ? 'GST/HST' : l.code;
+    if (seen.has(label)) continue;
+    seen.add(label);
+    lines.push(`${label} registration no.: ${l.registration_number}`);
+  }
+  if (breakdown.exemption) {
+    const def = TAX_EXEMPTION_TYPES[breakdown.exemption];
+    lines.push(def.self_assessed ? 'Reverse charge: tax to be self-assessed by the recipient' : `Tax exemption: ${def.label}`);
+  }
+  const customer = breakdown.customer_registrations ?? {};
+  if (customer.GST) lines.push(`Customer GST/HST no.: ${customer.GST}`);
+  if (customer.QST) lines.push(`Customer QST no.: ${customer.QST}`);
+  return lines;
+};
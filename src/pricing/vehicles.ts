@@ -0,0 +1,133 @@
+import { getVehicleClass, normalizeVehicleType, type VehicleType } from './pricingTable';
+import type { VehicleCondition } from './quotes';
+
+// Orders can carry several vehicles on the same lane. The list lives in form_data.vehicles; the first
+// vehicle is mirrored into form_data.vehicle / service.vehicle_type / vehicle_condition, which is where
+// single-vehicle orders (and older code) keep it.
+
+export const MAX_ORDER_VEHICLES = 10;
+
+export type OrderVehicle = {
+  id: string;
+  vin: string;
+  year: string;
+  make: string;
+  model: string;
+  transmission: string;
+  odometer_km: string;
+  exterior_color: string;
+  vehicle_type: VehicleType;
+  vehicle_condition: VehicleCondition;
+  // Written from the signed quote when the order is created or re-quoted.
+  transport_price?: number;
+  loading_fee?: number;
+  discount?: number;
+  service_level_fee?: number;
+  price_before_tax?: number;
+};
+
+const VEHICLE_DETAIL_FIELDS = ['vin', 'year', 'make', 'model', 'transmission', 'odometer_km', 'exterior_color'] as const;
+
+const readRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+const readText = (v: unknown) => (typeof v === 'string' ? v : v == null ? '' : String(v)).trim();
+
+const readAmount = (v: unknown) => {
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const normalizeVehicleCondition = (value: unknown): VehicleCondition =>
+  readText(value) === 'does_not_run_or_drive' ? 'does_not_run_or_drive' : 'runs_and_drives';
+
+export const makeOrderVehicleId = () => `veh_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const makeEmptyOrderVehicle = (vehicleType: VehicleType = 'standard'): OrderVehicle => ({
+  id: makeOrderVehicleId(),
+  vin: '',
+  year: '',
+  make: '',
+  model: '',
+  transmission: '',
+  odometer_km: '',
+  exterior_color: '',
+  vehicle_type: vehicleType,
+  vehicle_condition: 'runs_and_drives',
+});
+
+const readOrderVehicle = (raw: Record<string, unknown>, index: number): OrderVehicle => ({
+  id: readText(raw.id) || `vehicle_${index + 1}`,
+  vin: readText(raw.vin).toUpperCase(),
+  year: readText(raw.year),
+  make: readText(raw.make),
+  model: readText(raw.model),
+  transmission: readText(raw.transmission),
+  odometer_km: readText(raw.odometer_km),
+  exterior_color: readText(raw.exterior_color),
+  vehicle_type: normalizeVehicleType(raw.vehicle_type),
+  vehicle_condition: normalizeVehicleCondition(raw.vehicle_condition),
+  transport_price: readAmount(raw.transport_price),
+  loading_fee: readAmount(raw.loading_fee),
+  discount: readAmount(raw.discount),
+  service_level_fee: readAmount(raw.service_level_fee),
+  price_before_tax: readAmount(raw.price_before_tax),
+});
+
+// Always returns at least one vehicle: the primary one comes from the single-vehicle fields.
+export const readOrderVehicles = (formData: unknown): OrderVehicle[] => {
+  const form = readRecord(formData) ?? {};
+  const details = readRecord(form.vehicle) ?? {};
+  const service = readRecord(form.service) ?? {};
+  const list = (Array.isArray(form.vehicles) ? form.vehicles : []).map(readRecord).filter(Boolean) as Record<string, unknown>[];
+
+  const primary = readOrderVehicle(
+    {
+      ...(list[0] ?? {}),
+      ...Object.fromEntries(VEHICLE_DETAIL_FIELDS.map((key) => [key, details[key] ?? list[0]?.[key]])),
+      vehicle_type: service.vehicle_type ?? list[0]?.vehicle_type,
+      vehicle_condition: form.vehicle_condition ?? list[0]?.vehicle_condition,
+    },
+    0
+  );
+  return [primary, ...list.slice(1).map((v, i) => readOrderVehicle(v, i + 1))].slice(0, MAX_ORDER_VEHICLES);
+};
+
+export const withOrderVehicles = <T extends object>(formData: T, vehicles: OrderVehicle[]): T => {
+  const form = formData as Record<string, unknown>;
+  const list = vehicles.slice(0, MAX_ORDER_VEHICLES);
+  const primary = list[0];
+  if (!primary) return formData;
+  return {
+    ...form,
+    vehicle: {
+      ...(readRecord(form.vehicle) ?? {}),
+      ...Object.fromEntries(VEHICLE_DETAIL_FIELDS.map((key) => [key, primary[key]])),
+    },
+    service: { ...(readRecord(form.service) ?? {}), vehicle_type: primary.vehicle_type },
+    vehicle_condition: primary.vehicle_condition,
+    vehicles: list,
+  } as T;
+};
+
+export const getOrderVehicleCount = (formData: unknown) => readOrderVehicles(formData).length;
+
+export const formatOrderVehicleLabel = (vehicle: Pick<OrderVehicle, 'year' | 'make' | 'model' | 'vehicle_type'>, index: number) => {
+  const name = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  return name || `Vehicle ${index + 1} (${getVehicleClass(vehicle.vehicle_type).label})`;
+};
+
+// Splits an amount into cents that add back up exactly, in proportion to the weights (the last share takes the rounding).
+export const splitAmountByWeights = (amount: number, weights: number[]): number[] => {
+  const totalCents = Math.round(Number(amount) * 100);
+  if (!weights.length) return [];
+  const safeWeights = weights.map((w) => (Number.isFinite(w) && w > 0 ? w : 0));
+  const weightSum = safeWeights.reduce((sum, w) => sum + w, 0);
+  let remaining = totalCents;
+  return safeWeights.map((w, i) => {
+    if (i === safeWeights.length - 1) return remaining / 100;
+    const share = weightSum > 0 ? Math.round((totalCents * w) / weightSum) : Math.round(totalCents / safeWeights.length);
+    remaining -= share;
+    return share / 100;
+  });
+};
@@ -248,3 +248,602 @@ create policy "billing_profiles_select_admin" on public.billing_profiles
       where sp.user_id = auth.uid() and sp.role = 'admin'
     )
   );
+
+create table if not exists public.pricing_rules (
+  id bigserial primary key,
+  version integer unique not null,
+  rules jsonb not null,
+  note text null,
+  created_by uuid null references auth.users(id) on delete set null,
+  published_at timestamptz not null default now()
+);
+
+alter table public.pricing_rules enable row level security;
+
+-- Pricing rules: published versions are readable by everyone (quotes are shown before login).
+-- Writes go through the manage-pricing function (service role), so there is no insert/update policy.
+create policy "pricing_rules_select_all" on public.pricing_rules
+  for select
+  to anon, authenticated
+  using (true);
+
+alter table public.orders add column if not exists pricing_version integer null;
+
+-- Signed quotes: orders are created by the create-order function (service role) from a quote token,
+-- so customers can no longer insert orders or change their price directly.
+alter table public.orders add column if not exists quote_token text null;
+alter table public.orders add column if not exists final_price_before_tax numeric null;
+
+drop policy if exists "orders_insert_own" on public.orders;
+
+-- Quoted prices are only honoured until this time; after it the order must be re-quoted before payment.
+alter table public.orders add column if not exists quote_expires_at timestamptz null;
+
+-- Service level the order was priced with (standard, expedited, enclosed, guaranteed_date) and the delivery window
+-- in business days it promises; SLA tracking reads these. Set from the signed quote like the price.
+alter table public.orders add column if not exists service_level text not null default 'standard';
+alter table public.orders add column if not exists sla_days_min integer null;
+alter table public.orders add column if not exists sla_days_max integer null;
+
+-- Discounts: promo codes and per-customer contract rates, applied by create-quote and signed into the quote.
+-- Both tables are written by the manage-discounts function (service role). Customers cannot read either (so codes
+-- cannot be listed); admins can read contract rates for the Users view. A promo code's redemptions are its paid orders.
+create table if not exists public.promo_codes (
+  code text primary key,
+  description text null,
+  percent_off numeric null,
+  amount_off numeric null,
+  valid_from timestamptz null,
+  valid_until timestamptz null,
+  max_redemptions integer null,
+  max_per_customer integer null,
+  active boolean not null default true,
+  created_by uuid null references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint promo_codes_code_check check (code = upper(code) and code <> ''),
+  constraint promo_codes_amount_check check (
+    (percent_off is not null and percent_off > 0 and percent_off <= 100 and amount_off is null)
+    or (amount_off is not null and amount_off > 0 and percent_off is null)
+  )
+);
+
+alter table public.promo_codes enable row level security;
+
+create table if not exists public.customer_contracts (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  percent_off numeric not null check (percent_off > 0 and percent_off <= 100),
+  valid_until timestamptz null,
+  note text null,
+  updated_by uuid null references auth.users(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.customer_contracts enable row level security;
+
+create policy "customer_contracts_select_admin" on public.customer_contracts
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.staff_profiles sp
+      where sp.user_id = auth.uid() and sp.role = 'admin'
+    )
+  );
+
+-- The promo code and the total discount the order was quoted with; set from the signed quote like the price.
+alter table public.orders add column if not exists promo_code text null;
+alter table public.orders add column if not exists discount_total numeric not null default 0;
+
+create index if not exists orders_promo_code_idx on public.orders (promo_code) where promo_code is not null;
+
+-- Accessorial charges staff attach to an order (winching, waiting time, storage, ...); see src/pricing/accessorials.ts.
+-- Each entry has its own paid_at: unpaid ones are charged at checkout, or later through create-accessorials-checkout.
+alter table public.orders add column if not exists accessorials jsonb not null default '[]'::jsonb;
+
+-- Cancelled orders keep their row: cancel-order records who cancelled, why, the fee kept and the Stripe refund
+-- (see src/orders/cancellation.ts). payment_status becomes refunded or partially_refunded when money went back.
+alter table public.orders add column if not exists cancelled_at timestamptz null;
+alter table public.orders add column if not exists cancellation jsonb null;
+
+-- Changes to a paid order (src/orders/amendments.ts), written by the amend-order function and stripe-webhook.
+alter table public.orders add column if not exists amendments jsonb not null default '[]'::jsonb;
+
+-- The latest Stripe dispute on the order's payment and the refunds made from the Stripe dashboard
+-- (src/orders/payments.ts), written by stripe-webhook.
+alter table public.orders add column if not exists stripe_dispute jsonb null;
+alter table public.orders add column if not exists stripe_refunds jsonb not null default '[]'::jsonb;
+
+-- Orders on a route with a deposit rule: the deposit paid at checkout and the balance charged at delivery
+-- (src/orders/deposits.ts), written by stripe-webhook and charge-balance.
+alter table public.orders add column if not exists deposit jsonb null;
+
+create or replace function public.orders_guard_price_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  -- Moving a paid order changes its price, so staff go through amend-order as well.
+  if old.payment_status in ('paid', 'partially_refunded', 'invoiced')
+    and (new.form_data->'pickup_location'->>'address' is distinct from old.form_data->'pickup_location'->>'address'
+      or new.form_data->'dropoff_location'->>'address' is distinct from old.form_data->'dropoff_location'->>'address') then
+    raise exception 'The addresses of a paid order are changed through an amendment';
+  end if;
+
+  if exists (select 1 from public.staff_profiles sp where sp.user_id = auth.uid() and sp.active = true) then
+    return new;
+  end if;
+
+  -- A customer marking their own order paid would let orders_enforce_state_machine dispatch it unpaid.
+  if new.payment_status is distinct from old.payment_status
+    or new.stripe_session_id is distinct from old.stripe_session_id
+    or new.stripe_payment_intent_id is distinct from old.stripe_payment_intent_id then
+    raise exception 'Payments are recorded from Stripe';
+  end if;
+
+  -- The only step a customer takes on their own is asking for a new price on an unpaid order (createOfferForOrder);
+  -- the state machine refuses it once the order is paid.
+  if new.order_stage is distinct from old.order_stage
+    and not (new.order_stage = 'in_negotiation' and old.order_stage in ('draft', 'pending_payment')) then
+    raise exception 'The order stage is changed by EasyDrive';
+  end if;
+
+  if new.price_before_tax is distinct from old.price_before_tax
+    or new.final_price_before_tax is distinct from old.final_price_before_tax
+    or new.pricing_version is distinct from old.pricing_version
+    or new.quote_token is distinct from old.quote_token
+    or new.quote_expires_at is distinct from old.quote_expires_at
+    or new.route_area is distinct from old.route_area
+    or new.vehicle_type is distinct from old.vehicle_type
+    or new.service_level is distinct from old.service_level
+    or new.sla_days_min is distinct from old.sla_days_min
+    or new.sla_days_max is distinct from old.sla_days_max
+    or new.promo_code is distinct from old.promo_code
+    or new.discount_total is distinct from old.discount_total
+    or new.accessorials is distinct from old.accessorials
+    or new.amendments is distinct from old.amendments then
+    raise exception 'Order pricing can only be changed through a signed quote';
+  end if;
+
+  if new.cancelled_at is distinct from old.cancelled_at or new.cancellation is distinct from old.cancellation then
+    raise exception 'Orders are cancelled through the cancel-order function';
+  end if;
+
+  if new.stripe_dispute is distinct from old.stripe_dispute or new.stripe_refunds is distinct from old.stripe_refunds then
+    raise exception 'Disputes and refunds are recorded from Stripe';
+  end if;
+
+  if new.deposit is distinct from old.deposit then
+    raise exception 'Deposits and balances are recorded from Stripe';
+  end if;
+
+  if new.invoice_id is distinct from old.invoice_id then
+    raise exception 'Invoices are issued through the manage-invoices function';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_guard_price_columns on public.orders;
+create trigger orders_guard_price_columns
+  before update on public.orders
+  for each row execute function public.orders_guard_price_columns();
+
+-- Order state machine: the status and stage transitions of src/orders/orderStateMachine.ts, checked on every update
+-- (service role included) so a direct write cannot skip a step or dispatch an unpaid order. Keep the two in step.
+alter table public.orders add column if not exists order_stage text not null default 'pending_payment';
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders add constraint orders_status_check
+  check (status in ('Scheduled', 'Picked Up', 'In Transit', 'Delayed', 'Out for Delivery', 'Delivered'));
+
+alter table public.orders drop constraint if exists orders_order_stage_check;
+alter table public.orders add constraint orders_order_stage_check
+  check (order_stage in ('draft', 'in_negotiation', 'pending_payment', 'order_dispatched', 'order_completed', 'cancelled'));
+
+create or replace function public.orders_enforce_state_machine()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  allowed text[];
+  status_moved boolean := new.status is distinct from old.status;
+begin
+  if status_moved and old.order_stage = 'cancelled' then
+    raise exception 'This order was cancelled';
+  end if;
+
+  if status_moved then
+    allowed := case old.status
+      when 'Scheduled' then array['Picked Up', 'Delayed']
+      when 'Picked Up' then array['In Transit', 'Delayed']
+      when 'In Transit' then array['Out for Delivery', 'Delayed', 'Delivered']
+      when 'Delayed' then array['Scheduled', 'Picked Up', 'In Transit', 'Out for Delivery', 'Delivered']
+      when 'Out for Delivery' then array['Delivered', 'Delayed']
+      else array[]::text[]
+    end;
+    if not (new.status = any(allowed)) then
+      raise exception 'An order cannot move from % to %', old.status, new.status;
+    end if;
+    if new.status <> 'Scheduled' and new.payment_status not in ('paid', 'partially_refunded', 'invoiced') then
+      raise exception 'This order is not paid yet, so it cannot be marked %', new.status;
+    end if;
+
+    -- The stage follows the status and only moves forward: leaving Scheduled dispatches the order, Delivered completes it.
+    if new.status = 'Delivered' then
+      new.order_stage := 'order_completed';
+    elsif new.status <> 'Scheduled' and old.order_stage is distinct from 'order_completed' then
+      new.order_stage := 'order_dispatched';
+    end if;
+  end if;
+
+  if new.order_stage is distinct from old.order_stage and not (status_moved and new.status <> 'Scheduled') then
+    allowed := case coalesce(old.order_stage, 'pending_payment')
+      when 'draft' then array['in_negotiation', 'pending_payment', 'cancelled']
+      when 'in_negotiation' then array['draft', 'pending_payment', 'cancelled']
+      when 'pending_payment' then array['draft', 'in_negotiation', 'order_dispatched', 'cancelled']
+      when 'order_dispatched' then array['order_completed', 'cancelled']
+      else array[]::text[]
+    end;
+    if not (new.order_stage = any(allowed)) then
+      raise exception 'An order cannot move from stage % to %', old.order_stage, new.order_stage;
+    end if;
+    if new.order_stage in ('draft', 'in_negotiation') and new.payment_status in ('paid', 'partially_refunded', 'invoiced') then
+      raise exception 'This order has already been paid';
+    end if;
+    if new.order_stage in ('order_dispatched', 'order_completed') and new.payment_status not in ('paid', 'partially_refunded', 'invoiced') then
+      raise exception 'An order must be paid before it is dispatched';
+    end if;
+    if new.order_stage = 'cancelled' and (new.cancelled_at is null or new.cancellation is null) then
+      raise exception 'Orders are cancelled through the cancel-order function';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_enforce_state_machine on public.orders;
+create trigger orders_enforce_state_machine
+  before update on public.orders
+  for each row execute function public.orders_enforce_state_machine();
+
+-- Staff only delete orders nobody has paid for (drafts and orders awaiting payment, see getOrderDeletionError in
+-- src/orders/orderStateMachine.ts); any other order is cancelled, so its refunds, credit notes and timeline stay.
+drop policy if exists "orders_delete_staff" on public.orders;
+create policy "orders_delete_staff" on public.orders
+  for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from public.staff_profiles sp
+      where sp.user_id = auth.uid()
+    )
+    and order_stage in ('draft', 'pending_payment')
+    and payment_status in ('unpaid', 'failed')
+  );
+
+-- Stripe events handled by stripe-webhook, one row per event id. Stripe delivers an event again until it gets a 2xx,
+-- so an event already processed is acknowledged without being applied twice; a failed one is retried.
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  order_id uuid null references public.orders(id) on delete set null,
+  status text not null default 'processing',
+  error text null,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz null
+);
+
+alter table public.stripe_events drop constraint if exists stripe_events_status_check;
+alter table public.stripe_events add constraint stripe_events_status_check
+  check (status in ('processing', 'processed', 'failed'));
+
+create index if not exists stripe_events_order_id_idx on public.stripe_events (order_id) where order_id is not null;
+
+alter table public.stripe_events enable row level security;
+
+create policy "stripe_events_select_admin" on public.stripe_events
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.staff_profiles sp
+      where sp.user_id = auth.uid() and sp.role = 'admin'
+    )
+  );
+
+-- Dealer tax profiles: registration numbers printed on receipts and an exemption that only applies once staff approve it.
+-- Customers submit and staff review through the manage-tax-profile function (service role).
+alter table public.billing_profiles add column if not exists gst_registration_number text null;
+alter table public.billing_profiles add column if not exists qst_registration_number text null;
+alter table public.billing_profiles add column if not exists tax_exemption_type text null;
+alter table public.billing_profiles add column if not exists tax_exemption_status text not null default 'none';
+alter table public.billing_profiles add column if not exists tax_exemption_certificate text null;
+alter table public.billing_profiles add column if not exists tax_exemption_document jsonb null;
+alter table public.billing_profiles add column if not exists tax_exemption_submitted_at timestamptz null;
+alter table public.billing_profiles add column if not exists tax_exemption_reviewed_at timestamptz null;
+alter table public.billing_profiles add column if not exists tax_exemption_reviewed_by uuid null references auth.users(id) on delete set null;
+alter table public.billing_profiles add column if not exists tax_exemption_review_note text null;
+
+alter table public.billing_profiles drop constraint if exists billing_profiles_tax_exemption_type_check;
+alter table public.billing_profiles add constraint billing_profiles_tax_exemption_type_check
+  check (tax_exemption_type is null or tax_exemption_type in ('first_nations', 'diplomatic', 'provincial_exempt', 'reverse_charge'));
+
+alter table public.billing_profiles drop constraint if exists billing_profiles_tax_exemption_status_check;
+alter table public.billing_profiles add constraint billing_profiles_tax_exemption_status_check
+  check (tax_exemption_status in ('none', 'pending', 'approved', 'rejected'));
+
+create or replace function public.billing_profiles_guard_tax_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.tax_exemption_type is not null
+      or new.tax_exemption_status <> 'none'
+      or new.tax_exemption_document is not null
+      or new.tax_exemption_reviewed_at is not null
+      or new.tax_exemption_reviewed_by is not null then
+      raise exception 'Tax exemptions can only be submitted through the tax profile form';
+    end if;
+    return new;
+  end if;
+
+  if new.gst_registration_number is distinct from old.gst_registration_number
+    or new.qst_registration_number is distinct from old.qst_registration_number
+    or new.tax_exemption_type is distinct from old.tax_exemption_type
+    or new.tax_exemption_status is distinct from old.tax_exemption_status
+    or new.tax_exemption_certificate is distinct from old.tax_exemption_certificate
+    or new.tax_exemption_document is distinct from old.tax_exemption_document
+    or new.tax_exemption_submitted_at is distinct from old.tax_exemption_submitted_at
+    or new.tax_exemption_reviewed_at is distinct from old.tax_exemption_reviewed_at
+    or new.tax_exemption_reviewed_by is distinct from old.tax_exemption_reviewed_by
+    or new.tax_exemption_review_note is distinct from old.tax_exemption_review_note then
+    raise exception 'Tax profile changes must go through the tax profile form';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists billing_profiles_guard_tax_columns on public.billing_profiles;
+create trigger billing_profiles_guard_tax_columns
+  before insert or update on public.billing_profiles
+  for each row execute function public.billing_profiles_guard_tax_columns();
+
+-- Invoice billing (src/orders/invoices.ts). An admin puts an account on invoice terms through manage-invoices; its
+-- orders are then placed on account with payment_status 'invoiced' and billed on a monthly statement.
+alter table public.billing_profiles add column if not exists payment_terms text not null default 'card';
+alter table public.billing_profiles add column if not exists net_terms_days integer not null default 30;
+alter table public.billing_profiles add column if not exists terms_approved_at timestamptz null;
+alter table public.billing_profiles add column if not exists terms_approved_by uuid null references auth.users(id) on delete set null;
+
+alter table public.billing_profiles drop constraint if exists billing_profiles_payment_terms_check;
+alter table public.billing_profiles add constraint billing_profiles_payment_terms_check
+  check (payment_terms in ('card', 'invoice'));
+
+alter table public.billing_profiles drop constraint if exists billing_profiles_net_terms_days_check;
+alter table public.billing_profiles add constraint billing_profiles_net_terms_days_check
+  check (net_terms_days between 1 and 120);
+
+create or replace function public.billing_profiles_guard_terms_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.payment_terms <> 'card' or new.terms_approved_at is not null or new.terms_approved_by is not null then
+      raise exception 'Invoice terms are approved by EasyDrive';
+    end if;
+    return new;
+  end if;
+
+  if new.payment_terms is distinct from old.payment_terms
+    or new.net_terms_days is distinct from old.net_terms_days
+    or new.terms_approved_at is distinct from old.terms_approved_at
+    or new.terms_approved_by is distinct from old.terms_approved_by then
+    raise exception 'Invoice terms are approved by EasyDrive';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists billing_profiles_guard_terms_columns on public.billing_profiles;
+create trigger billing_profiles_guard_terms_columns
+  before insert or update on public.billing_profiles
+  for each row execute function public.billing_profiles_guard_terms_columns();
+
+-- One statement per account and month. lines holds the orders billed on it with their tax; status is open until staff
+-- mark it paid, and an open invoice past due_at is shown as overdue.
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  customer_email text null,
+  period text not null,
+  issued_at timestamptz not null default now(),
+  due_at timestamptz not null,
+  status text not null default 'open',
+  subtotal numeric not null default 0,
+  tax numeric not null default 0,
+  total numeric not null default 0,
+  lines jsonb not null default '[]'::jsonb,
+  paid_at timestamptz null,
+  paid_reference text null,
+  paid_by uuid null references auth.users(id) on delete set null,
+  unique (user_id, period)
+);
+
+alter table public.invoices drop constraint if exists invoices_status_check;
+alter table public.invoices add constraint invoices_status_check
+  check (status in ('open', 'paid'));
+
+alter table public.invoices drop constraint if exists invoices_period_check;
+alter table public.invoices add constraint invoices_period_check
+  check (period ~ '^[0-9]{4}-(0[1-9]|1[0-2])$');
+
+alter table public.invoices enable row level security;
+
+create policy "invoices_select_own" on public.invoices
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "invoices_select_admin" on public.invoices
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.staff_profiles sp
+      where sp.user_id = auth.uid() and sp.role = 'admin'
+    )
+  );
+
+-- The statement an invoiced order was billed on; null until it is issued.
+alter table public.orders add column if not exists invoice_id uuid null references public.invoices(id) on delete set null;
+
+create index if not exists orders_invoice_id_idx on public.orders (invoice_id) where invoice_id is not null;
+
+-- An order is only placed on account for a customer an admin approved for invoice terms, whoever writes it (service
+-- role included); the state machine treats an invoiced order as paid.
+create or replace function public.orders_require_invoice_terms()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.payment_status = 'invoiced' and new.payment_status is distinct from old.payment_status
+    and not exists (
+      select 1 from public.billing_profiles bp
+      where bp.user_id = new.user_id and bp.payment_terms = 'invoice'
+    ) then
+    raise exception 'This account is not approved for invoice billing';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_require_invoice_terms on public.orders;
+create trigger orders_require_invoice_terms
+  before update on public.orders
+  for each row execute function public.orders_require_invoice_terms();
+
+-- Numbered receipts (src/orders/receipts.ts). The functions issue every receipt and credit note through
+-- issue_receipt, which gives it the next number of its series for the year (INV-2026-000001, CN-2026-000001) and
+-- stores the structured document the PDF is rendered from. Rows without a number are older text receipts, or ones
+-- customers synced from their browser.
+alter table public.receipts add column if not exists invoice_number text null;
+alter table public.receipts add column if not exists kind text not null default 'receipt';
+alter table public.receipts add column if not exists document jsonb null;
+
+alter table public.receipts drop constraint if exists receipts_kind_check;
+alter table public.receipts add constraint receipts_kind_check
+  check (kind in ('receipt', 'credit_note'));
+
+create unique index if not exists receipts_invoice_number_key on public.receipts (invoice_number) where invoice_number is not null;
+create index if not exists receipts_order_code_idx on public.receipts (order_code) where order_code is not null;
+
+create policy "receipts_select_staff" on public.receipts
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.staff_profiles sp
+      where sp.user_id = auth.uid() and sp.active = true
+    )
+  );
+
+-- The last number issued per series and year. The row is locked until the receipt is inserted, so numbers have no
+-- gaps. No policies: only issue_receipt writes it.
+create table if not exists public.receipt_number_counters (
+  series text not null,
+  year integer not null,
+  last_number integer not null default 0,
+  primary key (series, year)
+);
+
+alter table public.receipt_number_counters enable row level security;
+
+create or replace function public.issue_receipt(p_user_id uuid, p_order_code text, p_document jsonb, p_text text)
+returns public.receipts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_kind text := case when p_document->>'kind' = 'credit_note' then 'credit_note' else 'receipt' end;
+  v_series text := case when v_kind = 'credit_note' then 'CN' else 'INV' end;
+  v_year integer := extract(year from now() at time zone 'America/Toronto')::integer;
+  v_number integer;
+  v_row public.receipts;
+begin
+  insert into public.receipt_number_counters (series, year, last_number)
+  values (v_series, v_year, 1)
+  on conflict (series, year) do update set last_number = receipt_number_counters.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.receipts (user_id, order_code, text, kind, document, invoice_number)
+  values (p_user_id, p_order_code, p_text, v_kind, p_document, v_series || '-' || v_year || '-' || lpad(v_number::text, 6, '0'))
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+revoke execute on function public.issue_receipt(uuid, text, jsonb, text) from public, anon, authenticated;
+grant execute on function public.issue_receipt(uuid, text, jsonb, text) to service_role;
+
+-- Customers can still add and delete their own text receipts, but numbered ones are issued and kept by EasyDrive.
+create or replace function public.receipts_guard_numbered()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() = 'service_role' then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.invoice_number is not null or new.document is not null or new.kind <> 'receipt' then
+      raise exception 'Numbered receipts are issued by EasyDrive';
+    end if;
+    return new;
+  end if;
+
+  if old.invoice_number is not null then
+    raise exception 'Numbered receipts cannot be deleted';
+  end if;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists receipts_guard_numbered on public.receipts;
+create trigger receipts_guard_numbered
+  before insert or delete on public.receipts
+  for each row execute function public.receipts_guard_numbered();
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler as createCheckoutSession } from '../netlify/functions/create-checkout-session.mjs';
+import { handler as stripeWebhook } from '../netlify/functions/stripe-webhook.mjs';
+import { signQuoteToken } from '../src/pricing/quoteToken';
+import type { Quote } from '../src/pricing/quotes';
+import { installFakeStripe, uninstallFakeStripe, type FakeStripe } from './support/fakeStripe';
+import { installFakeSupabase, type FakeSupabase } from './support/fakeSupabase';
+
+// A customer pays an order end to end, offline: create-checkout-session against the fake Stripe and Supabase, then
+// the signed webhook events the fake sends back, through stripe-webhook.
+
+vi.mock('@supabase/supabase-js', () => import('./support/fakeSupabase'));
+
+const QUOTE_SECRET = 'quote-secret';
+const ACCESS_TOKEN = 'customer-token';
+const CUSTOMER = { id: 'customer-1', email: 'customer@example.com' };
+
+const PICKUP = '100 King St W, Toronto, ON M5X 1A9';
+const DROPOFF = '110 Laurier Ave W, Ottawa, ON K1P 1J1';
+
+const QUOTE: Quote = {
+  route_area: 'Toronto → Ottawa',
+  pricing_status: 'official',
+  pricing_version: 1,
+  service_type: 'pickup_one_way',
+  vehicle_type: 'standard',
+  vehicle_condition: 'runs_and_drives',
+  distance_km: 450,
+  base_price: 500,
+  transport_price: 500,
+  loading_fee: 0,
+  price_before_tax: 500,
+  vehicles: [],
+  legs: [],
+  multi_vehicle_discount: 0,
+  multi_vehicle_discount_percent: 0,
+  round_trip_discount: 0,
+  round_trip_discount_percent: 0,
+  service_level: 'standard',
+  service_level_fee: 0,
+  sla_days_min: 2,
+  sla_days_max: 4,
+  pickup_address: PICKUP,
+  dropoff_address: DROPOFF,
+  customer_id: CUSTOMER.id,
+};
+
+let db: FakeSupabase;
+let stripe: FakeStripe;
+
+const placeOrder = async (id: string, orderCode: string, overrides: Record<string, unknown> = {}) => {
+  const { token, payload } = await signQuoteToken(QUOTE, QUOTE_SECRET);
+  db.table('orders').push({
+    id,
+    order_code: orderCode,
+    user_id: CUSTOMER.id,
+    customer_email: CUSTOMER.email,
+    status: 'Scheduled',
+    order_stage: 'pending_payment',
+    payment_status: 'unpaid',
+    route_area: QUOTE.route_area,
+    price_before_tax: QUOTE.price_before_tax,
+    final_price_before_tax: null,
+    pricing_version: QUOTE.pricing_version,
+    quote_token: token,
+    quote_expires_at: payload.expires_at,
+    stripe_session_id: null,
+    stripe_payment_intent_id: null,
+    accessorials: [],
+    amendments: [],
+    form_data: { pickup_location: { address: PICKUP }, dropoff_location: { address: DROPOFF }, quote_id: payload.quote_id },
+    ...overrides,
+  });
+};
+
+const findOrder = (id: string) => db.table('orders').find((o) => o.id === id);
+
+const startCheckout = (orderCode: string, extra: Record<string, unknown> = {}) =>
+  createCheckoutSession({
+    httpMethod: 'POST',
+    headers: { origin: 'https://easydrive.test' },
+    body: JSON.stringify({ order_code: orderCode, access_token: ACCESS_TOKEN, ...extra }),
+  });
+
+// Pays the order through Checkout and delivers checkout.session.completed.
+const payThroughCheckout = async (orderCode: string) => {
+  const res = await startCheckout(orderCode);
+  expect(res.statusCode).toBe(200);
+  const { id } = JSON.parse(res.body);
+  const completed = stripe.completeCheckoutSession(id);
+  expect(await stripeWebhook(completed.request)).toMatchObject({ statusCode: 200, body: 'OK' });
+  return completed;
+};
+
+beforeEach(() => {
+  vi.stubEnv('SUPABASE_URL', 'https://supabase.test');
+  vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key');
+  vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+  vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_fake');
+  vi.stubEnv('STRIPE_WEBHOOK_SECRET', 'whsec_fake');
+  vi.stubEnv('QUOTE_SIGNING_SECRET', QUOTE_SECRET);
+  db = installFakeSupabase();
+  db.addUser(ACCESS_TOKEN, CUSTOMER);
+  stripe = installFakeStripe();
+});
+
+afterEach(() => {
+  uninstallFakeStripe();
+  vi.unstubAllEnvs();
+});
+
+describe('paying an order through Checkout', () => {
+  it('charges the quoted price with Ontario HST and records the payment once', async () => {
+    await placeOrder('order-1', 'ED-1001');
+
+    const res = await startCheckout('ED-1001');
+    expect(res.statusCode).toBe(200);
+    const session = stripe.sessionList[0];
+    expect(JSON.parse(res.body)).toEqual({ url: session.url, id: session.id });
+    expect(session.amount_total).toBe(56500);
+    expect(session.metadata).toMatchObject({ order_id: 'order-1', order_code: 'ED-1001' });
+    expect(findOrder('order-1')).toMatchObject({ payment_status: 'pending', stripe_session_id: session.id });
+
+    const { event, request } = stripe.completeCheckoutSession(session.id);
+    expect(await stripeWebhook(request)).toMatchObject({ statusCode: 200, body: 'OK' });
+
+    const paymentIntentId = (event.data.object as { payment_intent: string }).payment_intent;
+    expect(findOrder('order-1')).toMatchObject({ payment_status: 'paid', stripe_payment_intent_id: paymentIntentId });
+    expect(db.table('stripe_events')).toEqual([expect.objectContaining({ id: event.id, status: 'processed', order_id: 'order-1' })]);
+    expect(db.table('receipts')).toEqual([
+      expect.objectContaining({
+        order_code: 'ED-1001',
+        kind: 'receipt',
+        invoice_number: `INV-${new Date().getFullYear()}-000001`,
+        document: expect.objectContaining({ total: 565, payment_reference: paymentIntentId }),
+      }),
+    ]);
+
+    // Stripe delivers an event again until it gets a 2xx; a processed one is not applied twice.
+    expect(await stripeWebhook(request)).toMatchObject({ statusCode: 200, body: 'Already processed' });
+    expect(db.table('receipts')).toHaveLength(1);
+  });
+
+  it('refuses a webhook that was not signed with the endpoint secret', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    await startCheckout('ED-1001');
+    const { request } = stripe.completeCheckoutSession(stripe.sessionList[0].id);
+
+    const forged = { ...request, headers: { 'stripe-signature': 't=1,v1=0000' } };
+    expect(await stripeWebhook(forged)).toMatchObject({ statusCode: 400 });
+    expect(findOrder('order-1')).toMatchObject({ payment_status: 'pending' });
+  });
+
+  it('charges the saved card again after a decline', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    await payThroughCheckout('ED-1001');
+    await placeOrder('order-2', 'ED-1002');
+
+    stripe.declineNextCharge('card_declined');
+    expect(await startCheckout('ED-1002', { payment_method: 'saved_card' })).toMatchObject({ statusCode: 402 });
+
+    const retry = await startCheckout('ED-1002', { payment_method: 'saved_card' });
+    expect(retry.statusCode).toBe(200);
+    expect(JSON.parse(retry.body)).toMatchObject({ paid: true });
+    expect(findOrder('order-2')).toMatchObject({ payment_status: 'paid' });
+  });
+});
+
+describe('paying an order twice', () => {
+  it('closes the open checkout when a new one starts', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    await startCheckout('ED-1001');
+    await startCheckout('ED-1001');
+
+    expect(stripe.sessionList.map((s) => s.status)).toEqual(['expired', 'open']);
+    expect(findOrder('order-1')).toMatchObject({ stripe_session_id: stripe.sessionList[1].id });
+  });
+
+  it('refunds a second payment and keeps the first on the order', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    // The first checkout was paid before its webhook arrived, so it could no longer be closed.
+    const first = stripe.completeCheckoutSession(JSON.parse((await startCheckout('ED-1001')).body).id);
+    const second = stripe.completeCheckoutSession(JSON.parse((await startCheckout('ED-1001')).body).id);
+    expect(await stripeWebhook(first.request)).toMatchObject({ statusCode: 200, body: 'OK' });
+    expect(await stripeWebhook(second.request)).toMatchObject({ statusCode: 200, body: 'OK' });
+
+    const firstPayment = (first.event.data.object as { payment_intent: string }).payment_intent;
+    const secondPayment = (second.event.data.object as { payment_intent: string }).payment_intent;
+    expect(findOrder('order-1')).toMatchObject({ payment_status: 'paid', stripe_payment_intent_id: firstPayment });
+    expect(db.table('receipts')).toEqual([expect.objectContaining({ document: expect.objectContaining({ payment_reference: firstPayment }) })]);
+    expect(stripe.refundList).toEqual([
+      expect.objectContaining({ payment_intent: secondPayment, amount: 56500, metadata: expect.objectContaining({ purpose: 'duplicate' }) }),
+    ]);
+    expect(db.table('order_events')).toContainEqual(
+      expect.objectContaining({ order_id: 'order-1', note: `Duplicate payment refunded: $565.00 (${secondPayment})` })
+    );
+  });
+});
+
+describe('cancelled and refunded orders', () => {
+  it('takes no payment through Checkout or the saved card', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    await payThroughCheckout('ED-1001');
+    await placeOrder('order-2', 'ED-1002', { order_stage: 'cancelled' });
+    await placeOrder('order-3', 'ED-1003', { payment_status: 'refunded' });
+    await placeOrder('order-4', 'ED-1004', { payment_status: 'partially_refunded' });
+    const sessionCount = stripe.sessionList.length;
+    const paymentCount = stripe.paymentIntentList.length;
+
+    for (const orderCode of ['ED-1002', 'ED-1003', 'ED-1004']) {
+      expect(await startCheckout(orderCode)).toMatchObject({ statusCode: 409 });
+      expect(await startCheckout(orderCode, { payment_method: 'saved_card' })).toMatchObject({ statusCode: 409 });
+    }
+
+    expect(stripe.sessionList).toHaveLength(sessionCount);
+    expect(stripe.paymentIntentList).toHaveLength(paymentCount);
+    expect(findOrder('order-2')).toMatchObject({ order_stage: 'cancelled', payment_status: 'unpaid', stripe_session_id: null });
+    expect(db.table('receipts')).toHaveLength(1);
+  });
+});
+
+describe('refunds made from the Stripe dashboard', () => {
+  it('records each refund once, whichever event arrives first', async () => {
+    await placeOrder('order-1', 'ED-1001');
+    await payThroughCheckout('ED-1001');
+    const paymentIntentId = String(findOrder('order-1')?.stripe_payment_intent_id);
+
+    const first = stripe.refundPayment(paymentIntentId, 5000);
+    const second = stripe.refundPayment(paymentIntentId, 2000);
+    expect(await stripeWebhook(second.request)).toMatchObject({ statusCode: 200 });
+    expect(await stripeWebhook(first.request)).toMatchObject({ statusCode: 200 });
+
+    expect(findOrder('order-1')).toMatchObject({
+      payment_status: 'partially_refunded',
+      stripe_refunds: [expect.objectContaining({ id: first.refund.id, amount: 50 }), expect.objectContaining({ id: second.refund.id, amount: 20 })],
+    });
+    const creditNotes = db.table('receipts').filter((r) => r.kind === 'credit_note');
+    expect(creditNotes.map((r) => (r.document as { payment_reference: string }).payment_reference)).toEqual([first.refund.id, second.refund.id]);
+  });
+});
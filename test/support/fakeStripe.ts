@@ -0,0 +1,532 @@
+import Stripe from 'stripe';
+import { STRIPE_API_VERSION, setStripeClientFactory } from '../../src/lib/stripeServer';
+
+// An in-memory stand-in for the part of the Stripe API the Netlify functions use, for end-to-end runs on a machine
+// with no network (test/checkout.test.ts, with fakeSupabase.ts). Install it, call the functions as the app would, then
+// complete (or expire, refund, dispute) the Checkout sessions it recorded: each of those returns the webhook event and
+// a signed request to pass to stripe-webhook's handler. Signatures use Stripe's own scheme, so STRIPE_WEBHOOK_SECRET
+// must be the fake's webhookSecret.
+//
+//   const stripe = installFakeStripe();
+//   await createCheckoutSession({ httpMethod: 'POST', body: JSON.stringify({ order_code, access_token }) });
+//   const { request } = stripe.completeCheckoutSession(stripe.sessionList[0].id);
+//   await stripeWebhook(request);
+
+type Params = Record<string, unknown>;
+
+const readRecord = (v: unknown): Params => (v && typeof v === 'object' && !Array.isArray(v) ? (v as Params) : {});
+const readList = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+const readText = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+const readCents = (v: unknown) => (Number.isFinite(Number(v)) ? Math.round(Number(v)) : 0);
+const readMetadata = (v: unknown): Record<string, string> =>
+  Object.fromEntries(Object.entries(readRecord(v)).map(([k, value]) => [k, String(value ?? '')]));
+
+export type FakeCard = {
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+};
+
+export const FAKE_CARD: FakeCard = { brand: 'visa', last4: '4242', exp_month: 12, exp_year: 2034 };
+
+export type FakeCustomer = { id: string; object: 'customer'; email: string | null; metadata: Record<string, string> };
+
+export type FakePaymentMethod = { id: string; object: 'payment_method'; type: 'card'; customer: string | null; card: FakeCard };
+
+export type FakeCheckoutSession = {
+  id: string;
+  object: 'checkout.session';
+  url: string;
+  mode: string;
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'unpaid' | 'paid';
+  customer: string | null;
+  customer_email: string | null;
+  client_reference_id: string | null;
+  currency: string;
+  amount_total: number;
+  metadata: Record<string, string>;
+  payment_intent: string | null;
+  created: number;
+  expires_at: number;
+  // What the function asked for, line items and all.
+  params: Params;
+};
+
+export type FakePaymentIntent = {
+  id: string;
+  object: 'payment_intent';
+  amount: number;
+  amount_received: number;
+  currency: string;
+  customer: string | null;
+  payment_method: string | null;
+  description: string | null;
+  status: 'succeeded' | 'processing' | 'requires_action' | 'requires_payment_method' | 'canceled';
+  metadata: Record<string, string>;
+  latest_charge: string | null;
+  created: number;
+};
+
+export type FakeCharge = {
+  id: string;
+  object: 'charge';
+  amount: number;
+  amount_captured: number;
+  amount_refunded: number;
+  refunded: boolean;
+  disputed: boolean;
+  status: 'succeeded' | 'pending' | 'failed';
+  payment_intent: string;
+  currency: string;
+  metadata: Record<string, string>;
+  created: number;
+};
+
+export type FakeRefund = {
+  id: string;
+  object: 'refund';
+  amount: number;
+  charge: string;
+  payment_intent: string;
+  status: 'succeeded';
+  reason: string | null;
+  metadata: Record<string, string>;
+  created: number;
+};
+
+// A webhook event and the Netlify request that delivers it, signed with the fake's webhook secret.
+export type FakeWebhookDelivery = {
+  event: { id: string; object: 'event'; type: string; api_version: string; created: number; livemode: false; data: { object: unknown } };
+  request: { httpMethod: 'POST'; headers: Record<string, string>; body: string; isBase64Encoded: false };
+};
+
+// Thrown like Stripe's card errors: `code`, and the PaymentIntent in `raw` when the bank asks for 3-D Secure.
+export class FakeStripeCardError extends Error {
+  type = 'StripeCardError';
+  code: string;
+  raw: { payment_intent: FakePaymentIntent | null };
+
+  constructor(message: string, code: string, paymentIntent: FakePaymentIntent | null) {
+    super(message);
+    this.code = code;
+    this.raw = { payment_intent: paymentIntent };
+  }
+}
+
+// Stripe's list calls can be awaited for one page or iterated with `for await` through all of them.
+const toList = <T>(items: T[]) =>
+  Object.assign(Promise.resolve({ object: 'list' as const, data: items, has_more: false }), {
+    async *[Symbol.asyncIterator]() {
+      yield* items;
+    },
+  });
+
+export class FakeStripe {
+  readonly webhookSecret: string;
+
+  readonly customerList: FakeCustomer[] = [];
+  readonly sessionList: FakeCheckoutSession[] = [];
+  readonly paymentIntentList: FakePaymentIntent[] = [];
+  readonly chargeList: FakeCharge[] = [];
+  readonly refundList: FakeRefund[] = [];
+  readonly paymentMethodList: FakePaymentMethod[] = [];
+  readonly couponList: Params[] = [];
+
+  private seq = 0;
+  private clock: number;
+  private nextDecline: { code: string; message: string } | null = null;
+  private readonly idempotent = new Map<string, FakePaymentIntent>();
+  // Stripe's real webhook helpers, which sign and verify without calling the API.
+  readonly webhooks: Stripe['webhooks'];
+
+  constructor(options: { webhookSecret?: string; now?: Date } = {}) {
+    this.webhookSecret = options.webhookSecret ?? 'whsec_fake';
+    this.clock = Math.floor((options.now ?? new Date()).getTime() / 1000);
+    this.webhooks = new Stripe('sk_test_fake', { apiVersion: STRIPE_API_VERSION as Stripe.LatestApiVersion }).webhooks;
+  }
+
+  private makeId(prefix: string) {
+    this.seq += 1;
+    return `${prefix}_fake_${String(this.seq).padStart(6, '0')}`;
+  }
+
+  private tick() {
+    this.clock += 1;
+    return this.clock;
+  }
+
+  private findPaymentIntent(id: string) {
+    const paymentIntent = this.paymentIntentList.find((p) => p.id === id);
+    if (!paymentIntent) throw Object.assign(new Error(`No such payment_intent: '${id}'`), { code: 'resource_missing' });
+    return paymentIntent;
+  }
+
+  private findSession(id: string) {
+    const session = this.sessionList.find((s) => s.id === id);
+    if (!session) throw Object.assign(new Error(`No such checkout session: '${id}'`), { code: 'resource_missing' });
+    return session;
+  }
+
+  private chargeFor(paymentIntent: FakePaymentIntent) {
+    return this.chargeList.find((c) => c.id === paymentIntent.latest_charge) ?? null;
+  }
+
+  // A succeeded payment: the PaymentIntent and its charge.
+  private pay(input: { amount: number; currency: string; customer: string | null; paymentMethod: string | null; description: string | null; metadata: Record<string, string> }) {
+    const created = this.tick();
+    const paymentIntent: FakePaymentIntent = {
+      id: this.makeId('pi'),
+      object: 'payment_intent',
+      amount: input.amount,
+      amount_received: input.amount,
+      currency: input.currency,
+      customer: input.customer,
+      payment_method: input.paymentMethod,
+      description: input.description,
+      status: 'succeeded',
+      metadata: input.metadata,
+      latest_charge: null,
+      created,
+    };
+    const charge: FakeCharge = {
+      id: this.makeId('ch'),
+      object: 'charge',
+      amount: input.amount,
+      amount_captured: input.amount,
+      amount_refunded: 0,
+      refunded: false,
+      disputed: false,
+      status: 'succeeded',
+      payment_intent: paymentIntent.id,
+      currency: input.currency,
+      metadata: {},
+      created,
+    };
+    paymentIntent.latest_charge = charge.id;
+    this.paymentIntentList.push(paymentIntent);
+    this.chargeList.push(charge);
+    return paymentIntent;
+  }
+
+  // Saves a card on the customer, as a checkout with setup_future_usage does.
+  addCard(customerId: string, card: FakeCard = FAKE_CARD) {
+    const paymentMethod: FakePaymentMethod = { id: this.makeId('pm'), object: 'payment_method', type: 'card', customer: customerId, card };
+    this.paymentMethodList.push(paymentMethod);
+    return paymentMethod;
+  }
+
+  // The next off-session charge fails: 'card_declined', or 'authentication_required' for a 3-D Secure request.
+  declineNextCharge(code: 'card_declined' | 'authentication_required' = 'card_declined', message = 'Your card was declined.') {
+    this.nextDecline = { code, message };
+  }
+
+  signEvent(type: string, object: unknown): FakeWebhookDelivery {
+    const event = {
+      id: this.makeId('evt'),
+      object: 'event' as const,
+      type,
+      api_version: STRIPE_API_VERSION,
+      created: this.tick(),
+      livemode: false as const,
+      data: { object },
+    };
+    const body = JSON.stringify(event, null, 2);
+    const signature = this.webhooks.generateTestHeaderString({ payload: body, secret: this.webhookSecret });
+    return { event, request: { httpMethod: 'POST', headers: { 'stripe-signature': signature }, body, isBase64Encoded: false } };
+  }
+
+  // The customer pays in Checkout. A bank debit (`delayed: true`) completes unpaid; settle it with settleAsyncPayment.
+  completeCheckoutSession(sessionId: string, options: { card?: FakeCard; delayed?: boolean } = {}) {
+    const session = this.findSession(sessionId);
+    if (session.status !== 'open') throw new Error(`Checkout session ${sessionId} is ${session.status}`);
+
+    const intentData = readRecord(session.params.payment_intent_data);
+    const customer = session.customer;
+    const paymentMethod = customer ? this.addCard(customer, options.card) : null;
+    const paymentIntent = this.pay({
+      amount: session.amount_total,
+      currency: session.currency,
+      customer,
+      paymentMethod: paymentMethod?.id ?? null,
+      description: readText(intentData.description),
+      metadata: readMetadata(intentData.metadata),
+    });
+    // Only a card Checkout saved for later stays on the customer.
+    if (paymentMethod && !readText(intentData.setup_future_usage)) {
+      this.paymentMethodList.splice(this.paymentMethodList.indexOf(paymentMethod), 1);
+    }
+
+    session.status = 'complete';
+    session.payment_intent = paymentIntent.id;
+    if (options.delayed) {
+      paymentIntent.status = 'processing';
+      const charge = this.chargeFor(paymentIntent);
+      if (charge) charge.status = 'pending';
+      return this.signEvent('checkout.session.completed', { ...session });
+    }
+    session.payment_status = 'paid';
+    return this.signEvent('checkout.session.completed', { ...session });
+  }
+
+  settleAsyncPayment(sessionId: string, succeeded = true) {
+    const session = this.findSession(sessionId);
+    const paymentIntent = session.payment_intent ? this.findPaymentIntent(session.payment_intent) : null;
+    const charge = paymentIntent ? this.chargeFor(paymentIntent) : null;
+    if (succeeded) {
+      session.payment_status = 'paid';
+      if (paymentIntent) paymentIntent.status = 'succeeded';
+      if (charge) charge.status = 'succeeded';
+      return this.signEvent('checkout.session.async_payment_succeeded', { ...session });
+    }
+    if (paymentIntent) paymentIntent.status = 'canceled';
+    if (charge) charge.status = 'failed';
+    return this.signEvent('checkout.session.async_payment_failed', { ...session });
+  }
+
+  expireCheckoutSession(sessionId: string) {
+    const session = this.findSession(sessionId);
+    session.status = 'expired';
+    return this.signEvent('checkout.session.expired', { ...session });
+  }
+
+  // A refund made from the Stripe dashboard (no purpose in its metadata).
+  refundPayment(paymentIntentId: string, amount?: number) {
+    const paymentIntent = this.findPaymentIntent(paymentIntentId);
+    const refund = this.createRefund({ payment_intent: paymentIntentId, amount: amount ?? paymentIntent.amount_received });
+    const charge = this.chargeFor(paymentIntent);
+    return { refund, ...this.signEvent('charge.refunded', { ...charge }) };
+  }
+
+  disputePayment(paymentIntentId: string, reason = 'fraudulent') {
+    const paymentIntent = this.findPaymentIntent(paymentIntentId);
+    const charge = this.chargeFor(paymentIntent);
+    if (charge) charge.disputed = true;
+    const created = this.tick();
+    return this.signEvent('charge.dispute.created', {
+      id: this.makeId('dp'),
+      object: 'dispute',
+      amount: paymentIntent.amount_received,
+      charge: charge?.id ?? null,
+      payment_intent: paymentIntent.id,
+      reason,
+      status: 'needs_response',
+      created,
+      evidence_details: { due_by: created + 7 * 24 * 60 * 60 },
+    });
+  }
+
+  private createRefund(params: Params) {
+    const paymentIntent = this.findPaymentIntent(String(params.payment_intent ?? ''));
+    const charge = this.chargeFor(paymentIntent);
+    if (!charge) throw new Error(`Payment ${paymentIntent.id} has no charge to refund`);
+    const amount = params.amount === undefined ? charge.amount - charge.amount_refunded : readCents(params.amount);
+    if (amount <= 0 || charge.amount_refunded + amount > charge.amount) {
+      throw Object.assign(new Error('Refund amount is greater than the unrefunded amount on the charge'), { code: 'amount_too_large' });
+    }
+    charge.amount_refunded += amount;
+    charge.refunded = charge.amount_refunded >= charge.amount;
+    const refund: FakeRefund = {
+      id: this.makeId('re'),
+      object: 'refund',
+      amount,
+      charge: charge.id,
+      payment_intent: paymentIntent.id,
+      status: 'succeeded',
+      reason: readText(params.reason),
+      metadata: readMetadata(params.metadata),
+      created: this.tick(),
+    };
+    this.refundList.push(refund);
+    return refund;
+  }
+
+  // The Stripe API, as far as the functions call it.
+
+  readonly customers = {
+    create: async (params: Params = {}) => {
+      const customer: FakeCustomer = {
+        id: this.makeId('cus'),
+        object: 'customer',
+        email: readText(params.email),
+        metadata: readMetadata(params.metadata),
+      };
+      this.customerList.push(customer);
+      return customer;
+    },
+  };
+
+  readonly coupons = {
+    create: async (params: Params = {}) => {
+      const coupon = { id: this.makeId('coupon'), object: 'coupon', ...params };
+      this.couponList.push(coupon);
+      return coupon;
+    },
+  };
+
+  readonly checkout = {
+    sessions: {
+      create: async (params: Params = {}) => {
+        const lineTotal = readList(params.line_items).reduce<number>((sum, item) => {
+          const line = readRecord(item);
+          return sum + readCents(readRecord(line.price_data).unit_amount) * (Number(line.quantity) || 1);
+        }, 0);
+        const discount = readList(params.discounts).reduce<number>((sum, d) => {
+          const coupon = this.couponList.find((c) => c.id === readRecord(d).coupon);
+          return sum + readCents(coupon?.amount_off);
+        }, 0);
+        const created = this.tick();
+        const id = this.makeId('cs');
+        const session: FakeCheckoutSession = {
+          id,
+          object: 'checkout.session',
+          url: `https://checkout.stripe.test/pay/${id}`,
+          mode: String(params.mode ?? 'payment'),
+          status: 'open',
+          payment_status: 'unpaid',
+          customer: readText(params.customer),
+          customer_email: readText(params.customer_email),
+          client_reference_id: readText(params.client_reference_id),
+          currency: String(params.currency ?? 'cad'),
+          amount_total: Math.max(0, lineTotal - discount),
+          metadata: readMetadata(params.metadata),
+          payment_intent: null,
+          created,
+          expires_at: created + 24 * 60 * 60,
+          params,
+        };
+        this.sessionList.push(session);
+        return { ...session };
+      },
+      retrieve: async (id: string) => ({ ...this.findSession(id) }),
+      expire: async (id: string) => {
+        const session = this.findSession(id);
+        if (session.status !== 'open') throw Object.assign(new Error(`Checkout session ${id} is ${session.status}`), { code: 'session_not_open' });
+        session.status = 'expired';
+        return { ...session };
+      },
+    },
+  };
+
+  readonly paymentIntents = {
+    // Off-session charges to a saved card; they succeed unless declineNextCharge was called.
+    create: async (params: Params = {}, options: { idempotencyKey?: string } = {}) => {
+      const key = options.idempotencyKey;
+      const previous = key ? this.idempotent.get(key) : undefined;
+      if (previous) return { ...previous };
+
+      const decline = this.nextDecline;
+      this.nextDecline = null;
+      // Stripe keeps the declined payment intent, waiting for another card or for the customer to authenticate.
+      if (decline) {
+        const declined: FakePaymentIntent = {
+          id: this.makeId('pi'),
+          object: 'payment_intent',
+          amount: readCents(params.amount),
+          amount_received: 0,
+          currency: String(params.currency ?? 'cad'),
+          customer: readText(params.customer),
+          payment_method: readText(params.payment_method),
+          description: readText(params.description),
+          status: decline.code === 'authentication_required' ? 'requires_action' : 'requires_payment_method',
+          metadata: readMetadata(params.metadata),
+          latest_charge: null,
+          created: this.tick(),
+        };
+        this.paymentIntentList.push(declined);
+        throw new FakeStripeCardError(decline.message, decline.code, declined);
+      }
+
+      const paymentIntent = this.pay({
+        amount: readCents(params.amount),
+        currency: String(params.currency ?? 'cad'),
+        customer: readText(params.customer),
+        paymentMethod: readText(params.payment_method),
+        description: readText(params.description),
+        metadata: readMetadata(params.metadata),
+      });
+      if (key) this.idempotent.set(key, paymentIntent);
+      return { ...paymentIntent };
+    },
+    list: (params: Params = {}) => {
+      const created = readRecord(params.created);
+      return toList(
+        this.paymentIntentList
+          .filter((p) => !params.customer || p.customer === params.customer)
+          .filter((p) => created.gte === undefined || p.created >= Number(created.gte))
+          .slice()
+          .reverse()
+          .map((p) => ({ ...p }))
+      );
+    },
+    retrieve: async (id: string, params: Params = {}) => {
+      const paymentIntent = this.findPaymentIntent(id);
+      const expand = readList(params.expand);
+      return {
+        ...paymentIntent,
+        ...(expand.includes('latest_charge') ? { latest_charge: this.chargeFor(paymentIntent) } : {}),
+      };
+    },
+    cancel: async (id: string) => {
+      const paymentIntent = this.findPaymentIntent(id);
+      paymentIntent.status = 'canceled';
+      return { ...paymentIntent };
+    },
+  };
+
+  readonly paymentMethods = {
+    list: async (params: Params = {}) => ({
+      object: 'list' as const,
+      data: this.paymentMethodList.filter((p) => p.customer === params.customer).reverse(),
+      has_more: false,
+    }),
+    retrieve: async (id: string) => {
+      const paymentMethod = this.paymentMethodList.find((p) => p.id === id);
+      if (!paymentMethod) throw Object.assign(new Error(`No such payment_method: '${id}'`), { code: 'resource_missing' });
+      return { ...paymentMethod };
+    },
+  };
+
+  readonly refunds = {
+    create: async (params: Params = {}) => ({ ...this.createRefund(params) }),
+    list: (params: Params = {}) => {
+      const created = readRecord(params.created);
+      return toList(
+        this.refundList
+          .filter((r) => !params.charge || r.charge === params.charge)
+          .filter((r) => created.gte === undefined || r.created >= Number(created.gte))
+          .filter((r) => created.lt === undefined || r.created < Number(created.lt))
+          .slice()
+          .reverse()
+          .slice(0, params.charge ? readCents(params.limit) || 10 : undefined)
+      );
+    },
+  };
+
+  readonly charges = {
+    list: (params: Params = {}) => {
+      const created = readRecord(params.created);
+      const expandIntent = readList(params.expand).includes('data.payment_intent');
+      return toList(
+        this.chargeList
+          .filter((c) => created.gte === undefined || c.created >= Number(created.gte))
+          .filter((c) => created.lt === undefined || c.created < Number(created.lt))
+          .map((c) => (expandIntent ? { ...c, payment_intent: { ...this.findPaymentIntent(c.payment_intent) } } : { ...c }))
+      );
+    },
+  };
+
+  // The fake never pays out.
+  readonly payouts = { list: () => toList<Params>([]) };
+
+  readonly balanceTransactions = { list: () => toList<Params>([]) };
+}
+
+// Every function now gets this fake as its Stripe client; uninstallFakeStripe goes back to the live API.
+export const installFakeStripe = (fake: FakeStripe = new FakeStripe()) => {
+  setStripeClientFactory(() => fake as unknown as Stripe);
+  return fake;
+};
+
+export const uninstallFakeStripe = () => setStripeClientFactory(null);
@@ -0,0 +1,252 @@
+// An in-memory stand-in for the part of supabase-js the Netlify functions use: tables as arrays of rows, the query
+// builder's filters, the issue_receipt function and auth.getUser. It exports its own createClient, so a test swaps
+// the real module for this one and installs a fake for each run:
+//
+//   vi.mock('@supabase/supabase-js', () => import('./support/fakeSupabase'));
+//   const db = installFakeSupabase();
+//   db.addUser('token', { id: 'user-1', email: 'customer@example.com' });
+//   db.table('orders').push({ id: 'order-1', ... });
+//
+// Row-level security and the triggers in supabase/schema.sql are not applied: every client acts as the service role.
+
+type Row = Record<string, unknown>;
+
+type FakeError = { code: string; message: string };
+
+type FakeResult = { data: unknown; error: FakeError | null };
+
+export type FakeUser = { id: string; email: string };
+
+// Columns a duplicate insert fails on, as the primary keys and unique indexes do in Postgres.
+const UNIQUE_COLUMNS: Record<string, string> = { billing_profiles: 'user_id' };
+
+// "document->>payment_reference" reads a key of a jsonb column, as PostgREST does.
+const readColumn = (row: Row, column: string): unknown => {
+  const [name, ...path] = column.split(/->>?/);
+  return path.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Row)[key] : undefined),
+    row[name]
+  );
+};
+
+const isEqual = (value: unknown, expected: unknown) => value !== null && value !== undefined && String(value) === String(expected);
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private readonly filters: ((row: Row) => boolean)[] = [];
+  private action: 'select' | 'insert' | 'update' | 'upsert' = 'select';
+  private values: Row[] = [];
+  private conflictColumn: string | null = null;
+  private sortColumn: string | null = null;
+  private ascending = true;
+  private maxRows: number | null = null;
+
+  constructor(
+    private readonly db: FakeSupabase,
+    private readonly tableName: string
+  ) {}
+
+  // Columns are not narrowed: every row comes back whole.
+  select() {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => isEqual(readColumn(row, column), value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => !isEqual(readColumn(row, column), value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.some((value) => isEqual(readColumn(row, column), value)));
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push((row) => (readColumn(row, column) ?? null) === value);
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => String(readColumn(row, column) ?? '') >= String(value));
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => String(readColumn(row, column) ?? '') < String(value));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sortColumn = column;
+    this.ascending = options.ascending !== false;
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumn = options.onConflict ?? UNIQUE_COLUMNS[this.tableName] ?? 'id';
+    return this;
+  }
+
+  async single(): Promise<FakeResult> {
+    const { data, error } = this.run();
+    if (error) return { data: null, error };
+    const rows = data as Row[];
+    if (rows.length !== 1) return { data: null, error: { code: 'PGRST116', message: `Expected one row, got ${rows.length}` } };
+    return { data: rows[0], error: null };
+  }
+
+  async maybeSingle(): Promise<FakeResult> {
+    const { data, error } = this.run();
+    if (error) return { data: null, error };
+    return { data: (data as Row[])[0] ?? null, error: null };
+  }
+
+  then<A = FakeResult, B = never>(
+    onfulfilled?: ((value: FakeResult) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return this.db.table(this.tableName).filter((row) => this.filters.every((f) => f(row)));
+  }
+
+  private run(): FakeResult {
+    const table = this.db.table(this.tableName);
+
+    if (this.action === 'insert') {
+      const unique = UNIQUE_COLUMNS[this.tableName] ?? 'id';
+      const rows = this.values.map((values) => this.db.withDefaults(values));
+      const duplicate = rows.find((row) => table.some((existing) => isEqual(existing[unique], row[unique])));
+      if (duplicate) {
+        return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${this.tableName}.${unique}` } };
+      }
+      table.push(...rows);
+      return { data: copy(rows), error: null };
+    }
+
+    if (this.action === 'upsert') {
+      const column = this.conflictColumn ?? 'id';
+      const rows = this.values.map((values) => {
+        const existing = table.find((row) => isEqual(row[column], values[column]));
+        if (existing) return Object.assign(existing, copy(values));
+        const row = this.db.withDefaults(values);
+        table.push(row);
+        return row;
+      });
+      return { data: copy(rows), error: null };
+    }
+
+    if (this.action === 'update') {
+      const rows = this.matching();
+      for (const row of rows) Object.assign(row, copy(this.values[0]));
+      return { data: copy(rows), error: null };
+    }
+
+    let rows = this.matching();
+    const sortColumn = this.sortColumn;
+    if (sortColumn) {
+      const direction = this.ascending ? 1 : -1;
+      rows = rows.slice().sort((a, b) => (String(readColumn(a, sortColumn)) < String(readColumn(b, sortColumn)) ? -direction : direction));
+    }
+    if (this.maxRows !== null) rows = rows.slice(0, this.maxRows);
+    return { data: copy(rows), error: null };
+  }
+}
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]> = {};
+
+  private seq = 0;
+  private readonly users = new Map<string, FakeUser>();
+  private readonly receiptNumbers = new Map<string, number>();
+
+  table(name: string) {
+    this.tables[name] ??= [];
+    return this.tables[name];
+  }
+
+  // auth.getUser() on a client created with this access token signs in as the user.
+  addUser(accessToken: string, user: FakeUser) {
+    this.users.set(accessToken, user);
+  }
+
+  withDefaults(values: Row): Row {
+    this.seq += 1;
+    return { id: `${String(this.seq).padStart(8, '0')}-fake`, created_at: new Date().toISOString(), ...copy(values) };
+  }
+
+  client(headers: Record<string, string> = {}) {
+    const accessToken = String(headers.Authorization ?? '').replace(/^Bearer\s+/i, '');
+    return {
+      from: (table: string) => new FakeQuery(this, table),
+      rpc: (name: string, args: Row) => this.rpc(name, args),
+      auth: {
+        getUser: async () => {
+          const user = this.users.get(accessToken);
+          return user
+            ? { data: { user: { ...user } }, error: null }
+            : { data: { user: null }, error: { code: 'invalid_jwt', message: 'Invalid access token' } };
+        },
+      },
+    };
+  }
+
+  // issue_receipt numbers each series per year without gaps; the year is the test machine's.
+  private rpc(name: string, args: Row) {
+    if (name !== 'issue_receipt') throw new Error(`The fake has no function ${name}`);
+    const document = args.p_document as Row | null;
+    const kind = document?.kind === 'credit_note' ? 'credit_note' : 'receipt';
+    const series = kind === 'credit_note' ? 'CN' : 'INV';
+    const year = new Date().getFullYear();
+    const number = (this.receiptNumbers.get(`${series}-${year}`) ?? 0) + 1;
+    this.receiptNumbers.set(`${series}-${year}`, number);
+    return new FakeQuery(this, 'receipts').insert({
+      user_id: args.p_user_id,
+      order_code: args.p_order_code,
+      text: args.p_text,
+      kind,
+      document,
+      invoice_number: `${series}-${year}-${String(number).padStart(6, '0')}`,
+    });
+  }
+}
+
+let installed: FakeSupabase | null = null;
+
+// Every createClient call, in the functions and in the test, now uses this fake's tables.
+export const installFakeSupabase = (fake: FakeSupabase = new FakeSupabase()) => {
+  installed = fake;
+  return fake;
+};
+
+export const createClient = (_url: string, _key: string, options: { global?: { headers?: Record<string, string> } } = {}) => {
+  if (!installed) throw new Error('Call installFakeSupabase() before the functions create a Supabase client');
+  return installed.client(options.global?.headers);
+};